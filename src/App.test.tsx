@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import App from "./App";
+import { translations } from "./i18n";
+
+const en = translations.en;
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let container: HTMLDivElement;
+let root: Root;
+
+beforeEach(async () => {
+  localStorage.clear();
+  container = document.createElement("div");
+  document.body.append(container);
+  root = createRoot(container);
+  await act(async () => root.render(<App />));
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+const button = (text: string) =>
+  [...container.querySelectorAll("button")].find((b) => b.textContent === text)!;
+const press = (target: EventTarget, key: string) =>
+  act(async () => {
+    target.dispatchEvent(new KeyboardEvent("keydown", { key, bubbles: true }));
+  });
+const movesLogged = () => container.querySelectorAll("ol li").length;
+
+describe("AnchorHex keyboard shortcuts", () => {
+  it("leaves the game alone while typing in a form control", async () => {
+    // Play the cell under the keyboard cursor
+    await press(container.querySelector("svg[role=grid]")!, "Enter");
+    expect(movesLogged()).toBe(1);
+
+    await act(async () => button(en.online).click());
+    const code = container.querySelector<HTMLInputElement>(
+      `input[placeholder="${en.onlineRoom}"]`,
+    )!;
+    for (const key of "RU7K2P") await press(code, key);
+    expect(movesLogged()).toBe(1);
+
+    // Type-ahead in the multi-tab seat picker
+    await act(async () => button(en.tabs).click());
+    const seat = [...container.querySelectorAll("select")].find((x) =>
+      x.textContent?.includes(en.tabsSeats.spectator),
+    )!;
+    await press(seat, "r");
+    expect(movesLogged()).toBe(1);
+
+    // Outside a form control, R still restarts
+    await press(document.body, "r");
+    expect(movesLogged()).toBe(0);
+  });
+});
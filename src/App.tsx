@@ -1,138 +1,188 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
-  ROWS,
-  COLS,
   EMPTY,
   WHITE_STONE,
   BLACK_STONE,
   WHITE_BASE,
   BLACK_BASE,
-  makeInitialBoard,
-  computeLegalMoves,
   bfsFromBase,
-  computeAreaScore,
-  cloneBoard,
-  boardHash,
-  placeStone,
+  previewMove,
+  validatePosition,
 } from "./game/engine";
+import {
+  completeMove,
+  flagClock,
+  newClock,
+  pauseClock,
+  readClock,
+  restoreClock,
+  resumeClock,
+  runClock,
+  timeUp,
+  type ClockState,
+  type TimeControl,
+} from "./game/clock";
+import {
+  clearBoard,
+  paintCell,
+  removeDeadStones,
+  type EditorPosition,
+  type EditorTool,
+} from "./game/editor";
+import {
+  applyAction,
+  gameFromPosition,
+  legalMovesFor,
+  newGame,
+  opponent,
+  scoreGame,
+  totalCaptures,
+  type GameAction,
+  type GameState,
+} from "./game/state";
+import { BOT_LEVELS, chooseBotMove, type BotLevel } from "./game/bot";
+import type { MctsResult } from "./game/mcts";
+import { createMctsClient, type MctsClient } from "./game/mctsClient";
+import {
+  formatGameLink,
+  formatPositionLink,
+  parseLink,
+  type LinkError,
+} from "./game/link";
+import { formatCoord, formatMove, type Move } from "./game/notation";
+import { puzzleMove, puzzleStart, startPuzzle, type PuzzleAttempt } from "./game/puzzle";
+import { PUZZLES } from "./game/puzzles";
+import {
+  parseGameRecord,
+  serializeGame,
+  type Players,
+  type RecordError,
+} from "./game/record";
+import type { Ruleset } from "./game/rules";
+import {
+  currentNode,
+  getNode,
+  goBack,
+  goForward,
+  goTo,
+  goToEnd,
+  goToStart,
+  lineThrough,
+  newTree,
+  playMove,
+  plyInLine,
+  switchVariation,
+  treeFromHistory,
+  type GameTree,
+} from "./game/tree";
+import { translations, type Lang } from "./i18n";
+import { announcement, cellLabel, moveCursor } from "./a11y";
+import { takeBack, type GuestMessage } from "./multitab";
+import { DEFAULT_PORT } from "./net/protocol";
+import {
+  STORAGE_VERSION,
+  decodeGame,
+  encodeGame,
+  loadStore,
+  newGameId,
+  saveStore,
+  upsertGame,
+  type SavedGame,
+} from "./persistence";
+import SetupScreen from "./components/SetupScreen";
+import ClockBar from "./components/ClockBar";
+import MoveLog from "./components/MoveLog";
+import ReplayBar from "./components/ReplayBar";
+import SavedGames from "./components/SavedGames";
+import EditorPanel from "./components/EditorPanel";
+import PuzzlePanel from "./components/PuzzlePanel";
+import MultiTabPanel from "./components/MultiTabPanel";
+import OnlinePanel from "./components/OnlinePanel";
+import VariationTree from "./components/VariationTree";
+import { useOnlineSession } from "./hooks/useOnlineSession";
+import { useTabsSession } from "./hooks/useTabsSession";
 
 /**
  * AnchorHex — a hex-board connection game
  * Rules implemented from user spec:
- * - Board: 8x8 flat-top hex grid in even-q offset (columns aligned vertically; rows appear zig-zag).
+ * - Board: flat-top hex grid in even-q offset (columns aligned vertically; rows appear zig-zag).
+ *   Size defaults to 8x8 and can be changed from the setup screen (GameConfig).
  * - Two players: Black and White; Black moves first.
- * - Bases: White base at (row 0, col 4), Black base at (row 7, col 3) — 0-indexed.
+ * - Bases: by default White base at (row 0, col 4), Black base at (row 7, col 3) — 0-indexed.
  * - A move: place a stone of current player on any EMPTY cell that can SURVIVE.
  *   "Can survive" ⇢ the cell is connected to that player's base via a path consisting only of that player's stones and empty cells.
  * - After each move, remove all DEAD stones for BOTH sides.
  *   A stone is dead if it is NOT connected to its own base via a path of its own stones and empty cells.
- * - End: when neither side has any legal move. Scoring uses AREA-style (Go-like):
- *   score = (number of your stones on board) + (number of empty cells reachable from your base via empty cells only, but NOT from opponent base).
+ * - End: when neither side has any legal move. Scoring follows the game's scoring mode (./game/scoring);
+ *   the default AREA-style (Go-like) score = (number of your stones on board) + (number of empty cells
+ *   reachable from your base via empty cells only, but NOT from opponent base).
  *
  * Notes:
  * - Legal moves highlight updates every turn.
- * - Undo, Restart supported.
- * - Toggle to visualize territory and reachable regions.
+ * - Undo, Restart, Resign supported. Game flow lives in ./game/state (applyAction).
+ * - Moves form a tree (./game/tree): stepping back and playing a different move starts a
+ *   variation instead of discarding the line.
+ * - Toggle to visualize the ownership map (territory, neutral cells) and reachable regions.
+ * - The current game, saved games and display preferences persist in localStorage
+ *   (./persistence), so a reload resumes the game in progress.
+ * - Edit board paints an arbitrary position (./game/editor) to start play from.
+ * - Puzzles (./game/puzzle) are solved on the board; the opponent's answers come from
+ *   each puzzle's solution tree, or from the solver when a move is wrong.
+ * - Positions and games can be shared as links (./game/link) opened from the URL fragment.
+ * - Timed games run per-player clocks (./game/clock) that switch as moves are played; running
+ *   out of time loses.
+ * - Tabs of the same browser can play one game together (./multitab): one tab hosts and
+ *   checks every move, the others join as a player or spectator.
+ * - Online play (./net) goes through a game server, which holds the game and checks
+ *   every move; the client reconnects by itself and takes the server's state as sent.
  */
 
 // Types re-exported from engine for clarity
-import type { Cell, Player } from "./game/engine";
-
-const START_PLAYER: Player = "BLACK"; // Black plays first by default
-
-type Lang = "en" | "zh";
-
-const translations = {
-  en: {
-    pass: "Pass",
-    passTitleHasMoves: "You have legal moves",
-    passTitleNoMoves: "Pass (no legal moves)",
-    undo: "Undo",
-    undoTitle: "Undo (U)",
-    restart: "Restart",
-    restartTitle: "Restart (R)",
-    moveHash: "Move #",
-    moveLabel: (n: number) => `Move #${n}`,
-    turn: "Turn:",
-    chooseHighlighted: "— choose a highlighted cell",
-    noLegal: "— no legal moves",
-    showWhiteReach: "Show WHITE reach (stones+empties)",
-    showBlackReach: "Show BLACK reach (stones+empties)",
-    showTerritory: "Show territory (empty-only reach)",
-    rulesTitle: "Rules",
-    rules: [
-      "On your turn, place a stone on any highlighted empty cell (those are the cells that can survive).",
-      "A stone survives if it can connect to its base via a path of your stones and empty cells.",
-      "After every move, all dead stones for both sides are removed automatically.",
-      "The game ends when neither side has any legal move.",
-      "Scoring uses area-style: stones + empty territory reachable from your base by empty-only paths and not from the opponent's base.",
-    ],
-    tipsTitle: "Tips",
-    tips: [
-      "Use Undo to rethink (keyboard: U), Restart to begin anew (R).",
-      "Toggle overlays to understand connectivity and territory formation.",
-      "The highlighted legal cells come from reachability to your base across empty cells and your stones.",
-    ],
-    gameOverWhite: (w: number, b: number) => `Game Over — White wins ${w} : ${b}`,
-    gameOverBlack: (w: number, b: number) => `Game Over — Black wins ${b} : ${w}`,
-    gameOverDraw: (w: number, b: number) => `Game Over — Draw ${w} : ${b}`,
-    newGame: "New Game",
-    inspect: "Inspect Board",
-    whiteScore: "White score:",
-    blackScore: "Black score:",
-    stones: "stones",
-    territory: "territory",
-    white: "WHITE",
-    black: "BLACK",
-    langToggle: "中文",
-    langToggleTitle: "Switch language",
-  },
-  zh: {
-    pass: "过手",
-    passTitleHasMoves: "当前有合法落子",
-    passTitleNoMoves: "过手（无合法落子）",
-    undo: "撤销",
-    undoTitle: "撤销 (U)",
-    restart: "重新开始",
-    restartTitle: "重新开始 (R)",
-    movePrefix: "第",
-    moveSuffix: "手",
-    moveLabel: (n: number) => `第${n}手`,
-    turn: "轮到：",
-    chooseHighlighted: "— 选择高亮的格子",
-    noLegal: "— 无合法落子",
-    showWhiteReach: "显示 白方 连通（棋子+空位）",
-    showBlackReach: "显示 黑方 连通（棋子+空位）",
-    showTerritory: "显示 地盘（仅空位连通）",
-    rulesTitle: "规则",
-    rules: [
-      "轮到你时，在任意高亮的空格落子（这些是可以存活的点）。",
-      "若一枚棋子能通过你方棋子与空位的路径连接到你的基地，则它存活。",
-      "每一步之后，双方所有不再连到各自基地的棋子会被移除。",
-      "当双方都没有合法落子时，对局结束。",
-      "计分采用地盘计分：得分 = 棋子数 + 仅从你的基地出发经空位可达且对手不可达的空位数。",
-    ],
-    tipsTitle: "提示",
-    tips: [
-      "使用 撤销 重新思考（快捷键 U），使用 重新开始 开启新对局（快捷键 R）。",
-      "切换覆盖层以理解连通与地盘的形成。",
-      "高亮的合法点来自：通过空位与己方棋子连接到你的基地的可达性。",
-    ],
-    gameOverWhite: (w: number, b: number) => `对局结束 — 白方胜 ${w} : ${b}`,
-    gameOverBlack: (w: number, b: number) => `对局结束 — 黑方胜 ${b} : ${w}`,
-    gameOverDraw: (w: number, b: number) => `对局结束 — 平局 ${w} : ${b}`,
-    newGame: "新对局",
-    inspect: "查看棋局",
-    whiteScore: "白方得分：",
-    blackScore: "黑方得分：",
-    stones: "棋子",
-    territory: "地盘",
-    white: "白方",
-    black: "黑方",
-    langToggle: "EN",
-    langToggleTitle: "切换语言",
-  },
-} as const;
+import type { GameConfig, Player } from "./game/engine";
+
+// Who plays each color: a human at this screen or the built-in computer opponent
+type Controller = "human" | BotLevel | "mcts";
+
+const ONLINE_URL = `ws://localhost:${DEFAULT_PORT}`;
+
+function asController(v: string | undefined): Controller {
+  return v === "mcts" || BOT_LEVELS.includes(v as BotLevel) ? (v as Controller) : "human";
+}
+
+// Stored state at start-up, with the current game restored if it replays cleanly
+function loadSession() {
+  const store = loadStore();
+  const saved = store.games.find((g) => g.id === store.currentId);
+  const tree = saved ? decodeGame(saved) : null;
+  return {
+    store,
+    current:
+      saved && tree
+        ? {
+            id: saved.id,
+            tree,
+            players: saved.players,
+            clock: saved.clock ? restoreClock(saved.clock, saved.savedAt) : null,
+          }
+        : null,
+  };
+}
+
+const BOT_DELAY_MS = 350;
+const REPLAY_STEP_MS = 1000; // per ply at 1× speed
+const COPIED_NOTICE_MS = 2000;
+const CLOCK_TICK_MS = 100;
+
+// Keyboard shortcuts for moving around the game tree
+const TREE_KEYS: Record<string, (t: GameTree) => GameTree> = {
+  ArrowLeft: goBack,
+  ArrowRight: goForward,
+  Home: goToStart,
+  End: goToEnd,
+  ArrowUp: (t) => switchVariation(t, -1),
+  ArrowDown: (t) => switchVariation(t, 1),
+};
+const MCTS_BUDGET = { timeMs: 2000 };
 
 // Hex layout (flat-top) sizing
 const HEX_R = 26; // radius
@@ -150,6 +200,9 @@ function hexCenter(r: number, c: number) {
   return { x, y };
 }
 
+const cellKey = ({ r, c }: { r: number; c: number }) => `${r}-${c}`;
+const signedDelta = (n: number) => (n > 0 ? `+${n}` : String(n));
+
 function hexPoints(cx: number, cy: number, r = HEX_R): string {
   const pts: Array<[number, number]> = [];
   for (let i = 0; i < 6; i++) {
@@ -161,74 +214,291 @@ function hexPoints(cx: number, cy: number, r = HEX_R): string {
   return pts.map(([x, y]) => `${x},${y}`).join(" ");
 }
 
-// Snapshot for undo
-type Snapshot = {
-  board: Cell[][];
-  player: Player;
-  move: number;
-};
-
 export default function App() {
-  const [lang, setLang] = useState<Lang>("en");
-  const [board, setBoard] = useState<Cell[][]>(() => makeInitialBoard());
-  const [player, setPlayer] = useState<Player>(START_PLAYER);
-  const [move, setMove] = useState(1);
-  const [, setHistory] = useState<Snapshot[]>([]);
-  const [positionHistory, setPositionHistory] = useState<string[]>(() => [
-    boardHash(makeInitialBoard()),
-  ]);
+  const [session] = useState(loadSession);
+  const { prefs } = session.store;
+  const [lang, setLang] = useState<Lang>(prefs.lang ?? "en");
+  const [tree, setTree] = useState<GameTree>(
+    () => session.current?.tree ?? newTree(newGame()),
+  );
+  const [gameId, setGameId] = useState(() => session.current?.id ?? newGameId());
+  const [savedGames, setSavedGames] = useState<SavedGame[]>(session.store.games);
+  const [gamesOpen, setGamesOpen] = useState(false);
+  const [savedError, setSavedError] = useState(false);
+  const [setupOpen, setSetupOpen] = useState(false);
+  const [overlayHidden, setOverlayHidden] = useState(false);
+  const [selectedMove, setSelectedMove] = useState<number | null>(null);
+  const [players, setPlayers] = useState<Players>(session.current?.players ?? {});
+  // Clocks of a timed game (null when untimed) and the time they were last read at
+  const [clock, setClock] = useState<ClockState | null>(session.current?.clock ?? null);
+  const [now, setNow] = useState(Date.now);
+  const [analysis, setAnalysis] = useState<MctsResult | null>(null);
+  const mctsRef = useRef<MctsClient | null>(null);
+  const [controllers, setControllers] = useState<Record<Player, Controller>>({
+    BLACK: asController(prefs.controllers?.BLACK),
+    WHITE: asController(prefs.controllers?.WHITE),
+  });
+  const [recordError, setRecordError] = useState<RecordError | null>(null);
+  const [linkError, setLinkError] = useState<LinkError | null>(null);
+  // Outcome of the last "Copy link"; the link is shown for copying by hand on failure
+  const [copied, setCopied] = useState<{ ok: boolean; url: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [hovered, setHovered] = useState<{ r: number; c: number } | null>(null);
+  // Keyboard cursor on the board (the one cell in the tab order), and whether the board
+  // has the focus from the keyboard, which shows the cursor
+  const [cursor, setCursor] = useState<{ r: number; c: number } | null>(null);
+  const [boardFocus, setBoardFocus] = useState(false);
+  const boardRef = useRef<SVGSVGElement>(null);
+  const pointerDown = useRef(false);
+  // Live-region text for screen readers
+  const [announced, setAnnounced] = useState("");
   const [showReach, setShowReach] = useState<{
     white: boolean;
     black: boolean;
     territory: boolean;
-  }>({ white: false, black: false, territory: true });
-  const [gameOver, setGameOver] = useState(false);
+  }>(prefs.showReach ?? { white: false, black: false, territory: true });
 
-  const forbidSet = useMemo(() => new Set(positionHistory), [positionHistory]);
+  // Replay shows ply `ply` of the line through the current node without moving in the
+  // tree; board input and computer players pause meanwhile
+  const [replay, setReplay] = useState<{ ply: number; playing: boolean } | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState(prefs.replaySpeed ?? 1);
+  const line = useMemo(() => lineThrough(tree), [tree]);
 
-  // Legal move mask for current player
-  const legalMask = useMemo(
-    () => computeLegalMoves(board, player, { forbidPositions: forbidSet }),
-    [board, player, forbidSet],
+  // Board editor: a hand-built position shown in place of the game until play starts
+  // from it. It keeps the game's rules, except for the handicap.
+  const [editor, setEditor] = useState<(EditorPosition & { tool: EditorTool }) | null>(
+    null,
+  );
+  const liveRules = currentNode(tree).state.rules;
+  const editorGame = useMemo(
+    () =>
+      editor &&
+      gameFromPosition(
+        editor.config,
+        { ...liveRules, handicap: null },
+        editor.board,
+        editor.toMove,
+      ),
+    [editor, liveRules],
+  );
+  const deadStones = useMemo(
+    () => (editor ? validatePosition(editor.board, editor.config) : []),
+    [editor],
+  );
+
+  // Puzzle mode: the attempt at a bundled puzzle is shown in place of the game
+  const [puzzle, setPuzzle] = useState<{
+    index: number;
+    attempt: PuzzleAttempt;
+    solutionShown: boolean;
+  } | null>(null);
+  const puzzleIndex = puzzle?.index;
+  const puzzleFirst = useMemo(
+    () => (puzzleIndex === undefined ? null : puzzleStart(PUZZLES[puzzleIndex])),
+    [puzzleIndex],
   );
 
+  // Panels for starting a game across tabs or online
+  const [tabsOpen, setTabsOpen] = useState(false);
+  const [onlineOpen, setOnlineOpen] = useState(false);
+
+  // Back to the plain board before another game or mode is shown: no replay, editor,
+  // puzzle or open panel, and nothing selected, hovered or analysed
+  const resetView = useCallback(() => {
+    setOverlayHidden(false);
+    setSelectedMove(null);
+    setAnalysis(null);
+    setHovered(null);
+    setSetupOpen(false);
+    setGamesOpen(false);
+    setTabsOpen(false);
+    setOnlineOpen(false);
+    setEditor(null);
+    setPuzzle(null);
+    setReplay(null);
+  }, []);
+
+  // A game from another tab or the server replaces this tab's copy, a replay staying
+  // within its line. One played through this tab as host clears the view like a move.
+  const onRemoteGame = useCallback((t: GameTree, played = false) => {
+    setTree(t);
+    setReplay((r) => r && { ...r, ply: plyInLine(t, r.ply) });
+    if (played) {
+      setOverlayHidden(false);
+      setSelectedMove(null);
+    }
+  }, []);
+
+  // Multi-tab play
+  const tabs = useTabsSession({
+    tree,
+    clock,
+    gameId,
+    setClock,
+    setGameId,
+    onGame: onRemoteGame,
+    onOpen: resetView,
+  });
+  const { me, send: sendToTabs } = tabs;
+  // Online play
+  const online = useOnlineSession({
+    tree,
+    players,
+    gameId,
+    setClock,
+    setGameId,
+    onGame: onRemoteGame,
+    onOpen: resetView,
+  });
+  const { send: sendOnline } = online;
+  // Whether the game is played with others; their moves arrive from outside
+  const remote = tabs.session !== null || online.session !== null;
+  // Whether the game belongs to another tab or the server, this tab showing a copy
+  const isGuest = tabs.session?.role === "guest" || online.session !== null;
+  const mySeat = online.session ? online.session.seat : tabs.seat;
+
+  // The replayed ply is kept within the line, however the tree was replaced under it
+  const game: GameState =
+    editorGame ??
+    puzzle?.attempt.state ??
+    (replay
+      ? getNode(tree, line[Math.min(replay.ply, line.length - 1)]).state
+      : currentNode(tree).state);
+  // Where the game's moves start from, for records and links
+  const start = editorGame ?? puzzleFirst ?? getNode(tree, tree.root).state;
+  const { config, board, toMove: player, moveNumber: move, gameOver } = game;
+  // Computers only move at the end of a line, so browsing earlier positions is safe
+  const atLineEnd = currentNode(tree).children.length === 0;
+
+  // All game flow goes through the engine reducer; moves are added to the game tree and
+  // illegal actions are ignored here. Undo steps back without discarding the line.
+  const dispatch = useCallback((action: GameAction) => {
+    setTree((t) => {
+      switch (action.type) {
+        case "undo":
+          return goBack(t);
+        case "restart": {
+          const res = applyAction(currentNode(t).state, action);
+          return res.ok ? newTree(res.state) : t;
+        }
+        default: {
+          const res = playMove(t, action);
+          return res.ok ? res.tree : t;
+        }
+      }
+    });
+    setOverlayHidden(false);
+    setSelectedMove(null);
+    setReplay(null);
+    setEditor(null);
+    setPuzzle(null);
+  }, []);
+
+  // Moves around the game tree (back, forward, variations, promote, delete)
+  const navigate = useCallback((step: (t: GameTree) => GameTree) => {
+    setTree(step);
+    setOverlayHidden(false);
+    setSelectedMove(null);
+    setAnalysis(null);
+    setReplay(null);
+    setEditor(null);
+    setPuzzle(null);
+  }, []);
+
+  const startReplay = useCallback(() => {
+    setReplay({ ply: 0, playing: false });
+    setSelectedMove(null);
+    setHovered(null);
+  }, []);
+
+  // Shows another ply of the replay; reaching the end of the line returns to live play
+  // at its last position
+  const seekReplay = useCallback(
+    (ply: number) => {
+      const last = line.length - 1;
+      if (ply >= last) navigate((t) => goTo(t, line[last]));
+      else setReplay((r) => r && { ...r, ply: Math.max(0, ply) });
+    },
+    [line, navigate],
+  );
+
+  // Autoplay
+  useEffect(() => {
+    if (!replay?.playing) return;
+    const timer = window.setTimeout(
+      () => seekReplay(replay.ply + 1),
+      REPLAY_STEP_MS / replaySpeed,
+    );
+    return () => window.clearTimeout(timer);
+  }, [replay, replaySpeed, seekReplay]);
+
+  // Autosave: the game joins the saved-games list once it has a move, and the list and
+  // preferences are written back on every change (a full or blocked storage is ignored)
+  useEffect(() => {
+    // A guest's copy of the game is the host's (or the server's) to save
+    if (tree.nodes.size > 1 && !isGuest)
+      setSavedGames((gs) =>
+        upsertGame(gs, encodeGame(gameId, tree, players, Date.now(), clock)),
+      );
+  }, [gameId, tree, players, clock, isGuest]);
+
+  useEffect(() => {
+    saveStore({
+      version: STORAGE_VERSION,
+      prefs: { lang, showReach, controllers, replaySpeed },
+      currentId: gameId,
+      games: savedGames,
+    });
+  }, [lang, showReach, controllers, replaySpeed, gameId, savedGames]);
+
+  // In a multi-tab or online game, whether this tab holds the seat to move
+  const humanToMove = remote ? mySeat === player : controllers[player] === "human";
+
+  // Legal move mask for current player
+  const legalMask = useMemo(() => legalMovesFor(game), [game]);
+
   const anyLegal = useMemo(() => legalMask.some((row) => row.some(Boolean)), [legalMask]);
 
+  // Whether the board takes moves at all (not while replaying, editing or after a
+  // puzzle is decided)
+  const playable =
+    !replay &&
+    !editor &&
+    puzzle?.attempt.status !== "solved" &&
+    puzzle?.attempt.status !== "failed";
+
+  // What the hovered move would do: the stones it captures for either side, marked on
+  // the board, and the change in area score, shown beside it
+  const preview = useMemo(() => {
+    if (!hovered || !playable || gameOver || !humanToMove || clock?.paused) return null;
+    if (!legalMask[hovered.r]?.[hovered.c]) return null;
+    const p = previewMove(board, player, hovered.r, hovered.c, { config });
+    return (
+      p && {
+        ...p,
+        doomed: new Set([...p.captured.white, ...p.captured.black].map(cellKey)),
+      }
+    );
+  }, [hovered, playable, gameOver, humanToMove, clock, legalMask, board, player, config]);
+
+  // Cell of the move highlighted from the move log (passes have none)
+  const selectedPlace = useMemo(() => {
+    const rec = selectedMove === null ? undefined : game.moves[selectedMove];
+    return rec?.move.type === "place" ? rec.move : null;
+  }, [game.moves, selectedMove]);
+
   // Derived masks for reach / territory visualization
   const whiteStonesReach = useMemo(
-    () => bfsFromBase(board, "WHITE", "stones+empties"),
-    [board],
+    () => bfsFromBase(board, "WHITE", "stones+empties", config),
+    [board, config],
   );
   const blackStonesReach = useMemo(
-    () => bfsFromBase(board, "BLACK", "stones+empties"),
-    [board],
-  );
-  const whiteEmptyReach = useMemo(
-    () => bfsFromBase(board, "WHITE", "emptiesOnly"),
-    [board],
-  );
-  const blackEmptyReach = useMemo(
-    () => bfsFromBase(board, "BLACK", "emptiesOnly"),
-    [board],
+    () => bfsFromBase(board, "BLACK", "stones+empties", config),
+    [board, config],
   );
-
-  const territoryMask = useMemo(() => {
-    const w: boolean[][] = Array.from({ length: ROWS }, () => Array(COLS).fill(false));
-    const b: boolean[][] = Array.from({ length: ROWS }, () => Array(COLS).fill(false));
-    for (let r = 0; r < ROWS; r++) {
-      for (let c = 0; c < COLS; c++) {
-        if (board[r][c] !== EMPTY) continue;
-        const wr = whiteEmptyReach[r][c];
-        const br = blackEmptyReach[r][c];
-        if (wr && !br) w[r][c] = true;
-        if (br && !wr) b[r][c] = true;
-      }
-    }
-    return { w, b };
-  }, [board, whiteEmptyReach, blackEmptyReach]);
-
-  const areaScore = useMemo(() => computeAreaScore(board), [board]);
+  // Score under the game's scoring mode, as used for the result; its ownership map
+  // drives the territory overlay
+  const score = useMemo(() => scoreGame(game), [game]);
   const tr = translations[lang];
 
   useEffect(() => {
@@ -236,107 +506,436 @@ export default function App() {
   }, [lang]);
 
   // Dimensions for SVG
-  const width = MARGIN * 2 + (COLS - 1) * (HEX_W * 0.75) + HEX_W;
-  const height = MARGIN * 2 + ROWS * HEX_H + HEX_H / 2; // extra for shift
-
-  const pushHistory = useCallback(() => {
-    setHistory((h) => [...h, { board: cloneBoard(board), player, move }]);
-  }, [board, player, move]);
+  const width = MARGIN * 2 + (config.cols - 1) * (HEX_W * 0.75) + HEX_W;
+  const height = MARGIN * 2 + config.rows * HEX_H + HEX_H / 2; // extra for shift
 
+  // A new game gets a new id, so the previous one stays in the saved-games list
   const onRestart = useCallback(() => {
-    const ib = makeInitialBoard();
-    setBoard(ib);
-    setPlayer(START_PLAYER);
-    setMove(1);
-    setHistory([]);
-    setPositionHistory([boardHash(ib)]);
-    setGameOver(false);
-  }, []);
+    dispatch({ type: "restart" });
+    setClock((c) => c && newClock(c.control));
+    setGameId(newGameId());
+    setHovered(null);
+    setAnalysis(null);
+  }, [dispatch]);
 
-  const onPass = useCallback(() => {
-    if (gameOver) return;
-    if (anyLegal) return; // cannot pass if you have legal moves
-    pushHistory();
-    const nextPlayer: Player = player === "WHITE" ? "BLACK" : "WHITE";
-    const oppMask = computeLegalMoves(board, nextPlayer, { forbidPositions: forbidSet });
-    const oppAny = oppMask.some((row) => row.some(Boolean));
-    // Record pass in move counter and history; board unchanged
-    setMove((m) => m + 1);
-    setPositionHistory((ph) => [...ph, boardHash(board)]);
-    if (!oppAny) {
-      setGameOver(true);
-      return;
-    }
-    setPlayer(nextPlayer);
-  }, [board, player, anyLegal, forbidSet, gameOver, pushHistory]);
+  const onSetupStart = useCallback(
+    (cfg: GameConfig, rules: Ruleset, timeControl: TimeControl | null) => {
+      dispatch({ type: "restart", config: cfg, rules });
+      setClock(timeControl && newClock(timeControl));
+      setGameId(newGameId());
+      setPlayers({});
+      setHovered(null);
+      setAnalysis(null);
+      setSetupOpen(false);
+    },
+    [dispatch],
+  );
+
+  // Moves are played through here so the mover's clock stops (earning its increment or
+  // a fresh period) with the move; the clock effect then starts the next side's
+  const playTimed = useCallback(
+    (move: Move) => {
+      setClock((c) => c && completeMove(c, player, Date.now()));
+      dispatch(move);
+    },
+    [dispatch, player],
+  );
 
+  // A move, resignation or undo request from this tab in a multi-tab or online game
+  const sendIntent = useCallback(
+    (msg: GuestMessage) => {
+      if (tabs.session) {
+        sendToTabs(msg);
+      } else if (online.session) {
+        sendOnline(msg);
+      }
+    },
+    [tabs.session, sendToTabs, online.session, sendOnline],
+  );
+
+  const onPass = useCallback(() => {
+    if (remote) sendIntent({ type: "move", from: me, move: "pass" });
+    else playTimed({ type: "pass" });
+  }, [remote, sendIntent, me, playTimed]);
+  const onResign = useCallback(() => {
+    if (remote) sendIntent({ type: "resign", from: me });
+    else dispatch({ type: "resign" });
+  }, [remote, sendIntent, me, dispatch]);
+  // Undo steps back to the last position a human had to move in, so the computer
+  // does not immediately replay its move (one ply only when both sides are computers)
   const undo = useCallback(() => {
-    setHistory((h) => {
-      const last = h[h.length - 1];
-      if (!last) return h;
-      setBoard(cloneBoard(last.board));
-      setPlayer(last.player);
-      setMove(last.move);
-      setPositionHistory((ph) => (ph.length > 1 ? ph.slice(0, -1) : ph));
-      setGameOver(false);
-      return h.slice(0, -1);
+    navigate((t) => {
+      let s = goBack(t);
+      for (let prev = t; s !== prev;) {
+        const { toMove } = currentNode(s).state;
+        if (controllers[toMove] === "human" || controllers[opponent(toMove)] !== "human")
+          break;
+        prev = s;
+        s = goBack(s);
+      }
+      return s;
     });
-  }, []);
+  }, [controllers, navigate]);
+
+  const onDownload = useCallback(() => {
+    const blob = new Blob([serializeGame(game, players, start)], {
+      type: "text/plain",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "anchorhex-game.txt";
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [game, players, start]);
+
+  // Replays an uploaded record; restores board, rules, repetition history and side to move
+  const onUpload = useCallback(
+    async (file: File) => {
+      const res = parseGameRecord(await file.text());
+      if (!res.ok) {
+        setRecordError(res.error);
+        return;
+      }
+      setRecordError(null);
+      setTree(treeFromHistory(res.state));
+      setClock(null);
+      setGameId(newGameId());
+      setPlayers(res.record.players);
+      resetView();
+    },
+    [resetView],
+  );
+
+  // A link in the URL fragment opens its position or game as a new game (in replay from
+  // the start when it has moves); the fragment is then cleared so a reload resumes
+  // normally. Links pasted into an open tab arrive as hash changes.
+  useEffect(() => {
+    const open = () => {
+      const fragment = window.location.hash;
+      if (fragment.length <= 1) return;
+      const { pathname, search } = window.location;
+      window.history.replaceState(null, "", pathname + search);
+      const res = parseLink(fragment);
+      if (!res.ok) {
+        setLinkError(res.error);
+        return;
+      }
+      setLinkError(null);
+      setTree(treeFromHistory(res.state));
+      setClock(null);
+      setGameId(newGameId());
+      setPlayers({});
+      resetView();
+      if (res.state.history.length > 0) setReplay({ ply: 0, playing: false });
+    };
+    open();
+    window.addEventListener("hashchange", open);
+    return () => window.removeEventListener("hashchange", open);
+  }, [resetView]);
 
-  // Place stone if legal
+  // Copies a link to the game up to the position shown, or to that position alone
+  const copyLink = useCallback(
+    (withMoves: boolean) => {
+      const fragment = withMoves ? formatGameLink(start, game) : formatPositionLink(game);
+      const { origin, pathname, search } = window.location;
+      const url = `${origin}${pathname}${search}#${fragment}`;
+      const write = navigator.clipboard
+        ? navigator.clipboard.writeText(url)
+        : Promise.reject(new Error("Clipboard unavailable"));
+      write.then(
+        () => setCopied({ ok: true, url }),
+        () => setCopied({ ok: false, url }),
+      );
+    },
+    [start, game],
+  );
+
+  useEffect(() => {
+    if (!copied?.ok) return;
+    const timer = window.setTimeout(() => setCopied(null), COPIED_NOTICE_MS);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const onOpenSaved = useCallback(
+    (saved: SavedGame) => {
+      const restored = decodeGame(saved);
+      if (!restored) {
+        setSavedGames((gs) => gs.filter((g) => g.id !== saved.id));
+        setSavedError(true);
+        return;
+      }
+      setSavedError(false);
+      setTree(restored);
+      setClock(saved.clock ? restoreClock(saved.clock, saved.savedAt) : null);
+      setGameId(saved.id);
+      setPlayers(saved.players);
+      resetView();
+    },
+    [resetView],
+  );
+
+  const onDeleteSaved = useCallback(
+    (id: string) => {
+      setSavedGames((gs) => gs.filter((g) => g.id !== id));
+      if (id === gameId) {
+        onRestart();
+        setPlayers({});
+      }
+    },
+    [gameId, onRestart],
+  );
+
+  // Place stone if legal (the reducer rejects anything else); in the editor, paint,
+  // and in a puzzle, play the move and the opponent's answer
   const tryPlace = useCallback(
     (r: number, c: number) => {
-      if (gameOver) return;
-      const v = board[r][c];
-      if (v !== EMPTY) return;
-      if (!legalMask[r][c]) return; // must be survivable
-
-      pushHistory();
-
-      // Use engine placement with superko checking
-      const resolved = placeStone(board, player, r, c, { forbidPositions: forbidSet });
-      if (!resolved) return; // move illegal due to repetition
-
-      setBoard(resolved);
-      const nextPlayer: Player = player === "WHITE" ? "BLACK" : "WHITE";
-      setPlayer(nextPlayer);
-      setMove((m) => m + 1);
-      setPositionHistory((ph) => [...ph, boardHash(resolved)]);
-
-      // After move, end if neither side has any legal move (no auto-pass)
-      const nextForbid = new Set(forbidSet);
-      nextForbid.add(boardHash(resolved));
-      const wAny = computeLegalMoves(resolved, "WHITE", {
-        forbidPositions: nextForbid,
-      }).some((row) => row.some(Boolean));
-      const bAny = computeLegalMoves(resolved, "BLACK", {
-        forbidPositions: nextForbid,
-      }).some((row) => row.some(Boolean));
-      if (!wAny && !bAny) setGameOver(true);
+      if (editor) {
+        setEditor((e) => e && paintCell(e, r, c, e.tool));
+        return;
+      }
+      if (puzzle) {
+        const res = puzzleMove(PUZZLES[puzzle.index], puzzle.attempt, {
+          type: "place",
+          r,
+          c,
+        });
+        if (res.ok) setPuzzle({ ...puzzle, attempt: res.attempt });
+        return;
+      }
+      if (replay || gameOver || !humanToMove || clock?.paused || !legalMask[r][c]) return;
+      if (remote) sendIntent({ type: "move", from: me, move: formatCoord(r, c) });
+      else playTimed({ type: "place", r, c });
+    },
+    [
+      playTimed,
+      sendIntent,
+      remote,
+      me,
+      editor,
+      puzzle,
+      replay,
+      gameOver,
+      humanToMove,
+      clock?.paused,
+      legalMask,
+    ],
+  );
+
+  // Opens the editor on the position shown
+  const openEditor = useCallback(() => {
+    resetView();
+    setEditor({ config, board, toMove: player, tool: "black" });
+  }, [resetView, config, board, player]);
+
+  const onEditorStart = useCallback(() => {
+    if (!editorGame || deadStones.length > 0) return;
+    setTree(newTree(editorGame));
+    setClock((c) => c && newClock(c.control));
+    setGameId(newGameId());
+    setPlayers({});
+    setEditor(null);
+    setOverlayHidden(false);
+    setHovered(null);
+  }, [editorGame, deadStones]);
+
+  // Opens a bundled puzzle from its start (also used to retry it)
+  const openPuzzle = useCallback(
+    (index: number) => {
+      resetView();
+      setPuzzle({ index, attempt: startPuzzle(PUZZLES[index]), solutionShown: false });
     },
-    [board, player, legalMask, pushHistory, gameOver, forbidSet],
+    [resetView],
   );
 
+  // Computer turn: the MCTS engine searches in its worker (cancelled if the game
+  // changes, e.g. on undo); the heuristic bot thinks after a short pause so the
+  // previous move stays visible
+  useEffect(() => {
+    const controller = controllers[player];
+    if (
+      controller === "human" ||
+      gameOver ||
+      setupOpen ||
+      gamesOpen ||
+      editor ||
+      puzzle ||
+      remote ||
+      replay ||
+      clock?.paused ||
+      !atLineEnd
+    )
+      return;
+    if (controller === "mcts") {
+      const client = (mctsRef.current ??= createMctsClient());
+      let active = true;
+      void client
+        .search(game, MCTS_BUDGET, (r) => {
+          if (active) setAnalysis(r);
+        })
+        .then((r) => {
+          if (!active || !r) return;
+          setAnalysis(r);
+          playTimed(r.move);
+        });
+      return () => {
+        active = false;
+        client.cancel();
+      };
+    }
+    const timer = window.setTimeout(() => {
+      playTimed(chooseBotMove(game, controller));
+    }, BOT_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [
+    controllers,
+    player,
+    game,
+    gameOver,
+    setupOpen,
+    gamesOpen,
+    editor,
+    puzzle,
+    remote,
+    replay,
+    clock?.paused,
+    atLineEnd,
+    playTimed,
+  ]);
+
+  // The clock runs for the side to move while the game is live: not over, at the end
+  // of its line, and not covered by a replay, the editor or a puzzle. Undo and browsing
+  // stop it without giving any time back. A guest tab shows the host's clock as sent.
+  const clockSide =
+    !gameOver && atLineEnd && !replay && !editor && !puzzle ? player : null;
+  useEffect(() => {
+    if (clock && !isGuest) setClock(runClock(clock, clockSide, Date.now()));
+  }, [clock, clockSide, isGuest]);
+
+  useEffect(() => {
+    if (!clock?.running) return;
+    const timer = window.setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [clock?.running]);
+
+  // Loss on time: the flag is recorded on the clock and the game ends with a timeout
+  useEffect(() => {
+    const loser = clock?.running && !isGuest ? timeUp(clock, now) : null;
+    if (!clock || !loser) return;
+    setClock(flagClock(clock, loser, Date.now()));
+    dispatch({ type: "timeout", player: loser });
+  }, [clock, now, isGuest, dispatch]);
+
+  useEffect(() => () => mctsRef.current?.dispose(), []);
+
   // Keyboard shortcuts
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
+      if (setupOpen || gamesOpen || editor || puzzle || remote) return;
+      // Form controls keep their own keys: typing a room code holds letters too
+      if (e.target instanceof HTMLElement && e.target.closest("input, select, textarea"))
+        return;
       if (e.key.toLowerCase() === "u") undo();
       if (e.key.toLowerCase() === "r") onRestart();
+      // Tree navigation
+      if (replay) {
+        const keys: Record<string, () => void> = {
+          ArrowLeft: () => seekReplay(replay.ply - 1),
+          ArrowRight: () => seekReplay(replay.ply + 1),
+          Home: () => seekReplay(0),
+          End: () => seekReplay(line.length - 1),
+          " ": () => setReplay({ ...replay, playing: !replay.playing }),
+          Escape: () => setReplay(null),
+        };
+        if (keys[e.key]) {
+          e.preventDefault();
+          keys[e.key]();
+        }
+        return;
+      }
+      const step = TREE_KEYS[e.key];
+      if (step) {
+        e.preventDefault();
+        navigate(step);
+      }
     };
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [undo, onRestart]);
+  }, [
+    undo,
+    onRestart,
+    navigate,
+    setupOpen,
+    gamesOpen,
+    editor,
+    puzzle,
+    remote,
+    replay,
+    seekReplay,
+    line,
+  ]);
 
   // Winner text when game over
   const winnerText = useMemo(() => {
-    if (!gameOver) return "";
-    const { white, black } = areaScore;
+    if (!game.result) return "";
+    if (game.result.reason !== "score") {
+      const winner = game.result.winner === "WHITE" ? tr.white : tr.black;
+      return game.result.reason === "time"
+        ? tr.gameOverTime(winner)
+        : tr.gameOverResign(winner);
+    }
+    const { white, black } = score;
     if (white > black) return tr.gameOverWhite(white, black);
     if (black > white) return tr.gameOverBlack(white, black);
     return tr.gameOverDraw(white, black);
-  }, [gameOver, areaScore, tr]);
+  }, [game.result, score, tr]);
+
+  // Screen readers hear each move with its captures, then the turn or the result
+  const announcedGame = useRef(game);
+  useEffect(() => {
+    const prev = announcedGame.current;
+    announcedGame.current = game;
+    if (prev === game) return;
+    const text = announcement(tr, prev, game, winnerText);
+    if (text) setAnnounced(text);
+  }, [game, tr, winnerText]);
 
-  const canPass = useMemo(() => !anyLegal && !gameOver, [anyLegal, gameOver]);
+  // The cell the keyboard cursor is on: the last one visited, else the middle one
+  const active =
+    cursor && cursor.r < config.rows && cursor.c < config.cols
+      ? cursor
+      : { r: Math.floor(config.rows / 2), c: Math.floor(config.cols / 2) };
+  useEffect(() => {
+    if (!boardFocus) return;
+    boardRef.current
+      ?.querySelector<SVGGElement>(`[data-cell="${active.r}-${active.c}"]`)
+      ?.focus();
+  }, [boardFocus, active.r, active.c]);
+
+  // "stones 18 + territory 2 + komi 0.5", listing what the scoring mode counts
+  const scoreParts = (side: Player) => {
+    const { mode, breakdown: b } = score;
+    const white = side === "WHITE";
+    const parts: string[] = [];
+    if (mode !== "territory") parts.push(`${tr.stones} ${white ? b.wStones : b.bStones}`);
+    if (mode !== "connected") parts.push(`${tr.territory} ${white ? b.wTerr : b.bTerr}`);
+    if (mode === "territory")
+      parts.push(`${tr.captures} ${white ? b.wCaptures : b.bCaptures}`);
+    if (white && score.komi !== 0) parts.push(`${tr.komi} ${score.komi}`);
+    return parts.join(" + ");
+  };
+
+  const canPass = useMemo(
+    () =>
+      !anyLegal &&
+      !gameOver &&
+      humanToMove &&
+      !replay &&
+      !editor &&
+      !puzzle &&
+      !clock?.paused,
+    [anyLegal, gameOver, humanToMove, replay, editor, puzzle, clock?.paused],
+  );
   const playerLabel = player === "WHITE" ? tr.white : tr.black;
   const moveLabel = useMemo(() => tr.moveLabel(move), [tr, move]);
   const isZh = lang === "zh";
@@ -362,19 +961,157 @@ export default function App() {
               {tr.pass}
             </button>
             <button
-              className="px-3 py-1.5 rounded-xl bg-neutral-700 text-white hover:bg-neutral-800 shadow-sm"
+              className="px-3 py-1.5 rounded-xl bg-neutral-700 text-white hover:bg-neutral-800 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
               onClick={undo}
+              disabled={remote}
               title={tr.undoTitle}
             >
               {tr.undo}
             </button>
             <button
-              className="px-3 py-1.5 rounded-xl bg-rose-600 text-white hover:bg-rose-700 shadow-sm"
+              className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+              onClick={startReplay}
+              disabled={
+                line.length < 2 || replay !== null || editor !== null || puzzle !== null
+              }
+              title={tr.replayButtonTitle}
+            >
+              {tr.replay}
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-xl bg-rose-600 text-white hover:bg-rose-700 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
               onClick={onRestart}
+              disabled={remote}
               title={tr.restartTitle}
             >
               {tr.restart}
             </button>
+            <button
+              className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm"
+              onClick={onResign}
+              disabled={
+                gameOver ||
+                replay !== null ||
+                editor !== null ||
+                puzzle !== null ||
+                (remote && (!mySeat || mySeat === "spectator"))
+              }
+              title={tr.resignTitle}
+            >
+              {tr.resign}
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+              disabled={remote}
+              onClick={() => {
+                setSetupOpen(true);
+                setGamesOpen(false);
+                setEditor(null);
+                setPuzzle(null);
+              }}
+              title={tr.setupTitle}
+            >
+              {tr.setup}
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+              onClick={openEditor}
+              disabled={editor !== null || remote}
+              title={tr.editBoardTitle}
+            >
+              {tr.editBoard}
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+              onClick={() => openPuzzle(0)}
+              disabled={puzzle !== null || remote}
+              title={tr.puzzlesTitle}
+            >
+              {tr.puzzles}
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+              onClick={() => {
+                setTabsOpen(true);
+                setOnlineOpen(false);
+                setSetupOpen(false);
+                setGamesOpen(false);
+                setEditor(null);
+                setPuzzle(null);
+              }}
+              disabled={remote}
+              title={tr.tabsButtonTitle}
+            >
+              {tr.tabs}
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+              onClick={() => {
+                setOnlineOpen(true);
+                setTabsOpen(false);
+                setSetupOpen(false);
+                setGamesOpen(false);
+                setEditor(null);
+                setPuzzle(null);
+              }}
+              disabled={remote}
+              title={tr.onlineButtonTitle}
+            >
+              {tr.online}
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+              disabled={remote}
+              onClick={() => {
+                setGamesOpen((o) => !o);
+                setSetupOpen(false);
+                setEditor(null);
+                setPuzzle(null);
+              }}
+              title={tr.savedGamesButtonTitle}
+            >
+              {tr.savedGames}
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm"
+              onClick={onDownload}
+              title={tr.downloadTitle}
+            >
+              {tr.download}
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+              disabled={remote}
+              onClick={() => fileInputRef.current?.click()}
+              title={tr.uploadTitle}
+            >
+              {tr.upload}
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm"
+              onClick={() => copyLink(true)}
+              title={tr.copyLinkTitle}
+            >
+              {tr.copyLink}
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm"
+              onClick={() => copyLink(false)}
+              title={tr.copyPositionTitle}
+            >
+              {tr.copyPosition}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void onUpload(file);
+              }}
+            />
             <button
               className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm"
               onClick={() => setLang((l) => (l === "en" ? "zh" : "en"))}
@@ -388,11 +1125,164 @@ export default function App() {
           </div>
         </header>
 
+        {recordError && (
+          <div
+            role="alert"
+            className="mb-3 flex items-start justify-between gap-3 rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-800"
+          >
+            <span>
+              {tr.recordErrorLine(recordError.line)} {tr.recordErrors[recordError.code]}
+              {recordError.detail && (
+                <span className="font-mono"> ({recordError.detail})</span>
+              )}
+            </span>
+            <button
+              className="px-2 py-0.5 rounded-lg bg-transparent text-rose-800 hover:bg-rose-100"
+              onClick={() => setRecordError(null)}
+              aria-label={tr.dismiss}
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        {linkError && (
+          <div
+            role="alert"
+            className="mb-3 flex items-start justify-between gap-3 rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-800"
+          >
+            <span>
+              {tr.linkErrorTitle} {tr.linkErrors[linkError.code]}
+              {linkError.detail && (
+                <span className="font-mono"> ({linkError.detail})</span>
+              )}
+            </span>
+            <button
+              className="px-2 py-0.5 rounded-lg bg-transparent text-rose-800 hover:bg-rose-100"
+              onClick={() => setLinkError(null)}
+              aria-label={tr.dismiss}
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        {copied && (
+          <div
+            role="status"
+            className="mb-3 flex items-center justify-between gap-3 rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm"
+          >
+            {copied.ok ? (
+              <span>{tr.linkCopied}</span>
+            ) : (
+              <label className="flex flex-1 items-center gap-2">
+                {tr.linkCopyFailed}
+                <input
+                  readOnly
+                  className="flex-1 rounded-lg border border-neutral-300 px-2 py-1 font-mono text-xs"
+                  value={copied.url}
+                  onFocus={(e) => e.target.select()}
+                />
+              </label>
+            )}
+            <button
+              className="px-2 py-0.5 rounded-lg bg-transparent hover:bg-neutral-100"
+              onClick={() => setCopied(null)}
+              aria-label={tr.dismiss}
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        {savedError && (
+          <div
+            role="alert"
+            className="mb-3 flex items-start justify-between gap-3 rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-sm text-rose-800"
+          >
+            <span>{tr.savedGameDamaged}</span>
+            <button
+              className="px-2 py-0.5 rounded-lg bg-transparent text-rose-800 hover:bg-rose-100"
+              onClick={() => setSavedError(false)}
+              aria-label={tr.dismiss}
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        <div className="mb-3 flex flex-wrap items-center gap-3">
+          {(["BLACK", "WHITE"] as const).map((p) => (
+            <label key={p} className="flex items-center gap-2 text-sm">
+              {p === "WHITE" ? tr.white : tr.black}
+              <select
+                className="rounded-lg border border-neutral-300 bg-white px-2 py-1 text-sm disabled:opacity-60"
+                value={controllers[p]}
+                disabled={remote}
+                onChange={(e) =>
+                  setControllers((cs) => ({ ...cs, [p]: e.target.value as Controller }))
+                }
+              >
+                <option value="human">{tr.human}</option>
+                {BOT_LEVELS.map((level) => (
+                  <option key={level} value={level}>
+                    {tr.computer(tr.botLevels[level])}
+                  </option>
+                ))}
+                <option value="mcts">{tr.computer(tr.botLevels.mcts)}</option>
+              </select>
+            </label>
+          ))}
+        </div>
+
+        {clock && (
+          <ClockBar
+            tr={tr}
+            clock={clock}
+            readings={readClock(clock, Math.max(now, clock.since ?? 0))}
+            onPause={isGuest ? undefined : () => setClock(pauseClock(clock, Date.now()))}
+            onResume={isGuest ? undefined : () => setClock(resumeClock(clock))}
+          />
+        )}
+
         <div className="mb-3 flex flex-wrap items-center gap-3">
           <span className="text-sm text-neutral-600">{moveLabel}</span>
+          {game.rules.scoring !== "area" && (
+            <span className="text-sm text-neutral-600">
+              {tr.scoringInfo(tr.scoringModes[game.rules.scoring])}
+            </span>
+          )}
+          {game.rules.komi !== 0 && (
+            <span className="text-sm text-neutral-600">
+              {tr.komiInfo(game.rules.komi)}
+            </span>
+          )}
           <span className="text-sm">
-            {tr.turn} <b>{playerLabel}</b> {anyLegal ? tr.chooseHighlighted : tr.noLegal}
+            {tr.turn} <b>{playerLabel}</b>{" "}
+            {replay
+              ? null
+              : !humanToMove && !gameOver
+                ? online.session
+                  ? tr.onlineOtherTurn
+                  : tabs.session
+                    ? tr.tabsOtherTurn
+                    : tr.computerThinking
+                : anyLegal
+                  ? tr.chooseHighlighted
+                  : tr.noLegal}
+          </span>
+          <span className="sr-only" aria-live="polite">
+            {announced}
           </span>
+          {analysis && (
+            <span className="text-xs text-neutral-500">
+              {tr.analysisLine(
+                analysis.playouts,
+                Math.round(analysis.winRate * 100),
+                analysis.pv.slice(0, 6).map(formatMove).join(" "),
+              )}
+            </span>
+          )}
         </div>
 
         <div className="mb-3 grid grid-cols-2 gap-3">
@@ -422,186 +1312,519 @@ export default function App() {
             />
             {tr.showTerritory}
           </label>
+          {showReach.territory && (
+            <div className="flex items-center gap-3 text-xs text-neutral-600">
+              {(
+                [
+                  ["WHITE", "#dbeafe"],
+                  ["BLACK", "#ffe4e6"],
+                  ["NEUTRAL", "#e7e5e4"],
+                ] as const
+              ).map(([owner, color]) => (
+                <span key={owner} className="flex items-center gap-1">
+                  <span
+                    className="inline-block h-3 w-3 rounded-sm border border-neutral-300"
+                    style={{ backgroundColor: color }}
+                  />
+                  {tr.ownershipLegend[owner]}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
 
-        <div className="relative rounded-2xl bg-white shadow p-2 overflow-auto">
-          <svg width={width} height={height} className="block">
-            {/* board hexes */}
-            {Array.from({ length: ROWS }).map((_, r) =>
-              Array.from({ length: COLS }).map((__, c) => {
-                const { x, y } = hexCenter(r, c);
-                const pts = hexPoints(x, y, HEX_R);
-                const v = board[r][c];
-
-                const isLegal = legalMask[r][c];
-                const isWhiteReach = whiteStonesReach[r][c];
-                const isBlackReach = blackStonesReach[r][c];
-                const isWhiteTerr = territoryMask.w[r][c];
-                const isBlackTerr = territoryMask.b[r][c];
-                const isHovered = hovered?.r === r && hovered?.c === c;
-
-                // base styling
-                const isWBase = v === WHITE_BASE;
-                const isBBase = v === BLACK_BASE;
-
-                // Tile fill: consistent, no pale opacity differences
-                // Territory tint is independent of legality
-                let fill = "#f8fafc"; // neutral base tile
-                let fillOpacity = 1;
-
-                if (v === EMPTY) {
-                  const inWhiteTerr = showReach.territory && isWhiteTerr;
-                  const inBlackTerr = showReach.territory && isBlackTerr;
-                  if (inWhiteTerr) fill = "#dbeafe"; // blue-100
-                  else if (inBlackTerr) fill = "#ffe4e6"; // rose-100
-                  else fill = "#f8fafc";
-                }
+        {setupOpen ? (
+          <SetupScreen
+            tr={tr}
+            initial={config}
+            initialRules={game.rules}
+            initialTimeControl={clock?.control ?? null}
+            onStart={onSetupStart}
+            onCancel={() => setSetupOpen(false)}
+          />
+        ) : gamesOpen ? (
+          <SavedGames
+            tr={tr}
+            lang={lang}
+            games={savedGames}
+            currentId={gameId}
+            onOpen={onOpenSaved}
+            onDelete={onDeleteSaved}
+            onClose={() => setGamesOpen(false)}
+          />
+        ) : (
+          <div className="flex flex-col gap-3 lg:flex-row lg:items-start">
+            <div className="relative flex-1 rounded-2xl bg-white shadow p-2 overflow-auto">
+              <svg
+                ref={boardRef}
+                width={width}
+                height={height}
+                className="block"
+                role="grid"
+                aria-label={tr.boardLabel(config.rows, config.cols)}
+                // Cursor keys move by hex direction; Enter (or Space) plays its cell
+                onKeyDown={(e) => {
+                  if (e.ctrlKey || e.metaKey || e.altKey) return;
+                  const place = e.key === "Enter" || (e.key === " " && !replay);
+                  const next = place ? null : moveCursor(active, e.key, config);
+                  if (!place && !next) return;
+                  e.preventDefault();
+                  e.stopPropagation(); // arrows move the cursor, not through the tree
+                  setBoardFocus(true);
+                  if (next) {
+                    setCursor(next);
+                    setHovered(next);
+                  } else tryPlace(active.r, active.c);
+                }}
+                // Focus from a click does not show the cursor; from Tab it does
+                onMouseDown={() => {
+                  pointerDown.current = true;
+                  setBoardFocus(false);
+                }}
+                onMouseUp={() => (pointerDown.current = false)}
+                onFocus={() => !pointerDown.current && setBoardFocus(true)}
+                onBlur={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node | null))
+                    setBoardFocus(false);
+                }}
+              >
+                {/* board hexes */}
+                {Array.from({ length: config.rows }).map((_, r) => (
+                  <g key={r} role="row">
+                    {Array.from({ length: config.cols }).map((__, c) => {
+                      const { x, y } = hexCenter(r, c);
+                      const pts = hexPoints(x, y, HEX_R);
+                      const v = board[r][c];
 
-                let stroke = "#cbd5e1"; // slate-300 (default grid)
-                let strokeWidth = 1;
+                      const isLegal = playable && legalMask[r][c];
+                      const isDead = deadStones.some((d) => d.r === r && d.c === c);
+                      const isWhiteReach = whiteStonesReach[r][c];
+                      const isBlackReach = blackStonesReach[r][c];
+                      const owner = showReach.territory ? score.ownership[r][c] : null;
+                      const isHovered = hovered?.r === r && hovered?.c === c;
+                      const isDoomed = preview?.doomed.has(cellKey({ r, c }));
+                      const isSelectedMove =
+                        selectedPlace?.r === r && selectedPlace?.c === c;
 
-                // Legal, not hovered: gentle accent to read as "enabled"
-                const isLegalIdle = v === EMPTY && isLegal && !gameOver;
-                if (isLegalIdle) {
-                  stroke = "#64748b"; // slate-500
-                  strokeWidth = 1.25;
-                }
+                      // base styling
+                      const isWBase = v === WHITE_BASE;
+                      const isBBase = v === BLACK_BASE;
 
-                // Illegal, not hovered: ensure visible on both blue/red territory fills
-                const isIllegalIdle = v === EMPTY && !isLegal;
-                if (isIllegalIdle) {
-                  stroke = "#cbd5e1"; // slate-300
-                  strokeWidth = 1;
-                }
+                      // Tile fill: consistent, no pale opacity differences
+                      // Ownership tint is independent of legality; a stone counting for
+                      // its own side needs no tint, but a neutral one is marked
+                      let fill = "#f8fafc"; // neutral base tile
+                      let fillOpacity = 1;
 
-                // Hover emphasis
-                if (v === EMPTY && !gameOver && isHovered) {
-                  if (isLegal) {
-                    stroke = "#0f172a"; // slate-900 (near-black)
-                    strokeWidth = 1.7;
-                    // elevate legal on hover (slightly more saturated)
-                    if (fill === "#dbeafe") fill = "#bfdbfe"; // blue-200
-                    else if (fill === "#ffe4e6") fill = "#fecdd3"; // rose-200
-                    else if (fill === "#f8fafc") fill = "#e2e8f0"; // slate-200
-                    fillOpacity = 1;
-                  }
-                }
+                      if (owner === "NEUTRAL") fill = "#e7e5e4"; // stone-200
+                      else if (v === EMPTY && owner === "WHITE") fill = "#dbeafe"; // blue-100
+                      else if (v === EMPTY && owner === "BLACK") fill = "#ffe4e6"; // rose-100
+
+                      let stroke = "#cbd5e1"; // slate-300 (default grid)
+                      let strokeWidth = 1;
 
-                return (
-                  <g key={`${r}-${c}`}>
-                    <polygon
-                      points={pts}
-                      fill={fill}
-                      fillOpacity={fillOpacity}
-                      stroke={stroke}
-                      strokeWidth={strokeWidth}
-                      onClick={() => tryPlace(r, c)}
-                      onMouseEnter={() => setHovered({ r, c })}
-                      onMouseLeave={() =>
-                        setHovered((h) => (h && h.r === r && h.c === c ? null : h))
+                      // Legal, not hovered: gentle accent to read as "enabled"
+                      const isLegalIdle = v === EMPTY && isLegal && !gameOver;
+                      if (isLegalIdle) {
+                        stroke = "#64748b"; // slate-500
+                        strokeWidth = 1.25;
                       }
-                      style={{
-                        cursor:
-                          v === EMPTY && isLegal && !gameOver ? "pointer" : "default",
-                      }}
-                    />
-
-                    {/* reach overlays */}
-                    {showReach.white && isWhiteReach && (
-                      <circle
-                        cx={x - 9}
-                        cy={y - 9}
-                        r={3.5}
-                        fill="#3b82f6"
-                        opacity={0.7}
-                      />
-                    )}
-                    {showReach.black && isBlackReach && (
-                      <circle
-                        cx={x + 9}
-                        cy={y - 9}
-                        r={3.5}
-                        fill="#ef4444"
-                        opacity={0.7}
-                      />
-                    )}
 
-                    {/* stones / bases */}
-                    {v === WHITE_STONE && (
-                      <circle
-                        cx={x}
-                        cy={y}
-                        r={HEX_R * 0.58}
-                        fill="#ffffff"
-                        stroke="#1f2937"
-                        strokeWidth={1.5}
-                      />
-                    )}
-                    {v === BLACK_STONE && (
-                      <circle cx={x} cy={y} r={HEX_R * 0.58} fill="#0f172a" />
-                    )}
-                    {isWBase && (
-                      <rect
-                        x={x - HEX_R * 0.42}
-                        y={y - HEX_R * 0.42}
-                        width={HEX_R * 0.84}
-                        height={HEX_R * 0.84}
-                        rx={6}
-                        fill="#ffffff"
-                        stroke="#1f2937"
-                        strokeWidth={1.5}
-                      />
-                    )}
-                    {isBBase && (
-                      <rect
-                        x={x - HEX_R * 0.42}
-                        y={y - HEX_R * 0.42}
-                        width={HEX_R * 0.84}
-                        height={HEX_R * 0.84}
-                        rx={6}
-                        fill="#0f172a"
-                      />
-                    )}
+                      // Illegal, not hovered: ensure visible on both blue/red territory fills
+                      const isIllegalIdle = v === EMPTY && !isLegal;
+                      if (isIllegalIdle) {
+                        stroke = "#cbd5e1"; // slate-300
+                        strokeWidth = 1;
+                      }
+
+                      // Hover emphasis
+                      if (v === EMPTY && !gameOver && isHovered) {
+                        if (isLegal) {
+                          stroke = "#0f172a"; // slate-900 (near-black)
+                          strokeWidth = 1.7;
+                          // elevate legal on hover (slightly more saturated)
+                          if (fill === "#dbeafe") fill = "#bfdbfe"; // blue-200
+                          else if (fill === "#ffe4e6") fill = "#fecdd3"; // rose-200
+                          else if (fill === "#e7e5e4") fill = "#d6d3d1"; // stone-300
+                          else if (fill === "#f8fafc") fill = "#e2e8f0"; // slate-200
+                          fillOpacity = 1;
+                        }
+                      }
+
+                      const isCursor = r === active.r && c === active.c;
+
+                      return (
+                        <g
+                          key={`${r}-${c}`}
+                          role="gridcell"
+                          data-cell={`${r}-${c}`}
+                          tabIndex={isCursor ? 0 : -1}
+                          aria-label={cellLabel(
+                            tr,
+                            board,
+                            r,
+                            c,
+                            gameOver || replay || editor ? null : Boolean(isLegal),
+                            score.ownership[r][c],
+                          )}
+                          onFocus={() => setCursor({ r, c })}
+                          onClick={() => tryPlace(r, c)}
+                          onMouseEnter={(e) => {
+                            setHovered({ r, c });
+                            // Dragging paints in the editor
+                            if (editor && e.buttons === 1) tryPlace(r, c);
+                          }}
+                          onMouseLeave={() =>
+                            setHovered((h) => (h && h.r === r && h.c === c ? null : h))
+                          }
+                          style={{
+                            cursor:
+                              editor || (v === EMPTY && isLegal && !gameOver)
+                                ? "pointer"
+                                : "default",
+                            outline: "none",
+                          }}
+                        >
+                          <polygon
+                            points={pts}
+                            fill={fill}
+                            fillOpacity={fillOpacity}
+                            stroke={stroke}
+                            strokeWidth={strokeWidth}
+                          />
+
+                          {/* reach overlays */}
+                          {showReach.white && isWhiteReach && (
+                            <circle
+                              cx={x - 9}
+                              cy={y - 9}
+                              r={3.5}
+                              fill="#3b82f6"
+                              opacity={0.7}
+                            />
+                          )}
+                          {showReach.black && isBlackReach && (
+                            <circle
+                              cx={x + 9}
+                              cy={y - 9}
+                              r={3.5}
+                              fill="#ef4444"
+                              opacity={0.7}
+                            />
+                          )}
+
+                          {/* neutral (dame) empty cell */}
+                          {owner === "NEUTRAL" && v === EMPTY && (
+                            <circle
+                              cx={x}
+                              cy={y}
+                              r={2.5}
+                              fill="#78716c"
+                              pointerEvents="none"
+                            />
+                          )}
+
+                          {/* stones / bases */}
+                          {v === WHITE_STONE && (
+                            <circle
+                              cx={x}
+                              cy={y}
+                              r={HEX_R * 0.58}
+                              fill="#ffffff"
+                              stroke="#1f2937"
+                              strokeWidth={1.5}
+                            />
+                          )}
+                          {v === BLACK_STONE && (
+                            <circle cx={x} cy={y} r={HEX_R * 0.58} fill="#0f172a" />
+                          )}
+                          {isWBase && (
+                            <rect
+                              x={x - HEX_R * 0.42}
+                              y={y - HEX_R * 0.42}
+                              width={HEX_R * 0.84}
+                              height={HEX_R * 0.84}
+                              rx={6}
+                              fill="#ffffff"
+                              stroke="#1f2937"
+                              strokeWidth={1.5}
+                            />
+                          )}
+                          {isBBase && (
+                            <rect
+                              x={x - HEX_R * 0.42}
+                              y={y - HEX_R * 0.42}
+                              width={HEX_R * 0.84}
+                              height={HEX_R * 0.84}
+                              rx={6}
+                              fill="#0f172a"
+                            />
+                          )}
+
+                          {/* hovered move: its stone, and a cross on each stone it
+                              would capture */}
+                          {preview && isHovered && (
+                            <circle
+                              cx={x}
+                              cy={y}
+                              r={HEX_R * 0.58}
+                              fill={player === "WHITE" ? "#ffffff" : "#0f172a"}
+                              stroke="#1f2937"
+                              strokeWidth={player === "WHITE" ? 1.5 : 0}
+                              opacity={0.45}
+                              pointerEvents="none"
+                            />
+                          )}
+                          {isDoomed && (
+                            <path
+                              d={`M${x - 8} ${y - 8}L${x + 8} ${y + 8}M${x + 8} ${y - 8}L${x - 8} ${y + 8}`}
+                              stroke="#e11d48"
+                              strokeWidth={3}
+                              strokeLinecap="round"
+                              pointerEvents="none"
+                            />
+                          )}
+
+                          {/* stone the editor found cut off from its base */}
+                          {isDead && (
+                            <circle
+                              cx={x}
+                              cy={y}
+                              r={HEX_R * 0.72}
+                              fill="none"
+                              stroke="#e11d48"
+                              strokeWidth={2}
+                              strokeDasharray="4 3"
+                              pointerEvents="none"
+                            />
+                          )}
+
+                          {/* move picked in the move log */}
+                          {isSelectedMove && (
+                            <circle
+                              cx={x}
+                              cy={y}
+                              r={HEX_R * 0.72}
+                              fill="none"
+                              stroke="#f59e0b"
+                              strokeWidth={3}
+                              pointerEvents="none"
+                            />
+                          )}
+
+                          {/* keyboard cursor */}
+                          {boardFocus && isCursor && (
+                            <polygon
+                              points={hexPoints(x, y, HEX_R - 3)}
+                              fill="none"
+                              stroke="#2563eb"
+                              strokeWidth={2.5}
+                              pointerEvents="none"
+                            />
+                          )}
+                        </g>
+                      );
+                    })}
                   </g>
-                );
-              }),
-            )}
-          </svg>
+                ))}
+              </svg>
 
-          {gameOver && (
-            <div className="absolute inset-2 rounded-xl bg-white/85 backdrop-blur flex items-center justify-center border border-neutral-300">
-              <div className="text-center p-4">
-                <div className="text-lg font-semibold mb-2">{winnerText}</div>
-                <div className="text-sm text-neutral-700">
-                  <div>
-                    {tr.whiteScore} <b>{areaScore.white}</b> ({tr.stones}{" "}
-                    {areaScore.breakdown.wStones} + {tr.territory}{" "}
-                    {areaScore.breakdown.wTerr})
-                  </div>
+              {preview && hovered && (
+                <div
+                  className="pointer-events-none absolute -translate-x-1/2 -translate-y-full rounded-lg bg-neutral-900/90 px-2 py-1 text-xs text-white whitespace-nowrap"
+                  style={{
+                    // The svg sits inside the p-2 padding
+                    left: hexCenter(hovered.r, hovered.c).x + 8,
+                    top: hexCenter(hovered.r, hovered.c).y + 8 - HEX_R,
+                  }}
+                >
                   <div>
-                    {tr.blackScore} <b>{areaScore.black}</b> ({tr.stones}{" "}
-                    {areaScore.breakdown.bStones} + {tr.territory}{" "}
-                    {areaScore.breakdown.bTerr})
+                    {tr.previewScore(
+                      signedDelta(preview.scoreDelta.black),
+                      signedDelta(preview.scoreDelta.white),
+                    )}
                   </div>
+                  {(["white", "black"] as const).map(
+                    (side) =>
+                      preview.captured[side].length > 0 && (
+                        <div key={side}>
+                          {tr.announceCaptures(
+                            preview.captured[side].length,
+                            tr.ownershipLegend[side === "white" ? "WHITE" : "BLACK"],
+                          )}
+                        </div>
+                      ),
+                  )}
                 </div>
-                <div className="mt-3 flex gap-2 justify-center">
-                  <button
-                    className="px-3 py-1.5 rounded-xl bg-neutral-900 text-white"
-                    onClick={onRestart}
-                  >
-                    {tr.newGame}
-                  </button>
-                  <button
-                    className="px-3 py-1.5 rounded-xl bg-neutral-200"
-                    onClick={() => setGameOver(false)}
-                  >
-                    {tr.inspect}
-                  </button>
+              )}
+
+              {replay && (
+                <ReplayBar
+                  tr={tr}
+                  ply={replay.ply}
+                  total={line.length - 1}
+                  playing={replay.playing}
+                  speed={replaySpeed}
+                  captures={totalCaptures(game.moves)}
+                  score={score}
+                  onSeek={seekReplay}
+                  onTogglePlay={() => setReplay({ ...replay, playing: !replay.playing })}
+                  onSpeed={setReplaySpeed}
+                  onExit={() => setReplay(null)}
+                />
+              )}
+
+              {gameOver && !overlayHidden && !replay && (
+                <div className="absolute inset-2 rounded-xl bg-white/85 backdrop-blur flex items-center justify-center border border-neutral-300">
+                  <div className="text-center p-4">
+                    <div className="text-lg font-semibold mb-2">{winnerText}</div>
+                    <div className="text-sm text-neutral-700">
+                      <div>
+                        {tr.whiteScore} <b>{score.white}</b> ({scoreParts("WHITE")})
+                      </div>
+                      <div>
+                        {tr.blackScore} <b>{score.black}</b> ({scoreParts("BLACK")})
+                      </div>
+                      {score.breakdown.neutral > 0 && (
+                        <div>{tr.neutralCells(score.breakdown.neutral)}</div>
+                      )}
+                    </div>
+                    <div className="mt-3 flex gap-2 justify-center">
+                      <button
+                        className="px-3 py-1.5 rounded-xl bg-neutral-900 text-white"
+                        onClick={onRestart}
+                      >
+                        {tr.newGame}
+                      </button>
+                      <button
+                        className="px-3 py-1.5 rounded-xl bg-neutral-200"
+                        onClick={startReplay}
+                      >
+                        {tr.replay}
+                      </button>
+                      <button
+                        className="px-3 py-1.5 rounded-xl bg-neutral-200"
+                        onClick={() => setOverlayHidden(true)}
+                      >
+                        {tr.inspect}
+                      </button>
+                    </div>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
-          )}
-        </div>
+            {editor ? (
+              <EditorPanel
+                tr={tr}
+                tool={editor.tool}
+                toMove={editor.toMove}
+                dead={deadStones}
+                onTool={(tool) => setEditor({ ...editor, tool })}
+                onToMove={(toMove) => setEditor({ ...editor, toMove })}
+                onClear={() => setEditor(clearBoard(editor))}
+                onRemoveDead={() => setEditor(removeDeadStones(editor))}
+                onStart={onEditorStart}
+                onCancel={() => setEditor(null)}
+              />
+            ) : online.session || onlineOpen ? (
+              <div className="flex flex-col gap-3">
+                <OnlinePanel
+                  tr={tr}
+                  status={online.session?.status ?? null}
+                  url={ONLINE_URL}
+                  room={online.session?.room ?? null}
+                  seat={online.session?.seat ?? null}
+                  seats={online.session?.seats ?? { BLACK: "empty", WHITE: "empty" }}
+                  undo={online.session?.undo ?? null}
+                  chat={online.session?.chat ?? []}
+                  error={online.session?.error ?? null}
+                  canUndo={
+                    (mySeat === "BLACK" || mySeat === "WHITE") &&
+                    takeBack(tree, mySeat) !== null
+                  }
+                  onCreate={(url, seat) => online.open(url, seat, null)}
+                  onJoin={(url, room, seat) => online.open(url, seat, room)}
+                  onUndo={() => sendIntent({ type: "undo-request", from: me })}
+                  onAnswer={(accept) =>
+                    sendIntent({ type: "undo-answer", from: me, accept })
+                  }
+                  onChat={online.chat}
+                  onLeave={online.leave}
+                  onClose={() => setOnlineOpen(false)}
+                />
+                <MoveLog
+                  tr={tr}
+                  moves={game.moves}
+                  selected={selectedMove}
+                  onSelect={setSelectedMove}
+                />
+              </div>
+            ) : tabs.session || tabsOpen ? (
+              <div className="flex flex-col gap-3">
+                <MultiTabPanel
+                  tr={tr}
+                  supported={typeof BroadcastChannel !== "undefined"}
+                  status={tabs.status}
+                  me={me}
+                  seat={mySeat ?? null}
+                  seats={tabs.seats}
+                  undo={tabs.undo}
+                  error={tabs.error}
+                  canUndo={
+                    (mySeat === "BLACK" || mySeat === "WHITE") &&
+                    takeBack(tree, mySeat) !== null
+                  }
+                  onHost={(seat) => tabs.open("host", seat)}
+                  onJoin={tabs.join}
+                  onTakeOver={tabs.takeOver}
+                  onUndo={() => sendIntent({ type: "undo-request", from: me })}
+                  onAnswer={(accept) =>
+                    sendIntent({ type: "undo-answer", from: me, accept })
+                  }
+                  onLeave={tabs.leave}
+                  onClose={() => setTabsOpen(false)}
+                />
+                <MoveLog
+                  tr={tr}
+                  moves={game.moves}
+                  selected={selectedMove}
+                  onSelect={setSelectedMove}
+                />
+              </div>
+            ) : puzzle ? (
+              <div className="flex flex-col gap-3">
+                <PuzzlePanel
+                  tr={tr}
+                  index={puzzle.index}
+                  count={PUZZLES.length}
+                  puzzle={PUZZLES[puzzle.index]}
+                  attempt={puzzle.attempt}
+                  solutionShown={puzzle.solutionShown}
+                  onSelect={openPuzzle}
+                  onRetry={() => openPuzzle(puzzle.index)}
+                  onShowSolution={() => setPuzzle({ ...puzzle, solutionShown: true })}
+                  onExit={() => setPuzzle(null)}
+                />
+                <MoveLog
+                  tr={tr}
+                  moves={game.moves}
+                  selected={selectedMove}
+                  onSelect={setSelectedMove}
+                />
+              </div>
+            ) : (
+              <div className="flex flex-col gap-3">
+                <MoveLog
+                  tr={tr}
+                  moves={game.moves}
+                  selected={selectedMove}
+                  onSelect={setSelectedMove}
+                />
+                <VariationTree tr={tr} tree={tree} onNavigate={navigate} />
+              </div>
+            )}
+          </div>
+        )}
 
         <section className="mt-4 grid sm:grid-cols-2 gap-4">
           <div className="p-3 rounded-xl bg-white border text-sm leading-relaxed">
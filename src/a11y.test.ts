@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { announcement, cellLabel, moveCursor } from "./a11y";
+import { BLACK_STONE, DEFAULT_CONFIG, WHITE_STONE } from "./game/engine";
+import { applyAction, gameFromPosition, newGame, type GameState } from "./game/state";
+import { parsePosition } from "./game/link";
+import { DEFAULT_RULESET } from "./game/rules";
+import { translations } from "./i18n";
+
+const en = translations.en;
+
+function play(state: GameState, ...moves: Array<[number, number]>) {
+  for (const [r, c] of moves) {
+    const res = applyAction(state, { type: "place", r, c });
+    if (!res.ok) throw new Error(res.error.code);
+    state = res.state;
+  }
+  return state;
+}
+
+describe("board accessibility", () => {
+  it("moves the cursor by hex direction and stops at the edge", () => {
+    const at = { r: 3, c: 2 };
+    expect(moveCursor(at, "w", DEFAULT_CONFIG)).toEqual({ r: 2, c: 2 });
+    expect(moveCursor(at, "E", DEFAULT_CONFIG)).toEqual({ r: 3, c: 3 });
+    expect(moveCursor(at, "d", DEFAULT_CONFIG)).toEqual({ r: 4, c: 3 });
+    expect(moveCursor({ r: 3, c: 3 }, "e", DEFAULT_CONFIG)).toEqual({ r: 2, c: 4 });
+    // Left and right keep the row
+    expect(moveCursor(at, "ArrowLeft", DEFAULT_CONFIG)).toEqual({ r: 3, c: 1 });
+    expect(moveCursor({ r: 3, c: 3 }, "ArrowRight", DEFAULT_CONFIG)).toEqual({
+      r: 3,
+      c: 4,
+    });
+    expect(moveCursor({ r: 0, c: 0 }, "ArrowUp", DEFAULT_CONFIG)).toEqual({ r: 0, c: 0 });
+    expect(moveCursor(at, "x", DEFAULT_CONFIG)).toBeNull();
+  });
+
+  it("labels cells with their content, legality and owner", () => {
+    const board = newGame().board;
+    board[6][3] = BLACK_STONE;
+    board[1][4] = WHITE_STONE;
+    expect(cellLabel(en, board, 5, 3, true, "BLACK")).toBe(
+      "d6, empty, legal move, Black territory",
+    );
+    expect(cellLabel(en, board, 6, 3, null, "BLACK")).toBe("d7, Black stone");
+    expect(cellLabel(en, board, 0, 4, null, "WHITE")).toBe("e1, White base");
+    expect(cellLabel(translations.zh, board, 3, 3, false, "NEUTRAL")).toBe(
+      "d4, 空, 不可落子, 中立",
+    );
+  });
+
+  it("announces moves, captures, turns and the result", () => {
+    const start = newGame();
+    const one = play(start, [6, 3]);
+    expect(announcement(en, start, one, "")).toBe("Black plays d7. White to move.");
+    expect(announcement(translations.zh, start, one, "")).toBe(
+      "黑方落子 d7。 轮到白方。",
+    );
+    // An undo or a jump back only says whose turn it is; nothing changed, nothing said
+    expect(announcement(en, one, start, "")).toBe("Black to move.");
+    expect(announcement(en, one, one, "")).toBe("");
+
+    // White's b2 cuts the black stone at a2 off from its base
+    const p = parsePosition("2W1/b1b1/wwbb/wB2 w")!;
+    const before = gameFromPosition(p.config, DEFAULT_RULESET, p.board, p.toMove);
+    const after = play(before, [1, 1]);
+    expect(announcement(en, before, after, "")).toBe(
+      "White plays b2. 1 Black stone captured. Black to move.",
+    );
+    const resigned = applyAction(after, { type: "resign" });
+    if (!resigned.ok) throw new Error(resigned.error.code);
+    expect(announcement(en, after, resigned.state, "Game Over — White wins")).toBe(
+      "Game Over — White wins",
+    );
+  });
+});
@@ -0,0 +1,106 @@
+// Keyboard and screen-reader support for the board: the keys that move the board
+// cursor, the label read out for each cell, and the live-region text announcing what
+// changed after a move, an undo or the end of the game.
+
+import {
+  BLACK_BASE,
+  BLACK_STONE,
+  EMPTY,
+  WHITE_BASE,
+  WHITE_STONE,
+  hexStep,
+  type Cell,
+  type Coord,
+  type GameConfig,
+  type HexDirection,
+} from "./game/engine";
+import { formatCoord } from "./game/notation";
+import type { CellOwner } from "./game/scoring";
+import type { GameState } from "./game/state";
+import type { Translation } from "./i18n";
+
+// Q/W/E above A/S/D mirror the six hex directions
+const LETTER_KEYS: Record<string, HexDirection> = {
+  q: "nw",
+  w: "n",
+  e: "ne",
+  a: "sw",
+  s: "s",
+  d: "se",
+};
+
+// Where `key` moves the cursor from `at`: null when it is not a cursor key, `at` itself
+// at the edge of the board. Up and down stay in the column; left and right stay in the
+// row, which is the upper or the lower diagonal neighbour depending on the column.
+export function moveCursor(at: Coord, key: string, config: GameConfig): Coord | null {
+  const even = at.c % 2 === 0;
+  const arrows: Record<string, HexDirection> = {
+    ArrowUp: "n",
+    ArrowDown: "s",
+    ArrowLeft: even ? "nw" : "sw",
+    ArrowRight: even ? "ne" : "se",
+  };
+  const dir = arrows[key] ?? LETTER_KEYS[key.toLowerCase()];
+  if (!dir) return null;
+  return hexStep(at.r, at.c, dir, config) ?? at;
+}
+
+const CONTENT: Record<Cell, keyof Translation["cellContent"]> = {
+  [EMPTY]: "empty",
+  [WHITE_STONE]: "whiteStone",
+  [BLACK_STONE]: "blackStone",
+  [WHITE_BASE]: "whiteBase",
+  [BLACK_BASE]: "blackBase",
+};
+
+// "d7, empty, legal move, Black territory". `legal` is null when no move can be made
+// (game over, replay, editor); the owner is named for empty cells, and for stones
+// only when they count for neither side.
+export function cellLabel(
+  tr: Translation,
+  board: Cell[][],
+  r: number,
+  c: number,
+  legal: boolean | null,
+  owner: CellOwner | null,
+): string {
+  const v = board[r][c];
+  const parts = [formatCoord(r, c), tr.cellContent[CONTENT[v]]];
+  if (v === EMPTY && legal !== null) parts.push(legal ? tr.cellLegal : tr.cellIllegal);
+  if (owner && (v === EMPTY || owner === "NEUTRAL")) parts.push(tr.cellOwner[owner]);
+  return parts.join(", ");
+}
+
+// What to announce when the game shown goes from `prev` to `next`: the move just
+// played and its captures when the game moved on by one, then whose turn it is, or
+// `result` once the game is over. Empty when nothing a listener cares about changed.
+export function announcement(
+  tr: Translation,
+  prev: GameState,
+  next: GameState,
+  result: string,
+): string {
+  const side = (p: keyof Translation["ownershipLegend"]) => tr.ownershipLegend[p];
+  const parts: string[] = [];
+  const last = next.moves[next.moves.length - 1];
+  if (last && next.moves.length === prev.moves.length + 1) {
+    const { move, player, captured } = last;
+    parts.push(
+      move.type === "pass"
+        ? tr.announcePass(side(player))
+        : tr.announceMove(side(player), formatCoord(move.r, move.c)),
+    );
+    if (captured.white > 0)
+      parts.push(tr.announceCaptures(captured.white, side("WHITE")));
+    if (captured.black > 0)
+      parts.push(tr.announceCaptures(captured.black, side("BLACK")));
+  } else if (
+    next.moves.length === prev.moves.length &&
+    next.toMove === prev.toMove &&
+    next.gameOver === prev.gameOver
+  ) {
+    return "";
+  }
+  parts.push(next.gameOver ? result : tr.announceTurn(side(next.toMove)));
+  return parts.join(" ");
+}
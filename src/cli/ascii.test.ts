@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { parseBoard } from "../game/link";
+import { renderBoard } from "./ascii";
+
+describe("AnchorHex ASCII board", () => {
+  it("draws flat-topped hexes with even columns half a cell lower", () => {
+    const { board, config } = parseBoard("W2/1b1/2B")!;
+    const marked = [
+      [false, true, false],
+      [true, false, false],
+      [false, false, false],
+    ];
+    expect(renderBoard(board, config, marked)).toBe(
+      [
+        "     a   b   c",
+        "        ___",
+        "    ___/ . \\___",
+        "1  /[W]\\___/   \\",
+        "   \\___/ b \\___/",
+        "2  / . \\___/   \\",
+        "   \\___/   \\___/",
+        "3  /   \\___/[B]\\",
+        "   \\___/   \\___/",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,70 @@
+// The board drawn as ASCII hexes for the terminal. Cells are flat-topped, as on
+// screen, and even columns sit half a cell lower (even-q):
+//
+//         a   b   c
+//            ___
+//        ___/   \___
+//   1   /   \[W]/   \
+//       \___/   \___/
+//   2   / b \___/ . \
+//       \___/   \___/
+//
+// Each cell is five characters wide and two lines high; neighbours share their edges.
+// Stones are "b" / "w", bases "[B]" / "[W]", and marked cells (legal moves) ".".
+
+import {
+  BLACK_BASE,
+  BLACK_STONE,
+  WHITE_BASE,
+  WHITE_STONE,
+  type Cell,
+  type GameConfig,
+} from "../game/engine";
+
+const CELL_TEXT: Record<Cell, string> = {
+  0: "   ",
+  [WHITE_STONE]: " w ",
+  [BLACK_STONE]: " b ",
+  [WHITE_BASE]: "[W]",
+  [BLACK_BASE]: "[B]",
+};
+
+const MARK = " . ";
+
+export function renderBoard(
+  board: Cell[][],
+  config: GameConfig,
+  marked?: boolean[][],
+): string {
+  const { rows, cols } = config;
+  const label = String(rows).length + 2; // row numbers on the left
+  const grid = Array.from({ length: rows * 2 + 2 }, () =>
+    Array<string>(label + cols * 4 + 1).fill(" "),
+  );
+  const put = (y: number, x: number, text: string) => {
+    for (let i = 0; i < text.length; i++) grid[y][label + x + i] = text[i];
+  };
+
+  for (let r = 0; r < rows; r++)
+    for (let c = 0; c < cols; c++) {
+      const x = c * 4;
+      const y = r * 2 + (c % 2 === 0 ? 1 : 0);
+      const v = board[r][c];
+      put(y, x + 1, "___");
+      put(y + 1, x, `/${v === 0 && marked?.[r][c] ? MARK : CELL_TEXT[v]}\\`);
+      put(y + 2, x, "\\___/");
+    }
+  // Row numbers beside the first column, which sits lower
+  for (let r = 0; r < rows; r++) {
+    const n = String(r + 1);
+    for (let i = 0; i < n.length; i++) grid[r * 2 + 2][i] = n[i];
+  }
+
+  const header =
+    " ".repeat(label + 2) +
+    Array.from({ length: cols }, (_, c) => String.fromCharCode(97 + c)).join("   ");
+  return [header, ...grid.map((line) => line.join(""))]
+    .map((line) => line.trimEnd())
+    .filter((line) => line !== "")
+    .join("\n");
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { formatCoord } from "../game/notation";
+import { legalMovesFor } from "../game/state";
+import {
+  openPlay,
+  playInput,
+  playPrompt,
+  runCli,
+  startPlay,
+  type PlaySession,
+} from "./commands";
+
+const piped = (text: string) => async () => text;
+
+describe("AnchorHex CLI", () => {
+  it("replays moves and prints the area score breakdown", async () => {
+    const res = await runCli(["replay", "d7", "e2", "c7"]);
+    expect(res.code).toBe(0);
+    expect(res.out.split("\n").slice(-5)).toEqual([
+      "Position: 4W3/4w3/8/8/8/8/2bb4/3B4 w",
+      "Moves: 3",
+      "Result: ?",
+      "White: 1 (stones 1, territory 0)",
+      "Black: 2 (stones 2, territory 0)",
+    ]);
+    // Moves can be piped in, numbered as in a game record
+    expect(await runCli(["replay", "--position"], piped("1. d7\n2. e2\n"))).toEqual({
+      out: "4W3/4w3/8/8/8/8/3b4/3B4 b",
+      code: 0,
+    });
+    expect(await runCli(["replay", "d7", "d7"])).toEqual({
+      out: "anchorhex: move 2 (d7) is illegal: OCCUPIED",
+      code: 1,
+    });
+    expect((await runCli(["replay", "d7", "z0"])).out).toBe(
+      'anchorhex: move 2: cannot read "z0"',
+    );
+  });
+
+  it("lists legal moves and reads positions given or piped in", async () => {
+    const small = "W2/1b1/2B w";
+    expect(await runCli(["legal", small])).toEqual({
+      out: "b1\nc1\na2\nc2\na3\nb3",
+      code: 0,
+    });
+    expect(await runCli(["legal"], piped(small + "\n"))).toEqual(
+      await runCli(["legal", small]),
+    );
+    // No legal placement leaves a pass
+    expect((await runCli(["legal", "Wb1/bbb/bbB w"])).out).toBe("pass");
+    expect((await runCli(["board", small])).out.split("\n").at(-1)).toBe("White to move");
+    // The initial board when nothing is given
+    expect((await runCli(["legal"])).out.split("\n")).toHaveLength(62);
+    expect(await runCli(["legal", "W2/3/3 b"])).toEqual({
+      out: "anchorhex: cannot read the position",
+      code: 1,
+    });
+    expect((await runCli(["board", "--bogus"])).code).toBe(2);
+    expect((await runCli(["frobnicate"])).code).toBe(2);
+  });
+
+  it("plays a terminal game one line at a time", () => {
+    let session = startPlay([]) as PlaySession;
+    session = openPlay(session).session;
+    expect(playPrompt(session)).toMatch(/Black to move \(a move, pass/);
+    const step = (line: string) => {
+      const res = playInput(session, line);
+      session = res.session;
+      return res;
+    };
+    expect(step("zz").out).toBe('Cannot read "zz".');
+    expect(step("pass").out).toBe("Illegal move: HAS_LEGAL_MOVES");
+    step("d7");
+    step("e2");
+    expect(session.state.moves).toHaveLength(2);
+    step("undo");
+    expect(session.state.toMove).toBe("WHITE");
+    expect(step("resign")).toMatchObject({ done: true });
+    expect(playPrompt(session)).toContain("Result: B+R");
+    expect(startPlay(["--white", "expert"])).toEqual({
+      out: 'anchorhex: unknown computer level "expert"',
+      code: 2,
+    });
+  });
+
+  it("lets the computer answer and take back its moves with the player's", () => {
+    let session = openPlay(startPlay(["--black", "easy"]) as PlaySession).session;
+    expect(session.state.moves).toHaveLength(1);
+    // The computer's opening is random, so answer on any cell still legal
+    const r = legalMovesFor(session.state).findIndex((row) => row.includes(true));
+    const c = legalMovesFor(session.state)[r].indexOf(true);
+    const res = playInput(session, formatCoord(r, c));
+    session = res.session;
+    expect(res.out).toMatch(/^Black plays [a-h]\d$/);
+    expect(session.state.moves).toHaveLength(3);
+    session = playInput(session, "undo").session;
+    expect(session.state.moves).toHaveLength(1);
+    expect(playInput(playInput(session, "undo").session, "undo").out).toBe(
+      "Nothing to undo.",
+    );
+  });
+});
@@ -0,0 +1,260 @@
+// The command-line interface: every command is a function from arguments (and the text
+// piped in, read only when needed) to the text to print and an exit code, so tests and
+// main.ts run the same code. Positions are read and written as one line of text (see
+// formatPosition in ../game/link), so commands chain in shell pipelines:
+//
+//   anchorhex replay --position d7 e2 | anchorhex legal
+//
+// Interactive play is a session that takes one line of input at a time.
+
+import { BOT_LEVELS, chooseBotMove, type BotLevel } from "../game/bot";
+import { computeAreaScore, type Player } from "../game/engine";
+import { formatPosition, parsePosition } from "../game/link";
+import { formatCoord, formatMove, parseMove } from "../game/notation";
+import { formatResult } from "../game/record";
+import { DEFAULT_RULESET } from "../game/rules";
+import {
+  anyLegal,
+  applyAction,
+  gameFromPosition,
+  legalMovesFor,
+  newGame,
+  type GameState,
+} from "../game/state";
+import { renderBoard } from "./ascii";
+
+export type CliResult = { out: string; code: number }; // 0 ok, 1 failed, 2 bad usage
+
+export const USAGE = `Usage: anchorhex <command> [options]
+
+Commands:
+  board [POSITION] [--legal]     draw the position (--legal marks the legal moves)
+  legal [POSITION]               list the legal moves of the side to move
+  replay [MOVE...] [--from POSITION] [--position]
+                                 play the moves (or those piped in) and print the
+                                 final board, result and area score; --position
+                                 prints only the final position
+  play [--from POSITION] [--black LEVEL] [--white LEVEL]
+                                 play in the terminal; LEVEL (easy, medium, hard)
+                                 makes that side the computer
+  help                           show this message
+
+A POSITION is one line such as "4W3/8/8/3b4/8/8/8/3B4 w": the board row by row
+from the top ("/" between rows, digits for runs of empty cells, b/w for stones,
+B/W for the bases) and the side to move. Without one, a command reads the position
+piped in, or starts from the initial board. Moves are coordinates such as "d7", or
+"pass"; move numbers such as "1." are skipped, so a game record's moves can be
+piped in.`;
+
+const SIDE: Record<Player, string> = { BLACK: "Black", WHITE: "White" };
+
+const fail = (out: string, code = 1): CliResult => ({ out: `anchorhex: ${out}`, code });
+
+// Splits arguments into the positional ones and --flags, each flag taking a value if
+// it is listed in `valued`; `bad` is an unknown flag, or one missing its value.
+function parseArgs(
+  args: string[],
+  flags: string[],
+  valued: string[] = [],
+): { rest: string[]; opts: Record<string, string> } | { bad: string } {
+  const rest: string[] = [];
+  const opts: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (!a.startsWith("--")) rest.push(a);
+    else if (valued.includes(a) && i + 1 < args.length) opts[a] = args[++i];
+    else if (flags.includes(a)) opts[a] = "";
+    else return { bad: a };
+  }
+  return { rest, opts };
+}
+
+// Reads the text piped in; null when there is none (a terminal, say)
+export type Input = () => Promise<string | null>;
+
+// The game to start from: the position given (or piped in), else a new game.
+// Positions get the default rules, with no earlier positions for the repetition rule.
+function startingGame(text: string | null | undefined) {
+  if (!text?.trim()) return newGame();
+  const p = parsePosition(text);
+  return p && gameFromPosition(p.config, DEFAULT_RULESET, p.board, p.toMove);
+}
+
+function legalList(state: GameState): string[] {
+  if (state.gameOver) return [];
+  const mask = legalMovesFor(state);
+  if (!anyLegal(mask)) return ["pass"];
+  const moves: string[] = [];
+  mask.forEach((row, r) => row.forEach((ok, c) => ok && moves.push(formatCoord(r, c))));
+  return moves;
+}
+
+function turnLine(state: GameState): string {
+  return state.gameOver
+    ? `Game over: ${formatResult(state)}`
+    : `${SIDE[state.toMove]} to move`;
+}
+
+// Result and area score breakdown of a game
+function summary(state: GameState): string[] {
+  const { white, black, breakdown: b } = computeAreaScore(state.board, state.config);
+  return [
+    `Result: ${formatResult(state)}`,
+    `White: ${white} (stones ${b.wStones}, territory ${b.wTerr})`,
+    `Black: ${black} (stones ${b.bStones}, territory ${b.bTerr})`,
+  ];
+}
+
+function report(state: GameState): string {
+  return [
+    renderBoard(state.board, state.config),
+    `Position: ${formatPosition(state)}`,
+    `Moves: ${state.moves.length}`,
+    ...summary(state),
+  ].join("\n");
+}
+
+// Plays `texts` from `state`; a bad or illegal move fails with its 1-based number.
+function replayMoves(state: GameState, texts: string[]): GameState | CliResult {
+  const moves = texts.map((t) => t.replace(/^\d+\./, "")).filter((t) => t !== "");
+  for (const [i, text] of moves.entries()) {
+    const move = parseMove(text, state.config);
+    if (!move) return fail(`move ${i + 1}: cannot read "${text}"`);
+    const res = applyAction(state, move);
+    if (!res.ok) return fail(`move ${i + 1} (${text}) is illegal: ${res.error.code}`);
+    state = res.state;
+  }
+  return state;
+}
+
+// Runs a command other than `play`.
+export async function runCli(
+  args: string[],
+  input: Input = async () => null,
+): Promise<CliResult> {
+  const [command, ...rest] = args;
+  switch (command) {
+    case "board":
+    case "legal": {
+      const parsed = parseArgs(rest, command === "board" ? ["--legal"] : []);
+      if ("bad" in parsed) return fail(`bad option ${parsed.bad}`, 2);
+      if (parsed.rest.length > 1) return fail("expected at most one position", 2);
+      const state = startingGame(parsed.rest[0] ?? (await input()));
+      if (!state) return fail("cannot read the position");
+      if (command === "legal") return { out: legalList(state).join("\n"), code: 0 };
+      const marked = "--legal" in parsed.opts ? legalMovesFor(state) : undefined;
+      return {
+        out: `${renderBoard(state.board, state.config, marked)}\n${turnLine(state)}`,
+        code: 0,
+      };
+    }
+    case "replay": {
+      const parsed = parseArgs(rest, ["--position"], ["--from"]);
+      if ("bad" in parsed) return fail(`bad option ${parsed.bad}`, 2);
+      const start = startingGame(parsed.opts["--from"]);
+      if (!start) return fail("cannot read the position");
+      const texts =
+        parsed.rest.length > 0 ? parsed.rest : ((await input()) ?? "").split(/\s+/);
+      const end = replayMoves(start, texts);
+      if ("code" in end) return end;
+      return {
+        out: "--position" in parsed.opts ? formatPosition(end) : report(end),
+        code: 0,
+      };
+    }
+    case undefined:
+    case "help":
+    case "--help":
+      return { out: USAGE, code: command === undefined ? 2 : 0 };
+    default:
+      return fail(`unknown command "${command}"\n\n${USAGE}`, 2);
+  }
+}
+
+export type PlaySession = {
+  state: GameState;
+  bots: Partial<Record<Player, BotLevel>>;
+};
+
+// A terminal game from the arguments of `play`, or the error to print.
+export function startPlay(args: string[]): PlaySession | CliResult {
+  const parsed = parseArgs(args, [], ["--from", "--black", "--white"]);
+  if ("bad" in parsed) return fail(`bad option ${parsed.bad}`, 2);
+  if (parsed.rest.length > 0) return fail(`unexpected argument "${parsed.rest[0]}"`, 2);
+  const state = startingGame(parsed.opts["--from"]);
+  if (!state) return fail("cannot read the position");
+  const bots: PlaySession["bots"] = {};
+  for (const p of ["BLACK", "WHITE"] as const) {
+    const level = parsed.opts[`--${p.toLowerCase()}`];
+    if (level === undefined) continue;
+    if (!BOT_LEVELS.includes(level as BotLevel))
+      return fail(`unknown computer level "${level}"`, 2);
+    bots[p] = level as BotLevel;
+  }
+  return { state, bots };
+}
+
+// The board with the legal moves marked, and what to type.
+export function playPrompt(session: PlaySession): string {
+  const { state } = session;
+  const board = renderBoard(state.board, state.config, legalMovesFor(state));
+  if (state.gameOver) return [board, ...summary(state)].join("\n");
+  return `${board}\n${SIDE[state.toMove]} to move (a move, pass, undo, resign or quit):`;
+}
+
+// Lets the computer play while it has the move, describing each of its moves.
+function botMoves(state: GameState, bots: PlaySession["bots"]) {
+  const lines: string[] = [];
+  for (
+    let level = bots[state.toMove];
+    level && !state.gameOver;
+    level = bots[state.toMove]
+  ) {
+    const move = chooseBotMove(state, level);
+    const res = applyAction(state, move);
+    if (!res.ok) break;
+    lines.push(`${SIDE[state.toMove]} plays ${formatMove(move)}`);
+    state = res.state;
+  }
+  return { state, lines };
+}
+
+// The computer's opening moves, if it plays first.
+export function openPlay(session: PlaySession): { session: PlaySession; out: string } {
+  const { state, lines } = botMoves(session.state, session.bots);
+  return { session: { ...session, state }, out: lines.join("\n") };
+}
+
+// One line typed by the player; `done` once they quit or the game is over.
+export function playInput(
+  session: PlaySession,
+  line: string,
+): { session: PlaySession; out: string; done: boolean } {
+  const { state, bots } = session;
+  const text = line.trim().toLowerCase();
+  const same = (out: string) => ({ session, out, done: false });
+  if (text === "quit" || text === "q") return { session, out: "", done: true };
+  if (text === "") return same("");
+  if (text === "undo") {
+    // Back to the last position a human had to move in
+    let s = state;
+    do {
+      const res = applyAction(s, { type: "undo" });
+      if (!res.ok) break;
+      s = res.state;
+    } while (bots[s.toMove]);
+    if (s === state) return same("Nothing to undo.");
+    return { session: { ...session, state: s }, out: "", done: false };
+  }
+  const action =
+    text === "resign" ? ({ type: "resign" } as const) : parseMove(text, state.config);
+  if (!action) return same(`Cannot read "${line.trim()}".`);
+  const res = applyAction(state, action);
+  if (!res.ok) return same(`Illegal move: ${res.error.code}`);
+  const next = botMoves(res.state, bots);
+  return {
+    session: { ...session, state: next.state },
+    out: next.lines.join("\n"),
+    done: next.state.gameOver,
+  };
+}
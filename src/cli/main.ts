@@ -0,0 +1,49 @@
+// Runs the command-line interface: `node dist-node/cli.js <command>` after
+// `pnpm build:node` (see USAGE in commands.ts). Text piped in is read when a command
+// asks for it; `play` reads the moves typed, one per line.
+
+import { createInterface } from "node:readline";
+import { openPlay, playInput, playPrompt, runCli, startPlay } from "./commands";
+
+async function readStdin(): Promise<string | null> {
+  if (process.stdin.isTTY) return null;
+  let text = "";
+  for await (const chunk of process.stdin) text += chunk;
+  return text;
+}
+
+async function play(args: string[]): Promise<number> {
+  const started = startPlay(args);
+  if ("code" in started) {
+    console.error(started.out);
+    return started.code;
+  }
+  const opened = openPlay(started);
+  let session = opened.session;
+  if (opened.out) console.log(opened.out);
+  console.log(playPrompt(session));
+  if (session.state.gameOver) return 0;
+  const lines = createInterface({ input: process.stdin });
+  for await (const line of lines) {
+    const res = playInput(session, line);
+    if (res.out) console.log(res.out);
+    if (res.done && !res.session.state.gameOver) break; // quit
+    // After input that changed nothing, the question alone
+    const changed = res.session !== session;
+    session = res.session;
+    const prompt = playPrompt(session);
+    console.log(changed ? prompt : prompt.slice(prompt.lastIndexOf("\n") + 1));
+    if (session.state.gameOver) break;
+  }
+  lines.close();
+  return 0;
+}
+
+const [command, ...rest] = process.argv.slice(2);
+if (command === "play") {
+  process.exitCode = await play(rest);
+} else {
+  const { out, code } = await runCli(process.argv.slice(2), readStdin);
+  if (out) (code === 0 ? console.log : console.error)(out);
+  process.exitCode = code;
+}
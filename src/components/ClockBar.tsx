@@ -0,0 +1,58 @@
+import type { Player } from "../game/engine";
+import { formatClockTime, type ClockState, type SideClock } from "../game/clock";
+import type { Translation } from "../i18n";
+
+type Props = {
+  tr: Translation;
+  clock: ClockState;
+  readings: Record<Player, SideClock>;
+  onPause?: () => void; // no pause control without these (a guest tab's view)
+  onResume?: () => void;
+};
+
+// Both players' clocks above the board. The running one is highlighted; byo-yomi shows
+// the periods left once main time is used up.
+export default function ClockBar({ tr, clock, readings, onPause, onResume }: Props) {
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-3 text-sm">
+      {(["BLACK", "WHITE"] as const).map((p) => {
+        const side = readings[p];
+        const low = side.remainingMs < 10_000;
+        return (
+          <div
+            key={p}
+            role="timer"
+            aria-label={p === "WHITE" ? tr.white : tr.black}
+            className={`rounded-xl border px-3 py-1.5 font-mono ${
+              clock.flagged === p
+                ? "border-rose-400 bg-rose-50 text-rose-800"
+                : clock.running === p
+                  ? "border-amber-500 bg-amber-100 text-amber-900"
+                  : "border-neutral-300 bg-white text-neutral-700"
+            }`}
+          >
+            <span className="mr-2 font-sans">{p === "WHITE" ? tr.white : tr.black}</span>
+            <b className={low && clock.running === p ? "text-rose-700" : undefined}>
+              {formatClockTime(side.remainingMs)}
+            </b>
+            {side.overtime && (
+              <span className="ml-1 font-sans text-xs">
+                {tr.clockPeriods(side.periods)}
+              </span>
+            )}
+          </div>
+        );
+      })}
+      {onPause && onResume && (
+        <button
+          className="px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+          onClick={clock.paused ? onResume : onPause}
+          disabled={clock.flagged !== null}
+        >
+          {clock.paused ? tr.clockResume : tr.clockPause}
+        </button>
+      )}
+      {clock.paused && <span className="text-neutral-600">{tr.clockPaused}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import type { DeadStone, Player } from "../game/engine";
+import { EDITOR_TOOLS, type EditorTool } from "../game/editor";
+import { formatCoord } from "../game/notation";
+import type { Translation } from "../i18n";
+
+type Props = {
+  tr: Translation;
+  tool: EditorTool;
+  toMove: Player;
+  dead: DeadStone[];
+  onTool: (tool: EditorTool) => void;
+  onToMove: (player: Player) => void;
+  onClear: () => void;
+  onRemoveDead: () => void;
+  onStart: () => void;
+  onCancel: () => void;
+};
+
+const toolClass = (active: boolean) =>
+  `px-2 py-1 rounded-lg border ${
+    active
+      ? "border-amber-500 bg-amber-100 text-amber-900"
+      : "border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100"
+  }`;
+
+// Tools for the board editor: what a click (or drag) on the board paints, the side to
+// move, and a warning for stones cut off from their base, which must be removed
+// before play can start from the position.
+export default function EditorPanel({
+  tr,
+  tool,
+  toMove,
+  dead,
+  onTool,
+  onToMove,
+  onClear,
+  onRemoveDead,
+  onStart,
+  onCancel,
+}: Props) {
+  return (
+    <section className="rounded-2xl bg-white shadow p-3 text-sm lg:w-64">
+      <h2 className="font-semibold mb-2">{tr.editorTitle}</h2>
+      <p className="mb-2 text-xs text-neutral-500">{tr.editorHelp}</p>
+      <div
+        className="mb-3 flex flex-wrap gap-1"
+        role="radiogroup"
+        aria-label={tr.editorTool}
+      >
+        {EDITOR_TOOLS.map((t) => (
+          <button
+            key={t}
+            role="radio"
+            aria-checked={t === tool}
+            className={toolClass(t === tool)}
+            onClick={() => onTool(t)}
+          >
+            {tr.editorTools[t]}
+          </button>
+        ))}
+      </div>
+      <label className="mb-3 flex items-center gap-2">
+        {tr.editorToMove}
+        <select
+          className="rounded-lg border border-neutral-300 bg-white px-2 py-1 text-sm"
+          value={toMove}
+          onChange={(e) => onToMove(e.target.value as Player)}
+        >
+          <option value="BLACK">{tr.black}</option>
+          <option value="WHITE">{tr.white}</option>
+        </select>
+      </label>
+      {dead.length > 0 && (
+        <div
+          role="alert"
+          className="mb-3 rounded-lg border border-rose-300 bg-rose-50 p-2 text-rose-800"
+        >
+          <p>{tr.editorDeadStones(dead.map((d) => formatCoord(d.r, d.c)).join(", "))}</p>
+          <button
+            className="mt-1 px-2 py-1 rounded-lg border border-rose-300 bg-white hover:bg-rose-100"
+            onClick={onRemoveDead}
+          >
+            {tr.editorRemoveDead}
+          </button>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <button
+          className="px-3 py-1.5 rounded-xl bg-neutral-900 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          disabled={dead.length > 0}
+          onClick={onStart}
+        >
+          {tr.editorStart}
+        </button>
+        <button className="px-3 py-1.5 rounded-xl bg-neutral-200" onClick={onClear}>
+          {tr.editorClear}
+        </button>
+        <button className="px-3 py-1.5 rounded-xl bg-neutral-200" onClick={onCancel}>
+          {tr.cancel}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef } from "react";
+import { formatMove } from "../game/notation";
+import type { MoveRecord } from "../game/state";
+import type { Translation } from "../i18n";
+
+type Props = {
+  tr: Translation;
+  moves: MoveRecord[];
+  selected: number | null;
+  onSelect: (index: number | null) => void;
+};
+
+export default function MoveLog({ tr, moves, selected, onSelect }: Props) {
+  const listRef = useRef<HTMLOListElement>(null);
+
+  // Keep the latest move in view as the game progresses
+  useEffect(() => {
+    const el = listRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [moves.length]);
+
+  return (
+    <aside className="rounded-2xl bg-white shadow p-3 text-sm lg:w-64 flex flex-col">
+      <h2 className="font-semibold mb-2">{tr.moveLogTitle}</h2>
+      {moves.length === 0 ? (
+        <p className="text-neutral-500">{tr.moveLogEmpty}</p>
+      ) : (
+        <ol ref={listRef} className="max-h-96 overflow-y-auto space-y-0.5">
+          {moves.map((m, i) => {
+            const isSelected = selected === i;
+            return (
+              <li key={i}>
+                <button
+                  className={
+                    isSelected
+                      ? "w-full flex items-center gap-2 px-2 py-1 rounded-lg bg-amber-100 text-neutral-900 hover:bg-amber-200"
+                      : "w-full flex items-center gap-2 px-2 py-1 rounded-lg bg-transparent text-neutral-800 hover:bg-neutral-100"
+                  }
+                  onClick={() => onSelect(isSelected ? null : i)}
+                  aria-pressed={isSelected}
+                >
+                  <span className="w-8 text-right text-neutral-500">{i + 1}.</span>
+                  <span
+                    className={
+                      m.player === "WHITE"
+                        ? "inline-block w-3 h-3 rounded-full bg-white border border-neutral-800"
+                        : "inline-block w-3 h-3 rounded-full bg-neutral-900"
+                    }
+                    title={m.player === "WHITE" ? tr.white : tr.black}
+                  />
+                  <span className="font-mono">
+                    {m.move.type === "pass" ? tr.passNotation : formatMove(m.move)}
+                  </span>
+                  <span className="ml-auto flex gap-2 text-xs text-neutral-600">
+                    {m.captured.white > 0 && (
+                      <span title={tr.capturedWhite(m.captured.white)}>
+                        ○×{m.captured.white}
+                      </span>
+                    )}
+                    {m.captured.black > 0 && (
+                      <span title={tr.capturedBlack(m.captured.black)}>
+                        ●×{m.captured.black}
+                      </span>
+                    )}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import type { Player } from "../game/engine";
+import type { Translation } from "../i18n";
+import type { Seat, SeatMap, TabRejection } from "../multitab";
+
+type Props = {
+  tr: Translation;
+  supported: boolean;
+  // This tab's part: hosting, a guest (connected, still looking, or with the host
+  // gone), or neither yet
+  status: "host" | "connected" | "looking" | "lost" | null;
+  me: string;
+  seat: Seat | null;
+  seats: SeatMap;
+  undo: Player | null;
+  error: TabRejection | null;
+  canUndo: boolean;
+  onHost: (seat: Seat) => void;
+  onJoin: (seat: Seat) => void;
+  onTakeOver: () => void;
+  onUndo: () => void;
+  onAnswer: (accept: boolean) => void;
+  onLeave: () => void;
+  onClose: () => void;
+};
+
+const buttonClass =
+  "px-3 py-1.5 rounded-xl bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed";
+
+const SEATS: readonly Seat[] = ["BLACK", "WHITE", "spectator"];
+
+// Hosting or joining a game played across tabs, then who sits where and the undo
+// request in progress.
+export default function MultiTabPanel({
+  tr,
+  supported,
+  status,
+  me,
+  seat,
+  seats,
+  undo,
+  error,
+  canUndo,
+  onHost,
+  onJoin,
+  onTakeOver,
+  onUndo,
+  onAnswer,
+  onLeave,
+  onClose,
+}: Props) {
+  const [choice, setChoice] = useState<Seat>("BLACK");
+  const sideName = (p: Player) => tr.tabsSeats[p];
+
+  if (status === null) {
+    return (
+      <section className="rounded-2xl bg-white shadow p-3 text-sm lg:w-64">
+        <h2 className="font-semibold mb-2">{tr.tabsTitle}</h2>
+        <p className="mb-3 text-xs text-neutral-500">{tr.tabsHelp}</p>
+        {supported ? (
+          <>
+            <label className="mb-3 flex items-center gap-2">
+              {tr.tabsSeat}
+              <select
+                className="rounded-lg border border-neutral-300 bg-white px-2 py-1"
+                value={choice}
+                onChange={(e) => setChoice(e.target.value as Seat)}
+              >
+                {SEATS.map((s) => (
+                  <option key={s} value={s}>
+                    {tr.tabsSeats[s]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="flex flex-wrap gap-2">
+              <button className={buttonClass} onClick={() => onHost(choice)}>
+                {tr.tabsHost}
+              </button>
+              <button className={buttonClass} onClick={() => onJoin(choice)}>
+                {tr.tabsJoin}
+              </button>
+              <button className={buttonClass} onClick={onClose}>
+                {tr.close}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="mb-3">{tr.tabsUnsupported}</p>
+            <button className={buttonClass} onClick={onClose}>
+              {tr.close}
+            </button>
+          </>
+        )}
+      </section>
+    );
+  }
+
+  const mySide = seat === "BLACK" || seat === "WHITE" ? seat : null;
+  return (
+    <section className="rounded-2xl bg-white shadow p-3 text-sm lg:w-64">
+      <h2 className="font-semibold mb-2">{tr.tabsTitle}</h2>
+      <p
+        role="status"
+        className={`mb-3 rounded-lg border p-2 ${
+          status === "lost"
+            ? "border-rose-300 bg-rose-50 text-rose-800"
+            : "border-neutral-200 bg-neutral-50"
+        }`}
+      >
+        {status === "host"
+          ? tr.tabsHosting
+          : status === "connected"
+            ? tr.tabsConnected
+            : status === "looking"
+              ? tr.tabsLooking
+              : tr.tabsHostLost}
+      </p>
+      {status !== "looking" && status !== "lost" && (
+        <ul className="mb-3 space-y-1">
+          {(["BLACK", "WHITE"] as const).map((p) => (
+            <li key={p} className="flex justify-between gap-2">
+              <span>{sideName(p)}</span>
+              <span className="text-neutral-500">
+                {seats[p] === null
+                  ? tr.tabsEmpty
+                  : seats[p] === me
+                    ? tr.tabsYou
+                    : tr.tabsTaken}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {seat === "spectator" && <p className="mb-3">{tr.tabsWatching}</p>}
+      {status === "connected" && seat === null && (
+        <div className="mb-3 flex items-center gap-2">
+          <select
+            aria-label={tr.tabsSeat}
+            className="rounded-lg border border-neutral-300 bg-white px-2 py-1"
+            value={choice}
+            onChange={(e) => setChoice(e.target.value as Seat)}
+          >
+            {SEATS.map((s) => (
+              <option key={s} value={s}>
+                {tr.tabsSeats[s]}
+              </option>
+            ))}
+          </select>
+          <button className={buttonClass} onClick={() => onJoin(choice)}>
+            {tr.tabsJoin}
+          </button>
+        </div>
+      )}
+      {error && (
+        <p role="alert" className="mb-3 text-rose-700">
+          {tr.tabsErrors[error.code]}
+        </p>
+      )}
+      {undo && mySide && undo !== mySide && (
+        <div className="mb-3 rounded-lg border border-amber-300 bg-amber-50 p-2">
+          <p className="mb-2">{tr.tabsUndoAsked(sideName(undo))}</p>
+          <div className="flex gap-2">
+            <button className={buttonClass} onClick={() => onAnswer(true)}>
+              {tr.tabsAccept}
+            </button>
+            <button className={buttonClass} onClick={() => onAnswer(false)}>
+              {tr.tabsDecline}
+            </button>
+          </div>
+        </div>
+      )}
+      {undo && undo === mySide && <p className="mb-3">{tr.tabsUndoWaiting}</p>}
+      <div className="flex flex-wrap gap-2">
+        {mySide && (
+          <button
+            className={buttonClass}
+            onClick={onUndo}
+            disabled={!canUndo || undo !== null}
+          >
+            {tr.tabsUndo}
+          </button>
+        )}
+        {status === "lost" && (
+          <button className={buttonClass} onClick={onTakeOver}>
+            {tr.tabsTakeOver}
+          </button>
+        )}
+        <button className={buttonClass} onClick={onLeave}>
+          {tr.tabsLeave}
+        </button>
+      </div>
+    </section>
+  );
+}
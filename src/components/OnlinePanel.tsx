@@ -0,0 +1,227 @@
+import { useState } from "react";
+import type { Player } from "../game/engine";
+import type { Translation } from "../i18n";
+import type { Seat } from "../multitab";
+import type { OnlineStatus } from "../net/client";
+import type { ChatLine, NetError, SeatStatus } from "../net/protocol";
+
+type Props = {
+  tr: Translation;
+  // null until this tab creates or joins a room
+  status: OnlineStatus | null;
+  url: string;
+  room: string | null;
+  seat: Seat | null;
+  seats: Record<Player, SeatStatus>;
+  undo: Player | null;
+  chat: ChatLine[];
+  error: NetError | null;
+  canUndo: boolean;
+  onCreate: (url: string, seat: Seat) => void;
+  onJoin: (url: string, room: string, seat: Seat) => void;
+  onUndo: () => void;
+  onAnswer: (accept: boolean) => void;
+  onChat: (text: string) => void;
+  onLeave: () => void;
+  onClose: () => void;
+};
+
+const buttonClass =
+  "px-3 py-1.5 rounded-xl bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed";
+const inputClass = "rounded-lg border border-neutral-300 bg-white px-2 py-1";
+
+const SEATS: readonly Seat[] = ["BLACK", "WHITE", "spectator"];
+
+// Creating or joining a room on a game server, then the room: who sits where, the
+// undo request in progress and the chat.
+export default function OnlinePanel({
+  tr,
+  status,
+  url,
+  room,
+  seat,
+  seats,
+  undo,
+  chat,
+  error,
+  canUndo,
+  onCreate,
+  onJoin,
+  onUndo,
+  onAnswer,
+  onChat,
+  onLeave,
+  onClose,
+}: Props) {
+  const [server, setServer] = useState(url);
+  const [code, setCode] = useState("");
+  const [choice, setChoice] = useState<Seat>("BLACK");
+  const [message, setMessage] = useState("");
+  const sideName = (p: Player) => tr.tabsSeats[p];
+  const errorTexts: Record<NetError["code"], string> = {
+    ...tr.tabsErrors,
+    ...tr.onlineErrors,
+  };
+
+  if (status === null) {
+    return (
+      <section className="rounded-2xl bg-white shadow p-3 text-sm lg:w-64">
+        <h2 className="font-semibold mb-2">{tr.onlineTitle}</h2>
+        <p className="mb-3 text-xs text-neutral-500">{tr.onlineHelp}</p>
+        <label className="mb-2 flex flex-col gap-1">
+          {tr.onlineServer}
+          <input
+            className={inputClass}
+            value={server}
+            onChange={(e) => setServer(e.target.value)}
+          />
+        </label>
+        <label className="mb-3 flex items-center gap-2">
+          {tr.tabsSeat}
+          <select
+            className={inputClass}
+            value={choice}
+            onChange={(e) => setChoice(e.target.value as Seat)}
+          >
+            {SEATS.map((s) => (
+              <option key={s} value={s}>
+                {tr.tabsSeats[s]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="mb-3 flex flex-wrap gap-2">
+          <button
+            className={buttonClass}
+            onClick={() => onCreate(server.trim(), choice)}
+            disabled={!server.trim()}
+          >
+            {tr.onlineCreate}
+          </button>
+          <button className={buttonClass} onClick={onClose}>
+            {tr.close}
+          </button>
+        </div>
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onJoin(server.trim(), code.trim().toUpperCase(), choice);
+          }}
+        >
+          <input
+            aria-label={tr.onlineRoom}
+            placeholder={tr.onlineRoom}
+            className={`${inputClass} w-28 uppercase`}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+          <button
+            type="submit"
+            className={buttonClass}
+            disabled={!server.trim() || !code.trim()}
+          >
+            {tr.tabsJoin}
+          </button>
+        </form>
+      </section>
+    );
+  }
+
+  const mySide = seat === "BLACK" || seat === "WHITE" ? seat : null;
+  return (
+    <section className="rounded-2xl bg-white shadow p-3 text-sm lg:w-64">
+      <h2 className="font-semibold mb-2">
+        {room ? tr.onlineInRoom(room) : tr.onlineTitle}
+      </h2>
+      <p
+        role="status"
+        className={`mb-3 rounded-lg border p-2 ${
+          status === "open"
+            ? "border-neutral-200 bg-neutral-50"
+            : "border-rose-300 bg-rose-50 text-rose-800"
+        }`}
+      >
+        {tr.onlineStatus[status]}
+      </p>
+      {room && (
+        <ul className="mb-3 space-y-1">
+          {(["BLACK", "WHITE"] as const).map((p) => (
+            <li key={p} className="flex justify-between gap-2">
+              <span>{sideName(p)}</span>
+              <span className="text-neutral-500">
+                {p === seat ? tr.onlineYou : tr.onlineSeatStatus[seats[p]]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {seat === "spectator" && <p className="mb-3">{tr.tabsWatching}</p>}
+      {error && (
+        <p role="alert" className="mb-3 text-rose-700">
+          {errorTexts[error.code]}
+        </p>
+      )}
+      {undo && mySide && undo !== mySide && (
+        <div className="mb-3 rounded-lg border border-amber-300 bg-amber-50 p-2">
+          <p className="mb-2">{tr.tabsUndoAsked(sideName(undo))}</p>
+          <div className="flex gap-2">
+            <button className={buttonClass} onClick={() => onAnswer(true)}>
+              {tr.tabsAccept}
+            </button>
+            <button className={buttonClass} onClick={() => onAnswer(false)}>
+              {tr.tabsDecline}
+            </button>
+          </div>
+        </div>
+      )}
+      {undo && undo === mySide && <p className="mb-3">{tr.tabsUndoWaiting}</p>}
+      {room && (
+        <div className="mb-3">
+          <h3 className="mb-1 font-medium">{tr.onlineChat}</h3>
+          <ul className="mb-2 max-h-40 space-y-0.5 overflow-y-auto">
+            {chat.map((line, i) => (
+              <li key={i}>
+                <span className="text-neutral-500">{tr.tabsSeats[line.seat]}:</span>{" "}
+                {line.text}
+              </li>
+            ))}
+          </ul>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!message.trim()) return;
+              onChat(message);
+              setMessage("");
+            }}
+          >
+            <input
+              aria-label={tr.onlineChat}
+              className={`${inputClass} min-w-0 flex-1`}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+            <button type="submit" className={buttonClass} disabled={status !== "open"}>
+              {tr.onlineSend}
+            </button>
+          </form>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {mySide && (
+          <button
+            className={buttonClass}
+            onClick={onUndo}
+            disabled={!canUndo || undo !== null || status !== "open"}
+          >
+            {tr.tabsUndo}
+          </button>
+        )}
+        <button className={buttonClass} onClick={onLeave}>
+          {tr.tabsLeave}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,106 @@
+import { formatCoord, formatMove } from "../game/notation";
+import { mainLine, type Puzzle, type PuzzleAttempt } from "../game/puzzle";
+import type { Translation } from "../i18n";
+
+type Props = {
+  tr: Translation;
+  index: number;
+  count: number;
+  puzzle: Puzzle;
+  attempt: PuzzleAttempt;
+  solutionShown: boolean;
+  onSelect: (index: number) => void;
+  onRetry: () => void;
+  onShowSolution: () => void;
+  onExit: () => void;
+};
+
+const buttonClass =
+  "px-3 py-1.5 rounded-xl bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed";
+
+// The puzzle being solved: its goal, how the last move went (the opponent's answer, or
+// the reply that refutes a wrong move) and the way to the other puzzles.
+export default function PuzzlePanel({
+  tr,
+  index,
+  count,
+  puzzle,
+  attempt,
+  solutionShown,
+  onSelect,
+  onRetry,
+  onShowSolution,
+  onExit,
+}: Props) {
+  const { goal } = puzzle;
+  const goalText =
+    goal.type === "capture"
+      ? tr.puzzleGoals.capture(goal.count)
+      : goal.type === "disconnect"
+        ? tr.puzzleGoals.disconnect(formatCoord(goal.target.r, goal.target.c))
+        : tr.puzzleGoals.win;
+  const reply = attempt.reply && formatMove(attempt.reply);
+  const status =
+    attempt.status === "solved"
+      ? tr.puzzleSolved
+      : attempt.status === "failed"
+        ? reply
+          ? tr.puzzleRefutation(reply)
+          : tr.puzzleFailed
+        : reply
+          ? tr.puzzleReply(reply)
+          : tr.puzzleYourMove;
+  return (
+    <section className="rounded-2xl bg-white shadow p-3 text-sm lg:w-64">
+      <h2 className="font-semibold mb-2">{tr.puzzleTitle(index + 1, count)}</h2>
+      <p className="mb-1">{goalText}</p>
+      <p className="mb-2 text-xs text-neutral-500">
+        {tr.puzzleToPlay(puzzle.toMove === "WHITE" ? tr.white : tr.black, puzzle.moves)}
+      </p>
+      <p
+        role="status"
+        className={`mb-3 rounded-lg border p-2 ${
+          attempt.status === "solved"
+            ? "border-emerald-300 bg-emerald-50 text-emerald-800"
+            : attempt.status === "failed"
+              ? "border-rose-300 bg-rose-50 text-rose-800"
+              : "border-neutral-200 bg-neutral-50"
+        }`}
+      >
+        {status}
+      </p>
+      {solutionShown && (
+        <p className="mb-3 font-mono text-xs">
+          {tr.puzzleSolution(mainLine(puzzle.solution).join(" "))}
+        </p>
+      )}
+      <div className="mb-2 flex flex-wrap gap-2">
+        <button className={buttonClass} onClick={onRetry}>
+          {tr.puzzleRetry}
+        </button>
+        <button className={buttonClass} onClick={onShowSolution} disabled={solutionShown}>
+          {tr.puzzleShowSolution}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          className={buttonClass}
+          onClick={() => onSelect(index - 1)}
+          disabled={index === 0}
+        >
+          {tr.puzzlePrev}
+        </button>
+        <button
+          className={buttonClass}
+          onClick={() => onSelect(index + 1)}
+          disabled={index === count - 1}
+        >
+          {tr.puzzleNext}
+        </button>
+        <button className={buttonClass} onClick={onExit}>
+          {tr.puzzleExit}
+        </button>
+      </div>
+    </section>
+  );
+}
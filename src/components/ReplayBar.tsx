@@ -0,0 +1,102 @@
+import type { Captures, Score } from "../game/scoring";
+import type { Translation } from "../i18n";
+
+type Props = {
+  tr: Translation;
+  ply: number; // moves shown, 0..total
+  total: number;
+  playing: boolean;
+  speed: number;
+  captures: Captures;
+  score: Score;
+  onSeek: (ply: number) => void;
+  onTogglePlay: () => void;
+  onSpeed: (speed: number) => void;
+  onExit: () => void;
+};
+
+const REPLAY_SPEEDS: readonly number[] = [0.5, 1, 2, 4];
+
+const buttonClass =
+  "px-2 py-1 rounded-lg border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Replay controls under the board: a slider over every ply, step / play / pause, speed,
+// and the captures and score of the position shown. Reaching the last ply hands back
+// to live play (see App).
+export default function ReplayBar({
+  tr,
+  ply,
+  total,
+  playing,
+  speed,
+  captures,
+  score,
+  onSeek,
+  onTogglePlay,
+  onSpeed,
+  onExit,
+}: Props) {
+  return (
+    <div className="mt-2 rounded-xl border border-amber-300 bg-amber-50 p-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold text-amber-900">{tr.replayTitle}</span>
+        <button
+          className={buttonClass}
+          disabled={ply === 0}
+          onClick={() => onSeek(ply - 1)}
+          title={tr.replayStepBack}
+          aria-label={tr.replayStepBack}
+        >
+          ◀
+        </button>
+        <button
+          className={buttonClass}
+          onClick={onTogglePlay}
+          title={playing ? tr.replayPause : tr.replayPlay}
+          aria-label={playing ? tr.replayPause : tr.replayPlay}
+        >
+          {playing ? "⏸" : "⏵"}
+        </button>
+        <button
+          className={buttonClass}
+          onClick={() => onSeek(ply + 1)}
+          title={tr.replayStepForward}
+          aria-label={tr.replayStepForward}
+        >
+          ▶
+        </button>
+        <label className="flex items-center gap-1">
+          {tr.replaySpeed}
+          <select
+            className="rounded-lg border border-neutral-300 bg-white px-1 py-0.5"
+            value={speed}
+            onChange={(e) => onSpeed(Number(e.target.value))}
+          >
+            {REPLAY_SPEEDS.map((s) => (
+              <option key={s} value={s}>
+                {s}×
+              </option>
+            ))}
+          </select>
+        </label>
+        <button className={`${buttonClass} ml-auto`} onClick={onExit}>
+          {tr.replayExit}
+        </button>
+      </div>
+      <input
+        type="range"
+        className="mt-2 w-full accent-amber-600"
+        min={0}
+        max={total}
+        value={ply}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        aria-label={tr.replaySlider}
+      />
+      <div className="flex flex-wrap gap-x-4 text-neutral-700">
+        <span>{tr.replayPly(ply, total)}</span>
+        <span>{tr.replayCaptures(captures.white, captures.black)}</span>
+        <span>{tr.replayScore(score.white, score.black)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import type { Lang, Translation } from "../i18n";
+import type { SavedGame } from "../persistence";
+
+type Props = {
+  tr: Translation;
+  lang: Lang;
+  games: SavedGame[];
+  currentId: string;
+  onOpen: (game: SavedGame) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+};
+
+const buttonClass =
+  "px-2 py-1 rounded-lg border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Games kept in this browser, most recently played first. The current game is marked;
+// opening another one switches to it, deleting the current one starts a new game.
+export default function SavedGames({
+  tr,
+  lang,
+  games,
+  currentId,
+  onOpen,
+  onDelete,
+  onClose,
+}: Props) {
+  return (
+    <div className="rounded-2xl bg-white shadow p-4 text-sm">
+      <h2 className="font-semibold text-lg mb-3">{tr.savedGamesTitle}</h2>
+      {games.length === 0 ? (
+        <p className="mb-3 text-neutral-500">{tr.savedGamesEmpty}</p>
+      ) : (
+        <ul className="mb-3 divide-y divide-neutral-200">
+          {games.map((g) => {
+            const names = [g.players.black, g.players.white].filter(Boolean).join(" – ");
+            return (
+              <li key={g.id} className="flex flex-wrap items-center gap-x-3 gap-y-1 py-2">
+                <span className="text-neutral-500">
+                  {new Date(g.savedAt).toLocaleString(lang === "zh" ? "zh-CN" : "en")}
+                </span>
+                <span>
+                  {g.config.rows}×{g.config.cols}
+                </span>
+                <span>{tr.savedMoves(g.moves)}</span>
+                <span className={g.gameOver ? "font-semibold" : "text-neutral-600"}>
+                  {g.gameOver
+                    ? tr.savedFinished(g.result)
+                    : tr.savedInProgress(g.toMove === "WHITE" ? tr.white : tr.black)}
+                </span>
+                {names && <span className="text-neutral-600">{names}</span>}
+                {g.id === currentId && (
+                  <span className="rounded-md bg-amber-100 px-1.5 text-amber-900">
+                    {tr.savedCurrent}
+                  </span>
+                )}
+                <span className="ml-auto flex gap-1">
+                  <button
+                    className={buttonClass}
+                    disabled={g.id === currentId}
+                    onClick={() => onOpen(g)}
+                  >
+                    {tr.savedOpen}
+                  </button>
+                  <button className={buttonClass} onClick={() => onDelete(g.id)}>
+                    {tr.savedDelete}
+                  </button>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <button className="px-3 py-1.5 rounded-xl bg-neutral-200" onClick={onClose}>
+        {tr.close}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,392 @@
+import { useMemo, useState } from "react";
+import {
+  MAX_PERIODS,
+  TIME_CONTROL_TYPES,
+  validateTimeControl,
+  type TimeControl,
+  type TimeControlType,
+} from "../game/clock";
+import {
+  BOARD_PRESETS,
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  sameLayout,
+  validateConfig,
+  type BoardPreset,
+  type ConfigError,
+  type GameConfig,
+} from "../game/engine";
+import {
+  HANDICAP_TYPES,
+  MAX_HANDICAP,
+  MAX_KOMI,
+  REPETITION_RULES,
+  validateRuleset,
+  type HandicapType,
+  type RepetitionRule,
+  type Ruleset,
+  type RulesetError,
+} from "../game/rules";
+import { SCORING_MODES, type ScoringMode } from "../game/scoring";
+import type { Translation } from "../i18n";
+
+type Props = {
+  tr: Translation;
+  initial: GameConfig;
+  initialRules: Ruleset;
+  initialTimeControl: TimeControl | null; // null for an untimed game
+  onStart: (config: GameConfig, rules: Ruleset, timeControl: TimeControl | null) => void;
+  onCancel: () => void;
+};
+
+function configErrorText(tr: Translation, e: ConfigError): string {
+  switch (e.code) {
+    case "BAD_DIMENSIONS":
+      return tr.configErrors.BAD_DIMENSIONS(MIN_BOARD_SIZE, MAX_BOARD_SIZE);
+    case "BASE_OUT_OF_BOUNDS":
+      return tr.configErrors.BASE_OUT_OF_BOUNDS(
+        e.player === "WHITE" ? tr.white : tr.black,
+      );
+    case "BASES_OVERLAP":
+      return tr.configErrors.BASES_OVERLAP();
+    case "BASE_NOT_EMPTY":
+      return tr.configErrors.BASE_NOT_EMPTY(e.player === "WHITE" ? tr.white : tr.black);
+  }
+}
+
+function rulesetErrorText(tr: Translation, e: RulesetError): string {
+  switch (e.code) {
+    case "BAD_KOMI":
+      return tr.rulesetErrors.BAD_KOMI(MAX_KOMI);
+    case "BAD_HANDICAP":
+      return tr.rulesetErrors.BAD_HANDICAP(MAX_HANDICAP);
+  }
+}
+
+// Defaults when a time control is first picked: 10 minutes, plus 5 seconds a move or
+// five 30-second periods
+function defaultTimeControl(type: TimeControlType, mainMs = 600_000): TimeControl {
+  switch (type) {
+    case "sudden-death":
+      return { type, mainMs };
+    case "fischer":
+      return { type, mainMs, incrementMs: 5000 };
+    case "byo-yomi":
+      return { type, mainMs, periods: 5, periodMs: 30_000 };
+  }
+}
+
+const selectClass = "rounded-lg border border-neutral-300 px-2 py-1 text-sm";
+const inputClass = "w-16 rounded-lg border border-neutral-300 px-2 py-1 text-sm";
+
+export default function SetupScreen({
+  tr,
+  initial,
+  initialRules,
+  initialTimeControl,
+  onStart,
+  onCancel,
+}: Props) {
+  const [draft, setDraft] = useState<GameConfig>(initial);
+  const [rules, setRules] = useState<Ruleset>(initialRules);
+  const [time, setTime] = useState<TimeControl | null>(initialTimeControl);
+
+  const errors = useMemo(() => validateConfig(draft), [draft]);
+  const ruleErrors = useMemo(() => validateRuleset(rules, draft), [rules, draft]);
+  const timeErrors = useMemo(() => (time ? validateTimeControl(time) : []), [time]);
+  const invalid = errors.length + ruleErrors.length + timeErrors.length > 0;
+
+  const activePreset = (Object.keys(BOARD_PRESETS) as BoardPreset[]).find((k) =>
+    sameLayout(BOARD_PRESETS[k], draft),
+  );
+
+  const num = (v: string) => (v.trim() === "" ? NaN : Number(v));
+  // Time inputs are in minutes or seconds; the clock counts milliseconds
+  const toMs = (v: string, unit: number) => Math.round(num(v) * unit);
+  const fromMs = (ms: number, unit: number) => (Number.isNaN(ms) ? "" : ms / unit);
+
+  return (
+    <div className="rounded-2xl bg-white shadow p-4 text-sm">
+      <h2 className="font-semibold text-lg mb-3">{tr.setupTitle}</h2>
+
+      <div className="mb-4">
+        <div className="mb-1 text-neutral-600">{tr.presets}</div>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(BOARD_PRESETS) as BoardPreset[]).map((k) => (
+            <button
+              key={k}
+              className={
+                k === activePreset
+                  ? "px-3 py-1.5 rounded-xl bg-blue-600 text-white hover:bg-blue-700 shadow-sm"
+                  : "px-3 py-1.5 rounded-xl border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 shadow-sm"
+              }
+              onClick={() => setDraft(BOARD_PRESETS[k])}
+            >
+              {k}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <div className="mb-1 text-neutral-600">{tr.custom}</div>
+        <div className="grid grid-cols-[auto_auto] gap-x-3 gap-y-2 items-center w-max">
+          <label htmlFor="setup-rows">{tr.rowsLabel}</label>
+          <input
+            id="setup-rows"
+            type="number"
+            className={inputClass}
+            value={Number.isNaN(draft.rows) ? "" : draft.rows}
+            onChange={(e) => setDraft((d) => ({ ...d, rows: num(e.target.value) }))}
+          />
+          <label htmlFor="setup-cols">{tr.colsLabel}</label>
+          <input
+            id="setup-cols"
+            type="number"
+            className={inputClass}
+            value={Number.isNaN(draft.cols) ? "" : draft.cols}
+            onChange={(e) => setDraft((d) => ({ ...d, cols: num(e.target.value) }))}
+          />
+          {(["whiteBase", "blackBase"] as const).map((key) => (
+            <div key={key} className="contents">
+              <span>{key === "whiteBase" ? tr.whiteBaseLabel : tr.blackBaseLabel}</span>
+              <span className="flex gap-2">
+                <input
+                  type="number"
+                  aria-label={`${key}-row`}
+                  className={inputClass}
+                  value={Number.isNaN(draft[key].r) ? "" : draft[key].r}
+                  onChange={(e) =>
+                    setDraft((d) => ({
+                      ...d,
+                      [key]: { ...d[key], r: num(e.target.value) },
+                    }))
+                  }
+                />
+                <input
+                  type="number"
+                  aria-label={`${key}-col`}
+                  className={inputClass}
+                  value={Number.isNaN(draft[key].c) ? "" : draft[key].c}
+                  onChange={(e) =>
+                    setDraft((d) => ({
+                      ...d,
+                      [key]: { ...d[key], c: num(e.target.value) },
+                    }))
+                  }
+                />
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <label htmlFor="setup-repetition" className="mb-1 block text-neutral-600">
+          {tr.repetitionLabel}
+        </label>
+        <select
+          id="setup-repetition"
+          className={selectClass}
+          value={rules.repetition}
+          onChange={(e) =>
+            setRules((r) => ({ ...r, repetition: e.target.value as RepetitionRule }))
+          }
+        >
+          {REPETITION_RULES.map((rule) => (
+            <option key={rule} value={rule}>
+              {tr.repetitionRules[rule]}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-neutral-500">
+          {tr.repetitionHelp[rules.repetition]}
+        </p>
+      </div>
+
+      <div className="mb-4">
+        <label htmlFor="setup-scoring" className="mb-1 block text-neutral-600">
+          {tr.scoringLabel}
+        </label>
+        <select
+          id="setup-scoring"
+          className={selectClass}
+          value={rules.scoring}
+          onChange={(e) =>
+            setRules((r) => ({ ...r, scoring: e.target.value as ScoringMode }))
+          }
+        >
+          {SCORING_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {tr.scoringModes[mode]}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-neutral-500">{tr.scoringHelp[rules.scoring]}</p>
+      </div>
+
+      <div className="mb-4 grid grid-cols-[auto_auto] gap-x-3 gap-y-2 items-center w-max">
+        <label htmlFor="setup-komi">{tr.komiLabel}</label>
+        <input
+          id="setup-komi"
+          type="number"
+          step={0.5}
+          className={inputClass}
+          value={Number.isNaN(rules.komi) ? "" : rules.komi}
+          onChange={(e) => setRules((r) => ({ ...r, komi: num(e.target.value) }))}
+        />
+        <label htmlFor="setup-handicap">{tr.handicapLabel}</label>
+        <span className="flex flex-wrap items-center gap-2">
+          <select
+            id="setup-handicap"
+            className={selectClass}
+            value={rules.handicap?.type ?? "none"}
+            onChange={(e) => {
+              const type = e.target.value as HandicapType | "none";
+              setRules((r) => ({
+                ...r,
+                handicap:
+                  type === "none"
+                    ? null
+                    : { player: "BLACK", count: 2, ...r.handicap, type },
+              }));
+            }}
+          >
+            <option value="none">{tr.handicapTypes.none}</option>
+            {HANDICAP_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {tr.handicapTypes[t]}
+              </option>
+            ))}
+          </select>
+          {rules.handicap && (
+            <>
+              <span>{tr.handicapFor}</span>
+              <select
+                aria-label={tr.handicapFor}
+                className={selectClass}
+                value={rules.handicap.player}
+                onChange={(e) => {
+                  const player = e.target.value as "BLACK" | "WHITE";
+                  setRules((r) => ({
+                    ...r,
+                    handicap: r.handicap && { ...r.handicap, player },
+                  }));
+                }}
+              >
+                <option value="BLACK">{tr.black}</option>
+                <option value="WHITE">{tr.white}</option>
+              </select>
+              <input
+                type="number"
+                aria-label={tr.handicapCount}
+                className={inputClass}
+                value={Number.isNaN(rules.handicap.count) ? "" : rules.handicap.count}
+                onChange={(e) => {
+                  const count = num(e.target.value);
+                  setRules((r) => ({
+                    ...r,
+                    handicap: r.handicap && { ...r.handicap, count },
+                  }));
+                }}
+              />
+            </>
+          )}
+        </span>
+      </div>
+
+      <div className="mb-4 grid grid-cols-[auto_auto] gap-x-3 gap-y-2 items-center w-max">
+        <label htmlFor="setup-time">{tr.timeControlLabel}</label>
+        <select
+          id="setup-time"
+          className={selectClass}
+          value={time?.type ?? "none"}
+          onChange={(e) => {
+            const type = e.target.value as TimeControlType | "none";
+            setTime((t) =>
+              type === "none" ? null : defaultTimeControl(type, t?.mainMs),
+            );
+          }}
+        >
+          <option value="none">{tr.timeControlTypes.none}</option>
+          {TIME_CONTROL_TYPES.map((t) => (
+            <option key={t} value={t}>
+              {tr.timeControlTypes[t]}
+            </option>
+          ))}
+        </select>
+        {time && (
+          <>
+            <label htmlFor="setup-main-time">{tr.mainTimeLabel}</label>
+            <input
+              id="setup-main-time"
+              type="number"
+              className={inputClass}
+              value={fromMs(time.mainMs, 60_000)}
+              onChange={(e) => setTime({ ...time, mainMs: toMs(e.target.value, 60_000) })}
+            />
+          </>
+        )}
+        {time?.type === "fischer" && (
+          <>
+            <label htmlFor="setup-increment">{tr.incrementLabel}</label>
+            <input
+              id="setup-increment"
+              type="number"
+              className={inputClass}
+              value={fromMs(time.incrementMs, 1000)}
+              onChange={(e) =>
+                setTime({ ...time, incrementMs: toMs(e.target.value, 1000) })
+              }
+            />
+          </>
+        )}
+        {time?.type === "byo-yomi" && (
+          <>
+            <label htmlFor="setup-periods">{tr.periodsLabel}</label>
+            <input
+              id="setup-periods"
+              type="number"
+              className={inputClass}
+              value={Number.isNaN(time.periods) ? "" : time.periods}
+              onChange={(e) => setTime({ ...time, periods: num(e.target.value) })}
+            />
+            <label htmlFor="setup-period-time">{tr.periodTimeLabel}</label>
+            <input
+              id="setup-period-time"
+              type="number"
+              className={inputClass}
+              value={fromMs(time.periodMs, 1000)}
+              onChange={(e) => setTime({ ...time, periodMs: toMs(e.target.value, 1000) })}
+            />
+          </>
+        )}
+      </div>
+
+      {invalid && (
+        <ul className="mb-3 list-disc pl-5 text-rose-700">
+          {errors.map((e, i) => (
+            <li key={i}>{configErrorText(tr, e)}</li>
+          ))}
+          {ruleErrors.map((e) => (
+            <li key={e.code}>{rulesetErrorText(tr, e)}</li>
+          ))}
+          {timeErrors.length > 0 && <li>{tr.timeControlError(MAX_PERIODS)}</li>}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          className="px-3 py-1.5 rounded-xl bg-neutral-900 text-white"
+          disabled={invalid}
+          onClick={() => onStart(draft, rules, time)}
+        >
+          {tr.startGame}
+        </button>
+        <button className="px-3 py-1.5 rounded-xl bg-neutral-200" onClick={onCancel}>
+          {tr.cancel}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useEffect, useMemo, useRef } from "react";
+import { formatMove } from "../game/notation";
+import {
+  currentNode,
+  deleteBranch,
+  getNode,
+  goBack,
+  goForward,
+  goTo,
+  goToEnd,
+  goToStart,
+  pathTo,
+  promoteVariation,
+  switchVariation,
+  treeLayout,
+  type GameTree,
+  type TreeNode,
+} from "../game/tree";
+import type { Translation } from "../i18n";
+
+type Props = {
+  tr: Translation;
+  tree: GameTree;
+  onNavigate: (step: (tree: GameTree) => GameTree) => void;
+};
+
+const STEP = 22; // grid spacing of the tree drawing
+const DOT_R = 7;
+
+const navClass =
+  "px-2 py-1 rounded-lg border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-100 disabled:opacity-40 disabled:cursor-not-allowed";
+
+function nodeLabel(tr: Translation, node: TreeNode) {
+  const { action } = node;
+  if (!action) return tr.treeStart;
+  const n = node.state.moves.length;
+  if (action.type === "resign") return `${tr.resignNotation} (${n})`;
+  if (action.type === "timeout") return `${tr.timeoutNotation} (${n})`;
+  return `${n}. ${action.type === "pass" ? tr.passNotation : formatMove(action)}`;
+}
+
+export default function VariationTree({ tr, tree, onNavigate }: Props) {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const cells = useMemo(() => treeLayout(tree), [tree]);
+  const onPath = useMemo(() => new Set(pathTo(tree)), [tree]);
+  const pos = useMemo(() => new Map(cells.map((c) => [c.id, c])), [cells]);
+  const node = currentNode(tree);
+  const current = node.id;
+  const siblings = node.parent === null ? [node.id] : getNode(tree, node.parent).children;
+  const index = siblings.indexOf(node.id);
+
+  const width = (Math.max(...cells.map((c) => c.depth)) + 1) * STEP + STEP;
+  const height = (Math.max(...cells.map((c) => c.row)) + 1) * STEP + STEP;
+  const at = (id: number) => {
+    const c = pos.get(id)!;
+    return { x: STEP + c.depth * STEP, y: STEP + c.row * STEP };
+  };
+
+  // Keep the current node in view
+  useEffect(() => {
+    const box = boxRef.current;
+    const c = pos.get(current);
+    if (!box || !c) return;
+    const x = STEP + c.depth * STEP;
+    const y = STEP + c.row * STEP;
+    if (x < box.scrollLeft || x > box.scrollLeft + box.clientWidth - STEP)
+      box.scrollLeft = x - box.clientWidth / 2;
+    if (y < box.scrollTop || y > box.scrollTop + box.clientHeight - STEP)
+      box.scrollTop = y - box.clientHeight / 2;
+  }, [pos, current]);
+
+  return (
+    <section className="rounded-2xl bg-white shadow p-3 text-sm lg:w-64">
+      <h2 className="font-semibold mb-2">{tr.variationsTitle}</h2>
+      <div className="mb-2 flex flex-wrap gap-1">
+        <button
+          className={navClass}
+          disabled={node.parent === null}
+          onClick={() => onNavigate(goToStart)}
+          title={tr.navStart}
+          aria-label={tr.navStart}
+        >
+          ⏮
+        </button>
+        <button
+          className={navClass}
+          disabled={node.parent === null}
+          onClick={() => onNavigate(goBack)}
+          title={tr.navBack}
+          aria-label={tr.navBack}
+        >
+          ◀
+        </button>
+        <button
+          className={navClass}
+          disabled={node.children.length === 0}
+          onClick={() => onNavigate(goForward)}
+          title={tr.navForward}
+          aria-label={tr.navForward}
+        >
+          ▶
+        </button>
+        <button
+          className={navClass}
+          disabled={node.children.length === 0}
+          onClick={() => onNavigate(goToEnd)}
+          title={tr.navEnd}
+          aria-label={tr.navEnd}
+        >
+          ⏭
+        </button>
+        <button
+          className={navClass}
+          disabled={index <= 0}
+          onClick={() => onNavigate((t) => switchVariation(t, -1))}
+          title={tr.navPrevVariation}
+          aria-label={tr.navPrevVariation}
+        >
+          ▲
+        </button>
+        <button
+          className={navClass}
+          disabled={index >= siblings.length - 1}
+          onClick={() => onNavigate((t) => switchVariation(t, 1))}
+          title={tr.navNextVariation}
+          aria-label={tr.navNextVariation}
+        >
+          ▼
+        </button>
+        <button
+          className={navClass}
+          disabled={promoteVariation(tree) === tree}
+          onClick={() => onNavigate(promoteVariation)}
+          title={tr.promoteVariationTitle}
+        >
+          {tr.promoteVariation}
+        </button>
+        <button
+          className={navClass}
+          disabled={node.parent === null}
+          onClick={() => onNavigate(deleteBranch)}
+          title={tr.deleteBranchTitle}
+        >
+          {tr.deleteBranch}
+        </button>
+      </div>
+      <div ref={boxRef} className="max-h-64 overflow-auto rounded-lg bg-neutral-50">
+        <svg width={width} height={height} className="block">
+          {cells.map(({ id }) => {
+            const { parent } = getNode(tree, id);
+            if (parent === null) return null;
+            const a = at(parent);
+            const b = at(id);
+            // Variations drop down to their row just before their first move
+            const points =
+              a.y === b.y
+                ? `${a.x},${a.y} ${b.x},${b.y}`
+                : `${a.x},${a.y} ${b.x - STEP / 2},${b.y} ${b.x},${b.y}`;
+            return (
+              <polyline
+                key={`e${id}`}
+                points={points}
+                fill="none"
+                stroke={onPath.has(id) ? "#475569" : "#cbd5e1"}
+                strokeWidth={onPath.has(id) ? 2 : 1.5}
+              />
+            );
+          })}
+          {cells.map(({ id }) => {
+            const n = getNode(tree, id);
+            const { x, y } = at(id);
+            const mover = n.state.moves[n.state.moves.length - 1]?.player;
+            const white =
+              n.action?.type === "resign" || n.action?.type === "timeout"
+                ? n.action.player === "WHITE"
+                : mover === "WHITE";
+            const isCurrent = id === tree.current;
+            return (
+              <g
+                key={id}
+                onClick={() => onNavigate((t) => goTo(t, id))}
+                style={{ cursor: "pointer" }}
+                opacity={onPath.has(id) ? 1 : 0.6}
+              >
+                <title>{nodeLabel(tr, n)}</title>
+                {isCurrent && (
+                  <circle
+                    cx={x}
+                    cy={y}
+                    r={DOT_R + 3}
+                    fill="none"
+                    stroke="#f59e0b"
+                    strokeWidth={2.5}
+                  />
+                )}
+                {n.action === null ? (
+                  <rect
+                    x={x - DOT_R}
+                    y={y - DOT_R}
+                    width={DOT_R * 2}
+                    height={DOT_R * 2}
+                    rx={2}
+                    fill="#94a3b8"
+                  />
+                ) : n.action.type === "place" ? (
+                  <circle
+                    cx={x}
+                    cy={y}
+                    r={DOT_R}
+                    fill={white ? "#ffffff" : "#0f172a"}
+                    stroke="#1f2937"
+                    strokeWidth={1.25}
+                  />
+                ) : (
+                  // Passes, resignations and losses on time are hollow, with a letter
+                  <>
+                    <circle
+                      cx={x}
+                      cy={y}
+                      r={DOT_R}
+                      fill="#f8fafc"
+                      stroke={white ? "#94a3b8" : "#0f172a"}
+                      strokeWidth={1.25}
+                      strokeDasharray="2 2"
+                    />
+                    <text x={x} y={y + 3} textAnchor="middle" fontSize={8} fill="#334155">
+                      {n.action.type === "pass"
+                        ? "P"
+                        : n.action.type === "timeout"
+                          ? "T"
+                          : "R"}
+                    </text>
+                  </>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </section>
+  );
+}
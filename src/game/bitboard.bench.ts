@@ -0,0 +1,59 @@
+// Legality throughput of the reference engine vs the packed bitboard engine.
+// Run with `pnpm bench`.
+
+import { bench, describe } from "vitest";
+import * as ref from "./engine";
+import * as fast from "./bitboard";
+import { makeInitialBoard, zobristHash, presetConfig, type GameConfig } from "./engine";
+import { seededRng } from "./rng";
+
+// A mid-game position reached by random legal play, with its superko history
+function midGame(config: GameConfig, plies: number) {
+  const rng = seededRng(1);
+  let board = makeInitialBoard(config);
+  const history = new Set([zobristHash(board)]);
+  let player: ref.Player = "BLACK";
+  for (let i = 0; i < plies; i++) {
+    const mask = ref.computeLegalMoves(board, player, { config });
+    const cells: Array<[number, number]> = [];
+    mask.forEach((row, r) => row.forEach((ok, c) => ok && cells.push([r, c])));
+    if (cells.length > 0) {
+      const [r, c] = cells[Math.floor(rng() * cells.length)];
+      board = ref.placeStone(board, player, r, c, { config })!;
+      history.add(zobristHash(board));
+    }
+    player = player === "WHITE" ? "BLACK" : "WHITE";
+  }
+  return { board, history };
+}
+
+for (const size of [8, 10, 12]) {
+  const config = presetConfig(size, size);
+  const { board, history } = midGame(config, size * size * 0.6);
+  const opts = { config, forbidPositions: history };
+
+  describe(`computeLegalMoves with superko, ${size}x${size}`, () => {
+    bench("reference (Cell[][] + BFS)", () => {
+      ref.computeLegalMoves(board, "BLACK", opts);
+    });
+    bench("bitboard (same API)", () => {
+      fast.computeLegalMoves(board, "BLACK", opts);
+    });
+  });
+
+  describe(`legal moves + placement, packed, ${size}x${size}`, () => {
+    const g = fast.geometry(config);
+    const p = fast.pack(board, config);
+    bench("reference placeStone per legal cell", () => {
+      const mask = ref.computeLegalMoves(board, "BLACK", { config });
+      mask.forEach((row, r) =>
+        row.forEach((ok, c) => ok && ref.placeStone(board, "BLACK", r, c, { config })),
+      );
+    });
+    bench("playPacked per legal cell", () => {
+      for (const i of fast.bitIndices(fast.survivableCells(g, p, "BLACK"))) {
+        fast.playPacked(g, p, "BLACK", i);
+      }
+    });
+  });
+}
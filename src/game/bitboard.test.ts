@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import * as ref from "./engine";
+import * as fast from "./bitboard";
+import {
+  BLACK_STONE,
+  EMPTY,
+  WHITE_STONE,
+  makeInitialBoard,
+  presetConfig,
+  type Cell,
+  type GameConfig,
+} from "./engine";
+import { seededRng, type Rng } from "./rng";
+
+// Random positions, including stones that are already cut off from their base
+function randomBoard(config: GameConfig, rng: Rng, density: number): Cell[][] {
+  const b = makeInitialBoard(config);
+  for (let r = 0; r < config.rows; r++)
+    for (let c = 0; c < config.cols; c++) {
+      if (b[r][c] !== EMPTY) continue;
+      const x = rng();
+      if (x < density / 2) b[r][c] = WHITE_STONE;
+      else if (x < density) b[r][c] = BLACK_STONE;
+    }
+  return b;
+}
+
+const CONFIGS: GameConfig[] = [
+  presetConfig(6, 6),
+  ref.DEFAULT_CONFIG,
+  presetConfig(5, 7),
+  presetConfig(12, 12),
+  { ...presetConfig(10, 10), whiteBase: { r: 3, c: 0 }, blackBase: { r: 9, c: 9 } },
+];
+
+describe("AnchorHex bitboard engine", () => {
+  it("dilate matches neighbors for every cell", () => {
+    for (const config of CONFIGS) {
+      const g = fast.geometry(config);
+      for (let r = 0; r < config.rows; r++)
+        for (let c = 0; c < config.cols; c++) {
+          const expected = ref
+            .neighbors(r, c, config)
+            .reduce((acc, [nr, nc]) => acc | fast.bit(g, nr, nc), 0n);
+          expect(fast.dilate(g, fast.bit(g, r, c))).toBe(expected);
+        }
+    }
+  });
+
+  it("agrees with the reference engine on random positions", () => {
+    const rng = seededRng(42);
+    for (const config of CONFIGS) {
+      for (let n = 0; n < 5; n++) {
+        const board = randomBoard(config, rng, 0.2 + 0.5 * rng());
+        for (const player of ["WHITE", "BLACK"] as const) {
+          for (const mode of ["stones+empties", "emptiesOnly"] as const) {
+            expect(fast.bfsFromBase(board, player, mode, config)).toEqual(
+              ref.bfsFromBase(board, player, mode, config),
+            );
+          }
+          // Forbid the outcome of a few moves so superko filtering is exercised
+          const forbid = new Set<ref.PositionHash>();
+          const mask = ref.computeLegalMoves(board, player, { config });
+          for (let r = 0; r < config.rows; r++)
+            for (let c = 0; c < config.cols; c++)
+              if (mask[r][c] && rng() < 0.3) {
+                forbid.add(
+                  ref.zobristHash(ref.placeStone(board, player, r, c, { config })!),
+                );
+              }
+          const hashSideToMove = rng() < 0.5;
+          if (hashSideToMove) {
+            // Include the side to move: half the forbidden positions have White to move
+            for (const h of [...forbid])
+              if (rng() < 0.5) forbid.add(h ^ ref.ZOBRIST_WHITE_TO_MOVE);
+          }
+          // and sometimes the mover moves again, as under a move handicap
+          const nextToMove = rng() < 0.3 ? player : undefined;
+          const opts = { config, forbidPositions: forbid, hashSideToMove, nextToMove };
+          expect(fast.computeLegalMoves(board, player, opts)).toEqual(
+            ref.computeLegalMoves(board, player, opts),
+          );
+          for (let r = 0; r < config.rows; r++)
+            for (let c = 0; c < config.cols; c++) {
+              if (rng() > 0.25) continue;
+              expect(fast.placeStone(board, player, r, c, opts)).toEqual(
+                ref.placeStone(board, player, r, c, opts),
+              );
+            }
+        }
+        expect(fast.resolveCaptures(board, config)).toEqual(
+          ref.resolveCaptures(board, config),
+        );
+        expect(fast.computeAreaScore(board, config)).toEqual(
+          ref.computeAreaScore(board, config),
+        );
+        expect(fast.bothNoMoves(board, config)).toBe(ref.bothNoMoves(board, config));
+      }
+    }
+  });
+
+  it("keeps reach up to date incrementally through a game", () => {
+    const rng = seededRng(7);
+    const config = presetConfig(10, 10);
+    const g = fast.geometry(config);
+    let p = fast.pack(makeInitialBoard(config), config);
+    let player: ref.Player = "BLACK";
+    for (let ply = 0; ply < 150; ply++) {
+      const cells = fast.bitIndices(fast.survivableCells(g, p, player));
+      if (cells.length > 0) {
+        p = fast.playPacked(g, p, player, cells[Math.floor(rng() * cells.length)]);
+        expect(p).toEqual(fast.pack(fast.unpack(g, p), config));
+      }
+      player = player === "WHITE" ? "BLACK" : "WHITE";
+    }
+    expect(p.hash).toBe(ref.zobristHash(fast.unpack(g, p)));
+  });
+});
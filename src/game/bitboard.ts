@@ -0,0 +1,366 @@
+// Packed board representation for hot loops (bots, search, analysis). A position is two
+// bigint bitmasks of stones indexed by r * cols + c, and reachability is a flood fill
+// on bitsets: each step dilates the frontier to its six hex neighbours with a handful of
+// shifts and masks. Positions carry both sides' reach and their Zobrist hash so a
+// placement updates them incrementally instead of re-running two full BFS passes and
+// rehashing the board.
+//
+// The bottom half re-exposes the engine API (`computeLegalMoves`, `placeStone`, ...)
+// with identical signatures and results, implemented on top of the packed form.
+//
+// One property of `resolveCaptures` keeps legality cheap: captures are decided on the
+// board right after placement, before anything is removed, and placing a stone on an
+// empty cell leaves the mover's stones+empties reach unchanged. So a placement
+// survives exactly when the cell was already in the mover's reach.
+
+import {
+  BLACK_BASE,
+  BLACK_STONE,
+  DEFAULT_CONFIG,
+  EMPTY,
+  WHITE_BASE,
+  WHITE_STONE,
+  hashedSideAfter,
+  inBounds,
+  sideToMoveKey,
+  zobristKey,
+  type Cell,
+  type GameConfig,
+  type MoveOptions,
+  type Player,
+  type PositionHash,
+} from "./engine";
+
+export type Geometry = {
+  config: GameConfig;
+  cells: number;
+  cols: bigint;
+  full: bigint;
+  notFirstCol: bigint;
+  notLastCol: bigint;
+  evenCols: bigint;
+  oddCols: bigint;
+  whiteBase: bigint;
+  blackBase: bigint;
+  whiteKeys: PositionHash[]; // Zobrist key per cell index
+  blackKeys: PositionHash[];
+};
+
+export type PackedPosition = {
+  white: bigint; // white stones
+  black: bigint; // black stones
+  reachWhite: bigint; // cells reachable from the white base via white stones + empties
+  reachBlack: bigint;
+  hash: PositionHash; // Zobrist hash of the stones, without side to move
+};
+
+const geometryCache = new Map<string, Geometry>();
+
+export function bit(g: Geometry, r: number, c: number) {
+  return 1n << BigInt(r * g.config.cols + c);
+}
+
+export function geometry(config: GameConfig = DEFAULT_CONFIG): Geometry {
+  const { rows, cols, whiteBase: w, blackBase: b } = config;
+  const key = `${rows}x${cols}:${w.r},${w.c}:${b.r},${b.c}`;
+  const cached = geometryCache.get(key);
+  if (cached) return cached;
+  let firstCol = 0n,
+    lastCol = 0n,
+    evenCols = 0n;
+  for (let r = 0; r < rows; r++)
+    for (let c = 0; c < cols; c++) {
+      const m = 1n << BigInt(r * cols + c);
+      if (c === 0) firstCol |= m;
+      if (c === cols - 1) lastCol |= m;
+      if (c % 2 === 0) evenCols |= m;
+    }
+  const full = (1n << BigInt(rows * cols)) - 1n;
+  const g: Geometry = {
+    config,
+    cells: rows * cols,
+    cols: BigInt(cols),
+    full,
+    notFirstCol: full & ~firstCol,
+    notLastCol: full & ~lastCol,
+    evenCols,
+    oddCols: full & ~evenCols,
+    whiteBase: 1n << BigInt(w.r * cols + w.c),
+    blackBase: 1n << BigInt(b.r * cols + b.c),
+    whiteKeys: Array.from({ length: rows * cols }, (_, i) =>
+      zobristKey(Math.floor(i / cols), i % cols, WHITE_STONE),
+    ),
+    blackKeys: Array.from({ length: rows * cols }, (_, i) =>
+      zobristKey(Math.floor(i / cols), i % cols, BLACK_STONE),
+    ),
+  };
+  geometryCache.set(key, g);
+  return g;
+}
+
+// All cells adjacent to a cell of `x` (even-q layout, same directions as `neighbors`).
+export function dilate(g: Geometry, x: bigint): bigint {
+  const C = g.cols;
+  let y = (x >> C) | (x << C);
+  const e = x & g.notLastCol; // cells that have a column to the right
+  y |= (e << 1n) | ((e & g.evenCols) << (C + 1n)) | ((e & g.oddCols) >> (C - 1n));
+  const w = x & g.notFirstCol; // cells that have a column to the left
+  y |= (w >> 1n) | ((w & g.evenCols) << (C - 1n)) | ((w & g.oddCols) >> (C + 1n));
+  return y & g.full;
+}
+
+// Grows `seed` through `passable` cells until nothing new is reached.
+export function flood(g: Geometry, seed: bigint, passable: bigint): bigint {
+  let reach = seed;
+  let frontier = seed;
+  while (frontier !== 0n) {
+    frontier = dilate(g, frontier) & passable & ~reach;
+    reach |= frontier;
+  }
+  return reach;
+}
+
+export function emptyCells(g: Geometry, p: Pick<PackedPosition, "white" | "black">) {
+  return g.full & ~(p.white | p.black | g.whiteBase | g.blackBase);
+}
+
+function passable(g: Geometry, white: bigint, black: bigint, player: Player) {
+  const empty = g.full & ~(white | black | g.whiteBase | g.blackBase);
+  return player === "WHITE" ? empty | white | g.whiteBase : empty | black | g.blackBase;
+}
+
+function reachOf(g: Geometry, white: bigint, black: bigint, player: Player) {
+  const base = player === "WHITE" ? g.whiteBase : g.blackBase;
+  return flood(g, base, passable(g, white, black, player));
+}
+
+export function popcount(x: bigint): number {
+  let n = 0;
+  while (x !== 0n) {
+    let v = Number(x & 0xffffffffn);
+    v -= (v >>> 1) & 0x55555555;
+    v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+    n += (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+    x >>= 32n;
+  }
+  return n;
+}
+
+// Cell indices (r * cols + c) of the set bits, in increasing order.
+export function bitIndices(x: bigint): number[] {
+  const out: number[] = [];
+  for (let base = 0; x !== 0n; base += 32, x >>= 32n) {
+    let v = Number(x & 0xffffffffn);
+    while (v !== 0) {
+      const low = v & -v;
+      out.push(base + 31 - Math.clz32(low));
+      v ^= low;
+    }
+  }
+  return out;
+}
+
+export function pack(board: Cell[][], config: GameConfig = DEFAULT_CONFIG) {
+  const g = geometry(config);
+  let white = 0n,
+    black = 0n;
+  for (let r = 0; r < config.rows; r++)
+    for (let c = 0; c < config.cols; c++) {
+      const v = board[r][c];
+      if (v === WHITE_STONE) white |= bit(g, r, c);
+      else if (v === BLACK_STONE) black |= bit(g, r, c);
+    }
+  return withReach(g, white, black);
+}
+
+function withReach(g: Geometry, white: bigint, black: bigint): PackedPosition {
+  return {
+    white,
+    black,
+    reachWhite: reachOf(g, white, black, "WHITE"),
+    reachBlack: reachOf(g, white, black, "BLACK"),
+    hash: toggleKeys(toggleKeys(0n, g.whiteKeys, white), g.blackKeys, black),
+  };
+}
+
+function toggleKeys(hash: PositionHash, keys: PositionHash[], cells: bigint) {
+  for (const i of bitIndices(cells)) hash ^= keys[i];
+  return hash;
+}
+
+export function unpack(g: Geometry, p: PackedPosition): Cell[][] {
+  const { rows, cols, whiteBase: w, blackBase: b } = g.config;
+  const board: Cell[][] = Array.from({ length: rows }, () =>
+    Array<Cell>(cols).fill(EMPTY),
+  );
+  for (const i of bitIndices(p.white))
+    board[Math.floor(i / cols)][i % cols] = WHITE_STONE;
+  for (const i of bitIndices(p.black))
+    board[Math.floor(i / cols)][i % cols] = BLACK_STONE;
+  board[w.r][w.c] = WHITE_BASE;
+  board[b.r][b.c] = BLACK_BASE;
+  return board;
+}
+
+// Hash of the position `p` reached by a move, matching `zobristHash` with `toMove` (see
+// `hashedSideAfter`) or without the side to move.
+export function hashAfterMove(p: PackedPosition, toMove?: Player) {
+  return p.hash ^ sideToMoveKey(toMove);
+}
+
+// Empty cells where `player` can place a surviving stone (superko not considered).
+export function survivableCells(g: Geometry, p: PackedPosition, player: Player) {
+  return (player === "WHITE" ? p.reachWhite : p.reachBlack) & emptyCells(g, p);
+}
+
+// Places a stone at cell index `i` and resolves captures for both sides, updating the
+// reach sets and hash incrementally.
+export function playPacked(
+  g: Geometry,
+  p: PackedPosition,
+  player: Player,
+  i: number,
+): PackedPosition {
+  const m = 1n << BigInt(i);
+  let white = p.white;
+  let black = p.black;
+  let { reachWhite, reachBlack, hash } = p;
+  if (player === "WHITE") white |= m;
+  else black |= m;
+  hash ^= player === "WHITE" ? g.whiteKeys[i] : g.blackKeys[i];
+  // The new stone blocks the opponent; their reach only changes if it passed through it
+  if (player === "WHITE" && reachBlack & m)
+    reachBlack = reachOf(g, white, black, "BLACK");
+  if (player === "BLACK" && reachWhite & m)
+    reachWhite = reachOf(g, white, black, "WHITE");
+  const deadWhite = white & ~reachWhite;
+  const deadBlack = black & ~reachBlack;
+  white &= reachWhite;
+  black &= reachBlack;
+  // Removed stones become empty and can only let reach grow
+  if (deadWhite | deadBlack) {
+    reachWhite = flood(g, reachWhite, passable(g, white, black, "WHITE"));
+    reachBlack = flood(g, reachBlack, passable(g, white, black, "BLACK"));
+    hash = toggleKeys(toggleKeys(hash, g.whiteKeys, deadWhite), g.blackKeys, deadBlack);
+  }
+  return { white, black, reachWhite, reachBlack, hash };
+}
+
+// ---- Engine API on the packed representation ----
+
+export function bfsFromBase(
+  board: Cell[][],
+  player: Player,
+  mode: "stones+empties" | "emptiesOnly",
+  config: GameConfig = DEFAULT_CONFIG,
+): boolean[][] {
+  const g = geometry(config);
+  const p = pack(board, config);
+  const base = player === "WHITE" ? g.whiteBase : g.blackBase;
+  const reach =
+    mode === "stones+empties"
+      ? player === "WHITE"
+        ? p.reachWhite
+        : p.reachBlack
+      : flood(g, base, emptyCells(g, p));
+  return toMask(g, reach);
+}
+
+function toMask(g: Geometry, x: bigint): boolean[][] {
+  const { rows, cols } = g.config;
+  const mask = Array.from({ length: rows }, () => Array<boolean>(cols).fill(false));
+  for (const i of bitIndices(x)) mask[Math.floor(i / cols)][i % cols] = true;
+  return mask;
+}
+
+export function resolveCaptures(
+  board: Cell[][],
+  config: GameConfig = DEFAULT_CONFIG,
+): Cell[][] {
+  const g = geometry(config);
+  const p = pack(board, config);
+  return unpack(g, {
+    ...p,
+    white: p.white & p.reachWhite,
+    black: p.black & p.reachBlack,
+  });
+}
+
+// Legal cells as a bitmask, honouring `forbid` (Zobrist hashes, see `MoveOptions`) with
+// `hashedSide` to move in them.
+export function legalCells(
+  g: Geometry,
+  p: PackedPosition,
+  player: Player,
+  forbid?: ReadonlySet<PositionHash>,
+  hashedSide?: Player,
+): bigint {
+  let legal = survivableCells(g, p, player);
+  if (forbid && forbid.size > 0) {
+    for (const i of bitIndices(legal)) {
+      const next = playPacked(g, p, player, i);
+      if (forbid.has(hashAfterMove(next, hashedSide))) {
+        legal &= ~(1n << BigInt(i));
+      }
+    }
+  }
+  return legal;
+}
+
+export function computeLegalMoves(
+  board: Cell[][],
+  player: Player,
+  opts?: MoveOptions,
+): boolean[][] {
+  const g = geometry(opts?.config);
+  const p = pack(board, g.config);
+  return toMask(
+    g,
+    legalCells(g, p, player, opts?.forbidPositions, hashedSideAfter(player, opts)),
+  );
+}
+
+export function placeStone(
+  board: Cell[][],
+  player: Player,
+  r: number,
+  c: number,
+  opts?: MoveOptions,
+) {
+  const g = geometry(opts?.config);
+  if (!inBounds(r, c, g.config) || board[r][c] !== EMPTY) return null;
+  const p = pack(board, g.config);
+  const m = bit(g, r, c);
+  if (!(survivableCells(g, p, player) & m)) return null;
+  const next = playPacked(g, p, player, r * g.config.cols + c);
+  if (opts?.forbidPositions?.has(hashAfterMove(next, hashedSideAfter(player, opts)))) {
+    return null;
+  }
+  return unpack(g, next);
+}
+
+export function computeAreaScore(board: Cell[][], config: GameConfig = DEFAULT_CONFIG) {
+  const g = geometry(config);
+  return packedAreaScore(g, pack(board, config));
+}
+
+export function packedAreaScore(g: Geometry, p: PackedPosition) {
+  const empty = emptyCells(g, p);
+  const wEmpty = flood(g, g.whiteBase, empty);
+  const bEmpty = flood(g, g.blackBase, empty);
+  const wStones = popcount(p.white);
+  const bStones = popcount(p.black);
+  const wTerr = popcount(empty & wEmpty & ~bEmpty);
+  const bTerr = popcount(empty & bEmpty & ~wEmpty);
+  return {
+    white: wStones + wTerr,
+    black: bStones + bTerr,
+    breakdown: { wStones, bStones, wTerr, bTerr },
+  };
+}
+
+export function bothNoMoves(board: Cell[][], config: GameConfig = DEFAULT_CONFIG) {
+  const g = geometry(config);
+  const p = pack(board, config);
+  return survivableCells(g, p, "WHITE") === 0n && survivableCells(g, p, "BLACK") === 0n;
+}
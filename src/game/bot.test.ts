@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  BLACK_STONE,
+  WHITE_STONE,
+  placeStone,
+  presetConfig,
+  zobristHash,
+} from "./engine";
+import { BOT_LEVELS, chooseBotMove } from "./bot";
+import { seededRng } from "./rng";
+import { applyAction, legalMovesFor, newGame, type GameState } from "./state";
+
+describe("AnchorHex heuristic bot", () => {
+  it("plays a legal move at every level", () => {
+    const s = newGame();
+    const mask = legalMovesFor(s);
+    for (const level of BOT_LEVELS) {
+      const move = chooseBotMove(s, level, seededRng(1));
+      expect(move.type).toBe("place");
+      if (move.type === "place") expect(mask[move.r][move.c]).toBe(true);
+    }
+  });
+
+  it("takes a capture when one is available", () => {
+    const s = newGame();
+    const board = s.board.map((row) => row.slice());
+    // (1, 1) cuts off the white corner stone
+    board[0][0] = WHITE_STONE;
+    board[0][1] = BLACK_STONE;
+    board[1][0] = BLACK_STONE;
+    const move = chooseBotMove({ ...s, board }, "medium", seededRng(2));
+    expect(move).toEqual({ type: "place", r: 1, c: 1 });
+  });
+
+  it("respects the superko history", () => {
+    const s = newGame();
+    const board = s.board.map((row) => row.slice());
+    board[0][0] = WHITE_STONE;
+    board[0][1] = BLACK_STONE;
+    board[1][0] = BLACK_STONE;
+    const forbidden = zobristHash(placeStone(board, "BLACK", 1, 1)!);
+    const state: GameState = {
+      ...s,
+      board,
+      positionHistory: [...s.positionHistory, forbidden],
+    };
+    const move = chooseBotMove(state, "medium", seededRng(3));
+    expect(move).not.toEqual({ type: "place", r: 1, c: 1 });
+  });
+
+  it("passes when it has no legal move and finishes a game against itself", () => {
+    let s = newGame(presetConfig(5, 5));
+    const rng = seededRng(4);
+    for (let i = 0; i < 200 && !s.gameOver; i++) {
+      const move = chooseBotMove(s, i % 2 ? "hard" : "easy", rng);
+      const res = applyAction(s, move);
+      if (!res.ok) throw new Error(res.error.code);
+      s = res.state;
+    }
+    expect(s.gameOver).toBe(true);
+    // Nothing is left to play for either side once the game is over
+    expect(chooseBotMove(s, "hard", rng)).toEqual({ type: "pass" });
+  });
+});
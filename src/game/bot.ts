@@ -0,0 +1,156 @@
+// Heuristic computer opponent. Moves are ranked by a one-ply evaluation: the change in
+// score margin under the game's scoring mode (with the move's captures under territory
+// scoring), plus how wide the mover's connection region (stones + empties
+// reachable from its base) stays compared with the opponent's. "hard" also looks at
+// the opponent's best reply to the most promising candidates.
+
+import {
+  cloneBoard,
+  playerStone,
+  type Cell,
+  type GameConfig,
+  type Player,
+} from "./engine";
+import {
+  bfsFromBase,
+  computeAreaScore,
+  computeLegalMoves,
+  placeStone,
+  resolveCaptures,
+} from "./bitboard";
+import type { Move } from "./notation";
+import type { Rng } from "./rng";
+import { scoreBoard, type ScoringMode } from "./scoring";
+import { capturedBy, moveOptionsFor, opponent, type GameState } from "./state";
+
+export type BotLevel = "easy" | "medium" | "hard";
+
+export const BOT_LEVELS: readonly BotLevel[] = ["easy", "medium", "hard"];
+
+// Weights for the evaluation terms; score margin dominates, reach breaks ties.
+const SCORE_WEIGHT = 1;
+const REACH_WEIGHT = 0.25;
+
+// Per-level knobs: random noise added to each evaluation and how many of the best
+// one-ply candidates get a reply search.
+const LEVELS: Record<BotLevel, { noise: number; replyCandidates: number }> = {
+  easy: { noise: 6, replyCandidates: 0 },
+  medium: { noise: 0.5, replyCandidates: 0 },
+  hard: { noise: 0, replyCandidates: 6 },
+};
+
+function countTrue(mask: boolean[][]) {
+  let n = 0;
+  for (const row of mask) for (const v of row) if (v) n++;
+  return n;
+}
+
+// Static evaluation of `board` from `player`'s point of view. Komi and earlier
+// captures are the same for every candidate, so they are left out.
+export function evaluateBoard(
+  board: Cell[][],
+  player: Player,
+  config: GameConfig,
+  scoring: ScoringMode = "area",
+) {
+  const score =
+    scoring === "area"
+      ? computeAreaScore(board, config)
+      : scoreBoard(board, config, { scoring, komi: 0 });
+  const margin =
+    player === "WHITE" ? score.white - score.black : score.black - score.white;
+  const myReach = countTrue(bfsFromBase(board, player, "stones+empties", config));
+  const oppReach = countTrue(
+    bfsFromBase(board, opponent(player), "stones+empties", config),
+  );
+  return SCORE_WEIGHT * margin + REACH_WEIGHT * (myReach - oppReach);
+}
+
+function legalCells(mask: boolean[][]) {
+  const out: Array<{ r: number; c: number }> = [];
+  for (let r = 0; r < mask.length; r++)
+    for (let c = 0; c < mask[r].length; c++) if (mask[r][c]) out.push({ r, c });
+  return out;
+}
+
+// Best evaluation the opponent can reach with one reply (superko ignored in lookahead).
+function bestReply(
+  board: Cell[][],
+  player: Player,
+  config: GameConfig,
+  scoring: ScoringMode,
+) {
+  const opp = opponent(player);
+  let best = -Infinity;
+  for (const { r, c } of legalCells(computeLegalMoves(board, opp, { config }))) {
+    const tmp = cloneBoard(board);
+    tmp[r][c] = playerStone(opp);
+    const after = resolveCaptures(tmp, config);
+    const value =
+      evaluateBoard(after, opp, config, scoring) +
+      captureGain(board, after, opp, scoring);
+    best = Math.max(best, value);
+  }
+  return best === -Infinity ? null : best;
+}
+
+// Margin change from the stones `player`'s move captured; only territory scoring counts
+// them.
+function captureGain(
+  before: Cell[][],
+  after: Cell[][],
+  player: Player,
+  scoring: ScoringMode,
+) {
+  if (scoring !== "territory") return 0;
+  const lost = capturedBy(before, after, player);
+  return player === "WHITE" ? lost.black - lost.white : lost.white - lost.black;
+}
+
+// Picks a move for the side to move. Respects the repetition rule of `state` and
+// passes when there is no legal move.
+export function chooseBotMove(
+  state: GameState,
+  level: BotLevel = "medium",
+  rng: Rng = Math.random,
+): Move {
+  const { board, config, toMove } = state;
+  const { scoring } = state.rules;
+  const opts = moveOptionsFor(state);
+  const cells = legalCells(computeLegalMoves(board, toMove, opts));
+  if (cells.length === 0) return { type: "pass" };
+
+  const { noise, replyCandidates } = LEVELS[level];
+  const scored: Array<{
+    r: number;
+    c: number;
+    value: number;
+    gain: number;
+    after: Cell[][];
+  }> = [];
+  for (const { r, c } of cells) {
+    const after = placeStone(board, toMove, r, c, opts);
+    if (!after) continue;
+    const gain = captureGain(board, after, toMove, scoring);
+    const value =
+      evaluateBoard(after, toMove, config, scoring) + gain + (rng() - 0.5) * 2 * noise;
+    scored.push({ r, c, value, gain, after });
+  }
+  if (scored.length === 0) return { type: "pass" };
+  scored.sort((a, b) => b.value - a.value);
+
+  let best = scored[0];
+  if (replyCandidates > 0) {
+    // Minimax over the top candidates: my value is minus the opponent's best reply
+    let bestValue = -Infinity;
+    for (const cand of scored.slice(0, replyCandidates)) {
+      const reply = bestReply(cand.after, toMove, config, scoring);
+      const value = reply === null ? cand.value : cand.gain - reply;
+      if (value > bestValue) {
+        bestValue = value;
+        best = cand;
+      }
+    }
+  }
+  return { type: "place", r: best.r, c: best.c };
+}
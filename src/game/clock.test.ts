@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  completeMove,
+  flagClock,
+  formatClockTime,
+  newClock,
+  pauseClock,
+  readClock,
+  restoreClock,
+  resumeClock,
+  runClock,
+  timeUp,
+  validateTimeControl,
+} from "./clock";
+
+describe("AnchorHex game clocks", () => {
+  it("runs the side to move and loses on time in sudden death", () => {
+    let clock = runClock(newClock({ type: "sudden-death", mainMs: 60_000 }), "BLACK", 0);
+    expect(runClock(clock, "BLACK", 5000)).toBe(clock);
+    expect(readClock(clock, 20_000).BLACK.remainingMs).toBe(40_000);
+    clock = runClock(completeMove(clock, "BLACK", 20_000), "WHITE", 20_000);
+    expect(clock.sides.BLACK.remainingMs).toBe(40_000);
+    expect(timeUp(clock, 79_999)).toBeNull();
+    expect(timeUp(clock, 80_000)).toBe("WHITE");
+    clock = flagClock(clock, "WHITE", 80_000);
+    expect(clock).toMatchObject({ running: null, flagged: "WHITE" });
+    expect(runClock(clock, "BLACK", 90_000)).toBe(clock);
+  });
+
+  it("adds the Fischer increment only for moves made on the clock", () => {
+    const clock = newClock({ type: "fischer", mainMs: 60_000, incrementMs: 5000 });
+    const moved = completeMove(runClock(clock, "BLACK", 0), "BLACK", 10_000);
+    expect(moved.sides.BLACK.remainingMs).toBe(55_000);
+    // Stopped, e.g. after an undo: no time used and no increment
+    expect(completeMove(moved, "BLACK", 20_000).sides.BLACK.remainingMs).toBe(55_000);
+  });
+
+  it("uses up byo-yomi periods and resets the period after a move", () => {
+    const control = {
+      type: "byo-yomi" as const,
+      mainMs: 10_000,
+      periods: 3,
+      periodMs: 5000,
+    };
+    let clock = runClock(newClock(control), "BLACK", 0);
+    expect(readClock(clock, 12_000).BLACK).toEqual({
+      remainingMs: 3000,
+      periods: 3,
+      overtime: true,
+    });
+    // Ran past one period: 10 s main + 5 s + 2 s into the second period
+    clock = completeMove(clock, "BLACK", 17_000);
+    expect(clock.sides.BLACK).toEqual({ remainingMs: 5000, periods: 2, overtime: true });
+    clock = runClock(clock, "BLACK", 17_000);
+    expect(timeUp(clock, 26_999)).toBeNull();
+    expect(timeUp(clock, 27_000)).toBe("BLACK");
+    expect(newClock({ ...control, mainMs: 0 }).sides.WHITE).toEqual({
+      remainingMs: 5000,
+      periods: 3,
+      overtime: true,
+    });
+  });
+
+  it("pauses, resumes and comes back paused from storage", () => {
+    let clock = runClock(newClock({ type: "sudden-death", mainMs: 60_000 }), "WHITE", 0);
+    clock = pauseClock(clock, 10_000);
+    expect(runClock(clock, "WHITE", 30_000)).toBe(clock);
+    clock = runClock(resumeClock(clock), "WHITE", 30_000);
+    expect(readClock(clock, 40_000).WHITE.remainingMs).toBe(40_000);
+    const stored = JSON.parse(JSON.stringify(clock));
+    expect(stored).toEqual(clock);
+    const restored = restoreClock(stored, 45_000);
+    expect(restored).toMatchObject({ running: null, paused: true });
+    expect(restored.sides.WHITE.remainingMs).toBe(35_000);
+  });
+
+  it("validates time controls and formats readings", () => {
+    expect(
+      validateTimeControl({ type: "fischer", mainMs: 0, incrementMs: 1000 }),
+    ).toEqual([{ code: "BAD_TIME_CONTROL" }]);
+    expect(
+      validateTimeControl({ type: "byo-yomi", mainMs: 0, periods: 0, periodMs: 30_000 }),
+    ).toHaveLength(1);
+    expect(validateTimeControl({ type: "sudden-death", mainMs: 300_000 })).toEqual([]);
+    expect(formatClockTime(3_723_000)).toBe("1:02:03");
+    expect(formatClockTime(65_500)).toBe("1:05");
+    expect(formatClockTime(9_349)).toBe("9.3");
+    expect(formatClockTime(-20)).toBe("0.0");
+  });
+});
@@ -0,0 +1,194 @@
+// Game clocks for timed play. The clock is plain data (JSON-safe, stored with the game)
+// and every function takes the current time as `now`, in ms since the epoch, so the
+// same readings come out in the UI, in tests and after a reload. Time controls:
+//   - sudden-death: main time only; running out loses
+//   - fischer: main time plus `incrementMs` added after each of the side's moves
+//   - byo-yomi: main time, then `periods` periods of `periodMs`; a move played within
+//     a period starts the next move with a full period, and each period that runs out
+//     uses one up. Running out of the last period loses.
+//
+// Time is never given back: the App decides which side's clock runs (the side to move
+// in a live position, none while paused, browsing or after the game ends), and undo
+// only changes that side. A flag that has fallen stays down: the clock does not run
+// again in that game, even if the loss on time is undone.
+
+import type { Player } from "./engine";
+
+export type TimeControl =
+  | { type: "sudden-death"; mainMs: number }
+  | { type: "fischer"; mainMs: number; incrementMs: number }
+  | { type: "byo-yomi"; mainMs: number; periods: number; periodMs: number };
+
+export type TimeControlType = TimeControl["type"];
+
+export const TIME_CONTROL_TYPES: readonly TimeControlType[] = [
+  "sudden-death",
+  "fischer",
+  "byo-yomi",
+];
+
+export const MAX_MAIN_MS = 10 * 60 * 60 * 1000; // 10 hours
+export const MAX_PERIODS = 30;
+
+export type TimeControlError = { code: "BAD_TIME_CONTROL" };
+
+export type SideClock = {
+  remainingMs: number; // main time left, or what is left of the current period
+  periods: number; // byo-yomi periods left, counting the current one (0 otherwise)
+  overtime: boolean; // main time is used up and periods are running
+};
+
+export type ClockState = {
+  control: TimeControl;
+  sides: Record<Player, SideClock>;
+  running: Player | null; // whose time is being used
+  since: number | null; // when `running` last started or was charged
+  paused: boolean;
+  flagged: Player | null; // the side that ran out of time
+};
+
+export function validateTimeControl(control: TimeControl): TimeControlError[] {
+  const ms = (v: number, min: number) =>
+    Number.isInteger(v) && v >= min && v <= MAX_MAIN_MS;
+  const ok =
+    ms(control.mainMs, control.type === "byo-yomi" ? 0 : 1000) &&
+    (control.type !== "fischer" || ms(control.incrementMs, 0)) &&
+    (control.type !== "byo-yomi" ||
+      (Number.isInteger(control.periods) &&
+        control.periods >= 1 &&
+        control.periods <= MAX_PERIODS &&
+        ms(control.periodMs, 1000)));
+  return ok ? [] : [{ code: "BAD_TIME_CONTROL" }];
+}
+
+export function newClock(control: TimeControl): ClockState {
+  const side: SideClock = {
+    remainingMs: control.mainMs,
+    periods: control.type === "byo-yomi" ? control.periods : 0,
+    overtime: false,
+  };
+  // With no main time, byo-yomi starts straight in the first period
+  const start =
+    control.type === "byo-yomi" && control.mainMs === 0 ? spend(control, side, 0) : side;
+  return {
+    control,
+    sides: { BLACK: start, WHITE: start },
+    running: null,
+    since: null,
+    paused: false,
+    flagged: null,
+  };
+}
+
+// `side` after using `ms` more; `remainingMs` at or below 0 means the flag fell.
+function spend(control: TimeControl, side: SideClock, ms: number): SideClock {
+  let { remainingMs, periods, overtime } = side;
+  remainingMs -= ms;
+  if (control.type === "byo-yomi") {
+    while (remainingMs <= 0 && (!overtime || periods > 1)) {
+      if (overtime) periods--;
+      overtime = true;
+      remainingMs += control.periodMs;
+    }
+  }
+  return { remainingMs, periods, overtime };
+}
+
+// Both sides' clocks as they read at `now`.
+export function readClock(clock: ClockState, now: number): Record<Player, SideClock> {
+  const { running, since } = clock;
+  if (running === null || since === null) return clock.sides;
+  return {
+    ...clock.sides,
+    [running]: spend(clock.control, clock.sides[running], Math.max(0, now - since)),
+  };
+}
+
+// Charges the running side up to `now`.
+function charge(clock: ClockState, now: number): ClockState {
+  if (clock.running === null) return clock;
+  return { ...clock, sides: readClock(clock, now), since: now };
+}
+
+// The side whose time has run out at `now`, if any.
+export function timeUp(clock: ClockState, now: number): Player | null {
+  if (clock.flagged) return clock.flagged;
+  const { running } = clock;
+  return running && readClock(clock, now)[running].remainingMs <= 0 ? running : null;
+}
+
+// Runs `player`'s clock from `now` (none for null), charging the side that was running.
+// Returns `clock` itself when nothing changes. A paused or flagged clock stays stopped.
+export function runClock(
+  clock: ClockState,
+  player: Player | null,
+  now: number,
+): ClockState {
+  const next = clock.paused || clock.flagged ? null : player;
+  if (next === clock.running) return clock;
+  return { ...charge(clock, now), running: next, since: next && now };
+}
+
+// Ends `mover`'s turn at `now`: charges it and gives the move's bonus (the Fischer
+// increment, or a fresh byo-yomi period). The clock is left stopped until the App runs
+// the next side's. A move made while its clock was not running (say, after an undo) or
+// after the flag fell gets no bonus.
+export function completeMove(clock: ClockState, mover: Player, now: number): ClockState {
+  const charged = charge(clock, now);
+  const side = charged.sides[mover];
+  const { control } = clock;
+  let bonus = side;
+  if (clock.running === mover && side.remainingMs > 0) {
+    if (control.type === "fischer") {
+      bonus = { ...side, remainingMs: side.remainingMs + control.incrementMs };
+    } else if (control.type === "byo-yomi" && side.overtime) {
+      bonus = { ...side, remainingMs: control.periodMs };
+    }
+  }
+  return {
+    ...charged,
+    sides: { ...charged.sides, [mover]: bonus },
+    running: null,
+    since: null,
+  };
+}
+
+// Records `player`'s loss on time and stops the clock.
+export function flagClock(clock: ClockState, player: Player, now: number): ClockState {
+  const charged = charge(clock, now);
+  return {
+    ...charged,
+    sides: {
+      ...charged.sides,
+      [player]: { ...charged.sides[player], remainingMs: 0 },
+    },
+    running: null,
+    since: null,
+    flagged: player,
+  };
+}
+
+export function pauseClock(clock: ClockState, now: number): ClockState {
+  return { ...charge(clock, now), running: null, since: null, paused: true };
+}
+
+// Lifts a pause; the App then runs the side to move again.
+export function resumeClock(clock: ClockState): ClockState {
+  return { ...clock, paused: false };
+}
+
+// A stored clock cannot keep running while the page is closed: it comes back paused,
+// charged up to when it was saved.
+export function restoreClock(clock: ClockState, savedAt: number): ClockState {
+  return clock.running === null ? clock : pauseClock(clock, savedAt);
+}
+
+// "1:05:00", "4:59", or tenths in the last ten seconds ("9.3"); never below zero.
+export function formatClockTime(ms: number): string {
+  if (ms < 10_000) return (Math.max(0, Math.floor(ms / 100)) / 10).toFixed(1);
+  const total = Math.floor(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  BLACK_BASE,
+  BLACK_STONE,
+  EMPTY,
+  WHITE_BASE,
+  WHITE_STONE,
+  makeInitialBoard,
+  presetConfig,
+  validatePosition,
+} from "./engine";
+import { clearBoard, paintCell, removeDeadStones, type EditorPosition } from "./editor";
+
+function start(): EditorPosition {
+  const config = presetConfig(6, 6);
+  return { config, board: makeInitialBoard(config), toMove: "BLACK" };
+}
+
+describe("AnchorHex board editor", () => {
+  it("paints stones and empties but never over a base", () => {
+    const pos = start();
+    const a = paintCell(pos, 2, 2, "black");
+    expect(a.board[2][2]).toBe(BLACK_STONE);
+    expect(pos.board[2][2]).toBe(EMPTY);
+    expect(paintCell(a, 2, 2, "white").board[2][2]).toBe(WHITE_STONE);
+    expect(paintCell(a, 2, 2, "empty").board[2][2]).toBe(EMPTY);
+    expect(paintCell(a, 2, 2, "black")).toBe(a);
+    expect(paintCell(a, 0, 3, "black")).toBe(a);
+    expect(paintCell(a, 9, 9, "black")).toBe(a);
+  });
+
+  it("moves a base, replacing a stone but not the other base", () => {
+    const pos = paintCell(start(), 2, 2, "black");
+    const moved = paintCell(pos, 2, 2, "whiteBase");
+    expect(moved.config.whiteBase).toEqual({ r: 2, c: 2 });
+    expect(moved.board[2][2]).toBe(WHITE_BASE);
+    expect(moved.board[0][3]).toBe(EMPTY);
+    expect(paintCell(moved, 5, 2, "whiteBase")).toBe(moved);
+    expect(paintCell(moved, 5, 2, "blackBase")).toBe(moved);
+    expect(paintCell(moved, 0, 0, "blackBase").board[5][2]).toBe(EMPTY);
+    expect(paintCell(moved, 0, 0, "blackBase").board[0][0]).toBe(BLACK_BASE);
+  });
+
+  it("clears stones and removes dead ones", () => {
+    let pos = start();
+    for (let c = 0; c < 6; c++) pos = paintCell(pos, 1, c, "black");
+    pos = paintCell(pos, 3, 2, "white");
+    expect(validatePosition(pos.board, pos.config)).toHaveLength(1);
+    const cleaned = removeDeadStones(pos);
+    expect(cleaned.board[3][2]).toBe(EMPTY);
+    expect(cleaned.board[1][0]).toBe(BLACK_STONE);
+    expect(validatePosition(cleaned.board, cleaned.config)).toEqual([]);
+    expect(clearBoard(pos).board).toEqual(makeInitialBoard(pos.config));
+  });
+});
@@ -0,0 +1,77 @@
+// Pure edits behind the board editor: painting stones or empty cells and moving the
+// bases of a hand-built position. Nothing here enforces the capture rules; the editor
+// checks the result with `validatePosition` before play starts from it.
+
+import {
+  BLACK_BASE,
+  BLACK_STONE,
+  EMPTY,
+  WHITE_BASE,
+  WHITE_STONE,
+  cloneBoard,
+  resolveCaptures,
+  type Cell,
+  type GameConfig,
+  type Player,
+} from "./engine";
+
+export type EditorTool = "black" | "white" | "empty" | "whiteBase" | "blackBase";
+
+export const EDITOR_TOOLS: readonly EditorTool[] = [
+  "black",
+  "white",
+  "empty",
+  "whiteBase",
+  "blackBase",
+];
+
+export type EditorPosition = { config: GameConfig; board: Cell[][]; toMove: Player };
+
+const TOOL_CELLS: Record<"black" | "white" | "empty", Cell> = {
+  black: BLACK_STONE,
+  white: WHITE_STONE,
+  empty: EMPTY,
+};
+
+const isBase = (v: Cell) => v === WHITE_BASE || v === BLACK_BASE;
+
+// Applies `tool` to (r, c). Stones and empties never overwrite a base; a base moves to
+// any cell but the other base, replacing a stone there. Returns `pos` itself when
+// nothing changes.
+export function paintCell<P extends EditorPosition>(
+  pos: P,
+  r: number,
+  c: number,
+  tool: EditorTool,
+): P {
+  const { board, config } = pos;
+  const v = board[r]?.[c];
+  if (v === undefined) return pos;
+  if (tool === "whiteBase" || tool === "blackBase") {
+    const base = tool === "whiteBase" ? WHITE_BASE : BLACK_BASE;
+    const key = tool === "whiteBase" ? "whiteBase" : "blackBase";
+    if (isBase(v)) return pos;
+    const next = cloneBoard(board);
+    next[config[key].r][config[key].c] = EMPTY;
+    next[r][c] = base;
+    return { ...pos, board: next, config: { ...config, [key]: { r, c } } };
+  }
+  const cell = TOOL_CELLS[tool];
+  if (isBase(v) || v === cell) return pos;
+  const next = cloneBoard(board);
+  next[r][c] = cell;
+  return { ...pos, board: next };
+}
+
+// Empties every cell except the bases.
+export function clearBoard<P extends EditorPosition>(pos: P): P {
+  return {
+    ...pos,
+    board: pos.board.map((row) => row.map((v) => (isBase(v) ? v : EMPTY))),
+  };
+}
+
+// Removes the stones `validatePosition` reports, as the engine would after a move.
+export function removeDeadStones<P extends EditorPosition>(pos: P): P {
+  return { ...pos, board: resolveCaptures(pos.board, pos.config) };
+}
@@ -10,7 +10,21 @@ import {
   BLACK_STONE,
   WHITE_STONE,
   type Cell,
-  boardHash,
+  type PositionHash,
+  hashAfterPlacement,
+  findCaptures,
+  zobristHash,
+  BOARD_PRESETS,
+  DEFAULT_CONFIG,
+  presetConfig,
+  validateConfig,
+  previewMove,
+  resolveCaptures,
+  validatePosition,
+  EMPTY,
+  hexStep,
+  neighbors,
+  type HexDirection,
 } from "./engine";
 
 describe("AnchorHex engine", () => {
@@ -100,17 +114,17 @@ describe("AnchorHex engine", () => {
     b0[4][5] = W; // white between
 
     // Black captures by playing adjacent, removing the white stone by disconnection
-    const seen = new Set<string>();
-    seen.add(boardHash(b0));
+    const seen = new Set<PositionHash>();
+    seen.add(zobristHash(b0));
 
     const b1 = placeStone(b0, "BLACK", 5, 5, { forbidPositions: seen });
     expect(b1).not.toBeNull();
-    seen.add(boardHash(b1!));
+    seen.add(zobristHash(b1!));
 
     // White plays to capture back, forming position b2
     const b2 = placeStone(b1!, "WHITE", 3, 5, { forbidPositions: seen });
     expect(b2).not.toBeNull();
-    const b2h = boardHash(b2!);
+    const b2h = zobristHash(b2!);
     seen.add(b2h);
 
     // Now if Black plays again at (5,5), suppose it would recreate b0; that must be forbidden
@@ -121,4 +135,146 @@ describe("AnchorHex engine", () => {
       expect(b3).toBeNull();
     }
   });
+
+  it("updates Zobrist hashes incrementally and can include the side to move", () => {
+    const b0 = makeInitialBoard();
+    b0[4][5] = WHITE_STONE;
+    const b1 = placeStone(b0, "BLACK", 6, 3)!;
+    expect(zobristHash(b0)).not.toBe(zobristHash(makeInitialBoard()));
+    expect(hashAfterPlacement(zobristHash(b0), b0, 6, 3, BLACK_STONE, [])).toBe(
+      zobristHash(b1),
+    );
+    expect(zobristHash(b1, "WHITE")).not.toBe(zobristHash(b1, "BLACK"));
+    expect(zobristHash(b1, "BLACK")).toBe(zobristHash(b1));
+
+    // With side-to-move hashes, only the same position with White to move is forbidden
+    const sameSide = { forbidPositions: new Set([zobristHash(b1, "WHITE")]) };
+    const otherSide = { forbidPositions: new Set([zobristHash(b1, "BLACK")]) };
+    expect(
+      placeStone(b0, "BLACK", 6, 3, { ...sameSide, hashSideToMove: true }),
+    ).toBeNull();
+    expect(placeStone(b0, "BLACK", 6, 3, { ...otherSide, hashSideToMove: true })).toEqual(
+      b1,
+    );
+    expect(
+      computeLegalMoves(b0, "BLACK", { ...sameSide, hashSideToMove: true })[6][3],
+    ).toBe(false);
+
+    // A capturing placement toggles the removed stones' keys as well
+    const config = presetConfig(6, 6);
+    const b = makeInitialBoard(config);
+    for (let c = 0; c < 6; c++) if (c !== 2) b[1][c] = BLACK_STONE;
+    b[3][2] = WHITE_STONE;
+    const walled = b.map((row) => [...row]);
+    walled[1][2] = BLACK_STONE;
+    const captured = findCaptures(walled, config);
+    expect(captured).toEqual([{ r: 3, c: 2 }]);
+    const after = placeStone(b, "BLACK", 1, 2, { config })!;
+    expect(hashAfterPlacement(zobristHash(b), b, 1, 2, BLACK_STONE, captured)).toBe(
+      zobristHash(after),
+    );
+    expect(
+      placeStone(b, "BLACK", 1, 2, {
+        config,
+        forbidPositions: new Set([zobristHash(after)]),
+      }),
+    ).toBeNull();
+  });
+
+  it("presets size the board and place bases from the config", () => {
+    expect(BOARD_PRESETS["8x8"]).toEqual(DEFAULT_CONFIG);
+    for (const config of Object.values(BOARD_PRESETS)) {
+      const board = makeInitialBoard(config);
+      expect(board.length).toBe(config.rows);
+      expect(board[0].length).toBe(config.cols);
+      expect(validateConfig(config)).toEqual([]);
+      expect(bothNoMoves(board, config)).toBe(false);
+    }
+  });
+
+  it("steps to each of the six neighbours by screen direction", () => {
+    const dirs: HexDirection[] = ["n", "ne", "se", "s", "sw", "nw"];
+    const key = (p: { r: number; c: number } | null) => (p ? `${p.r},${p.c}` : "-");
+    for (const [r, c] of [
+      [3, 2],
+      [3, 3],
+    ]) {
+      const steps = dirs.map((d) => key(hexStep(r, c, d)));
+      expect([...steps].sort()).toEqual(
+        neighbors(r, c)
+          .map(([nr, nc]) => key({ r: nr, c: nc }))
+          .sort(),
+      );
+    }
+    // Even columns sit lower: their upper diagonal neighbours share the row
+    expect(hexStep(3, 2, "ne")).toEqual({ r: 3, c: 3 });
+    expect(hexStep(3, 3, "ne")).toEqual({ r: 2, c: 4 });
+    expect(hexStep(0, 3, "nw")).toBeNull();
+    expect(hexStep(7, 0, "sw")).toBeNull();
+  });
+
+  it("plays and captures on a 12x12 board with custom bases", () => {
+    const config = { ...presetConfig(12, 12), whiteBase: { r: 0, c: 0 } };
+    const b = makeInitialBoard(config);
+    // A black stone cut off from its base in the far corner dies on resolution
+    b[0][11] = BLACK_STONE;
+    b[0][10] = WHITE_STONE;
+    b[1][11] = WHITE_STONE;
+    b[1][10] = WHITE_STONE;
+    const next = placeStone(b, "WHITE", 11, 11, { config });
+    expect(next).not.toBeNull();
+    expect(resolveCaptures(b, config)[0][11]).toBe(EMPTY);
+    expect(computeLegalMoves(b, "BLACK", { config })[11][0]).toBe(true);
+  });
+
+  it("reports stones that resolveCaptures would remove", () => {
+    const config = presetConfig(6, 6);
+    const b = makeInitialBoard(config);
+    expect(validatePosition(b, config)).toEqual([]);
+    // A black wall across row 1 cuts the white stone below it off from its base
+    for (let c = 0; c < 6; c++) b[1][c] = BLACK_STONE;
+    b[3][2] = WHITE_STONE;
+    const dead = validatePosition(b, config);
+    expect(dead).toEqual([{ r: 3, c: 2, player: "WHITE" }]);
+    for (const { r, c } of dead) b[r][c] = EMPTY;
+    expect(b).toEqual(resolveCaptures(b, config));
+    expect(validatePosition(b, config)).toEqual([]);
+  });
+
+  it("previews a move's captures and score change without playing it", () => {
+    const config = presetConfig(6, 6);
+    const b = makeInitialBoard(config);
+    // Closing the gap in a black wall across row 1 cuts off the white stone below it
+    for (let c = 0; c < 6; c++) if (c !== 2) b[1][c] = BLACK_STONE;
+    b[3][2] = WHITE_STONE;
+    const before = b.map((row) => [...row]);
+    const preview = previewMove(b, "BLACK", 1, 2, { config });
+    expect(b).toEqual(before);
+    expect(preview?.board).toEqual(placeStone(b, "BLACK", 1, 2, { config }));
+    expect(preview?.captured).toEqual({ white: [{ r: 3, c: 2 }], black: [] });
+    // Black takes everything below the wall; White loses the stone but no longer
+    // shares the top row's empties with Black
+    expect(preview?.scoreDelta).toEqual({ white: 2, black: 24 });
+    expect(previewMove(b, "WHITE", 1, 2, { config })?.captured).toEqual({
+      white: [],
+      black: [],
+    });
+    expect(previewMove(b, "BLACK", 1, 0, { config })).toBeNull();
+  });
+
+  it("validates base placement", () => {
+    const base = presetConfig(6, 6);
+    expect(validateConfig({ ...base, rows: 2 })).toEqual([{ code: "BAD_DIMENSIONS" }]);
+    expect(validateConfig({ ...base, whiteBase: { r: 6, c: 0 } })).toEqual([
+      { code: "BASE_OUT_OF_BOUNDS", player: "WHITE" },
+    ]);
+    expect(validateConfig({ ...base, blackBase: base.whiteBase })).toEqual([
+      { code: "BASES_OVERLAP" },
+    ]);
+    const board = makeInitialBoard(presetConfig(6, 6));
+    board[0][0] = WHITE_STONE;
+    expect(validateConfig({ ...base, whiteBase: { r: 0, c: 0 } }, board)).toEqual([
+      { code: "BASE_NOT_EMPTY", player: "WHITE" },
+    ]);
+  });
 });
@@ -12,19 +12,106 @@ export const BLACK_BASE = 4 as const;
 export type Cell = 0 | 1 | 2 | 3 | 4;
 export type Player = "BLACK" | "WHITE";
 
+export type Coord = { r: number; c: number };
+
 export const WHITE_BASE_POS = { r: 0, c: 4 } as const;
 export const BLACK_BASE_POS = { r: ROWS - 1, c: 3 } as const;
 
+// Board dimensions and base placement. Every engine function takes one (defaulting to
+// the classic 8x8 layout) so boards of other sizes can be played and tested.
+export type GameConfig = {
+  rows: number;
+  cols: number;
+  whiteBase: Coord;
+  blackBase: Coord;
+};
+
+export const DEFAULT_CONFIG: GameConfig = {
+  rows: ROWS,
+  cols: COLS,
+  whiteBase: WHITE_BASE_POS,
+  blackBase: BLACK_BASE_POS,
+};
+
+export const MIN_BOARD_SIZE = 3;
+export const MAX_BOARD_SIZE = 26;
+
+// Bases sit in the middle of the top and bottom rows, offset by one column like the
+// 8x8 default (white at (0, 4), black at (7, 3)).
+export function presetConfig(rows: number, cols: number): GameConfig {
+  const mid = Math.floor(cols / 2);
+  return {
+    rows,
+    cols,
+    whiteBase: { r: 0, c: mid },
+    blackBase: { r: rows - 1, c: mid - 1 },
+  };
+}
+
+export const BOARD_PRESETS = {
+  "6x6": presetConfig(6, 6),
+  "8x8": DEFAULT_CONFIG,
+  "10x10": presetConfig(10, 10),
+  "12x12": presetConfig(12, 12),
+} as const satisfies Record<string, GameConfig>;
+
+export type BoardPreset = keyof typeof BOARD_PRESETS;
+
+// Whether two configs describe the same board size and base placement.
+export function sameLayout(a: GameConfig, b: GameConfig) {
+  return (
+    a.rows === b.rows &&
+    a.cols === b.cols &&
+    a.whiteBase.r === b.whiteBase.r &&
+    a.whiteBase.c === b.whiteBase.c &&
+    a.blackBase.r === b.blackBase.r &&
+    a.blackBase.c === b.blackBase.c
+  );
+}
+
+export type ConfigError =
+  | { code: "BAD_DIMENSIONS" }
+  | { code: "BASE_OUT_OF_BOUNDS"; player: Player }
+  | { code: "BASES_OVERLAP" }
+  | { code: "BASE_NOT_EMPTY"; player: Player };
+
+// Checks that dimensions are within range and both bases are in bounds, distinct and,
+// when a starting board is given, placed on cells that are empty (or already that base).
+export function validateConfig(config: GameConfig, board?: Cell[][]): ConfigError[] {
+  const errors: ConfigError[] = [];
+  const sizeOk = (n: number) =>
+    Number.isInteger(n) && n >= MIN_BOARD_SIZE && n <= MAX_BOARD_SIZE;
+  if (!sizeOk(config.rows) || !sizeOk(config.cols)) {
+    errors.push({ code: "BAD_DIMENSIONS" });
+    return errors;
+  }
+  const players: Player[] = ["WHITE", "BLACK"];
+  for (const p of players) {
+    const { r, c } = playerBasePos(p, config);
+    if (!Number.isInteger(r) || !Number.isInteger(c) || !inBounds(r, c, config)) {
+      errors.push({ code: "BASE_OUT_OF_BOUNDS", player: p });
+    } else if (board) {
+      const v = board[r]?.[c];
+      if (v !== EMPTY && v !== playerBase(p)) {
+        errors.push({ code: "BASE_NOT_EMPTY", player: p });
+      }
+    }
+  }
+  const { whiteBase: w, blackBase: b } = config;
+  if (w.r === b.r && w.c === b.c) errors.push({ code: "BASES_OVERLAP" });
+  return errors;
+}
+
 export function cloneBoard(b: Cell[][]): Cell[][] {
   return b.map((row) => row.slice());
 }
 
-export function makeInitialBoard(): Cell[][] {
-  const board: Cell[][] = Array.from({ length: ROWS }, () =>
-    Array<Cell>(COLS).fill(EMPTY),
+export function makeInitialBoard(config: GameConfig = DEFAULT_CONFIG): Cell[][] {
+  const board: Cell[][] = Array.from({ length: config.rows }, () =>
+    Array<Cell>(config.cols).fill(EMPTY),
   );
-  board[WHITE_BASE_POS.r][WHITE_BASE_POS.c] = WHITE_BASE;
-  board[BLACK_BASE_POS.r][BLACK_BASE_POS.c] = BLACK_BASE;
+  board[config.whiteBase.r][config.whiteBase.c] = WHITE_BASE;
+  board[config.blackBase.r][config.blackBase.c] = BLACK_BASE;
   return board;
 }
 
@@ -45,38 +132,62 @@ const EVEN_Q_DIRS: Array<[number, number]> = [
   [0, 1],
 ];
 
-export function inBounds(r: number, c: number) {
-  return r >= 0 && r < ROWS && c >= 0 && c < COLS;
+export function inBounds(r: number, c: number, config: GameConfig = DEFAULT_CONFIG) {
+  return r >= 0 && r < config.rows && c >= 0 && c < config.cols;
 }
-export function neighbors(r: number, c: number) {
+export function neighbors(r: number, c: number, config: GameConfig = DEFAULT_CONFIG) {
   const dirs = c % 2 === 0 ? EVEN_Q_DIRS : ODD_Q_DIRS;
   const out: Array<[number, number]> = [];
   for (const [dc, dr] of dirs) {
     const nr = r + dr,
       nc = c + dc;
-    if (inBounds(nr, nc)) out.push([nr, nc]);
+    if (inBounds(nr, nc, config)) out.push([nr, nc]);
   }
   return out;
 }
 
+// The six directions as seen on screen (flat-topped hexes)
+export type HexDirection = "n" | "ne" | "se" | "s" | "sw" | "nw";
+
+// The neighbour of (r, c) in direction `dir`, or null off the board. Even columns sit
+// half a cell lower, so which row a diagonal step lands on depends on the column.
+export function hexStep(
+  r: number,
+  c: number,
+  dir: HexDirection,
+  config: GameConfig = DEFAULT_CONFIG,
+): Coord | null {
+  const up = c % 2 === 0 ? 0 : -1; // row offset of the upper diagonal neighbours
+  const [dr, dc] = {
+    n: [-1, 0],
+    s: [1, 0],
+    ne: [up, 1],
+    se: [up + 1, 1],
+    nw: [up, -1],
+    sw: [up + 1, -1],
+  }[dir];
+  return inBounds(r + dr, c + dc, config) ? { r: r + dr, c: c + dc } : null;
+}
+
 export function playerStone(p: Player) {
   return p === "WHITE" ? WHITE_STONE : BLACK_STONE;
 }
 export function playerBase(p: Player) {
   return p === "WHITE" ? WHITE_BASE : BLACK_BASE;
 }
-export function playerBasePos(p: Player) {
-  return p === "WHITE" ? WHITE_BASE_POS : BLACK_BASE_POS;
+export function playerBasePos(p: Player, config: GameConfig = DEFAULT_CONFIG) {
+  return p === "WHITE" ? config.whiteBase : config.blackBase;
 }
 
 export function bfsFromBase(
   board: Cell[][],
   player: Player,
   mode: "stones+empties" | "emptiesOnly",
+  config: GameConfig = DEFAULT_CONFIG,
 ): boolean[][] {
-  const vis = Array.from({ length: ROWS }, () => Array(COLS).fill(false));
+  const vis = Array.from({ length: config.rows }, () => Array(config.cols).fill(false));
   const q: Array<[number, number]> = [];
-  const { r: br, c: bc } = playerBasePos(player);
+  const { r: br, c: bc } = playerBasePos(player, config);
   vis[br][bc] = true;
   q.push([br, bc]);
   const base = playerBase(player);
@@ -84,7 +195,7 @@ export function bfsFromBase(
   let qi = 0;
   while (qi < q.length) {
     const [r, c] = q[qi++];
-    for (const [nr, nc] of neighbors(r, c)) {
+    for (const [nr, nc] of neighbors(r, c, config)) {
       if (vis[nr][nc]) continue;
       const v = board[nr][nc];
       if (mode === "stones+empties") {
@@ -103,70 +214,189 @@ export function bfsFromBase(
   return vis;
 }
 
+// ---- Zobrist hashing ----
+// A position hash is the XOR of one random 64-bit key per stone (bases are fixed by the
+// config and not hashed), optionally XORed with a side-to-move key. Placing or removing
+// a stone toggles one key, so hashes update in O(changed cells). Keys come from a fixed
+// seed, so hashes are stable across sessions and between the UI and a worker.
+
+export type PositionHash = bigint;
+
+const MASK_64 = (1n << 64n) - 1n;
+
+function splitmix64(seed: bigint) {
+  let state = seed;
+  return () => {
+    state = (state + 0x9e3779b97f4a7c15n) & MASK_64;
+    let z = state;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+    return z ^ (z >> 31n);
+  };
+}
+
+const nextKey = splitmix64(0x416e63686f72486en);
+// Two keys per cell of the largest board: [white, black], indexed by r * MAX + c
+const ZOBRIST_KEYS = Array.from({ length: MAX_BOARD_SIZE * MAX_BOARD_SIZE * 2 }, nextKey);
+// XORed in when White is to move, for hashes that include the side to move
+export const ZOBRIST_WHITE_TO_MOVE = nextKey();
+
+// Key toggled when a stone of `cell` is added to or removed from (r, c); 0 for empties
+// and bases.
+export function zobristKey(r: number, c: number, cell: Cell): PositionHash {
+  if (cell !== WHITE_STONE && cell !== BLACK_STONE) return 0n;
+  return ZOBRIST_KEYS[(r * MAX_BOARD_SIZE + c) * 2 + (cell === WHITE_STONE ? 0 : 1)];
+}
+
+export function sideToMoveKey(toMove: Player | undefined): PositionHash {
+  return toMove === "WHITE" ? ZOBRIST_WHITE_TO_MOVE : 0n;
+}
+
+// Full hash of a board; pass `toMove` to include the side to move.
+export function zobristHash(board: Cell[][], toMove?: Player): PositionHash {
+  let h = sideToMoveKey(toMove);
+  for (let r = 0; r < board.length; r++)
+    for (let c = 0; c < board[r].length; c++) h ^= zobristKey(r, c, board[r][c]);
+  return h;
+}
+
+// Hash after `stone` is placed at (r, c) of `board` and the `captured` stones are
+// removed, given `hash` of `board`: only the keys of those cells are toggled.
+export function hashAfterPlacement(
+  hash: PositionHash,
+  board: Cell[][],
+  r: number,
+  c: number,
+  stone: Cell,
+  captured: readonly Coord[],
+): PositionHash {
+  hash ^= zobristKey(r, c, stone);
+  for (const p of captured) hash ^= zobristKey(p.r, p.c, board[p.r][p.c]);
+  return hash;
+}
+
+export type MoveOptions = {
+  // Zobrist hashes of positions that may not be recreated (superko)
+  forbidPositions?: ReadonlySet<PositionHash>;
+  // Whether `forbidPositions` hashes include the side to move (situational superko)
+  hashSideToMove?: boolean;
+  // Side to move after the placement, for those hashes; default the opponent (a move
+  // handicap gives the same side the next turn too)
+  nextToMove?: Player;
+  config?: GameConfig;
+};
+
+// The side to move that the hash of the position after `player`'s placement includes
+// in the convention of `opts`: none unless `hashSideToMove`.
+export function hashedSideAfter(player: Player, opts?: MoveOptions): Player | undefined {
+  if (!opts?.hashSideToMove) return undefined;
+  return opts.nextToMove ?? (player === "WHITE" ? "BLACK" : "WHITE");
+}
+
+// Hash of `board` with the side to move after `player`'s move, in the convention of
+// `opts`; a placement's changes are then toggled in with `hashAfterPlacement`.
+function hashBeforeMove(board: Cell[][], player: Player, opts?: MoveOptions) {
+  return zobristHash(board, hashedSideAfter(player, opts));
+}
+
+// Whether the stone just placed at (r, c) is among the `captured` ones.
+const placedDies = (r: number, c: number, captured: readonly Coord[]) =>
+  captured.some((p) => p.r === r && p.c === c);
+
 export function computeLegalMoves(
   board: Cell[][],
   player: Player,
-  opts?: { forbidPositions?: ReadonlySet<string> },
+  opts?: MoveOptions,
 ): boolean[][] {
-  const reach = bfsFromBase(board, player, "stones+empties");
+  const config = opts?.config ?? DEFAULT_CONFIG;
+  const reach = bfsFromBase(board, player, "stones+empties", config);
   const legal = reach.map((row, r) => row.map((ok, c) => ok && board[r][c] === EMPTY));
 
   const myStone = playerStone(player);
   const forbid = opts?.forbidPositions;
-  for (let r = 0; r < ROWS; r++) {
-    for (let c = 0; c < COLS; c++) {
-      if (board[r][c] !== EMPTY) continue;
-
-      let isLegal = legal[r][c];
-      let after: Cell[][] | null = null;
-
-      if (!isLegal || forbid) {
-        const tmp = cloneBoard(board);
-        tmp[r][c] = myStone;
-        after = resolveCaptures(tmp);
-        if (!isLegal) isLegal = after[r][c] === myStone;
-        if (isLegal && forbid && forbid.has(boardHash(after))) isLegal = false;
-      }
+  const hash = forbid ? hashBeforeMove(board, player, opts) : 0n;
+  // Each candidate is tried on one scratch board and taken back afterwards
+  const tmp = cloneBoard(board);
+  for (let r = 0; r < config.rows; r++) {
+    for (let c = 0; c < config.cols; c++) {
+      if (board[r][c] !== EMPTY || (legal[r][c] && !forbid)) continue;
 
-      legal[r][c] = isLegal;
+      tmp[r][c] = myStone;
+      const captured = findCaptures(tmp, config);
+      tmp[r][c] = EMPTY;
+      legal[r][c] =
+        !placedDies(r, c, captured) &&
+        !forbid?.has(hashAfterPlacement(hash, board, r, c, myStone, captured));
     }
   }
 
   return legal;
 }
 
+// Readable string form of a board (rows of cell digits joined by "|"), used for
+// serialization and debugging; superko uses `zobristHash`.
 export function boardHash(board: Cell[][]): string {
-  const parts: string[] = new Array(ROWS);
-  for (let r = 0; r < ROWS; r++) {
+  const parts: string[] = new Array(board.length);
+  for (let r = 0; r < board.length; r++) {
     let rowStr = "";
-    for (let c = 0; c < COLS; c++) rowStr += board[r][c];
+    for (let c = 0; c < board[r].length; c++) rowStr += board[r][c];
     parts[r] = rowStr;
   }
   return parts.join("|");
 }
 
-export function resolveCaptures(board: Cell[][]): Cell[][] {
-  const wReach = bfsFromBase(board, "WHITE", "stones+empties");
-  const bReach = bfsFromBase(board, "BLACK", "stones+empties");
-  const next = cloneBoard(board);
-  for (let r = 0; r < ROWS; r++)
-    for (let c = 0; c < COLS; c++) {
+// Stones cut off from their own base, which `resolveCaptures` removes, in row-major
+// order.
+export function findCaptures(
+  board: Cell[][],
+  config: GameConfig = DEFAULT_CONFIG,
+): Coord[] {
+  const wReach = bfsFromBase(board, "WHITE", "stones+empties", config);
+  const bReach = bfsFromBase(board, "BLACK", "stones+empties", config);
+  const captured: Coord[] = [];
+  for (let r = 0; r < config.rows; r++)
+    for (let c = 0; c < config.cols; c++) {
       const v = board[r][c];
-      if (v === WHITE_STONE && !wReach[r][c]) next[r][c] = EMPTY;
-      if (v === BLACK_STONE && !bReach[r][c]) next[r][c] = EMPTY;
+      if ((v === WHITE_STONE && !wReach[r][c]) || (v === BLACK_STONE && !bReach[r][c]))
+        captured.push({ r, c });
     }
+  return captured;
+}
+
+export function resolveCaptures(
+  board: Cell[][],
+  config: GameConfig = DEFAULT_CONFIG,
+): Cell[][] {
+  const next = cloneBoard(board);
+  for (const { r, c } of findCaptures(board, config)) next[r][c] = EMPTY;
   return next;
 }
 
-export function computeAreaScore(board: Cell[][]) {
-  const wEmpty = bfsFromBase(board, "WHITE", "emptiesOnly");
-  const bEmpty = bfsFromBase(board, "BLACK", "emptiesOnly");
+export type DeadStone = Coord & { player: Player };
+
+// Stones that `resolveCaptures` would remove from `board` because they are cut off
+// from their own base, in row-major order. Empty for a position the engine could have
+// produced; used to check hand-built positions (board editor, shared links).
+export function validatePosition(
+  board: Cell[][],
+  config: GameConfig = DEFAULT_CONFIG,
+): DeadStone[] {
+  return findCaptures(board, config).map(({ r, c }) => ({
+    r,
+    c,
+    player: board[r][c] === WHITE_STONE ? "WHITE" : "BLACK",
+  }));
+}
+
+export function computeAreaScore(board: Cell[][], config: GameConfig = DEFAULT_CONFIG) {
+  const wEmpty = bfsFromBase(board, "WHITE", "emptiesOnly", config);
+  const bEmpty = bfsFromBase(board, "BLACK", "emptiesOnly", config);
   let wStones = 0,
     bStones = 0,
     wTerr = 0,
     bTerr = 0;
-  for (let r = 0; r < ROWS; r++)
-    for (let c = 0; c < COLS; c++) {
+  for (let r = 0; r < config.rows; r++)
+    for (let c = 0; c < config.cols; c++) {
       const v = board[r][c];
       if (v === WHITE_STONE) wStones++;
       else if (v === BLACK_STONE) bStones++;
@@ -184,10 +414,11 @@ export function computeAreaScore(board: Cell[][]) {
   };
 }
 
-export function bothNoMoves(board: Cell[][]) {
+export function bothNoMoves(board: Cell[][], config: GameConfig = DEFAULT_CONFIG) {
   const any = (mask: boolean[][]) => mask.some((row) => row.some(Boolean));
   return (
-    !any(computeLegalMoves(board, "WHITE")) && !any(computeLegalMoves(board, "BLACK"))
+    !any(computeLegalMoves(board, "WHITE", { config })) &&
+    !any(computeLegalMoves(board, "BLACK", { config }))
   );
 }
 
@@ -196,20 +427,56 @@ export function placeStone(
   player: Player,
   r: number,
   c: number,
-  opts?: { forbidPositions?: ReadonlySet<string> },
+  opts?: MoveOptions,
 ) {
-  if (board[r][c] !== EMPTY) return null;
-  const legal = computeLegalMoves(board, player, {
-    forbidPositions: opts?.forbidPositions,
-  });
-  if (!legal[r][c]) return null;
+  const config = opts?.config ?? DEFAULT_CONFIG;
+  if (!inBounds(r, c, config) || board[r][c] !== EMPTY) return null;
+  const stone = playerStone(player);
   const next = cloneBoard(board);
-  next[r][c] = playerStone(player);
-  const resolved = resolveCaptures(next);
-  if (opts?.forbidPositions && opts.forbidPositions.has(boardHash(resolved))) {
-    return null;
+  next[r][c] = stone;
+  const captured = findCaptures(next, config);
+  if (placedDies(r, c, captured)) return null;
+  const forbid = opts?.forbidPositions;
+  if (forbid) {
+    const hash = hashBeforeMove(board, player, opts);
+    if (forbid.has(hashAfterPlacement(hash, board, r, c, stone, captured))) return null;
   }
-  return resolved;
+  for (const p of captured) next[p.r][p.c] = EMPTY;
+  return next;
 }
 
 export type AreaScore = ReturnType<typeof computeAreaScore>;
+
+export type MovePreview = {
+  board: Cell[][]; // after the move and its captures
+  captured: { white: Coord[]; black: Coord[] }; // stones of each color removed
+  scoreDelta: { white: number; black: number }; // change in `computeAreaScore`
+};
+
+// What `player` playing (r, c) would do, without playing it: the resulting board, the
+// stones `resolveCaptures` removes for either side and how the area score moves. Null
+// for an illegal move, superko included through `opts`.
+export function previewMove(
+  board: Cell[][],
+  player: Player,
+  r: number,
+  c: number,
+  opts?: MoveOptions,
+): MovePreview | null {
+  const config = opts?.config ?? DEFAULT_CONFIG;
+  const after = placeStone(board, player, r, c, opts);
+  if (!after) return null;
+  const captured: MovePreview["captured"] = { white: [], black: [] };
+  for (let rr = 0; rr < config.rows; rr++)
+    for (let cc = 0; cc < config.cols; cc++) {
+      if (after[rr][cc] !== EMPTY || board[rr][cc] === EMPTY) continue;
+      captured[board[rr][cc] === WHITE_STONE ? "white" : "black"].push({ r: rr, c: cc });
+    }
+  const before = computeAreaScore(board, config);
+  const next = computeAreaScore(after, config);
+  return {
+    board: after,
+    captured,
+    scoreDelta: { white: next.white - before.white, black: next.black - before.black },
+  };
+}
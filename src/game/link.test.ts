@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { BLACK_STONE, WHITE_STONE, presetConfig } from "./engine";
+import {
+  formatBoard,
+  formatGameLink,
+  formatPosition,
+  formatPositionLink,
+  parseBoard,
+  parseLink,
+  parsePosition,
+} from "./link";
+import { DEFAULT_RULESET } from "./rules";
+import { applyAction, newGame, type GameAction, type GameState } from "./state";
+
+function play(state: GameState, ...actions: GameAction[]) {
+  for (const a of actions) {
+    const res = applyAction(state, a);
+    if (!res.ok) throw new Error(res.error.code);
+    state = res.state;
+  }
+  return state;
+}
+
+describe("AnchorHex shareable links", () => {
+  it("writes the board row by row with runs of empty cells", () => {
+    const { board, config } = newGame();
+    expect(formatBoard(board)).toBe("4W3/8/8/8/8/8/8/3B4");
+    expect(parseBoard("4W3/8/8/8/8/8/8/3B4")).toEqual({ board, config });
+    expect(parseBoard("4W3/8/3B4")).toEqual({
+      board: newGame(presetConfig(3, 8)).board,
+      config: { rows: 3, cols: 8, whiteBase: { r: 0, c: 4 }, blackBase: { r: 2, c: 3 } },
+    });
+    for (const bad of ["4W3/7/3B4", "4W3/8/8", "W2/3/B1W", "4W3/8/3x4", "W27/B27/28"]) {
+      expect(parseBoard(bad)).toBeNull();
+    }
+    // A position adds the side to move; a stone cut off from its base is refused
+    const game = newGame();
+    expect(formatPosition({ ...game, toMove: "WHITE" })).toBe("4W3/8/8/8/8/8/8/3B4 w");
+    expect(parsePosition(" 4W3/8/8/8/8/8/8/3B4 b\n")).toEqual({
+      board,
+      config,
+      toMove: "BLACK",
+    });
+    for (const bad of ["4W3/8/8/8/8/8/8/3B4", "4W3/8/8/8/8/8/8/3B4 x", "bW1/ww1/2B w"]) {
+      expect(parsePosition(bad)).toBeNull();
+    }
+  });
+
+  it("round-trips a game with rules, passes and a resignation", () => {
+    const rules = {
+      repetition: "simple-ko" as const,
+      scoring: "territory" as const,
+      komi: 0.5,
+      handicap: { type: "stones" as const, player: "BLACK" as const, count: 2 },
+    };
+    const start = newGame(presetConfig(6, 6), rules);
+    const end = play(
+      start,
+      { type: "place", r: 1, c: 3 },
+      { type: "place", r: 4, c: 2 },
+      { type: "resign", player: "WHITE" },
+    );
+    const link = formatGameLink(start, end);
+    expect(link).toMatch(
+      /&rep=simple-ko&sc=territory&komi=0.5&hc=b2s&m=d2\.c5\.resign-w$/,
+    );
+    const res = parseLink(`#${link}`);
+    if (!res.ok) throw new Error(res.error.code);
+    expect(res.state.history).toHaveLength(3);
+    expect({ ...res.state, history: [] }).toEqual({ ...end, history: [] });
+  });
+
+  it("opens a bare position with the side to move", () => {
+    const state = play(newGame(), { type: "place", r: 6, c: 3 });
+    const link = formatPositionLink(state);
+    expect(link).toBe("v=1&b=4W3/8/8/8/8/8/3b4/3B4&t=w");
+    const res = parseLink(link);
+    if (!res.ok) throw new Error(res.error.code);
+    expect(res.state.board).toEqual(state.board);
+    expect(res.state.toMove).toBe("WHITE");
+    expect(res.state.moves).toEqual([]);
+  });
+
+  it("reports malformed and tampered links", () => {
+    const code = (fragment: string) => {
+      const res = parseLink(fragment);
+      return res.ok ? null : res.error;
+    };
+    expect(code("")).toMatchObject({ code: "BAD_VERSION" });
+    expect(code("v=2&b=4W3/8/8/8/8/8/8/3B4&t=b")).toMatchObject({ code: "BAD_VERSION" });
+    expect(code("v=1&b=4W3/8/8/8/8/8/8/3B4")).toMatchObject({ code: "BAD_FORMAT" });
+    expect(code("v=1&b=4W3/8/8/3B4/8/8/8/3B4&t=b")).toMatchObject({ code: "BAD_BOARD" });
+    // A white stone walled off from its base by black stones
+    expect(code("v=1&b=W2/bbb/1w1/3/B2&t=b")).toEqual({
+      code: "DEAD_STONES",
+      detail: "b3",
+    });
+    expect(code("v=1&b=4W3/8/8/8/8/8/8/3B4&t=b&komi=0.3")).toMatchObject({
+      code: "BAD_RULES",
+    });
+    expect(code("v=1&b=4W3/8/8/8/8/8/8/3B4&t=b&m=d7.zz")).toEqual({
+      code: "BAD_MOVE",
+      detail: "2. zz",
+    });
+    expect(code("v=1&b=4W3/8/8/8/8/8/8/3B4&t=b&m=d7.d7")).toEqual({
+      code: "ILLEGAL_MOVE",
+      detail: "2. d7: OCCUPIED",
+    });
+  });
+
+  it("keeps stones that are connected to their own base", () => {
+    const res = parseLink("v=1&b=W2/w2/b2/B2&t=w");
+    if (!res.ok) throw new Error(res.error.code);
+    expect(res.state.board[1][0]).toBe(WHITE_STONE);
+    expect(res.state.board[2][0]).toBe(BLACK_STONE);
+    expect(res.state.rules).toEqual(DEFAULT_RULESET);
+  });
+});
@@ -0,0 +1,252 @@
+// Shareable links: a position, or a position plus the moves played from it, packed
+// into a URL fragment of `key=value` pairs:
+//
+//   #v=1&b=4W3/8/8/8/8/8/8/3B4&t=b&m=d7.e2.c7
+//
+// `b` is the board row by row from the top, rows separated by "/": a number is a run
+// of empty cells, "w"/"b" are stones and "W"/"B" the bases, so the board also gives
+// the size and base placement. `t` is the side to move ("b" or "w"). Rules other than
+// the defaults follow as `rep` (a RepetitionRule), `sc` (a ScoringMode), `komi` and
+// `hc` (side, count and "s"tones or "m"oves, e.g. "b2s"). `m` lists moves in
+// coordinate notation separated by ".", with "pass", "resign-b" / "resign-w" and, for a
+// loss on time, "time-b" / "time-w".
+//
+// Links are untrusted input: `parseLink` checks the board against the engine rules
+// (every stone must be connected to its base) and replays every move through the
+// reducer, reporting the first problem instead of opening a broken game.
+
+import {
+  BLACK_BASE,
+  BLACK_STONE,
+  EMPTY,
+  MAX_BOARD_SIZE,
+  WHITE_BASE,
+  WHITE_STONE,
+  validateConfig,
+  validatePosition,
+  type Cell,
+  type Coord,
+  type GameConfig,
+  type Player,
+} from "./engine";
+import { formatCoord, formatMove, parseMove } from "./notation";
+import {
+  DEFAULT_RULESET,
+  HANDICAP_TYPES,
+  REPETITION_RULES,
+  validateRuleset,
+  type RepetitionRule,
+  type Ruleset,
+} from "./rules";
+import { SCORING_MODES, type ScoringMode } from "./scoring";
+import {
+  applyAction,
+  gameFromPosition,
+  type GameAction,
+  type GameSnapshot,
+  type GameState,
+} from "./state";
+
+export const LINK_VERSION = 1;
+
+export type LinkError = {
+  code:
+    | "BAD_VERSION"
+    | "BAD_FORMAT"
+    | "BAD_BOARD"
+    | "BAD_RULES"
+    | "DEAD_STONES"
+    | "BAD_MOVE"
+    | "ILLEGAL_MOVE";
+  detail?: string;
+};
+
+export type LinkParseResult =
+  { ok: true; state: GameState } | { ok: false; error: LinkError };
+
+const CELL_CHARS: Record<Exclude<Cell, 0>, string> = {
+  [WHITE_STONE]: "w",
+  [BLACK_STONE]: "b",
+  [WHITE_BASE]: "W",
+  [BLACK_BASE]: "B",
+};
+
+export function formatBoard(board: Cell[][]): string {
+  return board
+    .map((row) => {
+      let text = "";
+      let run = 0;
+      for (const v of row) {
+        if (v === EMPTY) {
+          run++;
+          continue;
+        }
+        if (run > 0) text += run;
+        run = 0;
+        text += CELL_CHARS[v];
+      }
+      return run > 0 ? text + run : text;
+    })
+    .join("/");
+}
+
+// Reads a board written by formatBoard, taking the size and bases from it. Null if the
+// rows differ in length, a base is missing or repeated, or the layout is invalid.
+export function parseBoard(text: string): { board: Cell[][]; config: GameConfig } | null {
+  const bases: Partial<Record<"W" | "B", Coord>> = {};
+  const board: Cell[][] = [];
+  for (const rowText of text.split("/")) {
+    if (!/^(?:[1-9]\d*|[wbWB])+$/.test(rowText)) return null;
+    const row: Cell[] = [];
+    for (const [token] of rowText.matchAll(/[1-9]\d*|[wbWB]/g)) {
+      if (/\d/.test(token)) {
+        // Longer than any board; stops absurd runs before allocating them
+        if (Number(token) > MAX_BOARD_SIZE) return null;
+        for (let i = 0; i < Number(token); i++) row.push(EMPTY);
+      } else if (token === "W" || token === "B") {
+        if (bases[token]) return null;
+        bases[token] = { r: board.length, c: row.length };
+        row.push(token === "W" ? WHITE_BASE : BLACK_BASE);
+      } else {
+        row.push(token === "w" ? WHITE_STONE : BLACK_STONE);
+      }
+    }
+    if (board.length > 0 && row.length !== board[0].length) return null;
+    board.push(row);
+  }
+  if (!bases.W || !bases.B) return null;
+  const config = {
+    rows: board.length,
+    cols: board[0].length,
+    whiteBase: bases.W,
+    blackBase: bases.B,
+  };
+  return validateConfig(config).length === 0 ? { board, config } : null;
+}
+
+// A position as one line of text: the board as above and the side to move, e.g.
+// "4W3/8/8/3b4/8/8/8/3B4 w". Game records, saved games and the CLI use it.
+export function formatPosition(state: Pick<GameSnapshot, "board" | "toMove">): string {
+  return `${formatBoard(state.board)} ${state.toMove === "WHITE" ? "w" : "b"}`;
+}
+
+// Reads a position written by formatPosition. Null if it is malformed or a stone on it
+// is cut off from its base, which no game could leave behind.
+export function parsePosition(
+  text: string,
+): { board: Cell[][]; config: GameConfig; toMove: Player } | null {
+  const m = /^(\S+) ([bw])$/.exec(text.trim());
+  const parsed = m && parseBoard(m[1]);
+  if (!m || !parsed || validatePosition(parsed.board, parsed.config).length > 0)
+    return null;
+  return { ...parsed, toMove: m[2] === "w" ? "WHITE" : "BLACK" };
+}
+
+function formatRules(rules: Ruleset): string[] {
+  const parts: string[] = [];
+  if (rules.repetition !== DEFAULT_RULESET.repetition)
+    parts.push(`rep=${rules.repetition}`);
+  if (rules.scoring !== DEFAULT_RULESET.scoring) parts.push(`sc=${rules.scoring}`);
+  if (rules.komi !== 0) parts.push(`komi=${rules.komi}`);
+  const h = rules.handicap;
+  if (h) parts.push(`hc=${h.player === "WHITE" ? "w" : "b"}${h.count}${h.type[0]}`);
+  return parts;
+}
+
+function formatStart(start: Pick<GameSnapshot, "board" | "toMove" | "rules">): string[] {
+  return [
+    `v=${LINK_VERSION}`,
+    `b=${formatBoard(start.board)}`,
+    `t=${start.toMove === "WHITE" ? "w" : "b"}`,
+    ...formatRules(start.rules),
+  ];
+}
+
+// Link fragment (without "#") for the position in `state` alone. The handicap is left
+// out: its stones are on the board and any extra moves belong to the game it came from.
+export function formatPositionLink(state: GameSnapshot): string {
+  return formatStart({ ...state, rules: { ...state.rules, handicap: null } }).join("&");
+}
+
+// Link fragment for the game from `start` to `state`, whose moves were played from it.
+export function formatGameLink(start: GameSnapshot, state: GameState): string {
+  const moves = state.moves.map((m) => formatMove(m.move));
+  if (state.result && state.result.reason !== "score") {
+    const end = state.result.reason === "time" ? "time" : "resign";
+    moves.push(`${end}-${state.result.winner === "WHITE" ? "b" : "w"}`);
+  }
+  const parts = formatStart(start);
+  if (moves.length > 0) parts.push(`m=${moves.join(".")}`);
+  return parts.join("&");
+}
+
+const KOMI_RE = /^-?\d+(?:\.5)?$/;
+const HANDICAP_RE = /^([bw])(\d+)([sm])$/;
+
+function parseRules(params: URLSearchParams, config: GameConfig): Ruleset | null {
+  const rules: Ruleset = { ...DEFAULT_RULESET };
+  const rep = params.get("rep");
+  if (rep !== null) {
+    if (!REPETITION_RULES.includes(rep as RepetitionRule)) return null;
+    rules.repetition = rep as RepetitionRule;
+  }
+  const sc = params.get("sc");
+  if (sc !== null) {
+    if (!SCORING_MODES.includes(sc as ScoringMode)) return null;
+    rules.scoring = sc as ScoringMode;
+  }
+  const komi = params.get("komi");
+  if (komi !== null) rules.komi = KOMI_RE.test(komi) ? Number(komi) : NaN;
+  const hc = params.get("hc");
+  if (hc !== null) {
+    const h = HANDICAP_RE.exec(hc);
+    if (!h) return null;
+    rules.handicap = {
+      type: HANDICAP_TYPES.find((t) => t[0] === h[3])!,
+      player: h[1] === "w" ? "WHITE" : "BLACK",
+      count: Number(h[2]),
+    };
+  }
+  return validateRuleset(rules, config).length === 0 ? rules : null;
+}
+
+function parseLinkMove(text: string, config: GameConfig): GameAction | null {
+  if (text === "resign-b") return { type: "resign", player: "BLACK" };
+  if (text === "resign-w") return { type: "resign", player: "WHITE" };
+  if (text === "time-b") return { type: "timeout", player: "BLACK" };
+  if (text === "time-w") return { type: "timeout", player: "WHITE" };
+  return parseMove(text, config);
+}
+
+// Opens a link fragment (with or without the leading "#"). The returned state has the
+// usual undo history, one entry per move, like a replayed game record.
+export function parseLink(fragment: string): LinkParseResult {
+  const fail = (code: LinkError["code"], detail?: string) =>
+    ({ ok: false, error: { code, detail } }) as const;
+  const params = new URLSearchParams(fragment.replace(/^#/, ""));
+  const version = params.get("v");
+  if (version !== String(LINK_VERSION)) return fail("BAD_VERSION", version ?? undefined);
+  const boardText = params.get("b");
+  const turn = params.get("t");
+  if (boardText === null || (turn !== "b" && turn !== "w")) return fail("BAD_FORMAT");
+
+  const parsed = parseBoard(boardText);
+  if (!parsed) return fail("BAD_BOARD", boardText);
+  const { board, config } = parsed;
+  // A shared position must be one the engine could leave behind: no stone cut off
+  const [dead] = validatePosition(board, config);
+  if (dead) return fail("DEAD_STONES", formatCoord(dead.r, dead.c));
+  const rules = parseRules(params, config);
+  if (!rules) return fail("BAD_RULES");
+
+  let state = gameFromPosition(config, rules, board, turn === "w" ? "WHITE" : "BLACK");
+  const moves = params.get("m");
+  for (const [i, text] of (moves ? moves.split(".") : []).entries()) {
+    const move = parseLinkMove(text, config);
+    if (!move) return fail("BAD_MOVE", `${i + 1}. ${text}`);
+    const res = applyAction(state, move);
+    if (!res.ok) return fail("ILLEGAL_MOVE", `${i + 1}. ${text}: ${res.error.code}`);
+    state = res.state;
+  }
+  return { ok: true, state };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  BLACK_STONE,
+  WHITE_STONE,
+  placeStone,
+  presetConfig,
+  zobristHash,
+} from "./engine";
+import { createMctsSearch, runMcts } from "./mcts";
+import { seededRng } from "./rng";
+import { applyAction, legalMovesFor, newGame } from "./state";
+
+describe("AnchorHex MCTS engine", () => {
+  it("returns a legal move, win rate and principal variation within budget", () => {
+    const s = newGame(presetConfig(5, 5));
+    const res = runMcts(s, { playouts: 150 }, { rng: seededRng(1) });
+    expect(res.playouts).toBe(150);
+    expect(res.move.type).toBe("place");
+    if (res.move.type === "place")
+      expect(legalMovesFor(s)[res.move.r][res.move.c]).toBe(true);
+    expect(res.pv[0]).toEqual(res.move);
+    expect(res.winRate).toBeGreaterThanOrEqual(0);
+    expect(res.winRate).toBeLessThanOrEqual(1);
+  });
+
+  it("is deterministic for a seeded generator and searches incrementally", () => {
+    const s = newGame(presetConfig(4, 4));
+    const a = runMcts(s, { playouts: 60 }, { rng: seededRng(7) });
+    const search = createMctsSearch(s, { rng: seededRng(7) });
+    search.step(30);
+    search.step(30);
+    expect(search.result().move).toEqual(a.move);
+    expect(search.result().pv).toEqual(a.pv);
+  });
+
+  it("never proposes a root move that repeats a position", () => {
+    const s = newGame();
+    const board = s.board.map((row) => row.slice());
+    board[0][0] = WHITE_STONE;
+    board[0][1] = BLACK_STONE;
+    board[1][0] = BLACK_STONE;
+    const forbidden = zobristHash(placeStone(board, "BLACK", 1, 1)!);
+    const res = runMcts(
+      { ...s, board, positionHistory: [forbidden] },
+      { playouts: 80 },
+      { rng: seededRng(3) },
+    );
+    expect(res.move).not.toEqual({ type: "place", r: 1, c: 1 });
+  });
+
+  it("passes in a finished position", () => {
+    let s = newGame(presetConfig(3, 3));
+    for (let i = 0; i < 50 && !s.gameOver; i++) {
+      const res = applyAction(
+        s,
+        runMcts(s, { playouts: 20 }, { rng: seededRng(i) }).move,
+      );
+      if (!res.ok) throw new Error(res.error.code);
+      s = res.state;
+    }
+    expect(s.gameOver).toBe(true);
+    expect(runMcts(s, { playouts: 5 }).move).toEqual({ type: "pass" });
+  });
+});
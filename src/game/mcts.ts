@@ -0,0 +1,345 @@
+// Monte Carlo tree search (UCT). Pure and synchronous so it runs the same in a Web Worker
+// (see mcts.worker.ts) and headless under Node. Playouts continue until neither side has
+// a legal move (the `bothNoMoves` end condition) and are scored with the game's scoring
+// mode (`packedAreaScore` for area, `scoreBoard` otherwise, with captures counted through
+// the tree and playouts). The repetition rule is enforced for the root moves only; deeper
+// in the tree and in playouts repetitions are ignored, and playouts are capped in length.
+// Turns alternate inside the tree, so a run of handicap opening moves is only honoured at
+// the root. Positions are kept in the packed form from bitboard.ts so playouts avoid
+// board copies and BFS.
+
+import { hashedSideAfter, type Player, type PositionHash } from "./engine";
+import {
+  bitIndices,
+  dilate,
+  geometry,
+  legalCells,
+  pack,
+  packedAreaScore,
+  playPacked,
+  popcount,
+  unpack,
+  type Geometry,
+  type PackedPosition,
+} from "./bitboard";
+import type { Move } from "./notation";
+import type { Rng } from "./rng";
+import { repetitionOptions, type Ruleset } from "./rules";
+import { NO_CAPTURES, scoreBoard, type Captures } from "./scoring";
+import { opponent, playerAfter, totalCaptures, type GameState } from "./state";
+
+// The part of a game state the search needs; small enough to post to a worker.
+export type SearchPosition = Pick<
+  GameState,
+  "config" | "rules" | "board" | "toMove" | "positionHistory"
+> & {
+  captures?: Captures; // stones captured so far (`totalCaptures`), default none
+  // Side to move after the root move (`playerAfter`); default the opponent
+  nextToMove?: Player;
+};
+
+// The search position of a game in progress.
+export function searchPosition(state: GameState): SearchPosition {
+  return {
+    config: state.config,
+    rules: state.rules,
+    board: state.board,
+    toMove: state.toMove,
+    positionHistory: state.positionHistory,
+    captures: totalCaptures(state.moves),
+    nextToMove: playerAfter(state.rules, state.toMove, state.moves.length + 1),
+  };
+}
+
+export type SearchBudget = { playouts?: number; timeMs?: number };
+
+export type MctsOptions = {
+  exploration?: number; // UCT constant
+  playoutPolicy?: "random" | "guided";
+  rng?: Rng;
+};
+
+export type MctsResult = {
+  move: Move;
+  playouts: number;
+  winRate: number; // estimated for the side to move, 0..1
+  pv: Move[]; // principal variation, starting with `move`
+  elapsedMs: number;
+};
+
+type Node = {
+  move: Move | null; // null at the root
+  player: Player | null; // who played `move`
+  toMove: Player;
+  pos: PackedPosition;
+  captures: Captures; // only tracked under territory scoring
+  parent: Node | null;
+  children: Node[];
+  untried: Move[] | null; // expanded lazily
+  visits: number;
+  wins: number; // from `player`'s point of view; draws count half
+};
+
+const DEFAULT_EXPLORATION = Math.SQRT2;
+
+function legalList(
+  g: Geometry,
+  pos: PackedPosition,
+  player: Player,
+  forbid?: ReadonlySet<PositionHash>,
+  hashedSide?: Player,
+): Move[] {
+  const { cols } = g.config;
+  return bitIndices(legalCells(g, pos, player, forbid, hashedSide)).map((i) => ({
+    type: "place",
+    r: Math.floor(i / cols),
+    c: i % cols,
+  }));
+}
+
+// Moves available at a node: legal placements, a pass when only the opponent can still
+// move, or nothing when the game is over.
+function movesAt(
+  g: Geometry,
+  pos: PackedPosition,
+  toMove: Player,
+  forbid?: ReadonlySet<PositionHash>,
+  hashedSide?: Player,
+): Move[] {
+  const moves = legalList(g, pos, toMove, forbid, hashedSide);
+  if (moves.length > 0) return moves;
+  return legalCells(g, pos, opponent(toMove)) !== 0n ? [{ type: "pass" }] : [];
+}
+
+function play(g: Geometry, pos: PackedPosition, player: Player, move: Move) {
+  if (move.type === "pass") return pos;
+  return playPacked(g, pos, player, move.r * g.config.cols + move.c);
+}
+
+function pickPlayoutMove(
+  g: Geometry,
+  pos: PackedPosition,
+  moves: number[],
+  player: Player,
+  policy: "random" | "guided",
+  rng: Rng,
+): number {
+  const pick = () => moves[Math.floor(rng() * moves.length)];
+  if (policy === "random" || moves.length === 1) return pick();
+  // Guided: of a few random samples prefer the one touching most friendly stones
+  const own = player === "WHITE" ? pos.white | g.whiteBase : pos.black | g.blackBase;
+  const occupied = pos.white | pos.black | g.whiteBase | g.blackBase;
+  let best = pick();
+  let bestScore = -1;
+  for (let i = 0; i < 3; i++) {
+    const m = pick();
+    const around = dilate(g, 1n << BigInt(m));
+    // Friendly neighbours count twice, any other occupied neighbour once
+    const score = popcount(around & own) + popcount(around & occupied);
+    if (score > bestScore) {
+      bestScore = score;
+      best = m;
+    }
+  }
+  return best;
+}
+
+// `captures` plus the stones `player`'s placement took going from `before` to `after`.
+function addCaptures(
+  before: PackedPosition,
+  after: PackedPosition,
+  player: Player,
+  captures: Captures,
+): Captures {
+  const own = player === "WHITE" ? 1 : 0;
+  const lostWhite = popcount(before.white) + own - popcount(after.white);
+  const lostBlack = popcount(before.black) + (1 - own) - popcount(after.black);
+  return { white: captures.white + lostBlack, black: captures.black + lostWhite };
+}
+
+// Plays random moves to the end and returns the winner (null on a draw) under the
+// ruleset's scoring mode, with komi added to White's score.
+function playout(
+  g: Geometry,
+  pos: PackedPosition,
+  toMove: Player,
+  captures: Captures,
+  rules: Pick<Ruleset, "scoring" | "komi">,
+  policy: "random" | "guided",
+  rng: Rng,
+): Player | null {
+  const counting = rules.scoring === "territory";
+  const maxPlies = g.cells * 3;
+  let b = pos;
+  let p = toMove;
+  for (let ply = 0; ply < maxPlies; ply++) {
+    const moves = bitIndices(legalCells(g, b, p));
+    if (moves.length === 0) {
+      if (legalCells(g, b, opponent(p)) === 0n) break;
+      p = opponent(p);
+      continue;
+    }
+    const next = playPacked(g, b, p, pickPlayoutMove(g, b, moves, p, policy, rng));
+    if (counting) captures = addCaptures(b, next, p, captures);
+    b = next;
+    p = opponent(p);
+  }
+  let white: number, black: number;
+  if (rules.scoring === "area") {
+    const score = packedAreaScore(g, b);
+    white = score.white + rules.komi;
+    black = score.black;
+  } else {
+    ({ white, black } = scoreBoard(unpack(g, b), g.config, rules, captures));
+  }
+  return white > black ? "WHITE" : black > white ? "BLACK" : null;
+}
+
+function ucb(child: Node, parentVisits: number, c: number) {
+  if (child.visits === 0) return Infinity;
+  return child.wins / child.visits + c * Math.sqrt(Math.log(parentVisits) / child.visits);
+}
+
+function mostVisited(node: Node): Node | null {
+  let best: Node | null = null;
+  for (const ch of node.children) if (!best || ch.visits > best.visits) best = ch;
+  return best;
+}
+
+// Incremental search: call `step` repeatedly (e.g. between worker messages) and read
+// `result` at any time.
+export function createMctsSearch(position: SearchPosition, options: MctsOptions = {}) {
+  const g = geometry(position.config);
+  const rootPos = pack(position.board, position.config);
+  const rootRule = repetitionOptions(
+    position.rules,
+    position.positionHistory,
+    position.nextToMove ?? opponent(position.toMove),
+  );
+  const counting = position.rules.scoring === "territory";
+  const exploration = options.exploration ?? DEFAULT_EXPLORATION;
+  const policy = options.playoutPolicy ?? "guided";
+  const rng = options.rng ?? Math.random;
+  const started = now();
+  const root: Node = {
+    move: null,
+    player: null,
+    toMove: position.toMove,
+    pos: rootPos,
+    captures: position.captures ?? NO_CAPTURES,
+    parent: null,
+    children: [],
+    untried: movesAt(
+      g,
+      rootPos,
+      position.toMove,
+      rootRule.forbidPositions,
+      hashedSideAfter(position.toMove, rootRule),
+    ),
+    visits: 0,
+    wins: 0,
+  };
+  let playouts = 0;
+
+  function iterate() {
+    // Selection
+    let node = root;
+    while (
+      node.untried !== null &&
+      node.untried.length === 0 &&
+      node.children.length > 0
+    ) {
+      let best = node.children[0];
+      let bestValue = -Infinity;
+      for (const ch of node.children) {
+        const v = ucb(ch, node.visits, exploration);
+        if (v > bestValue) {
+          bestValue = v;
+          best = ch;
+        }
+      }
+      node = best;
+    }
+    // Expansion
+    if (node.untried === null) node.untried = movesAt(g, node.pos, node.toMove);
+    if (node.untried.length > 0) {
+      const i = Math.floor(rng() * node.untried.length);
+      const move = node.untried[i];
+      node.untried.splice(i, 1);
+      const pos = play(g, node.pos, node.toMove, move);
+      const child: Node = {
+        move,
+        player: node.toMove,
+        toMove: opponent(node.toMove),
+        pos,
+        captures:
+          counting && move.type === "place"
+            ? addCaptures(node.pos, pos, node.toMove, node.captures)
+            : node.captures,
+        parent: node,
+        children: [],
+        untried: null,
+        visits: 0,
+        wins: 0,
+      };
+      node.children.push(child);
+      node = child;
+    }
+    // Simulation
+    const winner = playout(
+      g,
+      node.pos,
+      node.toMove,
+      node.captures,
+      position.rules,
+      policy,
+      rng,
+    );
+    // Backpropagation
+    for (let n: Node | null = node; n; n = n.parent) {
+      n.visits++;
+      if (winner === null) n.wins += 0.5;
+      else if (winner === n.player) n.wins += 1;
+    }
+    playouts++;
+  }
+
+  return {
+    step(iterations: number) {
+      for (let i = 0; i < iterations; i++) iterate();
+    },
+    get playouts() {
+      return playouts;
+    },
+    result(): MctsResult {
+      const best = mostVisited(root);
+      const pv: Move[] = [];
+      for (let n = best; n && n.move; n = mostVisited(n)) pv.push(n.move);
+      return {
+        move: best?.move ?? { type: "pass" },
+        playouts,
+        winRate: best && best.visits > 0 ? best.wins / best.visits : 0.5,
+        pv,
+        elapsedMs: now() - started,
+      };
+    },
+  };
+}
+
+// Runs a search to completion on the current thread within the given budget. At least
+// one of `playouts` / `timeMs` should be set; with neither, 1000 playouts are used.
+export function runMcts(
+  position: SearchPosition,
+  budget: SearchBudget,
+  options: MctsOptions = {},
+): MctsResult {
+  const search = createMctsSearch(position, options);
+  const maxPlayouts = budget.playouts ?? (budget.timeMs === undefined ? 1000 : Infinity);
+  const deadline = budget.timeMs === undefined ? Infinity : now() + budget.timeMs;
+  while (search.playouts < maxPlayouts && now() < deadline) search.step(1);
+  return search.result();
+}
+
+function now() {
+  return globalThis.performance?.now() ?? Date.now();
+}
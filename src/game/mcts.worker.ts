@@ -0,0 +1,53 @@
+// Web Worker host for the MCTS engine. The search runs in small batches so that
+// "cancel" messages (e.g. after an undo) are handled between batches, and progress
+// (principal variation, win rate) is reported as it improves.
+
+import {
+  createMctsSearch,
+  type MctsResult,
+  type SearchBudget,
+  type SearchPosition,
+} from "./mcts";
+
+export type MctsRequest =
+  | { type: "search"; id: number; position: SearchPosition; budget: SearchBudget }
+  | { type: "cancel"; id: number };
+
+export type MctsResponse =
+  | { type: "progress"; id: number; result: MctsResult }
+  | { type: "done"; id: number; result: MctsResult };
+
+const BATCH = 20;
+const PROGRESS_EVERY_MS = 250;
+
+let current = 0; // id of the search that may keep running
+
+function post(msg: MctsResponse) {
+  self.postMessage(msg);
+}
+
+async function search(id: number, position: SearchPosition, budget: SearchBudget) {
+  current = id;
+  const s = createMctsSearch(position);
+  const maxPlayouts = budget.playouts ?? (budget.timeMs === undefined ? 1000 : Infinity);
+  const deadline =
+    budget.timeMs === undefined ? Infinity : performance.now() + budget.timeMs;
+  let lastProgress = performance.now();
+  while (s.playouts < maxPlayouts && performance.now() < deadline) {
+    s.step(Math.min(BATCH, maxPlayouts - s.playouts));
+    if (performance.now() - lastProgress >= PROGRESS_EVERY_MS) {
+      lastProgress = performance.now();
+      post({ type: "progress", id, result: s.result() });
+    }
+    // Yield so queued cancel / new search messages are processed
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    if (current !== id) return;
+  }
+  post({ type: "done", id, result: s.result() });
+}
+
+self.addEventListener("message", (e: MessageEvent<MctsRequest>) => {
+  const msg = e.data;
+  if (msg.type === "search") void search(msg.id, msg.position, msg.budget);
+  else if (msg.type === "cancel" && current === msg.id) current = 0;
+});
@@ -0,0 +1,63 @@
+// Main-thread handle on the MCTS worker: one search at a time, cancellable.
+
+import { searchPosition, type MctsResult, type SearchBudget } from "./mcts";
+import type { MctsRequest, MctsResponse } from "./mcts.worker";
+import type { GameState } from "./state";
+
+export type MctsClient = {
+  search(
+    state: GameState,
+    budget: SearchBudget,
+    onProgress?: (result: MctsResult) => void,
+  ): Promise<MctsResult | null>; // null when cancelled
+  cancel(): void;
+  dispose(): void;
+};
+
+export function createMctsClient(): MctsClient {
+  const worker = new Worker(new URL("./mcts.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  let nextId = 1;
+  let pending: {
+    id: number;
+    resolve: (r: MctsResult | null) => void;
+    onProgress?: (r: MctsResult) => void;
+  } | null = null;
+
+  worker.addEventListener("message", (e: MessageEvent<MctsResponse>) => {
+    const msg = e.data;
+    if (!pending || msg.id !== pending.id) return;
+    if (msg.type === "progress") pending.onProgress?.(msg.result);
+    else {
+      pending.resolve(msg.result);
+      pending = null;
+    }
+  });
+
+  const send = (msg: MctsRequest) => worker.postMessage(msg);
+
+  function cancel() {
+    if (!pending) return;
+    send({ type: "cancel", id: pending.id });
+    pending.resolve(null);
+    pending = null;
+  }
+
+  return {
+    search(state, budget, onProgress) {
+      cancel();
+      const id = nextId++;
+      const position = searchPosition(state);
+      return new Promise((resolve) => {
+        pending = { id, resolve, onProgress };
+        send({ type: "search", id, position, budget });
+      });
+    },
+    cancel,
+    dispose() {
+      cancel();
+      worker.terminate();
+    },
+  };
+}
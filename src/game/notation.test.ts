@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { presetConfig } from "./engine";
+import { formatCoord, formatMove, parseMove } from "./notation";
+
+describe("AnchorHex move notation", () => {
+  it("formats column letter + 1-based row", () => {
+    expect(formatCoord(0, 4)).toBe("e1");
+    expect(formatCoord(7, 3)).toBe("d8");
+    expect(formatMove({ type: "pass" })).toBe("pass");
+  });
+
+  it("round-trips every cell of a 12x12 board", () => {
+    const config = presetConfig(12, 12);
+    for (let r = 0; r < 12; r++)
+      for (let c = 0; c < 12; c++) {
+        const move = { type: "place", r, c } as const;
+        expect(parseMove(formatMove(move), config)).toEqual(move);
+      }
+  });
+
+  it("rejects malformed or out-of-board text", () => {
+    expect(parseMove("PASS")).toEqual({ type: "pass" });
+    expect(parseMove(" D8 ")).toEqual({ type: "place", r: 7, c: 3 });
+    expect(parseMove("i1")).toBeNull();
+    expect(parseMove("a9")).toBeNull();
+    expect(parseMove("a0")).toBeNull();
+    expect(parseMove("a01")).toBeNull();
+    expect(parseMove("aa1")).toBeNull();
+    expect(parseMove("")).toBeNull();
+  });
+});
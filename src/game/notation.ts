@@ -0,0 +1,33 @@
+// Coordinate notation for the even-q grid: a column letter followed by a 1-based row
+// number counted from the top, e.g. (row 0, col 4) is "e1" and (row 7, col 3) is "d8".
+// A pass is written as "pass".
+
+import { DEFAULT_CONFIG, inBounds, type GameConfig } from "./engine";
+
+export type Move = { type: "place"; r: number; c: number } | { type: "pass" };
+
+const A = "a".charCodeAt(0);
+
+export function formatCoord(r: number, c: number): string {
+  return `${String.fromCharCode(A + c)}${r + 1}`;
+}
+
+export function formatMove(move: Move): string {
+  return move.type === "pass" ? "pass" : formatCoord(move.r, move.c);
+}
+
+// Parses "pass" or a coordinate such as "d8" (case-insensitive). Returns null for
+// malformed text or a coordinate outside the board.
+export function parseMove(
+  text: string,
+  config: GameConfig = DEFAULT_CONFIG,
+): Move | null {
+  const t = text.trim().toLowerCase();
+  if (t === "pass") return { type: "pass" };
+  const m = /^([a-z])([1-9][0-9]*)$/.exec(t);
+  if (!m) return null;
+  const c = m[1].charCodeAt(0) - A;
+  const r = Number(m[2]) - 1;
+  if (!inBounds(r, c, config)) return null;
+  return { type: "place", r, c };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { formatMove, parseMove } from "./notation";
+import {
+  mainLine,
+  puzzleMove,
+  startPuzzle,
+  verifyPuzzle,
+  type Puzzle,
+  type PuzzleAttempt,
+} from "./puzzle";
+import { PUZZLES } from "./puzzles";
+
+const byId = (id: string) => PUZZLES.find((p) => p.id === id)!;
+
+function move(puzzle: Puzzle, attempt: PuzzleAttempt, text: string) {
+  const res = puzzleMove(puzzle, attempt, parseMove(text, attempt.state.config)!);
+  if (!res.ok) throw new Error(res.error.code);
+  return res.attempt;
+}
+
+describe("AnchorHex puzzles", () => {
+  it("bundles puzzles with unique, verified solutions", () => {
+    expect(new Set(PUZZLES.map((p) => p.id)).size).toBe(PUZZLES.length);
+    for (const puzzle of PUZZLES)
+      expect([puzzle.id, verifyPuzzle(puzzle)]).toEqual([puzzle.id, []]);
+  });
+
+  it("answers the accepted move and solves the puzzle", () => {
+    const puzzle = byId("capture-3");
+    expect(mainLine(puzzle.solution)).toEqual(["d2", "d1", "e1"]);
+    let attempt = move(puzzle, startPuzzle(puzzle), "d2");
+    expect(attempt.status).toBe("playing");
+    expect(formatMove(attempt.reply!)).toBe("d1");
+    attempt = move(puzzle, attempt, "e1");
+    expect(attempt).toMatchObject({ status: "solved", left: 0 });
+    expect(puzzleMove(puzzle, attempt, { type: "pass" }).ok).toBe(false);
+  });
+
+  it("refutes a wrong move", () => {
+    const puzzle = byId("capture-3");
+    const attempt = move(puzzle, startPuzzle(puzzle), "e1");
+    expect(attempt.status).toBe("failed");
+    expect(attempt.reply).not.toBeNull();
+    expect(attempt.state.moves).toHaveLength(2);
+  });
+
+  it("reports broken solutions", () => {
+    const puzzle = byId("capture-3");
+    const codes = (p: Puzzle) => verifyPuzzle(p).map((e) => e.code);
+    expect(codes({ ...puzzle, solution: { ...puzzle.solution, move: "e1" } })).toContain(
+      "WRONG_SOLUTION",
+    );
+    expect(codes({ ...puzzle, solution: { move: "d2" } })).toEqual(["UNFINISHED"]);
+    expect(
+      codes({
+        ...puzzle,
+        solution: { move: "d2", replies: [{ move: "b1", next: { move: "e1" } }] },
+      }),
+    ).toEqual(["BAD_MOVE"]);
+    expect(codes({ ...puzzle, goal: { type: "capture", count: 1 } })).toContain(
+      "NOT_UNIQUE",
+    );
+  });
+});
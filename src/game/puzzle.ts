@@ -0,0 +1,220 @@
+// Puzzles: a position, the side to solve it, a goal to reach within a number of that
+// side's moves, and the accepted solution as a tree of the solver's moves and the
+// opponent's answers to them. Everything is decided by the engine: `winningMoves`
+// searches every line (an AND/OR search over the reducer) so `verifyPuzzle` can prove
+// that each listed move is the only one that forces the goal, and the puzzle player
+// answers a wrong move with a reply that refutes it.
+
+import { parseBoard } from "./link";
+import { formatMove, parseMove, type Move } from "./notation";
+import { DEFAULT_RULESET } from "./rules";
+import {
+  applyAction,
+  gameFromPosition,
+  legalMovesFor,
+  opponent,
+  totalCaptures,
+  type ActionError,
+  type GameState,
+} from "./state";
+import { playerStone, type Coord, type Player } from "./engine";
+
+export type PuzzleGoal =
+  | { type: "capture"; count: number } // capture at least `count` stones in total
+  | { type: "disconnect"; target: Coord } // capture the group of the stone at `target`
+  | { type: "win" }; // win the game on score
+
+// A move of the solver. `replies` are the opponent answers worth showing, each with
+// the solver's accepted answer to it; the player uses the first as the defence. A
+// node without replies reaches the goal.
+export type SolutionNode = {
+  move: string;
+  replies?: Array<{ move: string; next: SolutionNode }>;
+};
+
+export type Puzzle = {
+  id: string;
+  board: string; // as in links: rows from the top, see link.ts
+  toMove: Player; // the solver
+  goal: PuzzleGoal;
+  moves: number; // solver moves allowed
+  solution: SolutionNode;
+};
+
+export function puzzleStart(puzzle: Puzzle): GameState {
+  const parsed = parseBoard(puzzle.board);
+  if (!parsed) throw new Error(`Puzzle ${puzzle.id}: bad board`);
+  return gameFromPosition(parsed.config, DEFAULT_RULESET, parsed.board, puzzle.toMove);
+}
+
+// Whether `state`, reached from the puzzle's start, meets its goal.
+export function goalMet(puzzle: Puzzle, state: GameState): boolean {
+  const solver = puzzle.toMove;
+  const { goal } = puzzle;
+  switch (goal.type) {
+    case "capture":
+      return (
+        totalCaptures(state.moves)[solver === "WHITE" ? "white" : "black"] >= goal.count
+      );
+    case "disconnect":
+      // Captured once the target cell no longer holds the opponent's stone
+      return state.board[goal.target.r][goal.target.c] !== playerStone(opponent(solver));
+    case "win":
+      return state.gameOver && state.result?.winner === solver;
+  }
+}
+
+// Legal moves of the side to move, or a pass when it has none.
+function candidates(state: GameState): Move[] {
+  const mask = legalMovesFor(state);
+  const moves: Move[] = [];
+  for (let r = 0; r < mask.length; r++)
+    for (let c = 0; c < mask[r].length; c++)
+      if (mask[r][c]) moves.push({ type: "place", r, c });
+  return moves.length > 0 ? moves : [{ type: "pass" }];
+}
+
+function play(state: GameState, move: Move): GameState {
+  const res = applyAction(state, move);
+  if (!res.ok) throw new Error(`${formatMove(move)}: ${res.error.code}`);
+  return res.state;
+}
+
+// Solver moves in `state` that force the goal within `left` solver moves.
+export function winningMoves(puzzle: Puzzle, state: GameState, left: number): Move[] {
+  if (state.gameOver || left <= 0) return [];
+  return candidates(state).filter((m) => {
+    const next = play(state, m);
+    if (goalMet(puzzle, next)) return true;
+    return left > 1 && !next.gameOver && refutation(puzzle, next, left - 1) === null;
+  });
+}
+
+// An opponent reply in `state` after which the solver can no longer force the goal
+// within `left` moves, or null if every reply loses.
+export function refutation(puzzle: Puzzle, state: GameState, left: number): Move | null {
+  if (state.gameOver) return null;
+  for (const m of candidates(state)) {
+    const next = play(state, m);
+    if (goalMet(puzzle, next)) continue;
+    if (winningMoves(puzzle, next, left).length === 0) return m;
+  }
+  return null;
+}
+
+export type PuzzleProblem = {
+  code: "BAD_MOVE" | "WRONG_SOLUTION" | "NOT_UNIQUE" | "UNFINISHED" | "TOO_LONG";
+  detail: string; // the line up to the problem, e.g. "c3 d4 e2"
+};
+
+// Checks a puzzle against the engine: at every solver turn in the solution tree the
+// listed move must be the only one that forces the goal, every move must be legal,
+// and each line must end exactly when the goal is reached.
+export function verifyPuzzle(puzzle: Puzzle): PuzzleProblem[] {
+  const problems: PuzzleProblem[] = [];
+  const config = puzzleStart(puzzle).config;
+  const visit = (state: GameState, node: SolutionNode, left: number, line: string[]) => {
+    const path = [...line, node.move];
+    const detail = path.join(" ");
+    const move = parseMove(node.move, config);
+    const winners = winningMoves(puzzle, state, left).map(formatMove);
+    if (!move || !applyAction(state, move).ok) {
+      problems.push({ code: "BAD_MOVE", detail });
+      return;
+    }
+    if (!winners.includes(node.move)) problems.push({ code: "WRONG_SOLUTION", detail });
+    else if (winners.length > 1) {
+      problems.push({
+        code: "NOT_UNIQUE",
+        detail: `${line.join(" ")} {${winners.join(",")}}`,
+      });
+    }
+    const next = play(state, move);
+    const replies = node.replies ?? [];
+    if (goalMet(puzzle, next)) {
+      if (replies.length > 0) problems.push({ code: "TOO_LONG", detail });
+      return;
+    }
+    if (replies.length === 0) problems.push({ code: "UNFINISHED", detail });
+    for (const reply of replies) {
+      const answer = parseMove(reply.move, config);
+      const res = answer && applyAction(next, answer);
+      if (!res?.ok) {
+        problems.push({ code: "BAD_MOVE", detail: `${detail} ${reply.move}` });
+        continue;
+      }
+      visit(res.state, reply.next, left - 1, [...path, reply.move]);
+    }
+  };
+  visit(puzzleStart(puzzle), puzzle.solution, puzzle.moves, []);
+  return problems;
+}
+
+// The solution's main line: the solver's moves and the first listed reply to each.
+export function mainLine(solution: SolutionNode): string[] {
+  const reply = solution.replies?.[0];
+  return reply ? [solution.move, reply.move, ...mainLine(reply.next)] : [solution.move];
+}
+
+export type PuzzleAttempt = {
+  state: GameState;
+  expected: SolutionNode | null; // the accepted move here; null once off the tree
+  left: number; // solver moves left
+  status: "playing" | "solved" | "failed";
+  reply: Move | null; // the opponent's last answer, or its refutation of a wrong move
+};
+
+export function startPuzzle(puzzle: Puzzle): PuzzleAttempt {
+  return {
+    state: puzzleStart(puzzle),
+    expected: puzzle.solution,
+    left: puzzle.moves,
+    status: "playing",
+    reply: null,
+  };
+}
+
+export type PuzzleMoveResult =
+  { ok: true; attempt: PuzzleAttempt } | { ok: false; error: ActionError };
+
+// Plays the solver's move and, unless that settles the puzzle, the opponent's answer:
+// the main defence from the solution tree after the accepted move, otherwise a
+// refutation found by the solver.
+export function puzzleMove(
+  puzzle: Puzzle,
+  attempt: PuzzleAttempt,
+  move: Move,
+): PuzzleMoveResult {
+  if (attempt.status !== "playing") return { ok: false, error: { code: "GAME_OVER" } };
+  const res = applyAction(attempt.state, move);
+  if (!res.ok) return res;
+  const left = attempt.left - 1;
+  let state = res.state;
+  if (goalMet(puzzle, state)) {
+    return {
+      ok: true,
+      attempt: { state, expected: null, left, status: "solved", reply: null },
+    };
+  }
+  const node = attempt.expected?.move === formatMove(move) ? attempt.expected : null;
+  const main = node?.replies?.[0];
+  if (!node || !main || left <= 0) {
+    const reply = refutation(puzzle, state, left);
+    if (reply) state = play(state, reply);
+    return {
+      ok: true,
+      attempt: { state, expected: null, left, status: "failed", reply },
+    };
+  }
+  const reply = parseMove(main.move, state.config)!;
+  return {
+    ok: true,
+    attempt: {
+      state: play(state, reply),
+      expected: main.next,
+      left,
+      status: "playing",
+      reply,
+    },
+  };
+}
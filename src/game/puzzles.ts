@@ -0,0 +1,96 @@
+// The puzzles bundled with the app, roughly easiest first. Each one is checked by
+// `verifyPuzzle` in puzzle.test.ts, so a change to the rules that breaks a solution
+// (or lets a second move work) fails the tests rather than the player.
+
+import type { Puzzle } from "./puzzle";
+
+export const PUZZLES: readonly Puzzle[] = [
+  {
+    id: "capture-1",
+    board: "1bWbw/w2bw/2bb1/b1w2/1Bww1",
+    toMove: "BLACK",
+    goal: { type: "capture", count: 4 },
+    moves: 1,
+    solution: { move: "b4" },
+  },
+  {
+    id: "capture-2",
+    board: "wbW2/3w1/3bb/1bbw1/bBwww",
+    toMove: "BLACK",
+    goal: { type: "capture", count: 4 },
+    moves: 1,
+    solution: { move: "c3" },
+  },
+  {
+    id: "cut-1",
+    board: "b1W1w/2b2/b1wb1/ww2w/bB1b1",
+    toMove: "WHITE",
+    goal: { type: "disconnect", target: { r: 1, c: 2 } },
+    moves: 1,
+    solution: { move: "d4" },
+  },
+  {
+    id: "capture-3",
+    board: "1wW2/bbb1w/4w/w1b1b/wB3",
+    toMove: "BLACK",
+    goal: { type: "capture", count: 3 },
+    moves: 2,
+    solution: {
+      move: "d2",
+      replies: [
+        { move: "d1", next: { move: "e1" } },
+        { move: "e1", next: { move: "d1" } },
+      ],
+    },
+  },
+  {
+    id: "capture-4",
+    board: "2Wb1/wwb2/1bw2/4w/1Bw1b",
+    toMove: "BLACK",
+    goal: { type: "capture", count: 3 },
+    moves: 2,
+    solution: {
+      move: "d2",
+      replies: [
+        { move: "a3", next: { move: "b4" } },
+        { move: "b4", next: { move: "a3" } },
+      ],
+    },
+  },
+  {
+    id: "cut-2",
+    board: "bwW2/bb1ww/1b3/w1w2/bB2b",
+    toMove: "WHITE",
+    goal: { type: "disconnect", target: { r: 2, c: 1 } },
+    moves: 2,
+    solution: {
+      move: "b4",
+      replies: [
+        { move: "c5", next: { move: "d5" } },
+        { move: "d5", next: { move: "c5" } },
+      ],
+    },
+  },
+  {
+    id: "cut-3",
+    board: "wbW2/1bw2/3ww/b3w/1Bbbb",
+    toMove: "WHITE",
+    goal: { type: "disconnect", target: { r: 0, c: 1 } },
+    moves: 2,
+    solution: {
+      move: "b3",
+      replies: [
+        { move: "a2", next: { move: "a3" } },
+        { move: "a3", next: { move: "a2" } },
+      ],
+    },
+  },
+  {
+    id: "endgame-1",
+    board: "wwWbb/wwwbb/ww1w1/wbbb1/wBbbb",
+    toMove: "BLACK",
+    goal: { type: "win" },
+    moves: 2,
+    solution: { move: "e3", replies: [{ move: "c3", next: { move: "e4" } }] },
+  },
+];
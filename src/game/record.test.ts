@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import { BLACK_STONE, presetConfig } from "./engine";
+import { parseGameRecord, serializeGame } from "./record";
+import { DEFAULT_RULESET } from "./rules";
+import {
+  applyAction,
+  gameFromPosition,
+  legalMovesFor,
+  newGame,
+  type GameAction,
+  type GameState,
+} from "./state";
+
+function playFirstLegal(state: GameState, n: number): GameState {
+  for (let i = 0; i < n && !state.gameOver; i++) {
+    const mask = legalMovesFor(state);
+    let action: GameAction = { type: "pass" };
+    outer: for (let r = 0; r < mask.length; r++)
+      for (let c = 0; c < mask[r].length; c++)
+        if (mask[r][c]) {
+          action = { type: "place", r, c };
+          break outer;
+        }
+    const res = applyAction(state, action);
+    if (!res.ok) throw new Error(res.error.code);
+    state = res.state;
+  }
+  return state;
+}
+
+const SAMPLE = `AnchorHex Game Record v1
+Size: 8x8
+WhiteBase: e1
+BlackBase: d8
+Rules: positional-superko
+Black: Alice
+White: Bob
+Result: ?
+
+1. d7
+2. e2
+3. c7
+`;
+
+describe("AnchorHex game records", () => {
+  it("parses a record and restores side to move and superko history", () => {
+    const res = parseGameRecord(SAMPLE);
+    if (!res.ok) throw new Error(res.error.code);
+    expect(res.record.players).toEqual({ black: "Alice", white: "Bob" });
+    expect(res.record.moves).toHaveLength(3);
+    expect(res.state.toMove).toBe("WHITE");
+    expect(res.state.moveNumber).toBe(4);
+    expect(res.state.positionHistory).toHaveLength(4);
+  });
+
+  it("round-trips a finished game on a small board", () => {
+    const rules = { ...DEFAULT_RULESET, repetition: "situational" } as const;
+    const state = playFirstLegal(newGame(presetConfig(4, 4), rules), 200);
+    expect(state.gameOver).toBe(true);
+    const text = serializeGame(state, { black: "A", white: "B" });
+    expect(text).toContain("Rules: situational-superko");
+    const res = parseGameRecord(text);
+    if (!res.ok) throw new Error(`${res.error.line}: ${res.error.code}`);
+    expect(res.record.rules).toEqual(rules);
+    expect(res.state.board).toEqual(state.board);
+    expect(res.state.positionHistory).toEqual(state.positionHistory);
+    expect(serializeGame(res.state, res.record.players)).toBe(text);
+  });
+
+  it("round-trips komi and handicap and writes the komi-adjusted result", () => {
+    const rules = {
+      ...DEFAULT_RULESET,
+      komi: 0.5,
+      handicap: { type: "stones", player: "BLACK", count: 2 },
+    } as const;
+    const state = playFirstLegal(newGame(presetConfig(4, 4), rules), 200);
+    const text = serializeGame(state);
+    expect(text).toContain("Komi: 0.5\nHandicap: B 2 stones\n");
+    expect(text).toMatch(/Result: [BW]\+\d+\.5\n# Score: W .*komi 0\.5/);
+    const res = parseGameRecord(text);
+    if (!res.ok) throw new Error(`${res.error.line}: ${res.error.code}`);
+    expect(res.record.rules).toEqual(rules);
+    expect(res.state.board).toEqual(state.board);
+    expect(parseGameRecord(text.replace("Komi: 0.5", "Komi: 0.3"))).toMatchObject({
+      error: { line: 6, code: "BAD_CONFIG" },
+    });
+  });
+
+  it("round-trips a non-default scoring mode and its score line", () => {
+    const rules = { ...DEFAULT_RULESET, scoring: "territory" } as const;
+    const state = playFirstLegal(newGame(presetConfig(4, 4), rules), 200);
+    const text = serializeGame(state);
+    expect(text).toContain("Rules: positional-superko\nScoring: territory\n");
+    expect(text).toMatch(/# Score: W \S+ \(territory \d+, captures \d+\)/);
+    const res = parseGameRecord(text);
+    if (!res.ok) throw new Error(`${res.error.line}: ${res.error.code}`);
+    expect(res.record.rules).toEqual(rules);
+    expect(serializeGame(res.state)).toBe(text);
+    expect(serializeGame(newGame())).not.toContain("Scoring:");
+    expect(
+      parseGameRecord(text.replace("Scoring: territory", "Scoring: japanese")),
+    ).toMatchObject({ error: { line: 6, code: "BAD_CONFIG", detail: "japanese" } });
+  });
+
+  it("restores a resignation from the result line", () => {
+    const res0 = applyAction(playFirstLegal(newGame(), 2), { type: "resign" });
+    if (!res0.ok) throw new Error(res0.error.code);
+    const text = serializeGame(res0.state);
+    expect(text).toContain("Result: W+R");
+    const res = parseGameRecord(text);
+    expect(res.ok && res.state.result).toEqual({ winner: "WHITE", reason: "resign" });
+  });
+
+  it("restores a loss on time from the result line", () => {
+    const state = playFirstLegal(newGame(), 3);
+    const res0 = applyAction(state, { type: "timeout", player: "WHITE" });
+    if (!res0.ok) throw new Error(res0.error.code);
+    const text = serializeGame(res0.state);
+    expect(text).toContain("Result: B+T");
+    const res = parseGameRecord(text);
+    expect(res.ok && res.state.result).toEqual({ winner: "BLACK", reason: "time" });
+  });
+
+  it("writes and replays games that start from a set-up position", () => {
+    const config = presetConfig(6, 6);
+    const board = newGame(config).board.map((row) => row.slice());
+    board[4][2] = BLACK_STONE;
+    const start = gameFromPosition(config, DEFAULT_RULESET, board, "WHITE");
+    const state = playFirstLegal(start, 2);
+    const text = serializeGame(state, {}, start);
+    expect(text).toContain("Position: 3W2/6/6/6/2b3/2B3 w\n");
+    const res = parseGameRecord(text);
+    if (!res.ok) throw new Error(res.error.code);
+    expect({ ...res.state, history: [] }).toEqual({ ...state, history: [] });
+    expect(serializeGame(state, {}, newGame(config))).not.toContain("Position:");
+    // The position must fit the declared layout and keep every stone connected
+    expect(parseGameRecord(text.replace("2b3/2B3 w", "2b3/1B4 w"))).toMatchObject({
+      error: { code: "BAD_CONFIG" },
+    });
+    expect(
+      parseGameRecord(text.replace("6/6/6/2b3/2B3 w", "bbbbbb/6/w5/2b3/2B3 w")),
+    ).toMatchObject({ error: { code: "BAD_CONFIG" } });
+  });
+
+  it("reports the first illegal move with its line number", () => {
+    const text = SAMPLE.replace("3. c7", "3. e2\n4. c7");
+    expect(parseGameRecord(text)).toEqual({
+      ok: false,
+      error: { line: 12, code: "ILLEGAL_MOVE", detail: "e2: OCCUPIED" },
+    });
+  });
+
+  it("rejects malformed headers and moves", () => {
+    expect(parseGameRecord("hello")).toMatchObject({
+      error: { line: 1, code: "BAD_VERSION" },
+    });
+    expect(parseGameRecord(SAMPLE.replace("Rules:", "Rulez:"))).toMatchObject({
+      error: { line: 5, code: "BAD_HEADER" },
+    });
+    expect(parseGameRecord(SAMPLE.replace("positional-superko", "ko"))).toMatchObject({
+      error: { line: 5, code: "BAD_CONFIG", detail: "ko" },
+    });
+    expect(parseGameRecord(SAMPLE.replace("Result: ?\n", ""))).toMatchObject({
+      error: { code: "MISSING_HEADER", detail: "Result" },
+    });
+    expect(
+      parseGameRecord(SAMPLE.replace("WhiteBase: e1", "WhiteBase: d8")),
+    ).toMatchObject({ error: { line: 2, code: "BAD_CONFIG" } });
+    expect(parseGameRecord(SAMPLE.replace("2. e2", "5. e2"))).toMatchObject({
+      error: { line: 11, code: "BAD_MOVE" },
+    });
+    expect(parseGameRecord(SAMPLE.replace("Result: ?", "Result: B+3"))).toMatchObject({
+      error: { line: 8, code: "RESULT_MISMATCH" },
+    });
+  });
+});
@@ -0,0 +1,323 @@
+// Human-readable game records. A record is a versioned header of `Key: value` lines,
+// a blank line, then one move per line in coordinate notation:
+//
+//   AnchorHex Game Record v1
+//   Size: 8x8
+//   WhiteBase: e1
+//   BlackBase: d8
+//   Rules: positional-superko
+//   Scoring: area
+//   Komi: 0.5
+//   Handicap: B 2 stones
+//   Position: 4W3/8/8/3b4/8/8/8/3B4 w
+//   Black: Alice
+//   White: Bob
+//   Result: B+3.5
+//   # Score: W 20.5 (stones 18, territory 2, komi 0.5), B 24 (stones 16, territory 8)
+//
+//   1. d7
+//   2. e2
+//
+// `Rules` names the repetition rule (see RULESET_NAMES). `Scoring` (a ScoringMode,
+// default area), `Komi` (default 0) and `Handicap` (side, count, "stones" or "moves";
+// default none) are optional. `Position` is written for games that start from a position
+// other than the initial board (board editor, shared links): the board as in links (see
+// link.ts) and the side to move. Results include komi, and a finished game's score
+// breakdown is written as a comment. Lines starting with "#" are comments. The parser is
+// strict: every move is replayed through the reducer (and so through `placeStone`), and
+// the first problem is reported with its 1-based line number.
+
+import { sameLayout, validateConfig, type GameConfig } from "./engine";
+import { formatPosition, parsePosition } from "./link";
+import { formatCoord, formatMove, parseMove, type Move } from "./notation";
+import {
+  DEFAULT_RULESET,
+  validateRuleset,
+  type Handicap,
+  type RepetitionRule,
+  type Ruleset,
+} from "./rules";
+import { SCORING_MODES, type ScoringMode } from "./scoring";
+import {
+  applyAction,
+  gameFromPosition,
+  newGame,
+  opponent,
+  scoreGame,
+  type ActionError,
+  type GameSnapshot,
+  type GameState,
+} from "./state";
+
+export const RECORD_MAGIC = "AnchorHex Game Record";
+export const RECORD_VERSION = 1;
+export const RULESET_NAMES: Record<RepetitionRule, string> = {
+  positional: "positional-superko",
+  situational: "situational-superko",
+  "simple-ko": "simple-ko",
+  none: "no-repetition",
+};
+
+export type Players = { black?: string; white?: string };
+
+export type GameRecord = {
+  version: number;
+  config: GameConfig;
+  rules: Ruleset;
+  players: Players;
+  result: string; // "B+4", "W+0.5", "W+R", "B+T", "Draw" or "?" while unfinished
+  moves: Move[];
+};
+
+export type RecordError = {
+  line: number;
+  code:
+    | "BAD_VERSION"
+    | "BAD_HEADER"
+    | "MISSING_HEADER"
+    | "BAD_CONFIG"
+    | "BAD_MOVE"
+    | "ILLEGAL_MOVE"
+    | "RESULT_MISMATCH";
+  detail?: string;
+};
+
+export type RecordParseResult =
+  { ok: true; record: GameRecord; state: GameState } | { ok: false; error: RecordError };
+
+export function formatResult(state: GameState): string {
+  const { result } = state;
+  if (!result) return "?";
+  if (result.winner === null) return "Draw";
+  const side = result.winner === "WHITE" ? "W" : "B";
+  if (result.reason === "resign") return `${side}+R`;
+  if (result.reason === "time") return `${side}+T`;
+  const { white, black } = scoreGame(state);
+  return `${side}+${Math.abs(white - black)}`;
+}
+
+// One-line score breakdown listing the parts the scoring mode counts, e.g. "W 20.5
+// (stones 18, territory 2, komi 0.5), B 24 (stones 16, territory 8), neutral 3".
+export function formatScore(state: GameState): string {
+  const score = scoreGame(state);
+  const { mode, breakdown: b } = score;
+  const parts = (stones: number, terr: number, captures: number, komi = 0) =>
+    [
+      mode !== "territory" && `stones ${stones}`,
+      mode !== "connected" && `territory ${terr}`,
+      mode === "territory" && `captures ${captures}`,
+      komi !== 0 && `komi ${komi}`,
+    ]
+      .filter(Boolean)
+      .join(", ");
+  const neutral = b.neutral > 0 ? `, neutral ${b.neutral}` : "";
+  return (
+    `W ${score.white} (${parts(b.wStones, b.wTerr, b.wCaptures, score.komi)}), ` +
+    `B ${score.black} (${parts(b.bStones, b.bTerr, b.bCaptures)})${neutral}`
+  );
+}
+
+function formatHandicap(h: Handicap) {
+  return `${h.player === "WHITE" ? "W" : "B"} ${h.count} ${h.type}`;
+}
+
+// `start` is the position the moves were played from, when that is not the initial
+// board (a game tree's root, say); it is written as the Position header.
+export function serializeGame(
+  state: GameState,
+  players: Players = {},
+  start?: Pick<GameSnapshot, "board" | "toMove">,
+): string {
+  const { config } = state;
+  const lines = [
+    `${RECORD_MAGIC} v${RECORD_VERSION}`,
+    `Size: ${config.rows}x${config.cols}`,
+    `WhiteBase: ${formatCoord(config.whiteBase.r, config.whiteBase.c)}`,
+    `BlackBase: ${formatCoord(config.blackBase.r, config.blackBase.c)}`,
+    `Rules: ${RULESET_NAMES[state.rules.repetition]}`,
+  ];
+  if (state.rules.scoring !== DEFAULT_RULESET.scoring)
+    lines.push(`Scoring: ${state.rules.scoring}`);
+  if (state.rules.komi !== 0) lines.push(`Komi: ${state.rules.komi}`);
+  if (state.rules.handicap)
+    lines.push(`Handicap: ${formatHandicap(state.rules.handicap)}`);
+  if (start) {
+    const position = formatPosition(start);
+    if (position !== formatPosition(newGame(config, state.rules)))
+      lines.push(`Position: ${position}`);
+  }
+  if (players.black) lines.push(`Black: ${oneLine(players.black)}`);
+  if (players.white) lines.push(`White: ${oneLine(players.white)}`);
+  lines.push(`Result: ${formatResult(state)}`);
+  if (state.result?.reason === "score") lines.push(`# Score: ${formatScore(state)}`);
+  lines.push("");
+  state.moves.forEach((m, i) => lines.push(`${i + 1}. ${formatMove(m.move)}`));
+  return lines.join("\n") + "\n";
+}
+
+function oneLine(s: string) {
+  return s.replace(/\s+/g, " ").trim();
+}
+
+const HEADER_KEYS = [
+  "Size",
+  "WhiteBase",
+  "BlackBase",
+  "Rules",
+  "Scoring",
+  "Komi",
+  "Handicap",
+  "Position",
+  "Black",
+  "White",
+  "Result",
+];
+const REQUIRED_KEYS = ["Size", "WhiteBase", "BlackBase", "Rules", "Result"];
+const RESULT_RE = /^(?:[BW]\+(?:R|T|\d+(?:\.5)?)|Draw|\?)$/;
+const HANDICAP_RE = /^([BW]) (\d+) (stones|moves)$/;
+
+export function parseGameRecord(text: string): RecordParseResult {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const fail = (line: number, code: RecordError["code"], detail?: string) =>
+    ({ ok: false, error: { line, code, detail } }) as const;
+
+  // Skip leading comments / blank lines before the version line
+  let i = 0;
+  while (i < lines.length && isSkippable(lines[i])) i++;
+  const magic = /^AnchorHex Game Record v(\d+)$/.exec(lines[i]?.trim() ?? "");
+  if (!magic || Number(magic[1]) !== RECORD_VERSION) {
+    return fail(i + 1, "BAD_VERSION", lines[i]?.trim());
+  }
+  i++;
+
+  // Header: Key: value lines up to the first blank line
+  const header = new Map<string, { value: string; line: number }>();
+  for (; i < lines.length && lines[i].trim() !== ""; i++) {
+    if (lines[i].trim().startsWith("#")) continue;
+    const m = /^([A-Za-z]+):\s*(.*)$/.exec(lines[i].trim());
+    if (!m || !HEADER_KEYS.includes(m[1]) || header.has(m[1])) {
+      return fail(i + 1, "BAD_HEADER", lines[i].trim());
+    }
+    header.set(m[1], { value: m[2].trim(), line: i + 1 });
+  }
+  for (const key of REQUIRED_KEYS) {
+    if (!header.has(key)) return fail(i + 1, "MISSING_HEADER", key);
+  }
+  const get = (key: string) => header.get(key)!;
+
+  const size = /^(\d+)x(\d+)$/.exec(get("Size").value);
+  if (!size) return fail(get("Size").line, "BAD_CONFIG", get("Size").value);
+  const rows = Number(size[1]);
+  const cols = Number(size[2]);
+  // Base coordinates are read against the declared size, then checked by validateConfig
+  const bounds = { rows, cols, whiteBase: { r: 0, c: 0 }, blackBase: { r: 0, c: 0 } };
+  const whiteBase = parseMove(get("WhiteBase").value, bounds);
+  if (whiteBase?.type !== "place") {
+    return fail(get("WhiteBase").line, "BAD_CONFIG", get("WhiteBase").value);
+  }
+  const blackBase = parseMove(get("BlackBase").value, bounds);
+  if (blackBase?.type !== "place") {
+    return fail(get("BlackBase").line, "BAD_CONFIG", get("BlackBase").value);
+  }
+  const config: GameConfig = {
+    rows,
+    cols,
+    whiteBase: { r: whiteBase.r, c: whiteBase.c },
+    blackBase: { r: blackBase.r, c: blackBase.c },
+  };
+  const configErrors = validateConfig(config);
+  if (configErrors.length > 0) {
+    return fail(get("Size").line, "BAD_CONFIG", configErrors[0].code);
+  }
+  const repetition = (Object.keys(RULESET_NAMES) as RepetitionRule[]).find(
+    (k) => RULESET_NAMES[k] === get("Rules").value,
+  );
+  if (!repetition) return fail(get("Rules").line, "BAD_CONFIG", get("Rules").value);
+  const rules: Ruleset = { ...DEFAULT_RULESET, repetition };
+  const scoring = header.get("Scoring");
+  if (scoring) {
+    if (!SCORING_MODES.includes(scoring.value as ScoringMode)) {
+      return fail(scoring.line, "BAD_CONFIG", scoring.value);
+    }
+    rules.scoring = scoring.value as ScoringMode;
+  }
+  const komi = header.get("Komi");
+  if (komi) {
+    rules.komi = /^-?\d+(?:\.5)?$/.test(komi.value) ? Number(komi.value) : NaN;
+  }
+  const handicap = header.get("Handicap");
+  if (handicap) {
+    const h = HANDICAP_RE.exec(handicap.value);
+    if (!h) return fail(handicap.line, "BAD_CONFIG", handicap.value);
+    const player = h[1] === "W" ? "WHITE" : "BLACK";
+    rules.handicap = { type: h[3] as Handicap["type"], player, count: Number(h[2]) };
+  }
+  const ruleErrors = validateRuleset(rules, config);
+  if (ruleErrors.length > 0) {
+    const bad = ruleErrors[0].code === "BAD_KOMI" ? komi! : handicap!;
+    return fail(bad.line, "BAD_CONFIG", bad.value);
+  }
+  const result = get("Result").value;
+  if (!RESULT_RE.test(result)) return fail(get("Result").line, "BAD_HEADER", result);
+
+  let state = newGame(config, rules);
+  const position = header.get("Position");
+  if (position) {
+    // Must match the declared size and bases and leave no stone cut off
+    const parsed = parsePosition(position.value);
+    if (!parsed || !sameLayout(parsed.config, config)) {
+      return fail(position.line, "BAD_CONFIG", position.value);
+    }
+    state = gameFromPosition(config, rules, parsed.board, parsed.toMove);
+  }
+
+  // Body: one move per line, optionally numbered "N." in sequence
+  const moves: Move[] = [];
+  for (; i < lines.length; i++) {
+    if (isSkippable(lines[i])) continue;
+    const m = /^(?:(\d+)\.\s*)?(\S+)$/.exec(lines[i].trim());
+    const move = m ? parseMove(m[2], config) : null;
+    if (!m || !move || (m[1] !== undefined && Number(m[1]) !== moves.length + 1)) {
+      return fail(i + 1, "BAD_MOVE", lines[i].trim());
+    }
+    const res = applyAction(state, move);
+    if (!res.ok) return fail(i + 1, "ILLEGAL_MOVE", illegalDetail(move, res.error));
+    state = res.state;
+    moves.push(move);
+  }
+
+  // A resignation or loss on time is not a move; restore it from the result line
+  const end = /^([BW])\+([RT])$/.exec(result);
+  if (end && !state.gameOver) {
+    const loser = opponent(end[1] === "B" ? "BLACK" : "WHITE");
+    const res = applyAction(
+      state,
+      end[2] === "T"
+        ? { type: "timeout", player: loser }
+        : { type: "resign", player: loser },
+    );
+    if (res.ok) state = res.state;
+  }
+  const replayed = formatResult(state);
+  if (result !== "?" ? replayed !== result : state.gameOver) {
+    return fail(get("Result").line, "RESULT_MISMATCH", replayed);
+  }
+
+  const players: Players = {};
+  if (header.has("Black")) players.black = get("Black").value;
+  if (header.has("White")) players.white = get("White").value;
+  return {
+    ok: true,
+    record: { version: RECORD_VERSION, config, rules, players, result, moves },
+    state,
+  };
+}
+
+function isSkippable(line: string) {
+  const t = line.trim();
+  return t === "" || t.startsWith("#");
+}
+
+function illegalDetail(move: Move, error: ActionError) {
+  return `${formatMove(move)}: ${error.code}`;
+}
@@ -0,0 +1,13 @@
+// Sources of randomness for the bots. `Rng` returns uniform numbers in [0, 1) like
+// `Math.random`; `seededRng` is a small deterministic generator (an LCG), so tests,
+// benchmarks and tournaments can replay a game exactly.
+
+export type Rng = () => number;
+
+export function seededRng(seed: number): Rng {
+  let s = seed >>> 0;
+  return () => {
+    s = (s * 1664525 + 1013904223) >>> 0;
+    return s / 2 ** 32;
+  };
+}
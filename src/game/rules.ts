@@ -0,0 +1,170 @@
+// Rule options chosen when a game starts. They travel with the game state (and in game
+// records) and are turned into `MoveOptions` for the engine here.
+//
+// Repetition rules restrict placements only; a pass is never forbidden. After every
+// turn, placement or pass, the resulting position is appended to the position history
+// with `positionKey`, so a position reached by passing counts as seen:
+//   - positional: a placement may not recreate any earlier board (positional superko)
+//   - situational: it may not recreate an earlier board with the same side to move
+//   - simple-ko: it may not recreate the board as it was before the opponent's last
+//     turn (no immediate recapture); a pass in between lifts the restriction, since
+//     the board before a pass is the current board
+//   - none: positions may repeat
+//
+// The scoring mode is described in scoring.ts. Komi is added to White's score wherever a
+// result is computed. A handicap favours one side either with stones placed before the
+// first move (the other side then moves first) or with a run of opening moves played in a
+// row.
+
+import {
+  MAX_BOARD_SIZE,
+  zobristHash,
+  type Cell,
+  type Coord,
+  type GameConfig,
+  type MoveOptions,
+  type Player,
+  type PositionHash,
+} from "./engine";
+import type { ScoringMode } from "./scoring";
+
+export type RepetitionRule = "positional" | "situational" | "simple-ko" | "none";
+
+export const REPETITION_RULES: readonly RepetitionRule[] = [
+  "positional",
+  "situational",
+  "simple-ko",
+  "none",
+];
+
+export type HandicapType = "stones" | "moves";
+
+export const HANDICAP_TYPES: readonly HandicapType[] = ["stones", "moves"];
+
+export type Handicap = {
+  type: HandicapType;
+  player: Player; // the side receiving the handicap
+  count: number; // stones placed, or opening moves played in a row
+};
+
+export type Ruleset = {
+  repetition: RepetitionRule;
+  scoring: ScoringMode;
+  komi: number; // added to White's score; a half point rules out draws
+  handicap: Handicap | null;
+};
+
+export const DEFAULT_RULESET: Ruleset = {
+  repetition: "positional",
+  scoring: "area",
+  komi: 0,
+  handicap: null,
+};
+
+export const MAX_KOMI = MAX_BOARD_SIZE * MAX_BOARD_SIZE;
+export const MAX_HANDICAP = 9;
+
+export type RulesetError = { code: "BAD_KOMI" } | { code: "BAD_HANDICAP" };
+
+// Komi must be a whole or half number within ±MAX_KOMI; a handicap count must be
+// 1..MAX_HANDICAP and leave room for the stones on the board.
+export function validateRuleset(rules: Ruleset, config: GameConfig): RulesetError[] {
+  const errors: RulesetError[] = [];
+  const { komi, handicap } = rules;
+  if (!Number.isInteger(komi * 2) || Math.abs(komi) > MAX_KOMI) {
+    errors.push({ code: "BAD_KOMI" });
+  }
+  if (handicap) {
+    const { count } = handicap;
+    const room = config.rows * config.cols - 2;
+    if (
+      !Number.isInteger(count) ||
+      count < 1 ||
+      count > MAX_HANDICAP ||
+      (handicap.type === "stones" && count > room)
+    ) {
+      errors.push({ code: "BAD_HANDICAP" });
+    }
+  }
+  return errors;
+}
+
+// Distance in cells between two hexes (even-q offset: even columns are shifted down).
+function hexDistance(a: Coord, b: Coord) {
+  const aq = a.c,
+    ar = a.r - (a.c + (a.c & 1)) / 2;
+  const bq = b.c,
+    br = b.r - (b.c + (b.c & 1)) / 2;
+  const dq = aq - bq,
+    dr = ar - br;
+  return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+}
+
+// Cells for `count` handicap stones, spread out: each stone goes on the cell farthest
+// from both bases and the stones already chosen, preferring cells off the edge and,
+// on ties, nearer the centre. The placement depends only on the config, so replaying
+// a record recreates it.
+export function handicapStones(config: GameConfig, count: number): Coord[] {
+  const { rows, cols, whiteBase, blackBase } = config;
+  const isBase = (r: number, c: number) =>
+    (r === whiteBase.r && c === whiteBase.c) || (r === blackBase.r && c === blackBase.c);
+  const cells: Coord[] = [];
+  for (let r = 0; r < rows; r++)
+    for (let c = 0; c < cols; c++) if (!isBase(r, c)) cells.push({ r, c });
+  const inner = cells.filter(
+    ({ r, c }) => r > 0 && r < rows - 1 && c > 0 && c < cols - 1,
+  );
+  const candidates = inner.length >= count ? inner : cells;
+  const center = { r: Math.floor((rows - 1) / 2), c: Math.floor((cols - 1) / 2) };
+  const taken: Coord[] = [whiteBase, blackBase];
+  const chosen: Coord[] = [];
+  for (let i = 0; i < count && i < candidates.length; i++) {
+    let best: Coord | null = null;
+    let bestKey = [-Infinity, -Infinity];
+    for (const cell of candidates) {
+      if (chosen.some((s) => s.r === cell.r && s.c === cell.c)) continue;
+      const spread = Math.min(...taken.map((t) => hexDistance(cell, t)));
+      const key = [spread, -hexDistance(cell, center)];
+      if (key[0] > bestKey[0] || (key[0] === bestKey[0] && key[1] > bestKey[1])) {
+        best = cell;
+        bestKey = key;
+      }
+    }
+    if (!best) break;
+    chosen.push(best);
+    taken.push(best);
+  }
+  return chosen;
+}
+
+// History entry for `board` with `toMove` to play next. Only situational superko
+// distinguishes the side to move.
+export function positionKey(
+  rules: Ruleset,
+  board: Cell[][],
+  toMove: Player,
+): PositionHash {
+  return zobristHash(board, rules.repetition === "situational" ? toMove : undefined);
+}
+
+// Engine options that apply the repetition rule to the next placement, given the
+// position history (oldest first, current position last) and the side to move after
+// that placement (`playerAfter`), which situational superko hashes in.
+export function repetitionOptions(
+  rules: Ruleset,
+  history: readonly PositionHash[],
+  nextToMove: Player,
+): Pick<MoveOptions, "forbidPositions" | "hashSideToMove" | "nextToMove"> {
+  switch (rules.repetition) {
+    case "positional":
+      return { forbidPositions: new Set(history) };
+    case "situational":
+      return { forbidPositions: new Set(history), hashSideToMove: true, nextToMove };
+    case "simple-ko":
+      return history.length >= 2
+        ? { forbidPositions: new Set([history[history.length - 2]]) }
+        : {};
+    case "none":
+      return {};
+  }
+}
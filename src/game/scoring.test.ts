@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  WHITE_STONE,
+  computeAreaScore,
+  makeInitialBoard,
+  presetConfig,
+  type Cell,
+} from "./engine";
+import { DEFAULT_RULESET } from "./rules";
+import { ownershipMap, scoreBoard, SCORING_MODES } from "./scoring";
+import { applyAction, legalMovesFor, newGame, type GameState } from "./state";
+
+// 3x3 board (White base b1, Black base a3) with the Black base walled in by two
+// White stones that are not chained to their own base.
+const config = presetConfig(3, 3);
+function walled(): Cell[][] {
+  const board = makeInitialBoard(config);
+  board[1][0] = WHITE_STONE;
+  board[2][1] = WHITE_STONE;
+  return board;
+}
+
+function randomGame(plies: number, seed: number): GameState {
+  let s = newGame(presetConfig(6, 6));
+  let x = seed;
+  const rng = () => (x = (x * 1103515245 + 12345) % 2 ** 31) / 2 ** 31;
+  for (let i = 0; i < plies && !s.gameOver; i++) {
+    const cells: Array<[number, number]> = [];
+    legalMovesFor(s).forEach((row, r) =>
+      row.forEach((ok, c) => ok && cells.push([r, c])),
+    );
+    const pick = cells[Math.floor(rng() * cells.length)];
+    const res = applyAction(
+      s,
+      pick ? { type: "place", r: pick[0], c: pick[1] } : { type: "pass" },
+    );
+    if (!res.ok) throw new Error(res.error.code);
+    s = res.state;
+  }
+  return s;
+}
+
+describe("AnchorHex scoring modes", () => {
+  it("area mode matches computeAreaScore", () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const s = randomGame(30, seed);
+      const score = scoreBoard(s.board, s.config, DEFAULT_RULESET);
+      const area = computeAreaScore(s.board, s.config);
+      expect(score).toMatchObject({ white: area.white, black: area.black });
+      expect(score.breakdown).toMatchObject(area.breakdown);
+    }
+  });
+
+  it("marks cells reachable by both sides, or neither, as neutral", () => {
+    const board = makeInitialBoard(config);
+    const area = ownershipMap(board, config, "area");
+    expect(area[0][1]).toBeNull(); // bases never score
+    expect(area[1][1]).toBe("NEUTRAL");
+    expect(scoreBoard(board, config, DEFAULT_RULESET).breakdown.neutral).toBe(7);
+    const territory = scoreBoard(board, config, { scoring: "territory", komi: 0 });
+    expect(territory).toMatchObject({ white: 0, black: 0 });
+    expect(territory.breakdown.neutral).toBe(7);
+  });
+
+  it("territory mode counts enclosed empty regions plus captures, not stones", () => {
+    const board = walled();
+    const rules = { scoring: "territory", komi: 0.5 } as const;
+    const score = scoreBoard(board, config, rules, { white: 2, black: 1 });
+    expect(score.ownership[1][0]).toBeNull();
+    expect(score.ownership[2][2]).toBe("WHITE");
+    expect(score.breakdown).toMatchObject({
+      wStones: 0,
+      wTerr: 5,
+      wCaptures: 2,
+      bCaptures: 1,
+      neutral: 0,
+    });
+    expect(score).toMatchObject({ white: 7.5, black: 1 });
+    // Captures only count under territory scoring
+    expect(scoreBoard(board, config, DEFAULT_RULESET, { white: 2, black: 1 }).white).toBe(
+      7,
+    );
+  });
+
+  it("connected mode counts only stones chained to their base", () => {
+    const board = walled();
+    const rules = { scoring: "connected", komi: 0 } as const;
+    const loose = scoreBoard(board, config, rules);
+    expect(loose.ownership[1][0]).toBe("NEUTRAL");
+    expect(loose.ownership[0][0]).toBeNull();
+    expect(loose).toMatchObject({ white: 0, black: 0 });
+    expect(loose.breakdown.neutral).toBe(2);
+    board[1][1] = WHITE_STONE; // touches the White base and both stones
+    const chained = scoreBoard(board, config, rules);
+    expect(chained).toMatchObject({ white: 3, black: 0 });
+    expect(chained.breakdown.neutral).toBe(0);
+  });
+
+  it("every mode's totals add up from its ownership map", () => {
+    const s = randomGame(40, 7);
+    for (const scoring of SCORING_MODES) {
+      const score = scoreBoard(s.board, s.config, { scoring, komi: 0 });
+      const owned = score.ownership.flat();
+      const count = (o: string) => owned.filter((x) => x === o).length;
+      expect(score.white).toBe(count("WHITE"));
+      expect(score.black).toBe(count("BLACK"));
+      expect(score.breakdown.neutral).toBe(count("NEUTRAL"));
+    }
+  });
+});
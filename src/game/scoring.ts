@@ -0,0 +1,191 @@
+// Scoring modes. Each mode builds a per-cell ownership map: which side a cell counts
+// for, "NEUTRAL" for cells that could count but belong to nobody (dame), and null
+// for cells the mode never scores (bases, and stones or empties depending on mode).
+// Totals are the owned cells plus captures (territory mode) plus komi for White.
+//
+//   - area: stones, plus empty cells reachable from exactly one base by empty-only
+//     paths (`computeAreaScore`); empties reachable from both or neither are neutral
+//   - territory: empty regions enclosed by one side only (every stone or base on the
+//     region's border is that side's) plus the stones captured during the game;
+//     regions touching both sides are neutral and stones score nothing
+//   - connected: stones linked to their base by an unbroken chain of their own
+//     stones; stones that only connect through empty cells are neutral
+
+import {
+  BLACK_BASE,
+  BLACK_STONE,
+  EMPTY,
+  WHITE_BASE,
+  WHITE_STONE,
+  bfsFromBase,
+  neighbors,
+  playerBasePos,
+  type Cell,
+  type GameConfig,
+  type Player,
+} from "./engine";
+import type { Ruleset } from "./rules";
+
+export type ScoringMode = "area" | "territory" | "connected";
+
+export const SCORING_MODES: readonly ScoringMode[] = ["area", "territory", "connected"];
+
+export type CellOwner = Player | "NEUTRAL" | null;
+
+// Stones captured by each side (prisoners), as used by territory scoring.
+export type Captures = { white: number; black: number };
+
+export const NO_CAPTURES: Captures = { white: 0, black: 0 };
+
+export type Score = {
+  mode: ScoringMode;
+  white: number; // totals; White's includes komi
+  black: number;
+  komi: number;
+  breakdown: {
+    wStones: number;
+    bStones: number;
+    wTerr: number;
+    bTerr: number;
+    wCaptures: number;
+    bCaptures: number;
+    neutral: number; // cells marked NEUTRAL
+  };
+  ownership: CellOwner[][];
+};
+
+function colorOf(v: Cell): Player | null {
+  if (v === WHITE_STONE || v === WHITE_BASE) return "WHITE";
+  if (v === BLACK_STONE || v === BLACK_BASE) return "BLACK";
+  return null;
+}
+
+function areaOwnership(board: Cell[][], config: GameConfig): CellOwner[][] {
+  const wEmpty = bfsFromBase(board, "WHITE", "emptiesOnly", config);
+  const bEmpty = bfsFromBase(board, "BLACK", "emptiesOnly", config);
+  return board.map((row, r) =>
+    row.map((v, c) => {
+      if (v === WHITE_STONE) return "WHITE";
+      if (v === BLACK_STONE) return "BLACK";
+      if (v !== EMPTY) return null;
+      const w = wEmpty[r][c];
+      const b = bEmpty[r][c];
+      return w && !b ? "WHITE" : b && !w ? "BLACK" : "NEUTRAL";
+    }),
+  );
+}
+
+function territoryOwnership(board: Cell[][], config: GameConfig): CellOwner[][] {
+  const owner: CellOwner[][] = board.map((row) => row.map(() => null));
+  const seen = board.map((row) => row.map(() => false));
+  for (let r = 0; r < config.rows; r++)
+    for (let c = 0; c < config.cols; c++) {
+      if (board[r][c] !== EMPTY || seen[r][c]) continue;
+      // Flood the empty region and collect the colours on its border
+      const region: Array<[number, number]> = [[r, c]];
+      seen[r][c] = true;
+      const border = new Set<Player>();
+      for (let i = 0; i < region.length; i++) {
+        const [cr, cc] = region[i];
+        for (const [nr, nc] of neighbors(cr, cc, config)) {
+          const v = board[nr][nc];
+          if (v === EMPTY) {
+            if (!seen[nr][nc]) {
+              seen[nr][nc] = true;
+              region.push([nr, nc]);
+            }
+          } else {
+            border.add(colorOf(v)!);
+          }
+        }
+      }
+      const o: CellOwner = border.size === 1 ? [...border][0] : "NEUTRAL";
+      for (const [rr, rc] of region) owner[rr][rc] = o;
+    }
+  return owner;
+}
+
+// Stones reachable from `player`'s base through that player's stones only.
+function chainedStones(board: Cell[][], player: Player, config: GameConfig) {
+  const stone = player === "WHITE" ? WHITE_STONE : BLACK_STONE;
+  const linked = board.map((row) => row.map(() => false));
+  const { r, c } = playerBasePos(player, config);
+  const queue: Array<[number, number]> = [[r, c]];
+  for (let i = 0; i < queue.length; i++) {
+    const [cr, cc] = queue[i];
+    for (const [nr, nc] of neighbors(cr, cc, config)) {
+      if (board[nr][nc] === stone && !linked[nr][nc]) {
+        linked[nr][nc] = true;
+        queue.push([nr, nc]);
+      }
+    }
+  }
+  return linked;
+}
+
+function connectedOwnership(board: Cell[][], config: GameConfig): CellOwner[][] {
+  const white = chainedStones(board, "WHITE", config);
+  const black = chainedStones(board, "BLACK", config);
+  return board.map((row, r) =>
+    row.map((v, c) => {
+      if (v === WHITE_STONE) return white[r][c] ? "WHITE" : "NEUTRAL";
+      if (v === BLACK_STONE) return black[r][c] ? "BLACK" : "NEUTRAL";
+      return null;
+    }),
+  );
+}
+
+export function ownershipMap(
+  board: Cell[][],
+  config: GameConfig,
+  mode: ScoringMode,
+): CellOwner[][] {
+  switch (mode) {
+    case "area":
+      return areaOwnership(board, config);
+    case "territory":
+      return territoryOwnership(board, config);
+    case "connected":
+      return connectedOwnership(board, config);
+  }
+}
+
+export function scoreBoard(
+  board: Cell[][],
+  config: GameConfig,
+  rules: Pick<Ruleset, "scoring" | "komi">,
+  captures: Captures = NO_CAPTURES,
+): Score {
+  const mode = rules.scoring;
+  const ownership = ownershipMap(board, config, mode);
+  const b = {
+    wStones: 0,
+    bStones: 0,
+    wTerr: 0,
+    bTerr: 0,
+    wCaptures: mode === "territory" ? captures.white : 0,
+    bCaptures: mode === "territory" ? captures.black : 0,
+    neutral: 0,
+  };
+  for (let r = 0; r < config.rows; r++)
+    for (let c = 0; c < config.cols; c++) {
+      const o = ownership[r][c];
+      if (o === "NEUTRAL") b.neutral++;
+      else if (o !== null) {
+        const isStone = board[r][c] !== EMPTY;
+        if (o === "WHITE") {
+          if (isStone) b.wStones++;
+          else b.wTerr++;
+        } else if (isStone) b.bStones++;
+        else b.bTerr++;
+      }
+    }
+  return {
+    mode,
+    white: b.wStones + b.wTerr + b.wCaptures + rules.komi,
+    black: b.bStones + b.bTerr + b.bCaptures,
+    komi: rules.komi,
+    breakdown: b,
+    ownership,
+  };
+}
@@ -0,0 +1,250 @@
+import { describe, it, expect } from "vitest";
+import {
+  BLACK_STONE,
+  DEFAULT_CONFIG,
+  WHITE_STONE,
+  placeStone,
+  presetConfig,
+} from "./engine";
+import { DEFAULT_RULESET, positionKey, type RepetitionRule } from "./rules";
+import {
+  anyLegal,
+  applyAction,
+  legalMovesFor,
+  newGame,
+  scoreGame,
+  scoreResult,
+  totalCaptures,
+  type GameAction,
+  type GameState,
+} from "./state";
+
+function firstLegal(state: GameState): GameAction {
+  const mask = legalMovesFor(state);
+  for (let r = 0; r < mask.length; r++)
+    for (let c = 0; c < mask[r].length; c++)
+      if (mask[r][c]) return { type: "place", r, c };
+  return { type: "pass" };
+}
+
+function play(state: GameState, action: GameAction): GameState {
+  const res = applyAction(state, action);
+  if (!res.ok) throw new Error(`unexpected ${res.error.code}`);
+  return res.state;
+}
+
+describe("AnchorHex game state reducer", () => {
+  it("starts with black to move and one recorded position", () => {
+    const s = newGame();
+    expect(s.toMove).toBe("BLACK");
+    expect(s.moveNumber).toBe(1);
+    expect(s.positionHistory).toHaveLength(1);
+    expect(s.gameOver).toBe(false);
+  });
+
+  it("places a stone, switches sides and records the position", () => {
+    const s0 = newGame();
+    const s1 = play(s0, { type: "place", r: 6, c: 3 });
+    expect(s1.board[6][3]).toBe(BLACK_STONE);
+    expect(s1.toMove).toBe("WHITE");
+    expect(s1.moveNumber).toBe(2);
+    expect(s1.positionHistory).toHaveLength(2);
+    // The previous state is untouched
+    expect(s0.board[6][3]).not.toBe(BLACK_STONE);
+  });
+
+  it("returns typed errors for illegal actions", () => {
+    const s0 = newGame();
+    const s1 = play(s0, { type: "place", r: 6, c: 3 });
+    expect(applyAction(s1, { type: "place", r: 6, c: 3 })).toEqual({
+      ok: false,
+      error: { code: "OCCUPIED" },
+    });
+    expect(applyAction(s1, { type: "place", r: -1, c: 0 })).toMatchObject({
+      error: { code: "OUT_OF_BOUNDS" },
+    });
+    expect(applyAction(s1, { type: "pass" })).toMatchObject({
+      error: { code: "HAS_LEGAL_MOVES" },
+    });
+    expect(applyAction(s0, { type: "undo" })).toMatchObject({
+      error: { code: "NOTHING_TO_UNDO" },
+    });
+  });
+
+  it("rejects a stone that cannot survive", () => {
+    const s = newGame();
+    const board = s.board.map((row) => row.slice());
+    // Wall off the top-left corner from the black base with white stones
+    board[0][1] = WHITE_STONE;
+    board[1][1] = WHITE_STONE;
+    board[1][0] = WHITE_STONE;
+    const res = applyAction({ ...s, board }, { type: "place", r: 0, c: 0 });
+    expect(res).toMatchObject({ ok: false, error: { code: "CANNOT_SURVIVE" } });
+  });
+
+  it("logs moves with the stones each side lost", () => {
+    const s = newGame();
+    const board = s.board.map((row) => row.slice());
+    // A lone white stone in the corner whose only other neighbour is (1, 1)
+    board[0][0] = WHITE_STONE;
+    board[0][1] = BLACK_STONE;
+    board[1][0] = BLACK_STONE;
+    const s1 = play({ ...s, board }, { type: "place", r: 1, c: 1 });
+    expect(s1.moves).toEqual([
+      {
+        player: "BLACK",
+        move: { type: "place", r: 1, c: 1 },
+        captured: { white: 1, black: 0 },
+      },
+    ]);
+    expect(play(s1, { type: "undo" }).moves).toEqual([]);
+  });
+
+  it("undo restores the previous state exactly", () => {
+    const s0 = newGame();
+    const s1 = play(s0, { type: "place", r: 6, c: 3 });
+    const s2 = play(s1, { type: "undo" });
+    const { history: _h2, ...rest2 } = s2;
+    const { history: _h0, ...rest0 } = s0;
+    expect(rest2).toEqual(rest0);
+    expect(_h2).toEqual(_h0);
+  });
+
+  it("resign ends the game in favour of the opponent", () => {
+    const s = play(newGame(), { type: "resign" });
+    expect(s.gameOver).toBe(true);
+    expect(s.result).toEqual({ winner: "WHITE", reason: "resign" });
+    expect(applyAction(s, { type: "place", r: 6, c: 3 })).toMatchObject({
+      error: { code: "GAME_OVER" },
+    });
+  });
+
+  it("plays a small board to the end and scores it", () => {
+    const config = presetConfig(3, 3);
+    let s = newGame(config);
+    for (let i = 0; i < 100 && !s.gameOver; i++) s = play(s, firstLegal(s));
+    expect(s.gameOver).toBe(true);
+    expect(s.result?.reason).toBe("score");
+    expect(anyLegal(legalMovesFor(s, "WHITE"))).toBe(false);
+    expect(anyLegal(legalMovesFor(s, "BLACK"))).toBe(false);
+  });
+
+  it("applies the selected repetition rule to placements", () => {
+    // Pretend the position after Black's d7 (6, 3) was seen before, at different depths
+    const attempt = (
+      repetition: RepetitionRule,
+      seen: "WHITE" | "BLACK",
+      ago: number,
+    ) => {
+      const s = newGame(undefined, { ...DEFAULT_RULESET, repetition });
+      const after = placeStone(s.board, "BLACK", 6, 3)!;
+      const filler = Array.from({ length: ago - 1 }, (_, i) => BigInt(i + 1));
+      const positionHistory = [positionKey(s.rules, after, seen), ...filler];
+      const res = applyAction({ ...s, positionHistory }, { type: "place", r: 6, c: 3 });
+      return res.ok ? "ok" : res.error.code;
+    };
+    expect(attempt("positional", "WHITE", 5)).toBe("SUPERKO");
+    expect(attempt("situational", "WHITE", 5)).toBe("SUPERKO");
+    expect(attempt("situational", "BLACK", 5)).toBe("ok");
+    // Simple ko only looks at the position before the opponent's last turn
+    expect(attempt("simple-ko", "WHITE", 2)).toBe("SUPERKO");
+    expect(attempt("simple-ko", "WHITE", 3)).toBe("ok");
+    expect(attempt("none", "WHITE", 2)).toBe("ok");
+  });
+
+  it("records the position after a pass with the opponent to move", () => {
+    const s = newGame(presetConfig(3, 3), {
+      ...DEFAULT_RULESET,
+      repetition: "situational",
+    });
+    // Wall in the black base at (2, 0) so Black has to pass
+    const board = s.board.map((row) => row.slice());
+    board[1][0] = WHITE_STONE;
+    board[2][1] = WHITE_STONE;
+    const s1 = play({ ...s, board }, { type: "pass" });
+    expect(s1.positionHistory.at(-1)).toBe(positionKey(s.rules, board, "WHITE"));
+    expect(play(s1, { type: "undo" }).positionHistory).toEqual(s.positionHistory);
+  });
+
+  it("places handicap stones and lets the other side move first", () => {
+    const rules = {
+      ...DEFAULT_RULESET,
+      handicap: { type: "stones", player: "BLACK", count: 3 },
+    } as const;
+    const s = newGame(undefined, rules);
+    const stones = s.board.flat().filter((v) => v === BLACK_STONE);
+    expect(stones).toHaveLength(3);
+    expect(s.toMove).toBe("WHITE");
+    expect(newGame(undefined, rules).board).toEqual(s.board);
+  });
+
+  it("gives a move handicap as a run of opening moves", () => {
+    const rules = {
+      ...DEFAULT_RULESET,
+      handicap: { type: "moves", player: "WHITE", count: 2 },
+    } as const;
+    let s = newGame(undefined, rules);
+    const order: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      order.push(s.toMove);
+      s = play(s, firstLegal(s));
+    }
+    expect(order).toEqual(["WHITE", "WHITE", "BLACK", "WHITE"]);
+  });
+
+  it("hashes handicap moves for situational superko with the side that moves next", () => {
+    const rules = {
+      ...DEFAULT_RULESET,
+      repetition: "situational",
+      handicap: { type: "moves", player: "WHITE", count: 2 },
+    } as const;
+    const s = newGame(undefined, rules);
+    const after = placeStone(s.board, "WHITE", 1, 4)!;
+    // White moves again after its first handicap move, so that is the position recorded
+    const played = play(s, { type: "place", r: 1, c: 4 });
+    expect(played.toMove).toBe("WHITE");
+    expect(played.positionHistory.at(-1)).toBe(positionKey(rules, after, "WHITE"));
+    // and the one a repetition check must compare against
+    const seen = (toMove: "WHITE" | "BLACK") => ({
+      ...s,
+      positionHistory: [...s.positionHistory, positionKey(rules, after, toMove)],
+    });
+    expect(legalMovesFor(seen("WHITE"))[1][4]).toBe(false);
+    expect(applyAction(seen("WHITE"), { type: "place", r: 1, c: 4 })).toMatchObject({
+      ok: false,
+      error: { code: "SUPERKO" },
+    });
+    expect(legalMovesFor(seen("BLACK"))[1][4]).toBe(true);
+  });
+
+  it("adds komi to White's score", () => {
+    expect(scoreResult(scoreGame(newGame())).winner).toBeNull();
+    const s = newGame(DEFAULT_CONFIG, { ...DEFAULT_RULESET, komi: 0.5 });
+    expect(scoreGame(s)).toMatchObject({ white: 0.5, black: 0, komi: 0.5 });
+    expect(scoreResult(scoreGame(s)).winner).toBe("WHITE");
+  });
+
+  it("totals the stones each side captured from the move log", () => {
+    const moves = [
+      { player: "BLACK", move: { type: "pass" }, captured: { white: 2, black: 0 } },
+      { player: "WHITE", move: { type: "pass" }, captured: { white: 1, black: 3 } },
+    ] as const;
+    expect(totalCaptures(moves)).toEqual({ white: 3, black: 3 });
+    expect(totalCaptures([])).toEqual({ white: 0, black: 0 });
+  });
+
+  it("restart keeps the config unless a new one is given", () => {
+    const config = presetConfig(6, 6);
+    const s = play(play(newGame(config), { type: "place", r: 4, c: 2 }), {
+      type: "restart",
+    });
+    expect(s.config).toEqual(config);
+    expect(s.history).toHaveLength(0);
+    const t = play(s, { type: "restart", config: presetConfig(10, 10) });
+    expect(t.board).toHaveLength(10);
+    const rules = { ...DEFAULT_RULESET, repetition: "simple-ko" } as const;
+    const u = play(t, { type: "restart", rules });
+    expect(u.rules).toEqual(rules);
+    expect(u.config).toEqual(t.config);
+  });
+});
@@ -0,0 +1,350 @@
+// Framework-agnostic game flow for AnchorHex: turn order, passes, superko history,
+// move counting, undo and game-over detection. The UI, bots, tests and CLI all drive
+// games through `applyAction` so they share exactly the same rules.
+
+import {
+  BLACK_STONE,
+  DEFAULT_CONFIG,
+  EMPTY,
+  WHITE_STONE,
+  computeLegalMoves,
+  inBounds,
+  makeInitialBoard,
+  placeStone,
+  playerStone,
+  type Cell,
+  type GameConfig,
+  type MoveOptions,
+  type Player,
+  type PositionHash,
+} from "./engine";
+import type { Move } from "./notation";
+import {
+  DEFAULT_RULESET,
+  handicapStones,
+  positionKey,
+  repetitionOptions,
+  type Ruleset,
+} from "./rules";
+import { scoreBoard, type Captures, type Score } from "./scoring";
+
+export const START_PLAYER: Player = "BLACK"; // Black plays first by default
+
+export type GameResult = {
+  winner: Player | null; // null on a draw
+  reason: "score" | "resign" | "time";
+};
+
+// One entry of the move log: who played what and how many stones each side lost.
+export type MoveRecord = {
+  player: Player;
+  move: Move;
+  captured: { white: number; black: number };
+};
+
+export type GameState = {
+  config: GameConfig;
+  rules: Ruleset;
+  board: Cell[][];
+  toMove: Player;
+  moveNumber: number; // 1-based number of the move about to be played
+  positionHistory: PositionHash[]; // `positionKey` after every turn, for repetition rules
+  gameOver: boolean;
+  result: GameResult | null;
+  moves: MoveRecord[];
+  history: GameSnapshot[]; // earlier states, most recent last, for undo
+};
+
+export type GameSnapshot = Omit<GameState, "history">;
+
+export type GameAction =
+  | { type: "place"; r: number; c: number }
+  | { type: "pass" }
+  | { type: "resign"; player?: Player }
+  | { type: "timeout"; player: Player } // `player` lost on time
+  | { type: "undo" }
+  | { type: "restart"; config?: GameConfig; rules?: Ruleset };
+
+export type ActionError =
+  | { code: "GAME_OVER" }
+  | { code: "OUT_OF_BOUNDS" }
+  | { code: "OCCUPIED" }
+  | { code: "CANNOT_SURVIVE" }
+  | { code: "SUPERKO" }
+  | { code: "HAS_LEGAL_MOVES" }
+  | { code: "NOTHING_TO_UNDO" };
+
+export type ActionResult =
+  { ok: true; state: GameState } | { ok: false; error: ActionError };
+
+export function opponent(p: Player): Player {
+  return p === "WHITE" ? "BLACK" : "WHITE";
+}
+
+// Who moves first: the handicapped side with extra opening moves, the other side when
+// the handicap is stones, otherwise START_PLAYER.
+export function firstPlayer(rules: Ruleset): Player {
+  const h = rules.handicap;
+  if (h?.type === "moves") return h.player;
+  if (h?.type === "stones") return opponent(h.player);
+  return START_PLAYER;
+}
+
+// Side to move after `mover` placed the game's `played`-th move. Turns alternate,
+// except that a side with a move handicap plays its first `count` moves in a row.
+export function playerAfter(rules: Ruleset, mover: Player, played: number): Player {
+  const h = rules.handicap;
+  if (h?.type === "moves" && h.player === mover && played < h.count) return mover;
+  return opponent(mover);
+}
+
+export function newGame(
+  config: GameConfig = DEFAULT_CONFIG,
+  rules: Ruleset = DEFAULT_RULESET,
+): GameState {
+  const board = makeInitialBoard(config);
+  if (rules.handicap?.type === "stones") {
+    const stone = playerStone(rules.handicap.player);
+    for (const { r, c } of handicapStones(config, rules.handicap.count)) {
+      board[r][c] = stone;
+    }
+  }
+  const toMove = firstPlayer(rules);
+  return {
+    config,
+    rules,
+    board,
+    toMove,
+    moveNumber: 1,
+    positionHistory: [positionKey(rules, board, toMove)],
+    gameOver: false,
+    result: null,
+    moves: [],
+    history: [],
+  };
+}
+
+// A game that starts from an arbitrary position instead of the initial board, e.g. one
+// opened from a link. The board is taken as given, handicap stones included; a move
+// handicap still counts from this position's first move.
+export function gameFromPosition(
+  config: GameConfig,
+  rules: Ruleset,
+  board: Cell[][],
+  toMove: Player,
+): GameState {
+  return {
+    ...newGame(config, rules),
+    board,
+    toMove,
+    positionHistory: [positionKey(rules, board, toMove)],
+  };
+}
+
+export function anyLegal(mask: boolean[][]) {
+  return mask.some((row) => row.some(Boolean));
+}
+
+// Engine options for `player`'s next placement in `state`: the board and the repetition
+// rule, with the side that moves after the placement.
+export function moveOptionsFor(
+  state: GameState,
+  player: Player = state.toMove,
+): MoveOptions {
+  const next = playerAfter(state.rules, player, state.moves.length + 1);
+  return {
+    ...repetitionOptions(state.rules, state.positionHistory, next),
+    config: state.config,
+  };
+}
+
+// Legal move mask for `player` (default: side to move) honouring the repetition rule.
+export function legalMovesFor(state: GameState, player: Player = state.toMove) {
+  return computeLegalMoves(state.board, player, moveOptionsFor(state, player));
+}
+
+// Stones each side has captured so far, from the move log.
+export function totalCaptures(moves: readonly MoveRecord[]): Captures {
+  let white = 0,
+    black = 0;
+  for (const m of moves) {
+    white += m.captured.black;
+    black += m.captured.white;
+  }
+  return { white, black };
+}
+
+// Score of the position under the game's scoring mode, with komi and captures.
+export function scoreGame(
+  state: Pick<GameState, "board" | "config" | "rules" | "moves">,
+): Score {
+  return scoreBoard(state.board, state.config, state.rules, totalCaptures(state.moves));
+}
+
+export function scoreResult(score: Score): GameResult {
+  const { white, black } = score;
+  const winner = white > black ? "WHITE" : black > white ? "BLACK" : null;
+  return { winner, reason: "score" };
+}
+
+function snapshot(state: GameState): GameSnapshot {
+  const { config, rules, board, toMove, moveNumber, positionHistory } = state;
+  const { gameOver, result, moves } = state;
+  return {
+    config,
+    rules,
+    board,
+    toMove,
+    moveNumber,
+    positionHistory,
+    gameOver,
+    result,
+    moves,
+  };
+}
+
+function countStones(board: Cell[][]) {
+  let white = 0,
+    black = 0;
+  for (const row of board)
+    for (const v of row) {
+      if (v === WHITE_STONE) white++;
+      else if (v === BLACK_STONE) black++;
+    }
+  return { white, black };
+}
+
+// Stones each side lost to a placement by `player` that turned `before` into `after`.
+export function capturedBy(
+  before: Cell[][],
+  after: Cell[][],
+  player: Player,
+): MoveRecord["captured"] {
+  const b = countStones(before);
+  const a = countStones(after);
+  return {
+    white: b.white + (player === "WHITE" ? 1 : 0) - a.white,
+    black: b.black + (player === "BLACK" ? 1 : 0) - a.black,
+  };
+}
+
+function advance(state: GameState, patch: Partial<GameSnapshot>): GameState {
+  return {
+    ...state,
+    ...patch,
+    history: [...state.history, snapshot(state)],
+  };
+}
+
+export function applyAction(state: GameState, action: GameAction): ActionResult {
+  switch (action.type) {
+    case "place": {
+      if (state.gameOver) return fail("GAME_OVER");
+      const { r, c } = action;
+      if (!inBounds(r, c, state.config)) return fail("OUT_OF_BOUNDS");
+      if (state.board[r][c] !== EMPTY) return fail("OCCUPIED");
+      const next = placeStone(state.board, state.toMove, r, c, moveOptionsFor(state));
+      if (!next) {
+        // Distinguish a repetition from a stone that simply cannot survive
+        const plain = placeStone(state.board, state.toMove, r, c, {
+          config: state.config,
+        });
+        return fail(plain ? "SUPERKO" : "CANNOT_SURVIVE");
+      }
+      const nextPlayer = playerAfter(state.rules, state.toMove, state.moves.length + 1);
+      const positionHistory = [
+        ...state.positionHistory,
+        positionKey(state.rules, next, nextPlayer),
+      ];
+      const moves = [
+        ...state.moves,
+        {
+          player: state.toMove,
+          move: { type: "place", r, c } as const,
+          captured: capturedBy(state.board, next, state.toMove),
+        },
+      ];
+      // After a move, end if neither side has any legal move (no auto-pass)
+      const after = { ...state, board: next, toMove: nextPlayer, positionHistory, moves };
+      const over =
+        !anyLegal(legalMovesFor(after, "WHITE")) &&
+        !anyLegal(legalMovesFor(after, "BLACK"));
+      return ok(
+        advance(state, {
+          board: next,
+          toMove: nextPlayer,
+          moveNumber: state.moveNumber + 1,
+          positionHistory,
+          gameOver: over,
+          result: over ? scoreResult(scoreGame(after)) : null,
+          moves,
+        }),
+      );
+    }
+    case "pass": {
+      if (state.gameOver) return fail("GAME_OVER");
+      // A pass is only allowed when the side to move has no legal move
+      if (anyLegal(legalMovesFor(state))) return fail("HAS_LEGAL_MOVES");
+      // The unchanged board is recorded with the opponent to move (see rules.ts). A
+      // pass always hands the turn over, ending any run of handicap moves.
+      const nextPlayer = opponent(state.toMove);
+      const positionHistory = [
+        ...state.positionHistory,
+        positionKey(state.rules, state.board, nextPlayer),
+      ];
+      const over = !anyLegal(legalMovesFor({ ...state, positionHistory }, nextPlayer));
+      return ok(
+        advance(state, {
+          // The game ends on the passing side's turn, as nothing is left to play
+          toMove: over ? state.toMove : nextPlayer,
+          moveNumber: state.moveNumber + 1,
+          positionHistory,
+          gameOver: over,
+          result: over ? scoreResult(scoreGame(state)) : null,
+          moves: [
+            ...state.moves,
+            {
+              player: state.toMove,
+              move: { type: "pass" },
+              captured: { white: 0, black: 0 },
+            },
+          ],
+        }),
+      );
+    }
+    case "resign": {
+      if (state.gameOver) return fail("GAME_OVER");
+      const loser = action.player ?? state.toMove;
+      return ok(
+        advance(state, {
+          gameOver: true,
+          result: { winner: opponent(loser), reason: "resign" },
+        }),
+      );
+    }
+    case "timeout": {
+      if (state.gameOver) return fail("GAME_OVER");
+      return ok(
+        advance(state, {
+          gameOver: true,
+          result: { winner: opponent(action.player), reason: "time" },
+        }),
+      );
+    }
+    case "undo": {
+      const last = state.history[state.history.length - 1];
+      if (!last) return fail("NOTHING_TO_UNDO");
+      return ok({ ...last, history: state.history.slice(0, -1) });
+    }
+    case "restart":
+      return ok(newGame(action.config ?? state.config, action.rules ?? state.rules));
+  }
+}
+
+function ok(state: GameState): ActionResult {
+  return { ok: true, state };
+}
+
+function fail(code: ActionError["code"]): ActionResult {
+  return { ok: false, error: { code } as ActionError };
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { presetConfig } from "./engine";
+import { applyAction, newGame, type GameAction, type GameState } from "./state";
+import {
+  currentNode,
+  currentState,
+  deleteBranch,
+  getNode,
+  goBack,
+  goForward,
+  goToEnd,
+  goToStart,
+  lineThrough,
+  newTree,
+  pathTo,
+  playMove,
+  plyInLine,
+  promoteVariation,
+  switchVariation,
+  treeFromHistory,
+  treeLayout,
+  type GameTree,
+} from "./tree";
+
+function play(tree: GameTree, ...actions: Array<[number, number] | "pass">) {
+  for (const a of actions) {
+    const res = playMove(
+      tree,
+      a === "pass" ? { type: "pass" } : { type: "place", r: a[0], c: a[1] },
+    );
+    if (!res.ok) throw new Error(res.error.code);
+    tree = res.tree;
+  }
+  return tree;
+}
+
+// Main line d7 e2 c7, then a variation e3 in place of e2
+function forked() {
+  const main = play(newTree(newGame()), [6, 3], [1, 4], [6, 2]);
+  const tree = play(goBack(goBack(main)), [2, 4]);
+  return { main, tree };
+}
+
+describe("AnchorHex game tree", () => {
+  it("keeps the main line when a different move is played after stepping back", () => {
+    const { main, tree } = forked();
+    expect(tree.nodes.size).toBe(5);
+    const fork = getNode(tree, pathTo(tree)[1]);
+    expect(fork.children).toHaveLength(2);
+    expect(currentState(goToEnd(goToStart(tree)))).toBe(currentState(main));
+    expect(currentState(tree).moves.map((m) => m.move)).toEqual([
+      { type: "place", r: 6, c: 3 },
+      { type: "place", r: 2, c: 4 },
+    ]);
+    // Replaying an existing move follows it instead of adding a node
+    const again = play(goBack(tree), [1, 4]);
+    expect(again.nodes.size).toBe(5);
+    expect(currentNode(again).id).toBe(fork.children[0]);
+    expect(currentNode(goForward(again)).id).toBe(main.current);
+  });
+
+  it("takes repetition history from the path to the node only", () => {
+    const { main, tree } = forked();
+    const line = currentState(tree);
+    const parent = getNode(tree, currentNode(tree).parent!).state;
+    expect(line.positionHistory).toHaveLength(3);
+    expect(line.positionHistory.slice(0, 2)).toEqual(parent.positionHistory);
+    const sibling = getNode(main, getNode(tree, pathTo(tree)[1]).children[0]).state;
+    expect(line.positionHistory).not.toContain(sibling.positionHistory[2]);
+    // A node's state is what the reducer gives for the same moves from the start
+    let s: GameState = newGame();
+    for (const m of line.moves) {
+      const res = applyAction(s, m.move as GameAction);
+      if (!res.ok) throw new Error(res.error.code);
+      s = res.state;
+    }
+    expect(s.positionHistory).toEqual(line.positionHistory);
+  });
+
+  it("switches, promotes and deletes variations", () => {
+    const { tree } = forked();
+    const fork = getNode(tree, pathTo(tree)[1]);
+    const [mainId, varId] = fork.children;
+    expect(switchVariation(tree, -1).current).toBe(mainId);
+    expect(switchVariation(tree, 1)).toBe(tree);
+    const promoted = promoteVariation(tree);
+    expect(getNode(promoted, fork.id).children).toEqual([varId, mainId]);
+    expect(promoteVariation(promoted)).toBe(promoted);
+    const deleted = deleteBranch(switchVariation(tree, -1));
+    expect(deleted.current).toBe(fork.id);
+    expect(getNode(deleted, fork.id).children).toEqual([varId]);
+    expect(deleted.nodes.size).toBe(3);
+    expect(deleteBranch(goToStart(tree)).nodes.size).toBe(5);
+  });
+
+  it("gives the line through a node down to the end of its main line", () => {
+    const { main, tree } = forked();
+    const path = pathTo(main);
+    expect(lineThrough(main, path[1])).toEqual(path);
+    expect(lineThrough(tree)).toEqual(pathTo(tree));
+    expect(lineThrough(goToStart(tree))).toEqual(path);
+  });
+
+  it("keeps a ply within the line of a replaced tree", () => {
+    const { main, tree } = forked();
+    expect(plyInLine(main, 2)).toBe(2);
+    expect(plyInLine(tree, 3)).toBe(2);
+    expect(plyInLine(goToStart(main), 3)).toBe(3);
+    expect(plyInLine(newTree(newGame()), 3)).toBe(0);
+  });
+
+  it("reports illegal moves without changing the tree", () => {
+    const tree = play(newTree(newGame()), [6, 3]);
+    expect(playMove(tree, { type: "place", r: 6, c: 3 })).toEqual({
+      ok: false,
+      error: { code: "OCCUPIED" },
+    });
+  });
+
+  it("rebuilds a line from a state's undo history, resignation included", () => {
+    let s = newGame(presetConfig(6, 6));
+    for (const a of [
+      { type: "place", r: 4, c: 2 },
+      { type: "place", r: 1, c: 3 },
+      { type: "resign" },
+    ] as const) {
+      const res = applyAction(s, a);
+      if (!res.ok) throw new Error(res.error.code);
+      s = res.state;
+    }
+    const tree = treeFromHistory(s);
+    expect(pathTo(tree)).toHaveLength(4);
+    expect(currentNode(tree).action).toEqual({ type: "resign", player: "BLACK" });
+    expect(currentState(tree)).toEqual({ ...s, history: [] });
+    expect(currentState(goBack(tree)).gameOver).toBe(false);
+  });
+
+  it("lays out the main line on row 0 and each variation on a new row", () => {
+    const { tree } = forked();
+    const t = play(goBack(goBack(tree)), [6, 4]);
+    const cells = new Map(treeLayout(t).map((c) => [c.id, c]));
+    expect(cells.size).toBe(t.nodes.size);
+    const row = (id: number) => cells.get(id)!.row;
+    const root = getNode(t, t.root);
+    const first = getNode(t, root.children[0]);
+    expect(root.children.map(row)).toEqual([0, 2]);
+    expect(first.children.map(row)).toEqual([0, 1]);
+    expect(cells.get(t.current)).toMatchObject({ depth: 1, row: 2 });
+  });
+});
@@ -0,0 +1,265 @@
+// Game tree for exploring variations. Every node holds the game state after its move,
+// derived from its parent's state through `applyAction`, so a node's repetition
+// history is exactly the path from the root to it and sibling lines never see each
+// other's positions. Playing a move that already exists below the current node
+// follows it; any other move starts a new variation. A node's first child is its main
+// line. All functions are pure and return a new tree; navigation that has nowhere to
+// go returns the tree unchanged.
+
+import type { Player } from "./engine";
+import {
+  applyAction,
+  opponent,
+  type ActionError,
+  type GameAction,
+  type GameSnapshot,
+  type GameState,
+} from "./state";
+
+// Actions that move the game forward and so become tree edges. A resignation is
+// stored with the resigning side, a loss on time with the side whose time ran out.
+export type TreeAction =
+  | Extract<GameAction, { type: "place" | "pass" | "timeout" }>
+  | { type: "resign"; player: Player };
+
+export type TreeNode = {
+  id: number;
+  parent: number | null;
+  children: number[]; // main line first
+  action: TreeAction | null; // null at the root
+  state: GameState; // with an empty undo history; the tree takes its place
+};
+
+export type GameTree = {
+  nodes: ReadonlyMap<number, TreeNode>;
+  root: number;
+  current: number;
+  nextId: number;
+};
+
+export type TreeResult = { ok: true; tree: GameTree } | { ok: false; error: ActionError };
+
+function bare(state: GameSnapshot): GameState {
+  return { ...state, history: [] };
+}
+
+export function newTree(state: GameSnapshot): GameTree {
+  const root: TreeNode = {
+    id: 0,
+    parent: null,
+    children: [],
+    action: null,
+    state: bare(state),
+  };
+  return { nodes: new Map([[0, root]]), root: 0, current: 0, nextId: 1 };
+}
+
+export function getNode(tree: GameTree, id: number): TreeNode {
+  const node = tree.nodes.get(id);
+  if (!node) throw new Error(`No tree node ${id}`);
+  return node;
+}
+
+export function currentNode(tree: GameTree): TreeNode {
+  return getNode(tree, tree.current);
+}
+
+export function currentState(tree: GameTree): GameState {
+  return currentNode(tree).state;
+}
+
+function sameAction(a: TreeAction, b: TreeAction) {
+  if (a.type === "place" && b.type === "place") return a.r === b.r && a.c === b.c;
+  if (a.type === "resign" && b.type === "resign") return a.player === b.player;
+  if (a.type === "timeout" && b.type === "timeout") return a.player === b.player;
+  return a.type === b.type;
+}
+
+function withNodes(tree: GameTree, changed: TreeNode[], patch: Partial<GameTree> = {}) {
+  const nodes = new Map(tree.nodes);
+  for (const n of changed) nodes.set(n.id, n);
+  return { ...tree, ...patch, nodes };
+}
+
+// Plays `action` at the current node: follows an existing child with the same move,
+// otherwise adds a new child (a variation when the node already had one).
+export function playMove(
+  tree: GameTree,
+  action: Extract<GameAction, { type: "place" | "pass" | "resign" | "timeout" }>,
+): TreeResult {
+  const node = currentNode(tree);
+  const edge: TreeAction =
+    action.type === "resign"
+      ? { type: "resign", player: action.player ?? node.state.toMove }
+      : action;
+  const existing = node.children.find((id) =>
+    sameAction(getNode(tree, id).action!, edge),
+  );
+  if (existing !== undefined) return { ok: true, tree: { ...tree, current: existing } };
+  const res = applyAction(node.state, edge);
+  if (!res.ok) return res;
+  const child: TreeNode = {
+    id: tree.nextId,
+    parent: node.id,
+    children: [],
+    action: edge,
+    state: bare(res.state),
+  };
+  const parent = { ...node, children: [...node.children, child.id] };
+  return {
+    ok: true,
+    tree: withNodes(tree, [parent, child], { current: child.id, nextId: child.id + 1 }),
+  };
+}
+
+export function goTo(tree: GameTree, id: number): GameTree {
+  return tree.nodes.has(id) ? { ...tree, current: id } : tree;
+}
+
+export function goBack(tree: GameTree): GameTree {
+  const { parent } = currentNode(tree);
+  return parent === null ? tree : { ...tree, current: parent };
+}
+
+// Steps along the main line of the current node.
+export function goForward(tree: GameTree): GameTree {
+  const [next] = currentNode(tree).children;
+  return next === undefined ? tree : { ...tree, current: next };
+}
+
+export function goToStart(tree: GameTree): GameTree {
+  return { ...tree, current: tree.root };
+}
+
+// Follows the main line from the current node to its end.
+export function goToEnd(tree: GameTree): GameTree {
+  let id = tree.current;
+  for (let next = getNode(tree, id).children[0]; next !== undefined;) {
+    id = next;
+    next = getNode(tree, id).children[0];
+  }
+  return { ...tree, current: id };
+}
+
+// Moves to the previous (-1) or next (+1) sibling of the current node.
+export function switchVariation(tree: GameTree, step: 1 | -1): GameTree {
+  const { parent, id } = currentNode(tree);
+  if (parent === null) return tree;
+  const siblings = getNode(tree, parent).children;
+  const next = siblings[siblings.indexOf(id) + step];
+  return next === undefined ? tree : { ...tree, current: next };
+}
+
+// Moves the line through the current node one place up at the nearest fork where it
+// is not already the main line. Repeating it eventually makes it the main line.
+export function promoteVariation(tree: GameTree): GameTree {
+  for (let node = currentNode(tree); node.parent !== null;) {
+    const parent = getNode(tree, node.parent);
+    const i = parent.children.indexOf(node.id);
+    if (i > 0) {
+      const children = [...parent.children];
+      [children[i - 1], children[i]] = [children[i], children[i - 1]];
+      return withNodes(tree, [{ ...parent, children }]);
+    }
+    node = parent;
+  }
+  return tree;
+}
+
+// Removes the current node and everything below it, moving to its parent. The root
+// cannot be deleted.
+export function deleteBranch(tree: GameTree): GameTree {
+  const node = currentNode(tree);
+  if (node.parent === null) return tree;
+  const parent = getNode(tree, node.parent);
+  const nodes = new Map(tree.nodes);
+  const stack = [node.id];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    stack.push(...getNode(tree, id).children);
+    nodes.delete(id);
+  }
+  nodes.set(parent.id, {
+    ...parent,
+    children: parent.children.filter((id) => id !== node.id),
+  });
+  return { ...tree, nodes, current: parent.id };
+}
+
+// Node ids from the root to `id`, inclusive.
+export function pathTo(tree: GameTree, id: number = tree.current): number[] {
+  const path: number[] = [];
+  for (let n: number | null = id; n !== null; n = getNode(tree, n).parent) path.push(n);
+  return path.reverse();
+}
+
+// The line through `id`: the path from the root to it, then its main line to the end.
+export function lineThrough(tree: GameTree, id: number = tree.current): number[] {
+  const line = pathTo(tree, id);
+  for (let next = getNode(tree, id).children[0]; next !== undefined;) {
+    line.push(next);
+    next = getNode(tree, next).children[0];
+  }
+  return line;
+}
+
+// `ply` kept within the line through the current node, so a replay stays in range when
+// its tree is replaced by a shorter game.
+export function plyInLine(tree: GameTree, ply: number): number {
+  return Math.max(0, Math.min(ply, lineThrough(tree).length - 1));
+}
+
+// A single-line tree rebuilt from a state's undo history (e.g. a replayed record),
+// positioned at its last node.
+export function treeFromHistory(state: GameState): GameTree {
+  const states = [...state.history, state];
+  let tree = newTree(states[0]);
+  for (let i = 1; i < states.length; i++) {
+    const prev = states[i - 1];
+    const next = states[i];
+    // Every step is a move, except a resignation or loss on time, which only changes
+    // the result
+    const loser = next.result?.winner ? opponent(next.result.winner) : prev.toMove;
+    const action: TreeAction =
+      next.moves.length > prev.moves.length
+        ? next.moves[next.moves.length - 1].move
+        : { type: next.result?.reason === "time" ? "timeout" : "resign", player: loser };
+    const child: TreeNode = {
+      id: tree.nextId,
+      parent: tree.current,
+      children: [],
+      action,
+      state: bare(next),
+    };
+    const parent = currentNode(tree);
+    tree = withNodes(tree, [{ ...parent, children: [child.id] }, child], {
+      current: child.id,
+      nextId: child.id + 1,
+    });
+  }
+  return tree;
+}
+
+export type TreeCell = { id: number; depth: number; row: number };
+
+// Grid placement for drawing the tree: depth is the number of moves from the root.
+// A node's main line continues on its row and every variation starts a new row below
+// all rows used so far, so lines never overlap and the main line is row 0.
+export function treeLayout(tree: GameTree): TreeCell[] {
+  const cells: TreeCell[] = [];
+  let rows = 0;
+  const stack: Array<{ id: number; depth: number; row: number | null }> = [
+    { id: tree.root, depth: 0, row: null },
+  ];
+  while (stack.length > 0) {
+    const { id, depth, row } = stack.pop()!;
+    const cell = { id, depth, row: row ?? rows++ };
+    cells.push(cell);
+    // Pushed in reverse so the main line is laid out before the variations
+    const { children } = getNode(tree, id);
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ id: children[i], depth: depth + 1, row: i === 0 ? cell.row : null });
+    }
+  }
+  return cells;
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { chooseBotMove } from "../game/bot";
+import { createGtpEngine } from "./engine";
+import { parseCommand, parseReply } from "./protocol";
+
+// Runs the lines through a new engine and returns the replies
+function session(lines: string[], genmove = chooseBotMove) {
+  const engine = createGtpEngine((state) => genmove(state, "easy", () => 0.5));
+  return lines.flatMap((line) => engine.handle(line)?.reply ?? []);
+}
+
+describe("AnchorHex engine protocol", () => {
+  it("parses commands and replies", () => {
+    expect(parseCommand("  12 Play b d7  # Black's first move")).toEqual({
+      id: 12,
+      name: "play",
+      args: ["b", "d7"],
+    });
+    expect(parseCommand("# just a comment")).toBeNull();
+    expect(parseReply(["=3 d7"])).toEqual({ status: "ok", text: "d7" });
+    expect(parseReply(["= ", "line one", "line two"])).toEqual({
+      status: "ok",
+      text: "line one\nline two",
+    });
+    expect(parseReply(["?", ""])).toEqual({ status: "error", text: "" });
+    expect(parseReply(["d7"])).toBeNull();
+  });
+
+  it("plays moves through the reducer and rejects illegal ones", () => {
+    expect(
+      session([
+        "1 protocol_version",
+        "boardsize 5",
+        "",
+        "play b c4",
+        "play b d2",
+        "play w c4",
+        "play w z9",
+        "2 legal_moves",
+        "final_score",
+        "undo",
+        "undo",
+        "undo",
+        "frobnicate",
+        "known_command genmove",
+      ]),
+    ).toEqual([
+      "=1 2\n\n",
+      "=\n\n",
+      "=\n\n",
+      "? w to move\n\n",
+      "? illegal move: OCCUPIED\n\n",
+      "? invalid move\n\n",
+      "=2 a1 b1 d1 e1 a2 b2 c2 d2 e2 a3 b3 c3 d3 e3 a4 b4 d4 e4 a5 c5 d5 e5\n\n",
+      "= B+1\n\n",
+      "=\n\n",
+      "? cannot undo\n\n",
+      "? cannot undo\n\n",
+      "? unknown command\n\n",
+      "= true\n\n",
+    ]);
+  });
+
+  it("generates moves for the side to move and plays them", () => {
+    const replies = session(["boardsize 3", "genmove b", "genmove b", "genmove w"]);
+    expect(replies[1]).toMatch(/^= [a-c][1-3]\n\n$/);
+    expect(replies[2]).toBe("? w to move\n\n");
+    expect(replies[3]).toMatch(/^= ([a-c][1-3]|pass)\n\n$/);
+    expect(session(["genmove b"], () => ({ type: "place", r: 7, c: 3 }))).toEqual([
+      "? engine chose an illegal move: OCCUPIED\n\n",
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+// The engine side of the protocol (see protocol.ts) over the game reducer: the engine
+// keeps one game, which `play`, `genmove` and `undo` change through `applyAction`, so
+// an engine built on it enforces the same rules, superko included, as the UI. Only the
+// choice of move is left to the bot.
+
+import {
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  presetConfig,
+  type Player,
+} from "../game/engine";
+import { formatCoord, formatMove, parseMove, type Move } from "../game/notation";
+import { formatResult } from "../game/record";
+import { validateRuleset } from "../game/rules";
+import {
+  anyLegal,
+  applyAction,
+  legalMovesFor,
+  newGame,
+  scoreGame,
+  type GameState,
+} from "../game/state";
+import { renderBoard } from "../cli/ascii";
+import {
+  PROTOCOL_VERSION,
+  formatColor,
+  formatReply,
+  parseColor,
+  parseCommand,
+} from "./protocol";
+
+// Picks the move of the side to move in a game that is not over
+export type GenMove = (state: GameState) => Move | "resign";
+
+export type GtpEngine = {
+  // The reply to one line of input (null for a blank or comment line); `quit` once the
+  // engine should exit.
+  handle(line: string): { reply: string; quit: boolean } | null;
+  state(): GameState;
+};
+
+export const COMMANDS = [
+  "protocol_version",
+  "name",
+  "version",
+  "known_command",
+  "list_commands",
+  "quit",
+  "boardsize",
+  "clear_board",
+  "komi",
+  "play",
+  "genmove",
+  "legal_moves",
+  "undo",
+  "final_score",
+  "showboard",
+];
+
+type Outcome = { ok: boolean; text: string };
+
+const success = (text = ""): Outcome => ({ ok: true, text });
+const failure = (text: string): Outcome => ({ ok: false, text });
+
+// "B+3" / "W+2.5" / "0" for the position, or the result of a game decided otherwise
+export function finalScore(state: GameState): string {
+  if (state.result && state.result.reason !== "score") return formatResult(state);
+  const { white, black } = scoreGame(state);
+  if (white === black) return "0";
+  return `${white > black ? "W" : "B"}+${Math.abs(white - black)}`;
+}
+
+export function createGtpEngine(
+  genmove: GenMove,
+  name = "AnchorHex",
+  version = "1",
+): GtpEngine {
+  let state = newGame();
+
+  // The side named by `arg`, which has to be the side to move
+  const mover = (arg: string | undefined): Player | Outcome => {
+    const player = parseColor(arg);
+    if (!player) return failure("invalid color");
+    if (state.gameOver) return failure("game over");
+    if (player !== state.toMove) return failure(`${formatColor(state.toMove)} to move`);
+    return player;
+  };
+
+  function run(command: string, args: string[]): Outcome {
+    switch (command) {
+      case "protocol_version":
+        return success(String(PROTOCOL_VERSION));
+      case "name":
+        return success(name);
+      case "version":
+        return success(version);
+      case "known_command":
+        return success(String(COMMANDS.includes(args[0] ?? "")));
+      case "list_commands":
+        return success(COMMANDS.join("\n"));
+      case "quit":
+        return success();
+      case "boardsize": {
+        const [rows, cols = rows] = args.map(Number);
+        const size = (n: number) =>
+          Number.isInteger(n) && n >= MIN_BOARD_SIZE && n <= MAX_BOARD_SIZE;
+        if (args.length < 1 || args.length > 2 || !size(rows) || !size(cols))
+          return failure("unacceptable size");
+        state = newGame(presetConfig(rows, cols), state.rules);
+        return success();
+      }
+      case "clear_board":
+        state = newGame(state.config, state.rules);
+        return success();
+      case "komi": {
+        const rules = { ...state.rules, komi: Number(args[0]) };
+        if (args.length !== 1 || validateRuleset(rules, state.config).length > 0)
+          return failure("invalid komi");
+        state = { ...state, rules };
+        return success();
+      }
+      case "play": {
+        const player = mover(args[0]);
+        if (typeof player !== "string") return player;
+        const move = args.length === 2 && parseMove(args[1], state.config);
+        if (!move) return failure("invalid move");
+        const res = applyAction(state, move);
+        if (!res.ok) return failure(`illegal move: ${res.error.code}`);
+        state = res.state;
+        return success();
+      }
+      case "genmove": {
+        const player = mover(args[0]);
+        if (typeof player !== "string") return player;
+        const move = genmove(state);
+        const res = applyAction(state, move === "resign" ? { type: "resign" } : move);
+        if (!res.ok) return failure(`engine chose an illegal move: ${res.error.code}`);
+        state = res.state;
+        return success(move === "resign" ? "resign" : formatMove(move));
+      }
+      case "legal_moves": {
+        const player = args.length > 0 ? parseColor(args[0]) : state.toMove;
+        if (!player) return failure("invalid color");
+        if (state.gameOver) return success();
+        const mask = legalMovesFor(state, player);
+        if (!anyLegal(mask)) return success("pass");
+        const moves: string[] = [];
+        mask.forEach((row, r) =>
+          row.forEach((ok, c) => ok && moves.push(formatCoord(r, c))),
+        );
+        return success(moves.join(" "));
+      }
+      case "undo": {
+        const res = applyAction(state, { type: "undo" });
+        if (!res.ok) return failure("cannot undo");
+        state = res.state;
+        return success();
+      }
+      case "final_score":
+        return success(finalScore(state));
+      case "showboard":
+        return success(`\n${renderBoard(state.board, state.config)}`);
+      default:
+        return failure("unknown command");
+    }
+  }
+
+  return {
+    handle(line) {
+      const command = parseCommand(line);
+      if (!command) return null;
+      const { ok, text } = run(command.name, command.args);
+      return { reply: formatReply(command.id, ok, text), quit: command.name === "quit" };
+    },
+    state: () => state,
+  };
+}
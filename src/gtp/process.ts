@@ -0,0 +1,76 @@
+// An engine run as a child process, spoken to over its stdin and stdout. Its stderr
+// is passed through, so engines can log there.
+
+import { spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+import { parseReply, type GtpReply } from "./protocol";
+import type { GtpPlayer } from "./referee";
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+export type EngineProcess = GtpPlayer & {
+  // Sends quit, and ends the process if it is still running a second later
+  close(): Promise<void>;
+};
+
+export function spawnEngine(
+  command: string,
+  args: string[] = [],
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+): EngineProcess {
+  const child = spawn(command, args, { stdio: ["pipe", "pipe", "inherit"] });
+  const exited = new Promise<void>((resolve) => {
+    child.once("close", () => resolve());
+    child.once("error", () => resolve()); // the command could not be started
+  });
+  let gone = false;
+  // Callers waiting for a reply, oldest first, and the lines of the reply being read
+  const waiting: Array<(reply: GtpReply) => void> = [];
+  let lines: string[] = [];
+
+  const answer = (reply: GtpReply) => waiting.shift()?.(reply);
+  const end = () => {
+    gone = true;
+    while (waiting.length > 0) answer({ status: "gone" });
+  };
+  child.on("error", end);
+  child.on("close", end);
+  child.stdin.on("error", () => {}); // writing to an engine that exited; "close" follows
+
+  createInterface({ input: child.stdout }).on("line", (line) => {
+    if (line.trim() === "") {
+      if (lines.length === 0) return; // blank lines between replies
+      const reply = parseReply(lines);
+      lines = [];
+      answer(reply ?? { status: "error", text: "garbled reply" });
+    } else {
+      lines.push(line);
+    }
+  });
+
+  return {
+    send(command) {
+      if (gone) return Promise.resolve({ status: "gone" });
+      return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+          // A late reply would be taken for the next one's, so the engine is done for
+          resolve({ status: "timeout" });
+          waiting.splice(waiting.indexOf(deliver), 1);
+          child.kill();
+        }, timeoutMs);
+        const deliver = (reply: GtpReply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        };
+        waiting.push(deliver);
+        child.stdin.write(`${command}\n`);
+      });
+    },
+    async close() {
+      if (!gone) child.stdin.end("quit\n");
+      const timer = setTimeout(() => child.kill(), 1000);
+      await exited;
+      clearTimeout(timer);
+    },
+  };
+}
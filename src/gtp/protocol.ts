@@ -0,0 +1,82 @@
+// The AnchorHex engine protocol: a line-based text protocol in the style of GTP (the Go
+// Text Protocol) for bots written in any language. A controller writes one command per
+// line to the engine's stdin and reads one reply per command from its stdout:
+//
+//   boardsize 8              =
+//   clear_board              =
+//   play b d7                =
+//   genmove w                = e2
+//   legal_moves              = a1 b1 c2 ...
+//   play b d1                ? illegal move: OCCUPIED
+//
+// A command may start with a numeric id, which the reply repeats ("3 genmove b" gets
+// "=3 d7"). A reply is "=" (success) or "?" (failure), the id, a space and the text,
+// and ends with a blank line; the text may span several lines (showboard). Empty lines
+// and everything after "#" are ignored.
+//
+// Colors are "b"/"black" and "w"/"white"; moves are coordinates in the notation of
+// ../game/notation ("d7"), "pass", or "resign" as a reply to genmove. The commands:
+//
+//   protocol_version, name, version, known_command NAME, list_commands, quit
+//   boardsize N [COLS]  an N x N (or N x COLS) board with the usual base placement,
+//                       and a new game
+//   clear_board         a new game on the current board
+//   komi K              komi added to White's score
+//   play COLOR MOVE     the move of the side to move; illegal moves fail
+//   genmove COLOR       the engine chooses, plays and replies the move of the side to
+//                       move
+//   legal_moves [COLOR] the legal moves, space separated ("pass" when there is none)
+//   undo                takes back the last move
+//   final_score         "B+3", "W+2.5" or "0" for the position (or "B+R" after a
+//                       resignation)
+//   showboard           the board as drawn by the CLI
+
+import type { Player } from "../game/engine";
+
+export const PROTOCOL_VERSION = 2;
+
+export type GtpCommand = { id: number | null; name: string; args: string[] };
+
+// A reply as the controller sees it. `timeout` and `gone` are not sent by the engine:
+// it did not answer in time, or its process ended.
+export type GtpReply =
+  | { status: "ok"; text: string }
+  | { status: "error"; text: string }
+  | { status: "timeout" }
+  | { status: "gone" };
+
+// The command on `line`; null for a line with nothing but whitespace or a comment.
+export function parseCommand(line: string): GtpCommand | null {
+  const words = line
+    .replace(/#.*/, "")
+    .trim()
+    .split(/\s+/)
+    .filter((w) => w !== "");
+  if (words.length === 0) return null;
+  const id = /^\d+$/.test(words[0]) ? Number(words.shift()) : null;
+  return { id, name: (words.shift() ?? "").toLowerCase(), args: words };
+}
+
+export function formatReply(id: number | null, ok: boolean, text: string): string {
+  return `${ok ? "=" : "?"}${id ?? ""}${text === "" ? "" : ` ${text}`}\n\n`;
+}
+
+// The reply made of `lines` (the blank line that ends it excluded); null when the first
+// line is not a reply.
+export function parseReply(lines: string[]): GtpReply | null {
+  const m = /^([=?])\d*(?: (.*))?$/.exec(lines[0] ?? "");
+  if (!m) return null;
+  const text = [m[2] ?? "", ...lines.slice(1)].join("\n").trim();
+  return { status: m[1] === "=" ? "ok" : "error", text };
+}
+
+export function parseColor(text: string | undefined): Player | null {
+  const t = text?.toLowerCase();
+  if (t === "b" || t === "black") return "BLACK";
+  if (t === "w" || t === "white") return "WHITE";
+  return null;
+}
+
+export function formatColor(player: Player): string {
+  return player === "BLACK" ? "b" : "w";
+}
@@ -0,0 +1,103 @@
+import { afterEach, describe, it, expect } from "vitest";
+import { chooseBotMove } from "../game/bot";
+import { formatResult } from "../game/record";
+import { createGtpEngine, finalScore, type GenMove } from "./engine";
+import { spawnEngine, type EngineProcess } from "./process";
+import { parseReply } from "./protocol";
+import { refereeMatch, type GtpPlayer } from "./referee";
+
+const processes: EngineProcess[] = [];
+
+afterEach(async () => {
+  await Promise.all(processes.splice(0).map((p) => p.close()));
+});
+
+// An engine in this process, with the commands it was sent
+function local(genmove: GenMove) {
+  const engine = createGtpEngine(genmove);
+  const sent: string[] = [];
+  const player: GtpPlayer = {
+    send: async (command) => {
+      sent.push(command);
+      const reply = engine.handle(command)!.reply.replace(/\n+$/, "");
+      return parseReply(reply.split("\n"))!;
+    },
+  };
+  return { engine, sent, player };
+}
+
+const bot: GenMove = (state) => chooseBotMove(state, "easy", () => 0.5);
+
+// An engine written in plain JavaScript: it answers every command, and passes when
+// asked for a move
+const PASSER = `
+  require("node:readline").createInterface({ input: process.stdin }).on("line", (line) => {
+    const [command] = line.trim().split(/\\s+/);
+    process.stdout.write(command === "genmove" ? "= pass\\n\\n" : "=\\n\\n");
+    if (command === "quit") process.exit(0);
+  });
+`;
+
+describe("AnchorHex match referee", () => {
+  it("referees a game to the end, keeping both engines in step", async () => {
+    const black = local(bot);
+    const white = local(bot);
+    const result = await refereeMatch(black.player, white.player, { rows: 5, komi: 0.5 });
+    expect(result.reason).toBe("score");
+    expect(result.state.gameOver).toBe(true);
+    expect(result.winner).toBe(result.state.result?.winner);
+    expect(black.sent.slice(0, 4)).toEqual([
+      "boardsize 5",
+      "clear_board",
+      "komi 0.5",
+      "genmove b",
+    ]);
+    expect(white.sent[3]).toMatch(/^play b [a-e][1-5]$/);
+    // Both engines saw the whole game
+    for (const { engine } of [black, white]) {
+      expect(engine.state().board).toEqual(result.state.board);
+      expect(finalScore(engine.state())).toBe(formatResult(result.state));
+    }
+  });
+
+  it("forfeits an engine that plays an illegal move", async () => {
+    const black = local(bot);
+    // White answers every genmove with Black's base, and agrees to everything else
+    const white: GtpPlayer = {
+      send: async (command) => ({
+        status: "ok",
+        text: command.startsWith("genmove") ? "b5" : "",
+      }),
+    };
+    const result = await refereeMatch(black.player, white, { rows: 5 });
+    expect(result).toMatchObject({
+      winner: "BLACK",
+      reason: "illegal",
+      detail: "White played b5: OCCUPIED",
+      state: { result: { winner: "BLACK", reason: "resign" } },
+    });
+    // Black never heard of the move
+    expect(black.sent.filter((c) => c.startsWith("play"))).toEqual([]);
+  });
+
+  it("referees engine processes", async () => {
+    const black = spawnEngine(process.execPath, ["-e", PASSER], 5000);
+    const white = spawnEngine(process.execPath, ["-e", PASSER], 5000);
+    processes.push(black, white);
+    expect(await black.send("name")).toEqual({ status: "ok", text: "" });
+    // Passing while there are moves to play is illegal
+    expect(await refereeMatch(black, white, { rows: 4 })).toMatchObject({
+      winner: "WHITE",
+      reason: "illegal",
+      detail: "Black played pass: HAS_LEGAL_MOVES",
+    });
+
+    const missing = spawnEngine("anchorhex-no-such-engine");
+    processes.push(missing);
+    expect(await refereeMatch(missing, white, { rows: 4 })).toMatchObject({
+      winner: "WHITE",
+      reason: "failure",
+      detail: 'Black exited during "boardsize 4"',
+    });
+  });
+});
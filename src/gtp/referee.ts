@@ -0,0 +1,127 @@
+// Referees a game between two engines that speak the protocol (see protocol.ts). The
+// referee keeps its own copy of the game and is the only judge of legality: each move
+// an engine generates goes through `applyAction` before the other engine hears of it,
+// and an engine that plays an illegal move (a superko repetition included), answers
+// with something that is not a move, fails a command or stops answering loses the game.
+
+import { presetConfig, type Player } from "../game/engine";
+import { formatMove, parseMove } from "../game/notation";
+import { DEFAULT_RULESET } from "../game/rules";
+import {
+  applyAction,
+  newGame,
+  opponent,
+  scoreGame,
+  scoreResult,
+  type GameState,
+  type MoveRecord,
+} from "../game/state";
+import { formatColor, type GtpReply } from "./protocol";
+
+// One engine as the controller sees it: a command in, its reply out.
+export type GtpPlayer = {
+  send(command: string): Promise<GtpReply>;
+};
+
+export type MatchOptions = {
+  rows?: number;
+  cols?: number; // default: rows
+  komi?: number;
+  maxMoves?: number; // then the game is scored as it stands; default rows * cols * 4
+  onMove?: (move: MoveRecord, state: GameState) => void;
+};
+
+export type MatchResult = {
+  winner: Player | null; // null on a draw
+  // How the game ended: by the game's own rules (score, resign), by a forfeit
+  // (illegal: a move the rules reject or cannot be read; time: no reply in time;
+  // failure: an error reply or an engine that exited), or at the move limit
+  reason: "score" | "resign" | "illegal" | "time" | "failure" | "limit";
+  detail: string | null; // what the forfeiting engine did wrong
+  // The game as played, for records and statistics. A forfeit is recorded as a
+  // resignation of the offending side.
+  state: GameState;
+};
+
+const SIDE: Record<Player, string> = { BLACK: "Black", WHITE: "White" };
+
+export async function refereeMatch(
+  black: GtpPlayer,
+  white: GtpPlayer,
+  options: MatchOptions = {},
+): Promise<MatchResult> {
+  const { rows = 8, cols = rows, komi = 0 } = options;
+  const maxMoves = options.maxMoves ?? rows * cols * 4;
+  let state = newGame(presetConfig(rows, cols), { ...DEFAULT_RULESET, komi });
+  const engines: Record<Player, GtpPlayer> = { BLACK: black, WHITE: white };
+
+  const forfeit = (
+    player: Player,
+    reason: MatchResult["reason"],
+    detail: string,
+  ): MatchResult => {
+    const res = applyAction(state, { type: "resign", player });
+    return {
+      winner: opponent(player),
+      reason,
+      detail: `${SIDE[player]} ${detail}`,
+      state: res.ok ? res.state : state,
+    };
+  };
+  // The forfeit a failed reply brings; null for a success
+  const check = (player: Player, command: string, reply: GtpReply) => {
+    if (reply.status === "ok") return null;
+    if (reply.status === "timeout")
+      return forfeit(player, "time", `did not answer "${command}" in time`);
+    if (reply.status === "gone")
+      return forfeit(player, "failure", `exited during "${command}"`);
+    return forfeit(player, "failure", `failed "${command}": ${reply.text}`);
+  };
+
+  const setup = [
+    cols === rows ? `boardsize ${rows}` : `boardsize ${rows} ${cols}`,
+    "clear_board",
+    `komi ${komi}`,
+  ];
+  for (const command of setup)
+    for (const player of ["BLACK", "WHITE"] as const) {
+      const lost = check(player, command, await engines[player].send(command));
+      if (lost) return lost;
+    }
+
+  while (!state.gameOver) {
+    if (state.moves.length >= maxMoves) {
+      const { winner } = scoreResult(scoreGame(state));
+      return { winner, reason: "limit", detail: null, state };
+    }
+    const player = state.toMove;
+    const genmove = `genmove ${formatColor(player)}`;
+    const reply = await engines[player].send(genmove);
+    const lost = check(player, genmove, reply);
+    if (lost) return lost;
+    const text = reply.status === "ok" ? reply.text.toLowerCase() : "";
+    if (text === "resign") {
+      const res = applyAction(state, { type: "resign", player });
+      if (res.ok) state = res.state;
+      break;
+    }
+    const move = parseMove(text, state.config);
+    if (!move) return forfeit(player, "illegal", `replied "${text}", not a move`);
+    const res = applyAction(state, move);
+    if (!res.ok) return forfeit(player, "illegal", `played ${text}: ${res.error.code}`);
+    state = res.state;
+    options.onMove?.(state.moves[state.moves.length - 1], state);
+
+    const play = `play ${formatColor(player)} ${formatMove(move)}`;
+    const other = opponent(player);
+    const refused = check(other, play, await engines[other].send(play));
+    if (refused) return refused;
+  }
+  const { winner, reason } = state.result ?? scoreResult(scoreGame(state));
+  return {
+    winner,
+    reason: reason === "resign" ? "resign" : "score",
+    detail: null,
+    state,
+  };
+}
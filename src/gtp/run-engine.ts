@@ -0,0 +1,26 @@
+// Runs the built-in bot as a protocol engine on stdin/stdout: `node dist-node/engine.js
+// [easy|medium|hard]` after `pnpm build:node` (default medium). A reference for engines
+// written in other languages, and an opponent for them in `match`.
+
+import { createInterface } from "node:readline";
+import { BOT_LEVELS, chooseBotMove, type BotLevel } from "../game/bot";
+import { createGtpEngine } from "./engine";
+
+const level = (process.argv[2] ?? "medium") as BotLevel;
+if (!BOT_LEVELS.includes(level)) {
+  console.error(`anchorhex engine: unknown level "${level}"`);
+  process.exit(2);
+}
+
+const engine = createGtpEngine(
+  (state) => chooseBotMove(state, level),
+  `AnchorHex ${level}`,
+);
+const lines = createInterface({ input: process.stdin });
+for await (const line of lines) {
+  const res = engine.handle(line);
+  if (!res) continue;
+  process.stdout.write(res.reply);
+  if (res.quit) break;
+}
+lines.close();
@@ -0,0 +1,104 @@
+// Referees a game between two engine processes: `node dist-node/match.js --black
+// "COMMAND" --white "COMMAND" [options]` after `pnpm build:node`. A COMMAND is a program
+// and its arguments separated by spaces, such as "python3 bot.py" or "node
+// dist-node/engine.js hard". Prints the moves and the result, and with --record saves
+// the game as a record the app opens.
+
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { MAX_BOARD_SIZE, MIN_BOARD_SIZE, presetConfig } from "../game/engine";
+import { formatMove } from "../game/notation";
+import { serializeGame } from "../game/record";
+import { DEFAULT_RULESET, validateRuleset } from "../game/rules";
+import { finalScore } from "./engine";
+import { DEFAULT_TIMEOUT_MS, spawnEngine, type EngineProcess } from "./process";
+import { refereeMatch } from "./referee";
+
+const USAGE = `Usage: node dist-node/match.js --black COMMAND --white COMMAND [options]
+
+Options:
+  --size N | RxC       board size (default 8)
+  --komi K             komi added to White's score (default 0)
+  --timeout SECONDS    time for each reply (default ${DEFAULT_TIMEOUT_MS / 1000})
+  --max-moves N        score the game as it stands after N moves
+  --record FILE        save the game record to FILE
+  --quiet              print only the result
+  --help               show this message`;
+
+function fail(message: string, code = 2): never {
+  console.error(`anchorhex match: ${message}\n\n${USAGE}`);
+  process.exit(code);
+}
+
+function readOptions() {
+  try {
+    return parseArgs({
+      options: {
+        black: { type: "string" },
+        white: { type: "string" },
+        size: { type: "string", default: "8" },
+        komi: { type: "string", default: "0" },
+        timeout: { type: "string", default: String(DEFAULT_TIMEOUT_MS / 1000) },
+        "max-moves": { type: "string" },
+        record: { type: "string" },
+        quiet: { type: "boolean", default: false },
+        help: { type: "boolean", default: false },
+      },
+    }).values;
+  } catch (e) {
+    return fail((e as Error).message);
+  }
+}
+
+const values = readOptions();
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+if (!values.black || !values.white) fail("both --black and --white are needed");
+const size = /^(\d+)(?:x(\d+))?$/.exec(values.size);
+const rows = Number(size?.[1]);
+const cols = Number(size?.[2] ?? rows);
+if (![rows, cols].every((n) => n >= MIN_BOARD_SIZE && n <= MAX_BOARD_SIZE))
+  fail(`bad board size "${values.size}"`);
+const komi = Number(values.komi);
+if (validateRuleset({ ...DEFAULT_RULESET, komi }, presetConfig(rows, cols)).length > 0)
+  fail(`bad komi "${values.komi}"`);
+const timeout = Number(values.timeout) * 1000;
+if (!(timeout > 0)) fail(`bad timeout "${values.timeout}"`);
+const maxMoves =
+  values["max-moves"] === undefined ? undefined : Number(values["max-moves"]);
+if (maxMoves !== undefined && !(Number.isInteger(maxMoves) && maxMoves > 0))
+  fail(`bad move limit "${values["max-moves"]}"`);
+
+const start = (command: string) => {
+  const [program, ...args] = command.trim().split(/\s+/);
+  return spawnEngine(program, args, timeout);
+};
+const black = start(values.black);
+const white = start(values.white);
+// An engine's name, or its command if it will not say
+const nameOf = async (engine: EngineProcess, command: string) => {
+  const reply = await engine.send("name");
+  return reply.status === "ok" && reply.text ? reply.text : command;
+};
+const players = {
+  black: await nameOf(black, values.black),
+  white: await nameOf(white, values.white),
+};
+if (!values.quiet) console.log(`Black: ${players.black}\nWhite: ${players.white}`);
+
+const result = await refereeMatch(black, white, {
+  rows,
+  cols,
+  komi,
+  maxMoves,
+  onMove: (m, state) => {
+    if (!values.quiet) console.log(`${state.moves.length}. ${formatMove(m.move)}`);
+  },
+});
+await Promise.all([black.close(), white.close()]);
+
+const why = result.detail ? `${result.reason}: ${result.detail}` : result.reason;
+console.log(`Result: ${finalScore(result.state)} (${why})`);
+if (values.record) writeFileSync(values.record, serializeGame(result.state, players));
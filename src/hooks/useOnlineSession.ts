@@ -0,0 +1,144 @@
+// Online play from the app's side (the protocol is in ../net): the connection to the
+// game server and this tab's room on it. The server holds the game; each state it
+// sends replaces this tab's copy through `onGame`.
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import type { ClockState } from "../game/clock";
+import type { Player } from "../game/engine";
+import type { Players } from "../game/record";
+import type { GameTree } from "../game/tree";
+import type { GuestMessage, Seat } from "../multitab";
+import {
+  connectOnline,
+  newToken,
+  type OnlineClient,
+  type OnlineStatus,
+} from "../net/client";
+import type {
+  ChatLine,
+  ClientMessage,
+  NetError,
+  SeatStatus,
+  ServerMessage,
+} from "../net/protocol";
+import { decodeGame, encodeGame, newGameId } from "../persistence";
+
+// This tab's room on a game server, as the server last described it
+export type OnlineSession = {
+  status: OnlineStatus;
+  room: string | null;
+  seat: Seat | null;
+  seats: Record<Player, SeatStatus>;
+  undo: Player | null;
+  chat: ChatLine[];
+  error: NetError | null;
+};
+
+type Options = {
+  tree: GameTree;
+  players: Players;
+  gameId: string;
+  setClock: Dispatch<SetStateAction<ClockState | null>>;
+  setGameId: (id: string) => void;
+  // A game from the server that replaces this tab's copy
+  onGame: (tree: GameTree) => void;
+  // Clears the view as this tab creates or joins a room
+  onOpen: () => void;
+};
+
+export function useOnlineSession({
+  tree,
+  players,
+  gameId,
+  setClock,
+  setGameId,
+  onGame,
+  onOpen,
+}: Options) {
+  const [session, setSession] = useState<OnlineSession | null>(null);
+  const clientRef = useRef<OnlineClient | null>(null);
+
+  // What the server sends. Each state replaces this tab's copy of the game, so a
+  // reconnection (which brings a fresh state) leaves nothing to catch up on.
+  const onServerMessage = useCallback(
+    (msg: ServerMessage) => {
+      if (msg.type === "joined") {
+        setSession((o) => o && { ...o, room: msg.room, seat: msg.seat, error: null });
+      } else if (msg.type === "error") {
+        setSession((o) => o && { ...o, error: msg.error });
+      } else {
+        const t = decodeGame(msg.game);
+        if (t) onGame(t);
+        setSession(
+          (o) => o && { ...o, seats: msg.seats, undo: msg.undo, chat: msg.chat },
+        );
+      }
+    },
+    [onGame],
+  );
+
+  // Creates a room playing the game in progress (untimed: the server keeps no clock),
+  // or joins the room with code `room`
+  const open = useCallback(
+    (url: string, seat: Seat, room: string | null) => {
+      const token = newToken();
+      const hello: Extract<ClientMessage, { type: "create" | "join" }> =
+        room === null
+          ? { type: "create", token, seat, game: encodeGame(gameId, tree, players) }
+          : { type: "join", token, room, seat };
+      clientRef.current?.close();
+      setSession({
+        status: "connecting",
+        room: null,
+        seat: null,
+        seats: { BLACK: "empty", WHITE: "empty" },
+        undo: null,
+        chat: [],
+        error: null,
+      });
+      clientRef.current = connectOnline(url, hello, onServerMessage, (status) =>
+        setSession((o) => o && { ...o, status }),
+      );
+      setClock(null);
+      onOpen();
+    },
+    [gameId, tree, players, onServerMessage, setClock, onOpen],
+  );
+
+  // Leaving keeps the copy of the game as a game of this tab's own
+  const leave = useCallback(() => {
+    clientRef.current?.close();
+    clientRef.current = null;
+    setSession(null);
+    setGameId(newGameId());
+  }, [setGameId]);
+
+  // A move, resignation or undo request from this tab, in the server's terms
+  const send = useCallback((msg: GuestMessage) => {
+    const client = clientRef.current;
+    setSession((o) => o && { ...o, error: null });
+    if (msg.type === "move")
+      client?.send(
+        msg.move === "pass" ? { type: "pass" } : { type: "move", move: msg.move },
+      );
+    else if (msg.type === "undo-answer")
+      client?.send({ type: "undo-answer", accept: msg.accept });
+    else if (msg.type === "resign" || msg.type === "undo-request")
+      client?.send({ type: msg.type });
+  }, []);
+
+  const chat = useCallback((text: string) => {
+    clientRef.current?.send({ type: "chat", text });
+  }, []);
+
+  useEffect(() => () => clientRef.current?.close(), []);
+
+  return { session, open, leave, send, chat };
+}
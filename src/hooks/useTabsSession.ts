@@ -0,0 +1,273 @@
+// Multi-tab play from the app's side (the protocol is in ../multitab): this tab's id,
+// its session as host or guest, and the channel to the other tabs while it has one.
+// The game stays with the app, which passes it in; games played at the host or sent
+// by it come back through `onGame`.
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import { pauseClock, type ClockState } from "../game/clock";
+import type { GameTree } from "../game/tree";
+import {
+  DISCONNECT_MS,
+  HEARTBEAT_MS,
+  NO_HOST,
+  expireGuests,
+  guestReceive,
+  hostGone,
+  hostReceive,
+  isGuestMessage,
+  newRoom,
+  newTabId,
+  openTabChannel,
+  seatOf,
+  stateMessage,
+  type GuestMessage,
+  type GuestView,
+  type HostMessage,
+  type HostRoom,
+  type Seat,
+  type TabChannel,
+  type TabRejection,
+} from "../multitab";
+import { newGameId } from "../persistence";
+
+// This tab's part in a game played across tabs: hosting it, or joining it with the
+// seat wanted (taken again if the host frees it or a new host takes over)
+export type TabSession =
+  | { role: "host"; room: HostRoom }
+  | { role: "guest"; want: Seat; since: number; view: GuestView };
+
+// Hosting, or a guest connected, still looking for the host, or with the host gone
+export type TabStatus = "host" | "connected" | "looking" | "lost";
+
+type Options = {
+  tree: GameTree;
+  clock: ClockState | null;
+  gameId: string;
+  setClock: Dispatch<SetStateAction<ClockState | null>>;
+  setGameId: (id: string) => void;
+  // A game that replaces this tab's copy; `played` when this tab, hosting, played a
+  // message through it (as a move of its own would be)
+  onGame: (tree: GameTree, played: boolean) => void;
+  // Clears the view as this tab hosts or joins
+  onOpen: () => void;
+};
+
+export function useTabsSession({
+  tree,
+  clock,
+  gameId,
+  setClock,
+  setGameId,
+  onGame,
+  onOpen,
+}: Options) {
+  const [me] = useState(newTabId);
+  const [session, setSession] = useState<TabSession | null>(null);
+  const [error, setError] = useState<TabRejection | null>(null);
+  // When the other tabs were last looked for, for the guest's status
+  const [now, setNow] = useState(Date.now);
+  const channelRef = useRef<TabChannel | null>(null);
+  const seenRef = useRef<Record<string, number>>({});
+
+  // Latest game and session, for the channel's callbacks
+  const latest = useRef({ tree, clock, session });
+  useEffect(() => {
+    latest.current = { tree, clock, session };
+  });
+
+  // Hosting: a message from a guest, or this tab's own intent, played through the host
+  // protocol. Replies to this tab are shown here; the rest go out on the channel.
+  const hostApply = useCallback(
+    (msg: GuestMessage) => {
+      const { tree: t, clock: c, session: s } = latest.current;
+      if (s?.role !== "host") return;
+      const res = hostReceive(s.room, t, c, msg, Date.now());
+      const next: TabSession = { ...s, room: res.room };
+      latest.current = { tree: res.tree, clock: res.clock, session: next };
+      if (res.tree !== t) onGame(res.tree, true);
+      if (res.clock !== c) setClock(res.clock);
+      if (res.room !== s.room) setSession(next);
+      if (msg.from === me) setError(null);
+      for (const m of res.out) {
+        if (m.type === "rejected" && m.to === me) setError(m.error);
+        else channelRef.current?.post(m);
+      }
+    },
+    [me, onGame, setClock],
+  );
+
+  // Joined: the host's messages update what this tab knows and its copy of the game
+  const guestApply = useCallback(
+    (msg: HostMessage) => {
+      const { session: s } = latest.current;
+      if (s?.role !== "guest") return;
+      const { view, tree: t } = guestReceive(s.view, msg, me, Date.now());
+      const next: TabSession = { ...s, view };
+      latest.current = { ...latest.current, session: next };
+      setSession(next);
+      if (t && msg.type === "state") {
+        onGame(t, false);
+        setClock(msg.game.clock ?? null);
+      }
+    },
+    [me, onGame, setClock],
+  );
+
+  // Starts a multi-tab game: hosting the game in progress, or joining another tab's
+  const open = useCallback(
+    (role: "host" | "guest", seat: Seat) => {
+      const t = Date.now();
+      seenRef.current = {};
+      setSession(
+        role === "host"
+          ? { role, room: newRoom(me, gameId, seat) }
+          : { role, want: seat, since: t, view: NO_HOST },
+      );
+      setNow(t);
+      setError(null);
+      onOpen();
+    },
+    [me, gameId, onOpen],
+  );
+
+  // A guest asks for another seat (or again after a refusal); any other tab joins
+  const join = useCallback(
+    (seat: Seat) => {
+      if (session?.role === "guest")
+        setSession({ ...session, want: seat, view: { ...session.view, rejected: null } });
+      else open("guest", seat);
+    },
+    [session, open],
+  );
+
+  // The host is gone: this tab hosts the game from its copy, keeping its seat
+  const takeOver = useCallback(() => {
+    if (session?.role !== "guest") return;
+    const { view } = session;
+    const id = view.gameId ?? gameId;
+    seenRef.current = {};
+    setGameId(id);
+    setSession({ role: "host", room: newRoom(me, id, view.seat ?? "spectator") });
+  }, [session, gameId, me, setGameId]);
+
+  // A guest keeps its copy of the game as a game of its own
+  const leave = useCallback(() => {
+    if (session?.role === "guest") {
+      setGameId(newGameId());
+      setClock((c) => c && pauseClock(c, Date.now()));
+    }
+    setSession(null);
+    setError(null);
+  }, [session, setGameId, setClock]);
+
+  // A move, resignation or undo request from this tab
+  const send = useCallback(
+    (msg: GuestMessage) => {
+      if (session?.role === "host") {
+        hostApply(msg);
+      } else if (session?.role === "guest") {
+        setSession({ ...session, view: { ...session.view, rejected: null } });
+        channelRef.current?.post(msg);
+      }
+    },
+    [session, hostApply],
+  );
+
+  // The channel is open while this tab hosts or has joined. Every tab pings so the
+  // others can tell it is still there; a guest asks for its seat until it has one,
+  // and a host frees the seats of guests that went quiet.
+  const role = session?.role;
+  useEffect(() => {
+    if (!role) return;
+    const channel = openTabChannel((msg) => {
+      if (role === "host") {
+        if (!isGuestMessage(msg)) return;
+        seenRef.current[msg.from] = Date.now();
+        hostApply(msg);
+      } else if (!isGuestMessage(msg)) {
+        guestApply(msg);
+      }
+    });
+    channelRef.current = channel;
+    const beat = () => {
+      const { session: s } = latest.current;
+      const t = Date.now();
+      setNow(t);
+      if (s?.role === "host") {
+        channel?.post({ type: "host-ping", from: me });
+        setSession((cur) => {
+          if (cur?.role !== "host") return cur;
+          const room = expireGuests(cur.room, seenRef.current, t);
+          return room === cur.room ? cur : { ...cur, room };
+        });
+      } else if (s?.role === "guest") {
+        const { view, want } = s;
+        channel?.post(
+          view.seat === null && !view.rejected
+            ? { type: "join", from: me, seat: want }
+            : { type: "ping", from: me },
+        );
+      }
+    };
+    beat();
+    const timer = window.setInterval(beat, HEARTBEAT_MS);
+    const bye = () =>
+      channel?.post(
+        role === "host" ? { type: "host-left", from: me } : { type: "leave", from: me },
+      );
+    window.addEventListener("pagehide", bye);
+    return () => {
+      bye();
+      window.clearInterval(timer);
+      window.removeEventListener("pagehide", bye);
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, [role, me, hostApply, guestApply]);
+
+  // The host sends the game out whenever it, the clock or the room changes
+  const hostRoom = session?.role === "host" ? session.room : null;
+  useEffect(() => {
+    if (hostRoom) channelRef.current?.post(stateMessage(hostRoom, tree, clock));
+  }, [hostRoom, tree, clock]);
+
+  const status: TabStatus | null =
+    session === null
+      ? null
+      : session.role === "host"
+        ? "host"
+        : !hostGone(session.view, now)
+          ? "connected"
+          : session.view.hostSeen === 0 && now - session.since <= DISCONNECT_MS
+            ? "looking"
+            : "lost";
+
+  return {
+    me,
+    session,
+    status,
+    // This tab's seat: undefined outside a session, null while a guest waits for one
+    seat:
+      session?.role === "host"
+        ? (seatOf(session.room.seats, me) ?? "spectator")
+        : session?.view.seat,
+    seats:
+      session?.role === "host"
+        ? session.room.seats
+        : (session?.view.seats ?? NO_HOST.seats),
+    undo: session?.role === "host" ? session.room.undo : (session?.view.undo ?? null),
+    error: session?.role === "guest" ? session.view.rejected : error,
+    open,
+    join,
+    takeOver,
+    leave,
+    send,
+  };
+}
@@ -0,0 +1,672 @@
+// UI strings for the supported languages.
+
+export type Lang = "en" | "zh";
+
+export const translations = {
+  en: {
+    pass: "Pass",
+    passTitleHasMoves: "You have legal moves",
+    passTitleNoMoves: "Pass (no legal moves)",
+    undo: "Undo",
+    undoTitle: "Undo (U)",
+    restart: "Restart",
+    restartTitle: "Restart (R)",
+    resign: "Resign",
+    resignTitle: "Resign the game",
+    moveHash: "Move #",
+    moveLabel: (n: number) => `Move #${n}`,
+    turn: "Turn:",
+    chooseHighlighted: "— choose a highlighted cell",
+    noLegal: "— no legal moves",
+    showWhiteReach: "Show WHITE reach (stones+empties)",
+    showBlackReach: "Show BLACK reach (stones+empties)",
+    showTerritory: "Show ownership (scoring mode)",
+    rulesTitle: "Rules",
+    rules: [
+      "On your turn, place a stone on any highlighted empty cell (those are the cells that can survive).",
+      "A stone survives if it can connect to its base via a path of your stones and empty cells.",
+      "After every move, all dead stones for both sides are removed automatically.",
+      "The game ends when neither side has any legal move.",
+      "Scoring is chosen in Setup. Area (default): stones + empty territory reachable from your base by empty-only paths and not from the opponent's base.",
+    ],
+    tipsTitle: "Tips",
+    tips: [
+      "Use Undo to rethink (keyboard: U), Restart to begin anew (R).",
+      "Undo keeps the line: step back (←/→, Home/End) and play a different move to start a variation; switch variations with ↑/↓.",
+      "Toggle overlays to understand connectivity and territory formation.",
+      "Without a mouse: Tab to the board, move between cells with the arrow keys or Q/W/E/A/S/D (the six hex directions) and press Enter to place a stone.",
+      "The highlighted legal cells come from reachability to your base across empty cells and your stones.",
+    ],
+    gameOverWhite: (w: number, b: number) => `Game Over — White wins ${w} : ${b}`,
+    gameOverBlack: (w: number, b: number) => `Game Over — Black wins ${b} : ${w}`,
+    gameOverDraw: (w: number, b: number) => `Game Over — Draw ${w} : ${b}`,
+    gameOverResign: (winner: string) => `Game Over — ${winner} wins by resignation`,
+    gameOverTime: (winner: string) => `Game Over — ${winner} wins on time`,
+    newGame: "New Game",
+    inspect: "Inspect Board",
+    replay: "Replay",
+    replayButtonTitle: "Replay the game move by move",
+    replayTitle: "Replay",
+    replayStepBack: "Previous move (←)",
+    replayStepForward: "Next move (→)",
+    replayPlay: "Play (Space)",
+    replayPause: "Pause (Space)",
+    replaySpeed: "Speed",
+    replayExit: "Exit replay",
+    replaySlider: "Move shown",
+    replayPly: (n: number, total: number) => `Move ${n} / ${total}`,
+    replayCaptures: (w: number, b: number) => `Captured — by White: ${w}, by Black: ${b}`,
+    replayScore: (w: number, b: number) => `Score — White ${w}, Black ${b}`,
+    whiteScore: "White score:",
+    blackScore: "Black score:",
+    stones: "stones",
+    territory: "territory",
+    komi: "komi",
+    komiInfo: (k: number) => `Komi ${k}`,
+    captures: "captures",
+    neutral: "neutral",
+    neutralCells: (n: number) => `Neutral cells: ${n}`,
+    ownershipLegend: { WHITE: "White", BLACK: "Black", NEUTRAL: "Neutral" },
+    boardLabel: (rows: number, cols: number) =>
+      `Board, ${rows} by ${cols}. Move with the arrow keys or Q W E A S D; Enter places a stone.`,
+    cellContent: {
+      empty: "empty",
+      whiteStone: "White stone",
+      blackStone: "Black stone",
+      whiteBase: "White base",
+      blackBase: "Black base",
+    },
+    cellLegal: "legal move",
+    cellIllegal: "not playable",
+    cellOwner: { WHITE: "White territory", BLACK: "Black territory", NEUTRAL: "neutral" },
+    announceMove: (side: string, cell: string) => `${side} plays ${cell}.`,
+    announcePass: (side: string) => `${side} passes.`,
+    announceCaptures: (n: number, side: string) =>
+      `${n} ${side} stone${n === 1 ? "" : "s"} captured.`,
+    announceTurn: (side: string) => `${side} to move.`,
+    previewScore: (black: string, white: string) =>
+      `Score change: Black ${black}, White ${white}`,
+    white: "WHITE",
+    black: "BLACK",
+    langToggle: "中文",
+    langToggleTitle: "Switch language",
+    setup: "Setup",
+    download: "Download",
+    downloadTitle: "Download the game record",
+    upload: "Upload",
+    editBoard: "Edit board",
+    editBoardTitle: "Set up any position by hand and play from it",
+    editorTitle: "Board editor",
+    editorHelp:
+      "Click or drag on the board to paint with the selected tool. Play starts from this position with the current rules (no handicap).",
+    editorTool: "Tool",
+    editorTools: {
+      black: "Black stone",
+      white: "White stone",
+      empty: "Erase",
+      whiteBase: "Move White base",
+      blackBase: "Move Black base",
+    },
+    editorToMove: "To move",
+    editorDeadStones: (cells: string) =>
+      `These stones are cut off from their base and would be captured at once: ${cells}.`,
+    editorRemoveDead: "Remove them",
+    editorClear: "Clear stones",
+    editorStart: "Play from here",
+    puzzles: "Puzzles",
+    puzzlesTitle: "Solve capture and endgame problems",
+    puzzleTitle: (n: number, total: number) => `Puzzle ${n} of ${total}`,
+    puzzleGoals: {
+      capture: (n: number) => `Capture ${n} stones.`,
+      disconnect: (cell: string) => `Capture the stone at ${cell}.`,
+      win: "Win the game.",
+    },
+    puzzleToPlay: (side: string, moves: number) =>
+      `${side} to play, in ${moves} move${moves === 1 ? "" : "s"}.`,
+    puzzleYourMove: "Your move.",
+    puzzleReply: (move: string) => `The opponent answered ${move}. Your move.`,
+    puzzleSolved: "Solved!",
+    puzzleFailed: "That does not work.",
+    puzzleRefutation: (move: string) => `That does not work: ${move} refutes it.`,
+    puzzleRetry: "Retry",
+    puzzleShowSolution: "Show solution",
+    puzzleSolution: (line: string) => `Solution: ${line}`,
+    puzzlePrev: "Previous",
+    puzzleNext: "Next",
+    puzzleExit: "Exit",
+    tabs: "Tabs",
+    tabsButtonTitle: "Play with other tabs or windows of this browser",
+    tabsTitle: "Play across tabs",
+    tabsHelp:
+      "Host the current game here, or join the game another tab of this browser hosts. Each tab takes a seat; moves are checked by the host.",
+    tabsUnsupported: "This browser cannot connect tabs.",
+    tabsSeat: "Seat",
+    tabsSeats: { BLACK: "Black", WHITE: "White", spectator: "Watch" },
+    tabsHost: "Host this game",
+    tabsJoin: "Join",
+    tabsHosting: "Hosting this game.",
+    tabsLooking: "Looking for a host tab…",
+    tabsConnected: "Connected to the host tab.",
+    tabsHostLost: "The host tab has closed or stopped answering.",
+    tabsTakeOver: "Host from here",
+    tabsEmpty: "empty",
+    tabsYou: "this tab",
+    tabsTaken: "another tab",
+    tabsWatching: "You are watching.",
+    tabsOtherTurn: "waiting for the other tab",
+    tabsUndo: "Ask to undo",
+    tabsUndoAsked: (side: string) => `${side} asks to take back their last move.`,
+    tabsUndoWaiting: "Waiting for the opponent to accept the undo.",
+    tabsAccept: "Accept",
+    tabsDecline: "Decline",
+    tabsLeave: "Leave",
+    tabsErrors: {
+      SEAT_TAKEN: "That seat is taken.",
+      NOT_SEATED: "Only a seated player can do that.",
+      NOT_YOUR_TURN: "It is not your turn.",
+      BAD_MOVE: "The host could not read that move.",
+      NO_UNDO_REQUEST: "There is no undo request to answer.",
+      GAME_OVER: "The game is over.",
+      OUT_OF_BOUNDS: "That cell is off the board.",
+      OCCUPIED: "That cell is taken.",
+      CANNOT_SURVIVE: "A stone there would be cut off from its base.",
+      SUPERKO: "That move would repeat an earlier position.",
+      HAS_LEGAL_MOVES: "You cannot pass while you have a legal move.",
+      NOTHING_TO_UNDO: "There is no move of yours to take back.",
+    },
+    online: "Online",
+    onlineButtonTitle: "Play against someone else through a game server",
+    onlineTitle: "Play online",
+    onlineHelp:
+      "Start a room with the current game and pass its code on, or join a room by its code. The server checks every move; run one with `pnpm server`.",
+    onlineServer: "Server",
+    onlineCreate: "New room",
+    onlineRoom: "Room code",
+    onlineStatus: {
+      connecting: "Connecting…",
+      open: "Connected.",
+      reconnecting: "Connection lost, reconnecting…",
+      closed: "Disconnected.",
+    },
+    onlineInRoom: (code: string) => `Room ${code}`,
+    onlineSeatStatus: { empty: "empty", online: "online", away: "away" },
+    onlineYou: "you",
+    onlineOtherTurn: "waiting for the opponent",
+    onlineChat: "Chat",
+    onlineSend: "Send",
+    onlineErrors: {
+      BAD_MESSAGE: "The server could not read that request.",
+      BAD_GAME: "The server could not replay this game.",
+      NO_ROOM: "There is no room with that code.",
+      NOT_IN_ROOM: "Join a room first.",
+    },
+    copyLink: "Copy link",
+    copyLinkTitle: "Copy a link to this game up to the position shown",
+    copyPosition: "Copy position",
+    copyPositionTitle: "Copy a link to the position shown, without the moves",
+    linkCopied: "Link copied to the clipboard.",
+    linkCopyFailed: "Could not copy automatically — copy the link:",
+    linkErrorTitle: "Could not open link:",
+    linkErrors: {
+      BAD_VERSION: "not an AnchorHex link of a supported version.",
+      BAD_FORMAT: "the board or side to move is missing.",
+      BAD_BOARD: "the board is malformed or its size or bases are invalid.",
+      BAD_RULES: "invalid rules, komi or handicap.",
+      DEAD_STONES: "a stone is cut off from its base, which the rules do not allow.",
+      BAD_MOVE: "malformed move.",
+      ILLEGAL_MOVE: "illegal move.",
+    },
+    savedGames: "Games",
+    savedGamesButtonTitle: "Games saved in this browser",
+    savedGamesTitle: "Saved games",
+    savedGamesEmpty:
+      "No saved games yet. Games are saved automatically once a move is played.",
+    savedMoves: (n: number) => `${n} move${n === 1 ? "" : "s"}`,
+    savedFinished: (result: string) => `Finished ${result}`,
+    savedInProgress: (p: string) => `In progress, ${p} to move`,
+    savedCurrent: "Current game",
+    savedOpen: "Open",
+    savedDelete: "Delete",
+    savedGameDamaged: "This saved game could not be restored and was removed.",
+    close: "Close",
+    uploadTitle: "Load a game record",
+    dismiss: "Dismiss",
+    recordErrorLine: (n: number) => `Could not load record — line ${n}:`,
+    recordErrors: {
+      BAD_VERSION: "not an AnchorHex game record of a supported version.",
+      BAD_HEADER: "malformed or unknown header line.",
+      MISSING_HEADER: "a required header is missing.",
+      BAD_CONFIG: "invalid board size, base or ruleset.",
+      BAD_MOVE: "malformed move.",
+      ILLEGAL_MOVE: "illegal move.",
+      RESULT_MISMATCH: "the result does not match the moves.",
+    },
+    human: "Human",
+    computer: (level: string) => `Computer (${level})`,
+    botLevels: { easy: "easy", medium: "medium", hard: "hard", mcts: "MCTS" },
+    analysisLine: (playouts: number, winRate: number, pv: string) =>
+      `Search: ${playouts} playouts · win rate ${winRate}% · PV ${pv}`,
+    computerThinking: "— computer is thinking…",
+    moveLogTitle: "Moves",
+    moveLogEmpty: "No moves yet.",
+    passNotation: "pass",
+    resignNotation: "resign",
+    timeoutNotation: "time",
+    variationsTitle: "Variations",
+    treeStart: "Start",
+    navStart: "Go to start (Home)",
+    navBack: "Back (←)",
+    navForward: "Forward (→)",
+    navEnd: "Go to end (End)",
+    navPrevVariation: "Previous variation (↑)",
+    navNextVariation: "Next variation (↓)",
+    promoteVariation: "Promote",
+    promoteVariationTitle: "Move this variation up towards the main line",
+    deleteBranch: "Delete",
+    deleteBranchTitle: "Delete this move and everything after it",
+    capturedWhite: (n: number) => `${n} white stone(s) captured`,
+    capturedBlack: (n: number) => `${n} black stone(s) captured`,
+    setupTitle: "Board setup",
+    presets: "Presets",
+    custom: "Custom",
+    rowsLabel: "Rows",
+    colsLabel: "Columns",
+    whiteBaseLabel: "White base (row, col)",
+    blackBaseLabel: "Black base (row, col)",
+    repetitionLabel: "Repetition rule",
+    repetitionRules: {
+      positional: "Positional superko",
+      situational: "Situational superko",
+      "simple-ko": "Simple ko",
+      none: "No restriction",
+    },
+    repetitionHelp: {
+      positional: "A move may not recreate any earlier board position.",
+      situational:
+        "A move may not recreate an earlier board position with the same player to move.",
+      "simple-ko":
+        "A move may not immediately recreate the position before the opponent's last move. A pass lifts this.",
+      none: "Positions may repeat.",
+    },
+    scoringLabel: "Scoring",
+    scoringModes: {
+      area: "Area",
+      territory: "Territory + captures",
+      connected: "Connected stones",
+    },
+    scoringHelp: {
+      area: "Stones on the board plus empty cells only your base reaches through empty cells.",
+      territory:
+        "Empty regions bordered only by your stones or base, plus the stones you captured. Stones themselves do not count.",
+      connected:
+        "Only stones linked to your base by an unbroken chain of your own stones. Empty cells do not count.",
+    },
+    scoringInfo: (mode: string) => `Scoring: ${mode}`,
+    komiLabel: "Komi (added to White)",
+    handicapLabel: "Handicap",
+    handicapTypes: { none: "None", stones: "Extra stones", moves: "Extra opening moves" },
+    handicapFor: "for",
+    handicapCount: "Count",
+    rulesetErrors: {
+      BAD_KOMI: (max: number) => `Komi must be a whole or half number up to ±${max}.`,
+      BAD_HANDICAP: (max: number) => `Handicap must be between 1 and ${max}.`,
+    },
+    timeControlLabel: "Time control",
+    timeControlTypes: {
+      none: "Untimed",
+      "sudden-death": "Sudden death",
+      fischer: "Fischer increment",
+      "byo-yomi": "Byo-yomi",
+    },
+    mainTimeLabel: "Main time (minutes)",
+    incrementLabel: "Increment (seconds)",
+    periodsLabel: "Periods",
+    periodTimeLabel: "Period (seconds)",
+    timeControlError: (max: number) =>
+      `Main time must be from 1 second (0 with byo-yomi) to 10 hours, a period at least 1 second, with 1 to ${max} periods.`,
+    clockPause: "Pause clocks",
+    clockResume: "Resume clocks",
+    clockPaused: "Clocks paused — moves wait until they resume.",
+    clockPeriods: (n: number) => `×${n}`,
+    startGame: "Start game",
+    cancel: "Cancel",
+    configErrors: {
+      BAD_DIMENSIONS: (min: number, max: number) =>
+        `Rows and columns must be whole numbers between ${min} and ${max}.`,
+      BASE_OUT_OF_BOUNDS: (p: string) => `${p} base is outside the board.`,
+      BASES_OVERLAP: () => "The two bases must be on different cells.",
+      BASE_NOT_EMPTY: (p: string) => `${p} base must be on an empty cell.`,
+    },
+  },
+  zh: {
+    pass: "过手",
+    passTitleHasMoves: "当前有合法落子",
+    passTitleNoMoves: "过手（无合法落子）",
+    undo: "撤销",
+    undoTitle: "撤销 (U)",
+    restart: "重新开始",
+    restartTitle: "重新开始 (R)",
+    resign: "认输",
+    resignTitle: "认输结束对局",
+    movePrefix: "第",
+    moveSuffix: "手",
+    moveLabel: (n: number) => `第${n}手`,
+    turn: "轮到：",
+    chooseHighlighted: "— 选择高亮的格子",
+    noLegal: "— 无合法落子",
+    showWhiteReach: "显示 白方 连通（棋子+空位）",
+    showBlackReach: "显示 黑方 连通（棋子+空位）",
+    showTerritory: "显示 归属（按计分方式）",
+    rulesTitle: "规则",
+    rules: [
+      "轮到你时，在任意高亮的空格落子（这些是可以存活的点）。",
+      "若一枚棋子能通过你方棋子与空位的路径连接到你的基地，则它存活。",
+      "每一步之后，双方所有不再连到各自基地的棋子会被移除。",
+      "当双方都没有合法落子时，对局结束。",
+      "计分方式在设置中选择。数子法（默认）：得分 = 棋子数 + 仅从你的基地出发经空位可达且对手不可达的空位数。",
+    ],
+    tipsTitle: "提示",
+    tips: [
+      "使用 撤销 重新思考（快捷键 U），使用 重新开始 开启新对局（快捷键 R）。",
+      "撤销不会丢弃着法：后退（←/→、Home/End）后下出不同的一手即产生变化；用 ↑/↓ 切换变化。",
+      "切换覆盖层以理解连通与地盘的形成。",
+      "不用鼠标：按 Tab 进入棋盘，用方向键或 Q/W/E/A/S/D（六个方向）在格子间移动，按回车落子。",
+      "高亮的合法点来自：通过空位与己方棋子连接到你的基地的可达性。",
+    ],
+    gameOverWhite: (w: number, b: number) => `对局结束 — 白方胜 ${w} : ${b}`,
+    gameOverBlack: (w: number, b: number) => `对局结束 — 黑方胜 ${b} : ${w}`,
+    gameOverDraw: (w: number, b: number) => `对局结束 — 平局 ${w} : ${b}`,
+    gameOverResign: (winner: string) => `对局结束 — ${winner}中盘胜（对手认输）`,
+    gameOverTime: (winner: string) => `对局结束 — ${winner}胜（对手超时）`,
+    newGame: "新对局",
+    inspect: "查看棋局",
+    replay: "回放",
+    replayButtonTitle: "逐手回放本局",
+    replayTitle: "回放",
+    replayStepBack: "上一手 (←)",
+    replayStepForward: "下一手 (→)",
+    replayPlay: "播放 (空格)",
+    replayPause: "暂停 (空格)",
+    replaySpeed: "速度",
+    replayExit: "退出回放",
+    replaySlider: "当前显示的手数",
+    replayPly: (n: number, total: number) => `第 ${n} / ${total} 手`,
+    replayCaptures: (w: number, b: number) => `提子 — 白方：${w}，黑方：${b}`,
+    replayScore: (w: number, b: number) => `得分 — 白方 ${w}，黑方 ${b}`,
+    whiteScore: "白方得分：",
+    blackScore: "黑方得分：",
+    stones: "棋子",
+    territory: "地盘",
+    komi: "贴目",
+    komiInfo: (k: number) => `贴目 ${k}`,
+    captures: "提子",
+    neutral: "中立",
+    neutralCells: (n: number) => `中立格：${n}`,
+    ownershipLegend: { WHITE: "白方", BLACK: "黑方", NEUTRAL: "中立" },
+    boardLabel: (rows: number, cols: number) =>
+      `棋盘，${rows} 行 ${cols} 列。用方向键或 Q W E A S D 移动，按回车落子。`,
+    cellContent: {
+      empty: "空",
+      whiteStone: "白子",
+      blackStone: "黑子",
+      whiteBase: "白方基地",
+      blackBase: "黑方基地",
+    },
+    cellLegal: "可落子",
+    cellIllegal: "不可落子",
+    cellOwner: { WHITE: "白方地盘", BLACK: "黑方地盘", NEUTRAL: "中立" },
+    announceMove: (side: string, cell: string) => `${side}落子 ${cell}。`,
+    announcePass: (side: string) => `${side}停一手。`,
+    announceCaptures: (n: number, side: string) => `${side}被提 ${n} 子。`,
+    announceTurn: (side: string) => `轮到${side}。`,
+    previewScore: (black: string, white: string) =>
+      `得分变化：黑方 ${black}，白方 ${white}`,
+    white: "白方",
+    black: "黑方",
+    langToggle: "EN",
+    langToggleTitle: "切换语言",
+    setup: "设置",
+    download: "下载",
+    downloadTitle: "下载棋谱文件",
+    upload: "上传",
+    editBoard: "摆棋",
+    editBoardTitle: "手动摆出任意局面并从该局面开始对局",
+    editorTitle: "棋盘编辑器",
+    editorHelp:
+      "在棋盘上点击或拖动，用所选工具摆放。对局将从此局面开始，沿用当前规则（不含让子）。",
+    editorTool: "工具",
+    editorTools: {
+      black: "黑子",
+      white: "白子",
+      empty: "擦除",
+      whiteBase: "移动白方基地",
+      blackBase: "移动黑方基地",
+    },
+    editorToMove: "轮到",
+    editorDeadStones: (cells: string) =>
+      `以下棋子与己方基地断开，会被立即提掉：${cells}。`,
+    editorRemoveDead: "移除这些棋子",
+    editorClear: "清空棋子",
+    editorStart: "从此局面开始",
+    puzzles: "习题",
+    puzzlesTitle: "练习吃子和收官题",
+    puzzleTitle: (n: number, total: number) => `第 ${n} 题（共 ${total} 题）`,
+    puzzleGoals: {
+      capture: (n: number) => `吃掉 ${n} 颗棋子。`,
+      disconnect: (cell: string) => `吃掉 ${cell} 的棋子。`,
+      win: "赢下这局棋。",
+    },
+    puzzleToPlay: (side: string, moves: number) => `${side}先走，限 ${moves} 手。`,
+    puzzleYourMove: "轮到你走。",
+    puzzleReply: (move: string) => `对方应了 ${move}，轮到你走。`,
+    puzzleSolved: "解答正确！",
+    puzzleFailed: "这步不成立。",
+    puzzleRefutation: (move: string) => `这步不成立：对方 ${move} 即可化解。`,
+    puzzleRetry: "重做",
+    puzzleShowSolution: "显示答案",
+    puzzleSolution: (line: string) => `答案：${line}`,
+    puzzlePrev: "上一题",
+    puzzleNext: "下一题",
+    puzzleExit: "退出",
+    tabs: "多窗口",
+    tabsButtonTitle: "与本浏览器的其他标签页或窗口对弈",
+    tabsTitle: "多窗口对弈",
+    tabsHelp:
+      "在此主持当前对局，或加入本浏览器中另一标签页主持的对局。每个标签页各占一个座位，着法由主持方检查。",
+    tabsUnsupported: "此浏览器无法连接标签页。",
+    tabsSeat: "座位",
+    tabsSeats: { BLACK: "黑方", WHITE: "白方", spectator: "观战" },
+    tabsHost: "主持此对局",
+    tabsJoin: "加入",
+    tabsHosting: "正在主持此对局。",
+    tabsLooking: "正在寻找主持的标签页…",
+    tabsConnected: "已连接到主持的标签页。",
+    tabsHostLost: "主持的标签页已关闭或没有响应。",
+    tabsTakeOver: "改由此处主持",
+    tabsEmpty: "空",
+    tabsYou: "本标签页",
+    tabsTaken: "其他标签页",
+    tabsWatching: "正在观战。",
+    tabsOtherTurn: "等待另一标签页落子",
+    tabsUndo: "请求悔棋",
+    tabsUndoAsked: (side: string) => `${side}请求悔回上一手。`,
+    tabsUndoWaiting: "等待对方同意悔棋。",
+    tabsAccept: "同意",
+    tabsDecline: "拒绝",
+    tabsLeave: "离开",
+    tabsErrors: {
+      SEAT_TAKEN: "该座位已有人。",
+      NOT_SEATED: "只有入座的棋手才能这样做。",
+      NOT_YOUR_TURN: "还没轮到你。",
+      BAD_MOVE: "主持方无法识别这步棋。",
+      NO_UNDO_REQUEST: "没有待回应的悔棋请求。",
+      GAME_OVER: "对局已结束。",
+      OUT_OF_BOUNDS: "该格不在棋盘上。",
+      OCCUPIED: "该格已有棋子。",
+      CANNOT_SURVIVE: "落在这里的棋子会与基地断开。",
+      SUPERKO: "这步棋会重复之前的局面。",
+      HAS_LEGAL_MOVES: "有合法着法时不能过手。",
+      NOTHING_TO_UNDO: "你没有可悔回的棋。",
+    },
+    online: "联机",
+    onlineButtonTitle: "通过对局服务器与他人对弈",
+    onlineTitle: "联机对弈",
+    onlineHelp:
+      "用当前对局开一个房间并把房间号告诉对方，或输入房间号加入。每步棋由服务器检查；可用 `pnpm server` 运行服务器。",
+    onlineServer: "服务器",
+    onlineCreate: "新建房间",
+    onlineRoom: "房间号",
+    onlineStatus: {
+      connecting: "正在连接…",
+      open: "已连接。",
+      reconnecting: "连接中断，正在重连…",
+      closed: "已断开。",
+    },
+    onlineInRoom: (code: string) => `房间 ${code}`,
+    onlineSeatStatus: { empty: "空", online: "在线", away: "离开" },
+    onlineYou: "你",
+    onlineOtherTurn: "等待对方落子",
+    onlineChat: "聊天",
+    onlineSend: "发送",
+    onlineErrors: {
+      BAD_MESSAGE: "服务器无法识别该请求。",
+      BAD_GAME: "服务器无法复现此对局。",
+      NO_ROOM: "没有该房间号的房间。",
+      NOT_IN_ROOM: "请先加入房间。",
+    },
+    copyLink: "复制链接",
+    copyLinkTitle: "复制本局到当前显示局面的链接",
+    copyPosition: "复制局面",
+    copyPositionTitle: "复制当前显示局面的链接（不含着法）",
+    linkCopied: "链接已复制到剪贴板。",
+    linkCopyFailed: "无法自动复制，请手动复制链接：",
+    linkErrorTitle: "无法打开链接：",
+    linkErrors: {
+      BAD_VERSION: "不是受支持版本的 AnchorHex 链接。",
+      BAD_FORMAT: "缺少棋盘或行棋方。",
+      BAD_BOARD: "棋盘格式错误，或尺寸、基地无效。",
+      BAD_RULES: "规则、贴目或让子设置无效。",
+      DEAD_STONES: "有棋子与己方基地断开，规则不允许这种局面。",
+      BAD_MOVE: "着法格式错误。",
+      ILLEGAL_MOVE: "非法着法。",
+    },
+    savedGames: "对局",
+    savedGamesButtonTitle: "保存在本浏览器中的对局",
+    savedGamesTitle: "已保存的对局",
+    savedGamesEmpty: "暂无保存的对局。落子后对局会自动保存。",
+    savedMoves: (n: number) => `${n} 手`,
+    savedFinished: (result: string) => `已结束 ${result}`,
+    savedInProgress: (p: string) => `进行中，轮到${p}`,
+    savedCurrent: "当前对局",
+    savedOpen: "打开",
+    savedDelete: "删除",
+    savedGameDamaged: "该对局无法恢复，已从列表中移除。",
+    close: "关闭",
+    uploadTitle: "载入棋谱文件",
+    dismiss: "关闭",
+    recordErrorLine: (n: number) => `无法载入棋谱 — 第 ${n} 行：`,
+    recordErrors: {
+      BAD_VERSION: "不是受支持版本的 AnchorHex 棋谱。",
+      BAD_HEADER: "头部行格式错误或无法识别。",
+      MISSING_HEADER: "缺少必需的头部字段。",
+      BAD_CONFIG: "棋盘尺寸、基地或规则无效。",
+      BAD_MOVE: "着法格式错误。",
+      ILLEGAL_MOVE: "非法着法。",
+      RESULT_MISMATCH: "结果与着法不符。",
+    },
+    human: "玩家",
+    computer: (level: string) => `电脑（${level}）`,
+    botLevels: { easy: "简单", medium: "中等", hard: "困难", mcts: "蒙特卡洛" },
+    analysisLine: (playouts: number, winRate: number, pv: string) =>
+      `搜索：${playouts} 次模拟 · 胜率 ${winRate}% · 主变化 ${pv}`,
+    computerThinking: "— 电脑思考中…",
+    moveLogTitle: "棋谱",
+    moveLogEmpty: "尚无落子。",
+    passNotation: "过手",
+    resignNotation: "认输",
+    timeoutNotation: "超时",
+    variationsTitle: "变化图",
+    treeStart: "开局",
+    navStart: "回到开局 (Home)",
+    navBack: "后退 (←)",
+    navForward: "前进 (→)",
+    navEnd: "到达终局 (End)",
+    navPrevVariation: "上一个变化 (↑)",
+    navNextVariation: "下一个变化 (↓)",
+    promoteVariation: "提升",
+    promoteVariationTitle: "将此变化向主线方向提升一级",
+    deleteBranch: "删除",
+    deleteBranchTitle: "删除这一手及其后的所有着法",
+    capturedWhite: (n: number) => `吃掉白子 ${n} 枚`,
+    capturedBlack: (n: number) => `吃掉黑子 ${n} 枚`,
+    setupTitle: "棋盘设置",
+    presets: "预设",
+    custom: "自定义",
+    rowsLabel: "行数",
+    colsLabel: "列数",
+    whiteBaseLabel: "白方基地（行，列）",
+    blackBaseLabel: "黑方基地（行，列）",
+    repetitionLabel: "重复局面规则",
+    repetitionRules: {
+      positional: "局面超级劫",
+      situational: "情境超级劫",
+      "simple-ko": "简单劫",
+      none: "不限制",
+    },
+    repetitionHelp: {
+      positional: "落子后不得重现任何先前出现过的棋盘局面。",
+      situational: "落子后不得重现先前出现过且轮到同一方行棋的局面。",
+      "simple-ko": "落子后不得立即重现对手上一手之前的局面。过手后该限制解除。",
+      none: "局面可以重复。",
+    },
+    scoringLabel: "计分方式",
+    scoringModes: {
+      area: "数子法",
+      territory: "数目法（地盘 + 提子）",
+      connected: "连通棋子",
+    },
+    scoringHelp: {
+      area: "棋盘上的棋子，加上只有你的基地能经空位到达的空格。",
+      territory: "只与你方棋子或基地相邻的空白区域，加上你提掉的棋子。棋子本身不计分。",
+      connected: "只计通过你方棋子连成一串连到基地的棋子。空格不计分。",
+    },
+    scoringInfo: (mode: string) => `计分：${mode}`,
+    komiLabel: "贴目（加给白方）",
+    handicapLabel: "让子",
+    handicapTypes: { none: "无", stones: "预置棋子", moves: "开局连走" },
+    handicapFor: "给",
+    handicapCount: "数量",
+    rulesetErrors: {
+      BAD_KOMI: (max: number) => `贴目必须是整数或半目，且绝对值不超过 ${max}。`,
+      BAD_HANDICAP: (max: number) => `让子数必须在 1 到 ${max} 之间。`,
+    },
+    timeControlLabel: "计时方式",
+    timeControlTypes: {
+      none: "不计时",
+      "sudden-death": "包干制",
+      fischer: "费舍尔加秒",
+      "byo-yomi": "读秒",
+    },
+    mainTimeLabel: "基本用时（分钟）",
+    incrementLabel: "每步加秒",
+    periodsLabel: "读秒次数",
+    periodTimeLabel: "每次读秒（秒）",
+    timeControlError: (max: number) =>
+      `基本用时须在 1 秒（读秒可为 0）到 10 小时之间，每次读秒至少 1 秒，读秒次数为 1 到 ${max}。`,
+    clockPause: "暂停计时",
+    clockResume: "继续计时",
+    clockPaused: "计时已暂停，恢复计时后才能落子。",
+    clockPeriods: (n: number) => `×${n}`,
+    startGame: "开始对局",
+    cancel: "取消",
+    configErrors: {
+      BAD_DIMENSIONS: (min: number, max: number) =>
+        `行数和列数必须是 ${min} 到 ${max} 之间的整数。`,
+      BASE_OUT_OF_BOUNDS: (p: string) => `${p}基地超出棋盘范围。`,
+      BASES_OVERLAP: () => "两个基地必须位于不同的格子。",
+      BASE_NOT_EMPTY: (p: string) => `${p}基地必须位于空格上。`,
+    },
+  },
+} as const;
+
+export type Translation = (typeof translations)[Lang];
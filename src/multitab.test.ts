@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import { newClock, runClock } from "./game/clock";
+import { newGame } from "./game/state";
+import { currentState, newTree, type GameTree } from "./game/tree";
+import {
+  DISCONNECT_MS,
+  NO_HOST,
+  expireGuests,
+  guestReceive,
+  hostReceive,
+  newRoom,
+  newTabId,
+  stateMessage,
+  type GuestMessage,
+  type HostResult,
+} from "./multitab";
+
+const HOST = "host";
+
+// Feeds the host a run of messages, failing on any rejection
+function feed(start: HostResult, ...msgs: GuestMessage[]): HostResult {
+  let res = start;
+  for (const msg of msgs) {
+    res = hostReceive(res.room, res.tree, res.clock, msg, 0);
+    const rejected = res.out.find((m) => m.type === "rejected");
+    if (rejected) throw new Error(JSON.stringify(rejected));
+  }
+  return res;
+}
+
+// Hosting as Black, with "w" sitting as White
+function seated(): HostResult {
+  const res: HostResult = {
+    room: newRoom(HOST, "g1", "BLACK"),
+    tree: newTree(newGame()),
+    clock: null,
+    out: [],
+  };
+  return feed(res, { type: "join", from: "w", seat: "WHITE" });
+}
+
+const movesOf = (tree: GameTree) => currentState(tree).moves.length;
+
+describe("AnchorHex multi-tab play", () => {
+  it("seats players and checks every move at the host", () => {
+    let res = seated();
+    expect(res.room.seats).toEqual({ BLACK: HOST, WHITE: "w" });
+    const errors = (msg: GuestMessage) =>
+      hostReceive(res.room, res.tree, res.clock, msg, 0).out.map(
+        (m) => m.type === "rejected" && m.error.code,
+      );
+    expect(errors({ type: "join", from: "x", seat: "WHITE" })).toEqual(["SEAT_TAKEN"]);
+    expect(errors({ type: "move", from: "w", move: "d7" })).toEqual(["NOT_YOUR_TURN"]);
+    expect(errors({ type: "move", from: "x", move: "d7" })).toEqual(["NOT_SEATED"]);
+    expect(errors({ type: "move", from: HOST, move: "z9" })).toEqual(["BAD_MOVE"]);
+    expect(errors({ type: "move", from: HOST, move: "pass" })).toEqual([
+      "HAS_LEGAL_MOVES",
+    ]);
+    res = feed(res, { type: "move", from: HOST, move: "d7" });
+    expect(movesOf(res.tree)).toBe(1);
+    expect(errors({ type: "move", from: "w", move: "d7" })).toEqual(["OCCUPIED"]);
+    res = feed(res, { type: "resign", from: "w" });
+    expect(currentState(res.tree).result).toMatchObject({ winner: "BLACK" });
+  });
+
+  it("takes a move back only when the opponent accepts", () => {
+    let res = feed(
+      seated(),
+      { type: "move", from: HOST, move: "d7" },
+      { type: "move", from: "w", move: "e2" },
+      { type: "undo-request", from: "w" },
+    );
+    expect(res.room.undo).toBe("WHITE");
+    expect(
+      hostReceive(
+        res.room,
+        res.tree,
+        res.clock,
+        { type: "undo-answer", from: "w", accept: true },
+        0,
+      ).out[0],
+    ).toMatchObject({ type: "rejected", error: { code: "NO_UNDO_REQUEST" } });
+    const declined = feed(res, { type: "undo-answer", from: HOST, accept: false });
+    expect([declined.room.undo, movesOf(declined.tree)]).toEqual([null, 2]);
+    res = feed(res, { type: "undo-answer", from: HOST, accept: true });
+    expect([res.room.undo, movesOf(res.tree)]).toEqual([null, 1]);
+    // Black's request takes back White's reply too
+    res = feed(res, { type: "undo-request", from: HOST });
+    expect(res.room.undo).toBe("BLACK");
+    // With the other seat empty there is nobody to ask
+    res = feed(res, { type: "leave", from: "w" }, { type: "undo-request", from: HOST });
+    expect([res.room.undo, movesOf(res.tree)]).toEqual([null, 0]);
+  });
+
+  it("frees silent guests' seats and runs the mover's clock", () => {
+    const clock = runClock(
+      newClock({ type: "fischer", mainMs: 60_000, incrementMs: 5000 }),
+      "BLACK",
+      0,
+    );
+    let res: HostResult = { ...seated(), clock };
+    res = hostReceive(
+      res.room,
+      res.tree,
+      res.clock,
+      { type: "move", from: HOST, move: "d7" },
+      1000,
+    );
+    expect(res.clock?.sides.BLACK.remainingMs).toBe(64_000);
+    const room = expireGuests(res.room, { w: 1000 }, 1000 + DISCONNECT_MS);
+    expect(room).toBe(res.room);
+    const freed = expireGuests(room, { w: 1000 }, 1001 + DISCONNECT_MS);
+    expect(freed.seats).toEqual({ BLACK: HOST, WHITE: null });
+    // Back once heard from again
+    res = feed({ ...res, room: freed }, { type: "join", from: "w", seat: "WHITE" });
+    expect(res.room.seats.WHITE).toBe("w");
+  });
+
+  it("keeps a held seat from a duplicated tab until its holder leaves", () => {
+    // A duplicate of the tab sitting as White comes up with an id of its own
+    const copy = newTabId();
+    expect(copy).not.toBe(newTabId());
+    let res = seated();
+    const join: GuestMessage = { type: "join", from: copy, seat: "WHITE" };
+    expect(hostReceive(res.room, res.tree, res.clock, join, 0).out[0]).toMatchObject({
+      type: "rejected",
+      to: copy,
+      error: { code: "SEAT_TAKEN" },
+    });
+    // Closing or reloading the original frees the seat for the next join
+    res = feed(res, { type: "leave", from: "w" }, join);
+    expect(res.room.seats.WHITE).toBe(copy);
+  });
+
+  it("brings late joiners up to date and follows one host at a time", () => {
+    const res = feed(seated(), { type: "move", from: HOST, move: "d7" });
+    const state = stateMessage(res.room, res.tree, res.clock);
+    let { view, tree } = guestReceive(NO_HOST, state, "s", 0);
+    expect(view).toMatchObject({ hostId: HOST, seat: null, gameId: "g1" });
+    expect(tree && currentState(tree).moves).toEqual(currentState(res.tree).moves);
+    view = guestReceive(
+      view,
+      { type: "joined", from: HOST, to: "s", seat: "spectator" },
+      "s",
+      100,
+    ).view;
+    expect(view.seat).toBe("spectator");
+    // Another host is ignored until this one goes quiet
+    const other = { type: "host-ping", from: "other" } as const;
+    expect(guestReceive(view, other, "s", 200).view.hostId).toBe(HOST);
+    ({ view, tree } = guestReceive(view, other, "s", 101 + DISCONNECT_MS));
+    expect([view.hostId, view.seat, tree]).toEqual(["other", null, null]);
+    expect(
+      guestReceive(view, { type: "host-left", from: "other" }, "s", 0).view.hostId,
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,340 @@
+// Local multiplayer across tabs and windows of this browser. One tab hosts: its game
+// tree is the authority. Other tabs join as Black, White or a spectator and send move
+// intents, which the host plays through the tree (and so the reducer and `placeStone`)
+// before everyone is sent the new state. Messages travel over a BroadcastChannel; the
+// protocol below is pure so it can be tested without one.
+//
+//   - State: the host broadcasts the game as a SavedGame (see persistence.ts), clock
+//     included, whenever the game, clock, seats or undo request change and after every
+//     join, so late joiners catch up at once. Guests rebuild it with `decodeGame`.
+//   - Seats: one tab per colour, the host's own included. Ids live in memory, new on
+//     every page load, so a duplicated tab or window never shares its original's seat;
+//     a tab that closes or reloads says so and frees its seat at once.
+//   - Disconnects: every tab pings each HEARTBEAT_MS. The host frees the seat of a
+//     guest silent for DISCONNECT_MS; guests treat a silent host as gone and can host
+//     the game from their last copy of it.
+//   - Undo: a seated player asks to take back their last move and the opponent accepts
+//     or declines; with the other seat empty it is taken back at once. Any move cancels
+//     the request.
+
+import { completeMove, type ClockState } from "./game/clock";
+import type { Player } from "./game/engine";
+import { parseMove } from "./game/notation";
+import { opponent, type ActionError } from "./game/state";
+import { currentNode, goBack, playMove, type GameTree } from "./game/tree";
+import { decodeGame, encodeGame, type SavedGame } from "./persistence";
+
+export const TAB_CHANNEL = "anchorhex-tabs";
+export const HEARTBEAT_MS = 1000;
+export const DISCONNECT_MS = 4000;
+
+export type Seat = Player | "spectator";
+export type SeatMap = Record<Player, string | null>; // tab id in each seat
+
+export type GuestMessage =
+  | { type: "join"; from: string; seat: Seat }
+  | { type: "move"; from: string; move: string } // coordinate notation or "pass"
+  | { type: "resign"; from: string }
+  | { type: "undo-request"; from: string }
+  | { type: "undo-answer"; from: string; accept: boolean }
+  | { type: "ping"; from: string }
+  | { type: "leave"; from: string };
+
+export type TabRejection =
+  | { code: "SEAT_TAKEN" }
+  | { code: "NOT_SEATED" }
+  | { code: "NOT_YOUR_TURN" }
+  | { code: "BAD_MOVE" }
+  | { code: "NO_UNDO_REQUEST" }
+  | ActionError;
+
+export type HostMessage =
+  | { type: "state"; from: string; game: SavedGame; seats: SeatMap; undo: Player | null }
+  | { type: "joined"; from: string; to: string; seat: Seat }
+  | { type: "rejected"; from: string; to: string; error: TabRejection }
+  | { type: "host-ping"; from: string }
+  | { type: "host-left"; from: string };
+
+export type TabMessage = GuestMessage | HostMessage;
+
+const GUEST_TYPES: ReadonlySet<string> = new Set<GuestMessage["type"]>([
+  "join",
+  "move",
+  "resign",
+  "undo-request",
+  "undo-answer",
+  "ping",
+  "leave",
+]);
+
+export function isGuestMessage(msg: TabMessage): msg is GuestMessage {
+  return GUEST_TYPES.has(msg.type);
+}
+
+export function newTabId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+// ---------------------------------------------------------------------------
+// Host
+
+export type HostRoom = {
+  hostId: string;
+  gameId: string;
+  seats: SeatMap;
+  undo: Player | null; // the side asking to take back its last move
+};
+
+export type HostResult = {
+  room: HostRoom;
+  tree: GameTree;
+  clock: ClockState | null;
+  out: HostMessage[]; // replies to the sender; the state goes out separately
+};
+
+export function newRoom(hostId: string, gameId: string, seat: Seat): HostRoom {
+  const seats: SeatMap = { BLACK: null, WHITE: null };
+  if (seat !== "spectator") seats[seat] = hostId;
+  return { hostId, gameId, seats, undo: null };
+}
+
+export function seatOf(seats: SeatMap, id: string): Player | null {
+  if (seats.BLACK === id) return "BLACK";
+  if (seats.WHITE === id) return "WHITE";
+  return null;
+}
+
+export function stateMessage(
+  room: HostRoom,
+  tree: GameTree,
+  clock: ClockState | null,
+): HostMessage {
+  return {
+    type: "state",
+    from: room.hostId,
+    game: encodeGame(room.gameId, tree, {}, Date.now(), clock),
+    seats: room.seats,
+    undo: room.undo,
+  };
+}
+
+// Steps back to the last position where `player` was to move, taking back their last
+// move and any reply to it; null when they have not moved.
+export function takeBack(tree: GameTree, player: Player): GameTree | null {
+  let t = tree;
+  for (let back = goBack(t); back !== t; t = back, back = goBack(t)) {
+    if (currentNode(back).state.toMove === player) return back;
+  }
+  return null;
+}
+
+// Handles one guest message at the host. The host's own intents (sent from its id)
+// take the same path, so its player gets the same seat and turn checks. The room,
+// tree and clock come back unchanged (the same objects) unless the message changed
+// them; a join always returns a new room, so the state is sent to the newcomer.
+export function hostReceive(
+  room: HostRoom,
+  tree: GameTree,
+  clock: ClockState | null,
+  msg: GuestMessage,
+  now: number,
+): HostResult {
+  const { hostId } = room;
+  const from = msg.from;
+  const seat = seatOf(room.seats, from);
+  const same: HostResult = { room, tree, clock, out: [] };
+  const reject = (error: TabRejection): HostResult => ({
+    ...same,
+    out: [{ type: "rejected", from: hostId, to: from, error }],
+  });
+
+  switch (msg.type) {
+    case "ping":
+      return same;
+    case "join": {
+      const holder = msg.seat === "spectator" ? null : room.seats[msg.seat];
+      if (holder !== null && holder !== from) return reject({ code: "SEAT_TAKEN" });
+      const seats = { ...room.seats };
+      if (seat) seats[seat] = null;
+      if (msg.seat !== "spectator") seats[msg.seat] = from;
+      // A player leaving their seat withdraws their undo request or their answer to it
+      const undo = seat && seat !== msg.seat ? null : room.undo;
+      return {
+        ...same,
+        room: { ...room, seats, undo },
+        out: [{ type: "joined", from: hostId, to: from, seat: msg.seat }],
+      };
+    }
+    case "leave":
+      return seat ? { ...same, room: vacate(room, [from]) } : same;
+    case "move":
+    case "resign": {
+      if (!seat) return reject({ code: "NOT_SEATED" });
+      const { state } = currentNode(tree);
+      if (msg.type === "resign") {
+        const res = playMove(tree, { type: "resign", player: seat });
+        if (!res.ok) return reject(res.error);
+        return { ...same, room: { ...room, undo: null }, tree: res.tree };
+      }
+      if (state.toMove !== seat) return reject({ code: "NOT_YOUR_TURN" });
+      const move = parseMove(msg.move, state.config);
+      if (!move) return reject({ code: "BAD_MOVE" });
+      const res = playMove(tree, move);
+      if (!res.ok) return reject(res.error);
+      return {
+        room: room.undo === null ? room : { ...room, undo: null },
+        tree: res.tree,
+        clock: clock && completeMove(clock, seat, now),
+        out: [],
+      };
+    }
+    case "undo-request": {
+      if (!seat) return reject({ code: "NOT_SEATED" });
+      const back = takeBack(tree, seat);
+      if (!back) return reject({ code: "NOTHING_TO_UNDO" });
+      if (room.seats[opponent(seat)] === null) {
+        return { ...same, room: { ...room, undo: null }, tree: back };
+      }
+      return { ...same, room: { ...room, undo: seat } };
+    }
+    case "undo-answer": {
+      if (!seat || room.undo !== opponent(seat))
+        return reject({ code: "NO_UNDO_REQUEST" });
+      const back = msg.accept ? takeBack(tree, room.undo) : null;
+      return { ...same, room: { ...room, undo: null }, tree: back ?? tree };
+    }
+  }
+}
+
+// Frees the seats of `ids`; a pending undo request lapses with either player.
+function vacate(room: HostRoom, ids: string[]): HostRoom {
+  const seats = { ...room.seats };
+  for (const id of ids) {
+    const seat = seatOf(seats, id);
+    if (seat) seats[seat] = null;
+  }
+  return { ...room, seats, undo: null };
+}
+
+// Frees the seats of guests not heard from (`lastSeen`, ms by tab id) for
+// DISCONNECT_MS. Returns `room` itself when no seat is freed.
+export function expireGuests(
+  room: HostRoom,
+  lastSeen: Record<string, number>,
+  now: number,
+): HostRoom {
+  const gone = (["BLACK", "WHITE"] as const)
+    .map((p) => room.seats[p])
+    .filter(
+      (id): id is string =>
+        id !== null && id !== room.hostId && now - (lastSeen[id] ?? 0) > DISCONNECT_MS,
+    );
+  return gone.length === 0 ? room : vacate(room, gone);
+}
+
+// ---------------------------------------------------------------------------
+// Guest
+
+export type GuestView = {
+  hostId: string | null; // null until a host is heard
+  hostSeen: number;
+  seat: Seat | null; // null until the host accepts a join
+  seats: SeatMap;
+  undo: Player | null;
+  gameId: string | null; // the host's game, kept when taking over from it
+  rejected: TabRejection | null; // the host's last refusal of this tab's request
+};
+
+export const NO_HOST: GuestView = {
+  hostId: null,
+  hostSeen: 0,
+  seat: null,
+  seats: { BLACK: null, WHITE: null },
+  undo: null,
+  gameId: null,
+  rejected: null,
+};
+
+export type GuestResult = { view: GuestView; tree: GameTree | null }; // null: unchanged
+
+// Handles a host message at guest tab `me`. A host is adopted from its first message
+// (a new one after the last went quiet or left, such as the same tab after a reload);
+// while it is heard, other hosts are ignored. A `state` that does not replay is dropped.
+export function guestReceive(
+  view: GuestView,
+  msg: HostMessage,
+  me: string,
+  now: number,
+): GuestResult {
+  const ignored: GuestResult = { view, tree: null };
+  if (msg.from !== view.hostId) {
+    if (!hostGone(view, now) || msg.type === "host-left") return ignored;
+    view = { ...NO_HOST, hostId: msg.from };
+  }
+  view = { ...view, hostSeen: now };
+  switch (msg.type) {
+    case "host-left":
+      return { view: { ...view, hostId: null, seat: null }, tree: null };
+    case "host-ping":
+      return { view, tree: null };
+    case "joined":
+    case "rejected":
+      if (msg.to !== me) return { view, tree: null };
+      return {
+        view:
+          msg.type === "joined"
+            ? { ...view, seat: msg.seat, rejected: null }
+            : { ...view, rejected: msg.error },
+        tree: null,
+      };
+    case "state": {
+      const tree = decodeGame(msg.game);
+      if (!tree) return { view, tree: null };
+      // The host frees the seats of tabs it has not heard from
+      const seat =
+        view.seat && view.seat !== "spectator" && msg.seats[view.seat] !== me
+          ? null
+          : view.seat;
+      return {
+        view: { ...view, seat, seats: msg.seats, undo: msg.undo, gameId: msg.game.id },
+        tree,
+      };
+    }
+  }
+}
+
+export function hostGone(view: GuestView, now: number): boolean {
+  return view.hostId === null || now - view.hostSeen > DISCONNECT_MS;
+}
+
+// ---------------------------------------------------------------------------
+// Transport
+
+export type TabChannel = {
+  post(msg: TabMessage): void;
+  close(): void;
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Light shape check on what arrives; the contents are checked by the handlers above.
+function isTabMessage(v: unknown): v is TabMessage {
+  return isObject(v) && typeof v.type === "string" && typeof v.from === "string";
+}
+
+// Opens the shared channel, or returns null where BroadcastChannel is unavailable.
+export function openTabChannel(
+  onMessage: (msg: TabMessage) => void,
+  name: string = TAB_CHANNEL,
+): TabChannel | null {
+  if (typeof BroadcastChannel === "undefined") return null;
+  const channel = new BroadcastChannel(name);
+  channel.onmessage = (e: MessageEvent) => {
+    if (isTabMessage(e.data)) onMessage(e.data);
+  };
+  return {
+    post: (msg) => channel.postMessage(msg),
+    close: () => channel.close(),
+  };
+}
@@ -0,0 +1,90 @@
+// Browser side of online play: one WebSocket to the server that reconnects by itself.
+// After the first `joined`, every reconnection joins the same room again with the same
+// token, which gets the seat back and brings a fresh state.
+
+import type { Seat } from "../multitab";
+import type { ClientMessage, ServerMessage } from "./protocol";
+
+export const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000]; // then every 8 s
+
+export type OnlineStatus = "connecting" | "open" | "reconnecting" | "closed";
+
+export type OnlineClient = {
+  send(msg: ClientMessage): boolean; // false while disconnected
+  close(): void;
+};
+
+export function newToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Connects to `url` and sends `hello` (create or join) once open.
+export function connectOnline(
+  url: string,
+  hello: Extract<ClientMessage, { type: "create" | "join" }>,
+  onMessage: (msg: ServerMessage) => void,
+  onStatus: (status: OnlineStatus) => void,
+): OnlineClient {
+  let socket: WebSocket | null = null;
+  let session: { room: string; seat: Seat } | null = null;
+  let attempt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  function open() {
+    if (attempt === 0) onStatus("connecting"); // a retry was reported on close
+    const ws = new WebSocket(url);
+    socket = ws;
+    ws.onopen = () => {
+      attempt = 0;
+      onStatus("open");
+      const again: ClientMessage | null = session && {
+        type: "join",
+        token: hello.token,
+        ...session,
+      };
+      ws.send(JSON.stringify(again ?? hello));
+    };
+    ws.onmessage = (e: MessageEvent) => {
+      let msg: unknown;
+      try {
+        msg = JSON.parse(String(e.data));
+      } catch {
+        return;
+      }
+      if (!isObject(msg) || typeof msg.type !== "string") return;
+      const m = msg as ServerMessage;
+      if (m.type === "joined") session = { room: m.room, seat: m.seat };
+      onMessage(m);
+    };
+    ws.onclose = () => {
+      if (socket !== ws || closed) return;
+      socket = null;
+      const delay =
+        RECONNECT_DELAYS_MS[Math.min(attempt, RECONNECT_DELAYS_MS.length - 1)];
+      attempt++;
+      onStatus("reconnecting");
+      timer = setTimeout(open, delay);
+    };
+  }
+
+  open();
+  return {
+    send(msg) {
+      if (socket?.readyState !== WebSocket.OPEN) return false;
+      socket.send(JSON.stringify(msg));
+      return true;
+    },
+    close() {
+      closed = true;
+      if (timer !== null) clearTimeout(timer);
+      socket?.close();
+      socket = null;
+      onStatus("closed");
+    },
+  };
+}
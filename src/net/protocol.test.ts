@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { newGame } from "../game/state";
+import { currentState, newTree, playMove } from "../game/tree";
+import { encodeGame } from "../persistence";
+import {
+  CHAT_HISTORY,
+  createRoom,
+  parseClientMessage,
+  roomReceive,
+  roomState,
+  type ClientMessage,
+  type NetRoom,
+} from "./protocol";
+
+const BLACK = "black-token";
+const WHITE = "white-token";
+
+// Feeds the room a run of messages, failing on any error reply
+function feed(
+  room: NetRoom,
+  ...msgs: Array<[string, Exclude<ClientMessage, { type: "create" }>]>
+) {
+  for (const [token, msg] of msgs) {
+    const res = roomReceive(room, token, msg, new Set([BLACK, WHITE]), 0);
+    const error = res.replies.find((m) => m.type === "error");
+    if (error) throw new Error(JSON.stringify(error));
+    room = res.room;
+  }
+  return room;
+}
+
+function seated() {
+  return feed(
+    createRoom("ROOM01")!,
+    [BLACK, { type: "join", token: BLACK, room: "ROOM01", seat: "BLACK" }],
+    [WHITE, { type: "join", token: WHITE, room: "ROOM01", seat: "WHITE" }],
+  );
+}
+
+describe("AnchorHex online protocol", () => {
+  it("parses client messages and refuses malformed ones", () => {
+    expect(parseClientMessage('{"type":"move","move":"d7","extra":1}')).toEqual({
+      type: "move",
+      move: "d7",
+    });
+    expect(parseClientMessage('{"type":"pass"}')).toEqual({ type: "pass" });
+    expect(
+      parseClientMessage('{"type":"join","token":"short","room":"A","seat":"BLACK"}'),
+    ).toBeNull();
+    expect(
+      parseClientMessage('{"type":"create","token":"0123456789","seat":"RED"}'),
+    ).toBeNull();
+    expect(parseClientMessage('{"type":"chat"}')).toBeNull();
+    expect(parseClientMessage("not json")).toBeNull();
+  });
+
+  it("plays moves through the host logic and reports errors", () => {
+    let room = seated();
+    const error = (token: string, msg: Exclude<ClientMessage, { type: "create" }>) =>
+      roomReceive(room, token, msg, new Set(), 0).replies;
+    expect(error("stranger-token", { type: "sync" })).toEqual([
+      { type: "error", error: { code: "NOT_IN_ROOM" } },
+    ]);
+    expect(error(WHITE, { type: "move", move: "e2" })).toEqual([
+      { type: "error", error: { code: "NOT_YOUR_TURN" } },
+    ]);
+    expect(error(BLACK, { type: "pass" })).toEqual([
+      { type: "error", error: { code: "HAS_LEGAL_MOVES" } },
+    ]);
+    room = feed(
+      room,
+      [BLACK, { type: "move", move: "d7" }],
+      [WHITE, { type: "move", move: "e2" }],
+    );
+    expect(room.seq).toBe(4);
+    room = feed(
+      room,
+      [WHITE, { type: "undo-request" }],
+      [BLACK, { type: "undo-answer", accept: true }],
+    );
+    expect(currentState(room.tree).moves).toHaveLength(1);
+    room = feed(room, [BLACK, { type: "resign" }]);
+    expect(currentState(room.tree).result).toMatchObject({
+      winner: "WHITE",
+      reason: "resign",
+    });
+  });
+
+  it("shows seats as online or away and keeps a short chat log", () => {
+    let room = seated();
+    const state = roomState(room, new Set([BLACK]));
+    expect(state).toMatchObject({
+      seats: { BLACK: "online", WHITE: "away" },
+      undo: null,
+    });
+    // Tokens stay on the server
+    expect(JSON.stringify(state)).not.toContain(BLACK);
+    for (let i = 0; i < CHAT_HISTORY + 2; i++) {
+      room = feed(room, [WHITE, { type: "chat", text: ` hi ${i} ` }]);
+    }
+    expect(room.chat).toHaveLength(CHAT_HISTORY);
+    expect(room.chat.at(-1)).toEqual({
+      seat: "WHITE",
+      text: `hi ${CHAT_HISTORY + 1}`,
+      at: 0,
+    });
+    // Joining again with the same token keeps the seat
+    room = feed(room, [
+      WHITE,
+      { type: "join", token: WHITE, room: "ROOM01", seat: "WHITE" },
+    ]);
+    expect(room.host.seats.WHITE).toBe(WHITE);
+  });
+
+  it("creates a room from a game in progress", () => {
+    const res = playMove(newTree(newGame()), { type: "place", r: 6, c: 3 });
+    const tree = res.ok ? res.tree : null;
+    const room = createRoom("ROOM02", encodeGame("local", tree!, {}));
+    expect(room && currentState(room.tree).moves).toHaveLength(1);
+    expect(
+      createRoom("ROOM03", { ...encodeGame("local", tree!, {}), nodes: [[0, "z9"]] }),
+    ).toBeNull();
+  });
+});
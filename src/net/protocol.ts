@@ -0,0 +1,223 @@
+// The online play protocol: JSON messages over a WebSocket between browsers and the
+// reference server (server.ts). A room holds one game, played through the same host
+// logic as multi-tab play (see ../multitab), so every move goes through the game tree
+// and the reducer on the server, which makes it the authority on legality and
+// superko. The server answers every change with the full state, so a client that
+// reconnects (or asks with `sync`) is brought up to date by one message.
+//
+//   client → server
+//     create { token, seat, game? }   a new room, playing `game` or a new default game
+//     join { token, room, seat }      also how a client reconnects: the same token
+//                                     gets its seat back
+//     move { move } | pass | resign
+//     undo-request | undo-answer { accept }
+//     sync                            the current state, again
+//     chat { text }
+//   server → client
+//     joined { room, seat }           after create or join
+//     state { room, seq, game, seats, undo, chat }
+//     error { error }
+//
+// A token is the client's secret name for itself in a room; it is never sent to
+// other clients, who only see whether each seat is empty, online or away.
+
+import type { Player } from "../game/engine";
+import { newGame } from "../game/state";
+import { newTree, type GameTree } from "../game/tree";
+import {
+  hostReceive,
+  newRoom,
+  seatOf,
+  type GuestMessage,
+  type HostRoom,
+  type Seat,
+  type TabRejection,
+} from "../multitab";
+import { decodeGame, encodeGame, isSavedGame, type SavedGame } from "../persistence";
+
+export const DEFAULT_PORT = 8787;
+export const MAX_CHAT_LENGTH = 300;
+export const CHAT_HISTORY = 50; // lines kept per room
+const SERVER_ID = "server"; // the room's host; never seated
+
+export type SeatStatus = "empty" | "online" | "away";
+export type ChatLine = { seat: Seat; text: string; at: number };
+
+export type ClientMessage =
+  | { type: "create"; token: string; seat: Seat; game?: SavedGame }
+  | { type: "join"; token: string; room: string; seat: Seat }
+  | { type: "move"; move: string }
+  | { type: "pass" }
+  | { type: "resign" }
+  | { type: "undo-request" }
+  | { type: "undo-answer"; accept: boolean }
+  | { type: "sync" }
+  | { type: "chat"; text: string };
+
+export type NetError =
+  | { code: "BAD_MESSAGE" }
+  | { code: "BAD_GAME" }
+  | { code: "NO_ROOM" }
+  | { code: "NOT_IN_ROOM" }
+  | TabRejection;
+
+export type ServerMessage =
+  | { type: "joined"; room: string; seat: Seat }
+  | {
+      type: "state";
+      room: string;
+      seq: number; // counts the room's changes
+      game: SavedGame;
+      seats: Record<Player, SeatStatus>;
+      undo: Player | null;
+      chat: ChatLine[];
+    }
+  | { type: "error"; error: NetError };
+
+export type NetRoom = {
+  id: string;
+  host: HostRoom;
+  tree: GameTree;
+  members: Record<string, Seat>; // by token
+  chat: ChatLine[];
+  seq: number;
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isSeat = (v: unknown): v is Seat =>
+  v === "BLACK" || v === "WHITE" || v === "spectator";
+
+const isToken = (v: unknown): v is string =>
+  typeof v === "string" && v.length >= 8 && v.length <= 64;
+
+// Parses one message from a client; null for anything malformed.
+export function parseClientMessage(text: string): ClientMessage | null {
+  let v: unknown;
+  try {
+    v = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(v)) return null;
+  switch (v.type) {
+    case "create":
+      return isToken(v.token) &&
+        isSeat(v.seat) &&
+        (v.game === undefined || isSavedGame(v.game))
+        ? (v as ClientMessage)
+        : null;
+    case "join":
+      return isToken(v.token) && isSeat(v.seat) && typeof v.room === "string"
+        ? (v as ClientMessage)
+        : null;
+    case "move":
+      return typeof v.move === "string" ? { type: "move", move: v.move } : null;
+    case "undo-answer":
+      return typeof v.accept === "boolean"
+        ? { type: "undo-answer", accept: v.accept }
+        : null;
+    case "chat":
+      return typeof v.text === "string" ? { type: "chat", text: v.text } : null;
+    case "pass":
+    case "resign":
+    case "undo-request":
+    case "sync":
+      return { type: v.type };
+    default:
+      return null;
+  }
+}
+
+// A new room playing `game` (its tree replayed from the saved moves), or a new game.
+export function createRoom(id: string, game?: SavedGame): NetRoom | null {
+  const tree = game ? decodeGame(game) : newTree(newGame());
+  if (!tree) return null;
+  return {
+    id,
+    host: newRoom(SERVER_ID, id, "spectator"),
+    tree,
+    members: {},
+    chat: [],
+    seq: 0,
+  };
+}
+
+// The room as every client sees it; `online` holds the tokens with a live connection.
+export function roomState(room: NetRoom, online: ReadonlySet<string>): ServerMessage {
+  const seat = (p: Player): SeatStatus => {
+    const token = room.host.seats[p];
+    return token === null ? "empty" : online.has(token) ? "online" : "away";
+  };
+  return {
+    type: "state",
+    room: room.id,
+    seq: room.seq,
+    game: encodeGame(room.id, room.tree, {}),
+    seats: { BLACK: seat("BLACK"), WHITE: seat("WHITE") },
+    undo: room.host.undo,
+    chat: room.chat,
+  };
+}
+
+export type RoomResult = {
+  room: NetRoom;
+  replies: ServerMessage[]; // to the sender
+  changed: boolean; // everyone in the room gets the new state
+};
+
+// Handles a message from the client holding `token` (create is the server's, as it
+// picks the room id). Joining takes the seat, or a spectator's place; the game
+// messages go through the host logic with the token as the sender.
+export function roomReceive(
+  room: NetRoom,
+  token: string,
+  msg: Exclude<ClientMessage, { type: "create" }>,
+  online: ReadonlySet<string>,
+  now: number,
+): RoomResult {
+  const error = (e: NetError): RoomResult => ({
+    room,
+    replies: [{ type: "error", error: e }],
+    changed: false,
+  });
+  const seat = msg.type === "join" ? null : room.members[token];
+  if (msg.type !== "join" && seat === undefined) return error({ code: "NOT_IN_ROOM" });
+
+  let intent: GuestMessage;
+  switch (msg.type) {
+    case "sync":
+      return { room, replies: [roomState(room, online)], changed: false };
+    case "chat": {
+      const text = msg.text.trim().slice(0, MAX_CHAT_LENGTH);
+      if (!text) return { room, replies: [], changed: false };
+      const chat = [...room.chat, { seat: seat!, text, at: now }].slice(-CHAT_HISTORY);
+      return { room: { ...room, chat, seq: room.seq + 1 }, replies: [], changed: true };
+    }
+    case "join":
+      intent = { type: "join", from: token, seat: msg.seat };
+      break;
+    case "pass":
+      intent = { type: "move", from: token, move: "pass" };
+      break;
+    default:
+      intent = { ...msg, from: token };
+  }
+  const res = hostReceive(room.host, room.tree, null, intent, now);
+  const rejected = res.out.find((m) => m.type === "rejected");
+  if (rejected) return error(rejected.error);
+  if (res.room === room.host && res.tree === room.tree) {
+    return { room, replies: [], changed: false };
+  }
+  const members: Record<string, Seat> =
+    msg.type === "join"
+      ? { ...room.members, [token]: seatOf(res.room.seats, token) ?? "spectator" }
+      : room.members;
+  return {
+    room: { ...room, host: res.room, tree: res.tree, members, seq: room.seq + 1 },
+    replies:
+      msg.type === "join" ? [{ type: "joined", room: room.id, seat: msg.seat }] : [],
+    changed: true,
+  };
+}
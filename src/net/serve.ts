@@ -0,0 +1,13 @@
+// Runs the online play server: `pnpm server [port]` (default 8787, or $PORT). It
+// listens on localhost only; put it behind a proxy to play over a network.
+
+import { DEFAULT_PORT } from "./protocol";
+import { startServer } from "./server";
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? DEFAULT_PORT);
+const server = await startServer(port);
+console.log(`AnchorHex server listening on ws://localhost:${server.port}`);
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => void server.close().then(() => process.exit(0)));
+}
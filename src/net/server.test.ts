@@ -0,0 +1,93 @@
+import { afterEach, describe, it, expect } from "vitest";
+import { connectOnline, newToken, type OnlineClient } from "./client";
+import type { ClientMessage, ServerMessage } from "./protocol";
+import { startServer, type GameServer } from "./server";
+
+let server: GameServer | null = null;
+const clients: OnlineClient[] = [];
+
+afterEach(async () => {
+  for (const c of clients.splice(0)) c.close();
+  await server?.close();
+  server = null;
+});
+
+// A client that records what the server sends it
+function player(hello: Extract<ClientMessage, { type: "create" | "join" }>) {
+  const got: ServerMessage[] = [];
+  const statuses: string[] = [];
+  const client = connectOnline(
+    `ws://127.0.0.1:${server!.port}`,
+    hello,
+    (m) => got.push(m),
+    (s) => statuses.push(s),
+  );
+  clients.push(client);
+  // Resolves with the first message after `from` that passes `test`
+  const next = async (test: (m: ServerMessage) => boolean, from = got.length) => {
+    for (let waited = 0; waited < 5000; waited += 10) {
+      const m = got.slice(from).find(test);
+      if (m) return m;
+      await new Promise((r) => setTimeout(r, 10));
+    }
+    throw new Error("timed out");
+  };
+  return { client, got, statuses, next };
+}
+
+const isState = (m: ServerMessage) => m.type === "state";
+
+describe("AnchorHex online server", () => {
+  it("runs a game between two clients and resyncs after a reconnect", async () => {
+    server = await startServer(0);
+    const black = player({ type: "create", token: newToken(), seat: "BLACK" });
+    const joined = await black.next((m) => m.type === "joined");
+    const room = joined.type === "joined" ? joined.room : "";
+    expect(room).toMatch(/^[A-Z2-9]{6}$/);
+
+    const white = player({ type: "join", token: newToken(), room, seat: "WHITE" });
+    await white.next(isState);
+    black.client.send({ type: "move", move: "d7" });
+    const afterMove = await white.next((m) => m.type === "state" && m.game.moves === 1);
+    expect(afterMove).toMatchObject({ seats: { BLACK: "online", WHITE: "online" } });
+
+    // Connections drop; both clients come back to the same seats and game
+    const from = white.got.length;
+    server.dropConnections();
+    await white.next((m) => m.type === "joined", from);
+    expect(await white.next(isState, from)).toMatchObject({
+      game: { moves: 1 },
+      seats: { WHITE: "online" },
+    });
+    expect(white.statuses).toEqual(["connecting", "open", "reconnecting", "open"]);
+    await black.next((m) => m.type === "state" && m.seats.WHITE === "online", from);
+    expect(white.client.send({ type: "move", move: "e2" })).toBe(true);
+    await black.next((m) => m.type === "state" && m.game.moves === 2);
+  });
+
+  it("holds a dropped player's seat until they reconnect", async () => {
+    server = await startServer(0);
+    const black = player({ type: "create", token: newToken(), seat: "BLACK" });
+    const joined = await black.next((m) => m.type === "joined");
+    const room = joined.type === "joined" ? joined.room : "";
+    const token = newToken();
+    const white = player({ type: "join", token, room, seat: "WHITE" });
+    await white.next(isState);
+    white.client.close();
+    await black.next((m) => m.type === "state" && m.seats.WHITE === "away");
+
+    // Someone else cannot take the seat; the same token can
+    const other = player({ type: "join", token: newToken(), room, seat: "WHITE" });
+    expect(await other.next((m) => m.type === "error")).toMatchObject({
+      error: { code: "SEAT_TAKEN" },
+    });
+    const back = player({ type: "join", token, room, seat: "WHITE" });
+    expect(await back.next(isState)).toMatchObject({
+      seats: { BLACK: "online", WHITE: "online" },
+    });
+    back.client.send({ type: "chat", text: "back again" });
+    expect(
+      await black.next((m) => m.type === "state" && m.chat.length === 1),
+    ).toMatchObject({ chat: [{ seat: "WHITE", text: "back again" }] });
+  });
+});
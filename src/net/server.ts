@@ -0,0 +1,172 @@
+// The reference server for online play: rooms held in memory, one WebSocket per
+// client, speaking the protocol in protocol.ts. A seat stays with its token when the
+// connection drops (shown as away), so the client can reconnect and carry on; a room
+// nobody is connected to is dropped after ROOM_IDLE_MS.
+
+import { randomBytes } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  DEFAULT_PORT,
+  createRoom,
+  parseClientMessage,
+  roomReceive,
+  roomState,
+  type NetRoom,
+  type ServerMessage,
+} from "./protocol";
+import { acceptWebSocket, type WebSocketConnection } from "./websocket";
+
+export const ROOM_IDLE_MS = 10 * 60 * 1000;
+
+export type GameServer = {
+  port: number;
+  // Closes every connection but keeps the rooms, as a network outage would; clients
+  // reconnect by themselves
+  dropConnections(): void;
+  close(): Promise<void>;
+};
+
+type Client = {
+  socket: WebSocketConnection;
+  token: string | null;
+  room: string | null;
+};
+
+// Room codes: six letters and digits without look-alikes (0/O, 1/I/L)
+const CODE_CHARS = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+function roomCode(): string {
+  return Array.from(randomBytes(6), (b) => CODE_CHARS[b % CODE_CHARS.length]).join("");
+}
+
+export function startServer(
+  port: number = DEFAULT_PORT,
+  host: string = "127.0.0.1",
+): Promise<GameServer> {
+  const rooms = new Map<string, NetRoom>();
+  const clients = new Set<Client>();
+  const idle = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const inRoom = (id: string) => [...clients].filter((c) => c.room === id);
+  const online = (id: string) =>
+    new Set(inRoom(id).flatMap((c) => (c.token === null ? [] : [c.token])));
+  const send = (client: Client, msg: ServerMessage) =>
+    client.socket.send(JSON.stringify(msg));
+
+  function broadcast(id: string) {
+    const room = rooms.get(id);
+    if (!room) return;
+    const state = roomState(room, online(id));
+    for (const c of inRoom(id)) send(c, state);
+  }
+
+  // Drops the room once nobody has been connected to it for ROOM_IDLE_MS
+  function checkIdle(id: string) {
+    clearTimeout(idle.get(id));
+    idle.delete(id);
+    if (inRoom(id).length > 0) return;
+    const timer = setTimeout(() => {
+      idle.delete(id);
+      if (inRoom(id).length === 0) rooms.delete(id);
+    }, ROOM_IDLE_MS);
+    timer.unref();
+    idle.set(id, timer);
+  }
+
+  // Moves `client` into room `id` as `token`; an older connection with the same token
+  // (one that has not noticed it dropped) is closed
+  function enter(client: Client, token: string, id: string) {
+    const left = client.room;
+    for (const c of clients) {
+      if (c !== client && c.token === token && c.room === id) {
+        c.socket.close();
+        clients.delete(c);
+      }
+    }
+    client.token = token;
+    client.room = id;
+    if (left && left !== id) {
+      broadcast(left);
+      checkIdle(left);
+    }
+    checkIdle(id);
+  }
+
+  function receive(client: Client, text: string) {
+    const msg = parseClientMessage(text);
+    if (!msg) {
+      send(client, { type: "error", error: { code: "BAD_MESSAGE" } });
+      return;
+    }
+    if (msg.type === "create") {
+      let id = roomCode();
+      while (rooms.has(id)) id = roomCode();
+      const room = createRoom(id, msg.game);
+      if (!room) {
+        send(client, { type: "error", error: { code: "BAD_GAME" } });
+        return;
+      }
+      rooms.set(id, room);
+      enter(client, msg.token, id);
+      handle(client, { type: "join", token: msg.token, room: id, seat: msg.seat });
+      return;
+    }
+    if (msg.type === "join") {
+      if (!rooms.has(msg.room)) {
+        send(client, { type: "error", error: { code: "NO_ROOM" } });
+        return;
+      }
+      enter(client, msg.token, msg.room);
+    }
+    handle(client, msg);
+  }
+
+  function handle(client: Client, msg: Parameters<typeof roomReceive>[2]) {
+    const room = client.room === null ? undefined : rooms.get(client.room);
+    if (!room || client.token === null) {
+      send(client, { type: "error", error: { code: "NOT_IN_ROOM" } });
+      return;
+    }
+    const res = roomReceive(room, client.token, msg, online(room.id), Date.now());
+    rooms.set(room.id, res.room);
+    for (const reply of res.replies) send(client, reply);
+    if (res.changed) broadcast(room.id);
+  }
+
+  const server: Server = createServer((_req, res) => {
+    res.writeHead(426, { "Content-Type": "text/plain" });
+    res.end("AnchorHex online play: connect with a WebSocket.\n");
+  });
+  server.on("upgrade", (req, socket) => {
+    const conn = acceptWebSocket(req, socket);
+    if (!conn) return;
+    const client: Client = { socket: conn, token: null, room: null };
+    clients.add(client);
+    conn.onMessage = (text) => receive(client, text);
+    conn.onClose = () => {
+      if (!clients.delete(client) || client.room === null) return;
+      broadcast(client.room);
+      checkIdle(client.room);
+    };
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        dropConnections: () => {
+          for (const c of clients) c.socket.close();
+        },
+        close: () =>
+          new Promise((done) => {
+            for (const timer of idle.values()) clearTimeout(timer);
+            for (const c of clients) c.socket.close();
+            server.close(() => done());
+            server.closeAllConnections();
+          }),
+      });
+    });
+  });
+}
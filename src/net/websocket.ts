@@ -0,0 +1,148 @@
+// The server side of the WebSocket protocol (RFC 6455), just enough for the online
+// play server: the upgrade handshake, text messages (fragmented or not), ping/pong and
+// the closing handshake. Binary messages, extensions and oversized frames close the
+// connection.
+
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+export const MAX_MESSAGE_BYTES = 64 * 1024;
+
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+export type WebSocketConnection = {
+  send(text: string): void;
+  close(): void;
+  onMessage: (text: string) => void;
+  onClose: () => void;
+};
+
+// One frame from the server: never masked, never fragmented.
+function frame(opcode: number, payload: Buffer): Buffer {
+  const n = payload.length;
+  const head =
+    n < 126
+      ? Buffer.from([0x80 | opcode, n])
+      : n < 0x10000
+        ? Buffer.from([0x80 | opcode, 126, n >> 8, n & 0xff])
+        : Buffer.concat([Buffer.from([0x80 | opcode, 127]), bigEndian64(n)]);
+  return Buffer.concat([head, payload]);
+}
+
+function bigEndian64(n: number): Buffer {
+  const b = Buffer.alloc(8);
+  b.writeBigUInt64BE(BigInt(n));
+  return b;
+}
+
+// Completes the upgrade of `req` to a WebSocket, or refuses it with 400; null then.
+export function acceptWebSocket(
+  req: IncomingMessage,
+  socket: Duplex,
+): WebSocketConnection | null {
+  const key = req.headers["sec-websocket-key"];
+  if (req.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return null;
+  }
+  const accept = createHash("sha1")
+    .update(key + HANDSHAKE_GUID)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+
+  let buffered = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let closed = false;
+
+  const conn: WebSocketConnection = {
+    send(text) {
+      if (!closed) socket.write(frame(OP_TEXT, Buffer.from(text, "utf8")));
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      socket.end(frame(OP_CLOSE, Buffer.from([0x03, 0xe8]))); // 1000: normal closure
+    },
+    onMessage: () => {},
+    onClose: () => {},
+  };
+
+  // Reads every complete frame in the buffer; false when the peer broke the protocol
+  function drain(): boolean {
+    for (;;) {
+      if (buffered.length < 2) return true;
+      const fin = (buffered[0] & 0x80) !== 0;
+      const opcode = buffered[0] & 0x0f;
+      const masked = (buffered[1] & 0x80) !== 0;
+      let length = buffered[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffered.length < 4) return true;
+        length = buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffered.length < 10) return true;
+        const big = buffered.readBigUInt64BE(2);
+        if (big > BigInt(MAX_MESSAGE_BYTES)) return false;
+        length = Number(big);
+        offset = 10;
+      }
+      // Clients must mask; reserved bits mean an extension we did not agree to
+      if (!masked || (buffered[0] & 0x70) !== 0 || length > MAX_MESSAGE_BYTES)
+        return false;
+      if (buffered.length < offset + 4 + length) return true;
+      const mask = buffered.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+      buffered = buffered.subarray(offset + 4 + length);
+
+      if (opcode === OP_CLOSE) {
+        conn.close();
+        return true;
+      }
+      if (opcode === OP_PING) {
+        socket.write(frame(OP_PONG, payload));
+        continue;
+      }
+      if (opcode === OP_PONG) continue;
+      if (opcode === OP_TEXT ? fragments.length > 0 : opcode !== OP_CONTINUATION) {
+        return false;
+      }
+      if (opcode === OP_CONTINUATION && fragments.length === 0) return false;
+      fragments.push(payload);
+      const size = fragments.reduce((n, f) => n + f.length, 0);
+      if (size > MAX_MESSAGE_BYTES) return false;
+      if (fin) {
+        const text = Buffer.concat(fragments).toString("utf8");
+        fragments = [];
+        conn.onMessage(text);
+      }
+    }
+  }
+
+  socket.on("data", (chunk: Buffer) => {
+    if (closed) return;
+    buffered = Buffer.concat([buffered, chunk]);
+    if (!drain()) {
+      closed = true;
+      socket.end(frame(OP_CLOSE, Buffer.from([0x03, 0xea]))); // 1002: protocol error
+    }
+  });
+  socket.on("close", () => {
+    closed = true;
+    conn.onClose();
+  });
+  socket.on("error", () => socket.destroy());
+  return conn;
+}
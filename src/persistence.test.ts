@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { newClock, runClock } from "./game/clock";
+import { BLACK_STONE, presetConfig } from "./game/engine";
+import { DEFAULT_RULESET } from "./game/rules";
+import { gameFromPosition, newGame } from "./game/state";
+import { currentState, goBack, newTree, playMove, type GameTree } from "./game/tree";
+import {
+  EMPTY_STORE,
+  MAX_SAVED_GAMES,
+  STORAGE_KEY,
+  STORAGE_VERSION,
+  decodeGame,
+  encodeGame,
+  loadStore,
+  migrate,
+  saveStore,
+  upsertGame,
+} from "./persistence";
+
+function play(tree: GameTree, ...moves: Array<[number, number] | "pass" | "resign">) {
+  for (const m of moves) {
+    const res = playMove(
+      tree,
+      m === "pass" || m === "resign" ? { type: m } : { type: "place", r: m[0], c: m[1] },
+    );
+    if (!res.ok) throw new Error(res.error.code);
+    tree = res.tree;
+  }
+  return tree;
+}
+
+// d7 e2 c7 with a variation e3 for e2, left on the variation
+function forked() {
+  const main = play(newTree(newGame()), [6, 3], [1, 4], [6, 2]);
+  return play(goBack(goBack(main)), [2, 4]);
+}
+
+describe("AnchorHex persistence", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("round-trips a game tree with its variations and current node", () => {
+    const tree = forked();
+    const saved = encodeGame("g1", tree, { black: "Ann" }, 1000);
+    expect(saved.nodes).toEqual([
+      [0, "d7"],
+      [1, "e2"],
+      [2, "c7"],
+      [1, "e3"],
+    ]);
+    expect(saved).toMatchObject({ current: 4, moves: 2, toMove: "BLACK", result: "?" });
+    const restored = decodeGame(JSON.parse(JSON.stringify(saved)))!;
+    expect(restored.nodes.size).toBe(tree.nodes.size);
+    expect(currentState(restored)).toEqual(currentState(tree));
+    expect(encodeGame("g1", restored, { black: "Ann" }, 1000)).toEqual(saved);
+  });
+
+  it("restores finished games, rules and board size", () => {
+    const rules = { ...DEFAULT_RULESET, scoring: "territory" as const, komi: 2.5 };
+    const tree = play(newTree(newGame(presetConfig(6, 6), rules)), [4, 2], "resign");
+    const saved = encodeGame("g2", tree, {});
+    expect(saved).toMatchObject({
+      gameOver: true,
+      result: "B+R",
+      nodes: [
+        [0, "c5"],
+        [1, "resign W"],
+      ],
+    });
+    const state = currentState(decodeGame(saved)!);
+    expect(state).toEqual(currentState(tree));
+    expect(state.rules).toEqual(rules);
+  });
+
+  it("keeps a set-up start position, a loss on time and the clock", () => {
+    const config = presetConfig(6, 6);
+    const board = newGame(config).board.map((row) => row.slice());
+    board[4][2] = BLACK_STONE;
+    const start = gameFromPosition(config, DEFAULT_RULESET, board, "WHITE");
+    const tree = play(newTree(start), [1, 3]);
+    const timedOut = playMove(tree, { type: "timeout", player: "BLACK" });
+    if (!timedOut.ok) throw new Error(timedOut.error.code);
+    const clock = runClock(
+      newClock({ type: "sudden-death", mainMs: 60_000 }),
+      "BLACK",
+      0,
+    );
+    const saved = encodeGame("g5", timedOut.tree, {}, 1000, clock);
+    expect(saved).toMatchObject({
+      position: "3W2/6/6/6/2b3/2B3 w",
+      nodes: [
+        [0, "d2"],
+        [1, "timeout B"],
+      ],
+      result: "W+T",
+    });
+    expect(currentState(decodeGame(saved)!)).toEqual(currentState(timedOut.tree));
+    saveStore({ ...EMPTY_STORE, games: [saved] });
+    expect(loadStore().games[0].clock).toEqual(clock);
+    expect(decodeGame({ ...saved, position: "3W2/6/6/6/2b3/1B4 w" })).toBeNull();
+    expect(encodeGame("g6", forked(), {})).not.toHaveProperty("position");
+  });
+
+  it("rejects saved games whose moves do not replay", () => {
+    const saved = encodeGame("g3", forked(), {});
+    expect(
+      decodeGame({
+        ...saved,
+        nodes: [
+          [0, "d7"],
+          [0, "d7"],
+        ],
+      }),
+    ).toBeNull();
+    expect(
+      decodeGame({
+        ...saved,
+        nodes: [
+          [0, "d7"],
+          [1, "d7"],
+        ],
+      }),
+    ).toBeNull();
+    expect(decodeGame({ ...saved, nodes: [[5, "d7"]] })).toBeNull();
+    expect(decodeGame({ ...saved, current: 9 })).toBeNull();
+  });
+
+  it("saves and loads the store, dropping entries it cannot read", () => {
+    const game = encodeGame("g4", forked(), {});
+    const store = {
+      ...EMPTY_STORE,
+      prefs: { lang: "zh" as const, replaySpeed: 2 },
+      currentId: "g4",
+      games: [game],
+    };
+    expect(saveStore(store)).toBe(true);
+    expect(loadStore()).toEqual(store);
+
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+    data.games.push({ id: "broken" }, { ...game, config: { ...game.config, rows: 1 } });
+    data.prefs = { lang: "fr", replaySpeed: -1, showReach: { white: 1 } };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    expect(loadStore()).toEqual({ ...store, prefs: {} });
+
+    localStorage.setItem(STORAGE_KEY, "{not json");
+    expect(loadStore()).toEqual(EMPTY_STORE);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...data, version: 99 }));
+    expect(loadStore()).toEqual(EMPTY_STORE);
+  });
+
+  it("upgrades old envelopes one version at a time", () => {
+    const steps = {
+      [STORAGE_VERSION - 2]: (d: Record<string, unknown>) => ({ ...d, a: 1 }),
+      [STORAGE_VERSION - 1]: (d: Record<string, unknown>) => ({ ...d, b: d.a }),
+    };
+    expect(migrate({ version: STORAGE_VERSION - 2 }, steps)).toEqual({
+      version: STORAGE_VERSION,
+      a: 1,
+      b: 1,
+    });
+    expect(migrate({ version: STORAGE_VERSION - 3 }, steps)).toBeNull();
+    expect(migrate({ version: STORAGE_VERSION + 1 }, steps)).toBeNull();
+    expect(migrate([], steps)).toBeNull();
+  });
+
+  it("keeps the most recently saved game first and caps the list", () => {
+    let games = upsertGame([], encodeGame("a", forked(), {}));
+    games = upsertGame(games, encodeGame("b", forked(), {}));
+    games = upsertGame(games, encodeGame("a", forked(), {}));
+    expect(games.map((g) => g.id)).toEqual(["a", "b"]);
+    for (let i = 0; i < MAX_SAVED_GAMES + 5; i++) {
+      games = upsertGame(games, { ...games[0], id: `x${i}` });
+    }
+    expect(games).toHaveLength(MAX_SAVED_GAMES);
+  });
+});
@@ -0,0 +1,318 @@
+// Browser persistence: the current game, the saved-games list and UI preferences are
+// kept in localStorage under one key as a versioned envelope, so a reload picks up
+// where the player left off. `loadStore` upgrades older envelopes through MIGRATIONS
+// and falls back to an empty store for anything it cannot read. A game is stored as
+// its config, rules and moves (the whole variation tree) plus a summary of the current
+// position for the list; opening it replays every move through the reducer, so the
+// board, repetition history, side to move and move counter are rebuilt rather than
+// trusted. A timed game also keeps its clock, which comes back paused.
+
+import {
+  TIME_CONTROL_TYPES,
+  validateTimeControl,
+  type ClockState,
+  type SideClock,
+  type TimeControl,
+} from "./game/clock";
+import { sameLayout, validateConfig, type GameConfig, type Player } from "./game/engine";
+import { formatPosition, parsePosition } from "./game/link";
+import { formatMove, parseMove } from "./game/notation";
+import { formatResult, type Players } from "./game/record";
+import {
+  HANDICAP_TYPES,
+  REPETITION_RULES,
+  validateRuleset,
+  type Ruleset,
+} from "./game/rules";
+import { SCORING_MODES } from "./game/scoring";
+import { gameFromPosition, newGame, type GameSnapshot } from "./game/state";
+import {
+  currentState,
+  getNode,
+  goTo,
+  newTree,
+  playMove,
+  type GameTree,
+  type TreeAction,
+} from "./game/tree";
+import type { Lang } from "./i18n";
+
+export const STORAGE_KEY = "anchorhex";
+export const STORAGE_VERSION = 1;
+export const MAX_SAVED_GAMES = 50;
+
+export type Prefs = {
+  lang: Lang;
+  showReach: { white: boolean; black: boolean; territory: boolean };
+  controllers: Record<Player, string>; // checked against the known controllers by the UI
+  replaySpeed: number;
+};
+
+export type SavedGame = {
+  id: string;
+  savedAt: number; // ms since the epoch
+  config: GameConfig;
+  rules: Ruleset;
+  players: Players;
+  // The starting board and side to move ("4W3/8/.../3B4 w", as in game records) for a
+  // game that does not start from the initial board
+  position?: string;
+  // Tree nodes below the root in depth-first order, each as [parent, move]: the parent
+  // is 0 for the root or i for the i-th entry, and the move is in coordinate notation,
+  // "pass", "resign B" / "resign W", or "timeout B" / "timeout W" for a loss on time
+  nodes: Array<[number, string]>;
+  current: number; // the current node, numbered like the parents
+  // Summary of the current position, for the saved-games list
+  moves: number;
+  toMove: Player;
+  gameOver: boolean;
+  result: string; // as in game records: "B+4", "W+R", "Draw" or "?"
+  clock?: ClockState; // timed games only
+};
+
+export type Store = {
+  version: number;
+  prefs: Partial<Prefs>;
+  currentId: string | null;
+  games: SavedGame[]; // most recently saved first
+};
+
+export const EMPTY_STORE: Store = {
+  version: STORAGE_VERSION,
+  prefs: {},
+  currentId: null,
+  games: [],
+};
+
+type Envelope = Record<string, unknown>;
+
+// MIGRATIONS[v] turns a version v envelope into version v + 1. Add a step whenever the
+// stored shape changes and bump STORAGE_VERSION.
+const MIGRATIONS: Record<number, (data: Envelope) => Envelope> = {};
+
+const isObject = (v: unknown): v is Envelope =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Brings a parsed envelope up to STORAGE_VERSION. Returns null for data without a
+// version, from a newer version, or with a missing migration step.
+export function migrate(
+  data: unknown,
+  migrations: Record<number, (data: Envelope) => Envelope> = MIGRATIONS,
+): Envelope | null {
+  if (!isObject(data) || !Number.isInteger(data.version)) return null;
+  let env = data;
+  for (let v = env.version as number; v < STORAGE_VERSION; v++) {
+    const step = migrations[v];
+    if (!step) return null;
+    env = { ...step(env), version: v + 1 };
+  }
+  return env.version === STORAGE_VERSION ? env : null;
+}
+
+function readPrefs(v: unknown): Partial<Prefs> {
+  if (!isObject(v)) return {};
+  const prefs: Partial<Prefs> = {};
+  if (v.lang === "en" || v.lang === "zh") prefs.lang = v.lang;
+  const reach = v.showReach;
+  if (
+    isObject(reach) &&
+    ["white", "black", "territory"].every((k) => typeof reach[k] === "boolean")
+  ) {
+    prefs.showReach = reach as Prefs["showReach"];
+  }
+  const cs = v.controllers;
+  if (isObject(cs) && typeof cs.BLACK === "string" && typeof cs.WHITE === "string") {
+    prefs.controllers = { BLACK: cs.BLACK, WHITE: cs.WHITE };
+  }
+  if (typeof v.replaySpeed === "number" && v.replaySpeed > 0) {
+    prefs.replaySpeed = v.replaySpeed;
+  }
+  return prefs;
+}
+
+function isRuleset(v: unknown): v is Ruleset {
+  if (!isObject(v)) return false;
+  const h = v.handicap;
+  return (
+    REPETITION_RULES.includes(v.repetition as Ruleset["repetition"]) &&
+    SCORING_MODES.includes(v.scoring as Ruleset["scoring"]) &&
+    typeof v.komi === "number" &&
+    (h === null ||
+      (isObject(h) &&
+        HANDICAP_TYPES.includes(h.type as never) &&
+        (h.player === "BLACK" || h.player === "WHITE") &&
+        typeof h.count === "number"))
+  );
+}
+
+const isPlayer = (v: unknown): v is Player => v === "BLACK" || v === "WHITE";
+
+function isSideClock(v: unknown): v is SideClock {
+  return (
+    isObject(v) &&
+    typeof v.remainingMs === "number" &&
+    typeof v.periods === "number" &&
+    typeof v.overtime === "boolean"
+  );
+}
+
+function isClockState(v: unknown): v is ClockState {
+  if (!isObject(v) || !isObject(v.control) || !isObject(v.sides)) return false;
+  const control = v.control as TimeControl;
+  return (
+    TIME_CONTROL_TYPES.includes(control.type) &&
+    validateTimeControl(control).length === 0 &&
+    isSideClock(v.sides.BLACK) &&
+    isSideClock(v.sides.WHITE) &&
+    (v.running === null || isPlayer(v.running)) &&
+    (v.since === null || typeof v.since === "number") &&
+    typeof v.paused === "boolean" &&
+    (v.flagged === null || isPlayer(v.flagged))
+  );
+}
+
+// Shape check for one list entry (or a game sent over the network); the moves
+// themselves are checked when it is opened.
+export function isSavedGame(v: unknown): v is SavedGame {
+  if (!isObject(v)) return false;
+  const config = v.config as GameConfig;
+  return (
+    typeof v.id === "string" &&
+    typeof v.savedAt === "number" &&
+    isObject(config) &&
+    validateConfig(config).length === 0 &&
+    isRuleset(v.rules) &&
+    validateRuleset(v.rules, config).length === 0 &&
+    isObject(v.players) &&
+    Array.isArray(v.nodes) &&
+    v.nodes.every(
+      (n) => Array.isArray(n) && typeof n[0] === "number" && typeof n[1] === "string",
+    ) &&
+    (v.position === undefined || typeof v.position === "string") &&
+    typeof v.current === "number" &&
+    typeof v.moves === "number" &&
+    isPlayer(v.toMove) &&
+    typeof v.gameOver === "boolean" &&
+    typeof v.result === "string" &&
+    (v.clock === undefined || isClockState(v.clock))
+  );
+}
+
+export function loadStore(storage: Storage = window.localStorage): Store {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    const env = raw === null ? null : migrate(JSON.parse(raw));
+    if (!env) return EMPTY_STORE;
+    return {
+      version: STORAGE_VERSION,
+      prefs: readPrefs(env.prefs),
+      currentId: typeof env.currentId === "string" ? env.currentId : null,
+      games: Array.isArray(env.games) ? env.games.filter(isSavedGame) : [],
+    };
+  } catch {
+    return EMPTY_STORE;
+  }
+}
+
+// Writes the store; returns false when storage is unavailable or full.
+export function saveStore(store: Store, storage: Storage = window.localStorage): boolean {
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(store));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function newGameId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function encodeAction(action: TreeAction): string {
+  if (action.type === "resign" || action.type === "timeout") {
+    return `${action.type} ${action.player === "WHITE" ? "W" : "B"}`;
+  }
+  return formatMove(action);
+}
+
+function decodeAction(text: string, config: GameConfig): TreeAction | null {
+  const end = /^(resign|timeout) ([BW])$/.exec(text);
+  if (end) {
+    const player = end[2] === "W" ? "WHITE" : "BLACK";
+    return end[1] === "timeout"
+      ? { type: "timeout", player }
+      : { type: "resign", player };
+  }
+  return parseMove(text, config);
+}
+
+export function encodeGame(
+  id: string,
+  tree: GameTree,
+  players: Players,
+  savedAt: number = Date.now(),
+  clock: ClockState | null = null,
+): SavedGame {
+  const index = new Map([[tree.root, 0]]);
+  const nodes: Array<[number, string]> = [];
+  const stack = [...getNode(tree, tree.root).children].reverse();
+  while (stack.length > 0) {
+    const node = getNode(tree, stack.pop()!);
+    nodes.push([index.get(node.parent!)!, encodeAction(node.action!)]);
+    index.set(node.id, nodes.length);
+    for (let i = node.children.length - 1; i >= 0; i--) stack.push(node.children[i]);
+  }
+  const state = currentState(tree);
+  const start = getNode(tree, tree.root).state;
+  const position = formatPosition(start);
+  const moved = position !== formatPosition(newGame(start.config, start.rules));
+  return {
+    id,
+    savedAt,
+    config: state.config,
+    rules: state.rules,
+    players,
+    ...(moved && { position }),
+    nodes,
+    current: index.get(tree.current)!,
+    moves: state.moves.length,
+    toMove: state.toMove,
+    gameOver: state.gameOver,
+    result: formatResult(state),
+    ...(clock && { clock }),
+  };
+}
+
+// The start of a saved game: its position if it has one, else the initial board.
+function savedStart(saved: SavedGame): GameSnapshot | null {
+  if (saved.position === undefined) return newGame(saved.config, saved.rules);
+  const parsed = parsePosition(saved.position);
+  if (!parsed || !sameLayout(parsed.config, saved.config)) return null;
+  return gameFromPosition(saved.config, saved.rules, parsed.board, parsed.toMove);
+}
+
+// Rebuilds a saved game's tree by replaying its moves; null if any move is illegal or
+// the node list is inconsistent.
+export function decodeGame(saved: SavedGame): GameTree | null {
+  const start = savedStart(saved);
+  if (!start) return null;
+  let tree = newTree(start);
+  const ids = [tree.root];
+  for (const [parent, text] of saved.nodes) {
+    const action = decodeAction(text, saved.config);
+    if (ids[parent] === undefined || !action) return null;
+    const res = playMove(goTo(tree, ids[parent]), action);
+    // A repeated sibling would follow the existing node instead of adding one
+    if (!res.ok || res.tree.nodes.size === tree.nodes.size) return null;
+    tree = res.tree;
+    ids.push(tree.current);
+  }
+  const current = ids[saved.current];
+  return current === undefined ? null : goTo(tree, current);
+}
+
+// The list with `game` added or replaced and moved to the front, capped at
+// MAX_SAVED_GAMES.
+export function upsertGame(games: SavedGame[], game: SavedGame): SavedGame[] {
+  return [game, ...games.filter((g) => g.id !== game.id)].slice(0, MAX_SAVED_GAMES);
+}
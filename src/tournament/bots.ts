@@ -0,0 +1,46 @@
+// The bots a tournament can enter, by name. To measure a change to a bot, register the
+// changed version beside the original under a new name and play them against each
+// other (see run-tournament.ts).
+
+import { chooseBotMove } from "../game/bot";
+import { runMcts, searchPosition } from "../game/mcts";
+import type { Move } from "../game/notation";
+import type { Rng } from "../game/rng";
+import { legalMovesFor, type GameState } from "../game/state";
+
+export type TournamentBot = {
+  description: string;
+  // The move of the side to move in a game that is not over; `rng` is the game's
+  // seeded source of randomness, so tournaments can be replayed
+  move(state: GameState, rng: Rng): Move;
+};
+
+export const BOTS: Record<string, TournamentBot> = {
+  random: {
+    description: "a uniformly random legal move",
+    move(state, rng) {
+      const cells: Move[] = [];
+      legalMovesFor(state).forEach((row, r) =>
+        row.forEach((ok, c) => ok && cells.push({ type: "place", r, c })),
+      );
+      if (cells.length === 0) return { type: "pass" };
+      return cells[Math.floor(rng() * cells.length)];
+    },
+  },
+  easy: {
+    description: "heuristic bot, easy level",
+    move: (state, rng) => chooseBotMove(state, "easy", rng),
+  },
+  medium: {
+    description: "heuristic bot, medium level",
+    move: (state, rng) => chooseBotMove(state, "medium", rng),
+  },
+  hard: {
+    description: "heuristic bot, hard level",
+    move: (state, rng) => chooseBotMove(state, "hard", rng),
+  },
+  mcts: {
+    description: "Monte Carlo tree search, 300 playouts a move",
+    move: (state, rng) => runMcts(searchPosition(state), { playouts: 300 }, { rng }).move,
+  },
+};
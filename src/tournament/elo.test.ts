@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { estimateElo, type PairResult } from "./elo";
+
+const games = (a: string, b: string, wins: number, losses: number): PairResult[] => [
+  ...Array.from({ length: wins }, () => ({ a, b, score: 1 })),
+  ...Array.from({ length: losses }, () => ({ a, b, score: 0 })),
+];
+
+describe("Elo estimates", () => {
+  it("rates an even match equally and a stronger player higher", () => {
+    const even = estimateElo(["a", "b"], games("a", "b", 5, 5));
+    expect(even.a.rating).toBeCloseTo(0, 5);
+    expect(even.b.rating).toBeCloseTo(0, 5);
+
+    // 3:1 odds between equal-weight players is about 191 points
+    const r = estimateElo(["a", "b"], games("a", "b", 300, 100));
+    expect(r.a.rating - r.b.rating).toBeGreaterThan(180);
+    expect(r.a.rating - r.b.rating).toBeLessThan(195);
+    expect(r.a.rating + r.b.rating).toBeCloseTo(0, 5);
+  });
+
+  it("keeps perfect scores finite and narrows the error bars with more games", () => {
+    const few = estimateElo(["a", "b"], games("a", "b", 4, 0));
+    expect(Number.isFinite(few.a.rating)).toBe(true);
+    expect(few.a.rating).toBeGreaterThan(0);
+    const many = estimateElo(["a", "b"], games("a", "b", 40, 40));
+    expect(many.a.error).toBeLessThan(few.a.error);
+    expect(many.a.error).toBeGreaterThan(50);
+  });
+});
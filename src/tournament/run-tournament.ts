@@ -0,0 +1,111 @@
+// Runs a bot tournament: `node dist-node/tournament.js [options]` after `pnpm
+// build:node`. Prints a line per game to stderr as it goes, then the report; --json
+// saves the full result (every game included) as JSON.
+
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { MAX_BOARD_SIZE, MIN_BOARD_SIZE, presetConfig } from "../game/engine";
+import { DEFAULT_RULESET, validateRuleset } from "../game/rules";
+import { BOTS } from "./bots";
+import {
+  TOURNAMENT_FORMATS,
+  formatReport,
+  runTournament,
+  type TournamentFormat,
+} from "./tournament";
+
+const USAGE = `Usage: node dist-node/tournament.js [options]
+
+Options:
+  --bots A,B,...       the bots to enter (default ${Object.keys(BOTS).join(",")});
+                       a gauntlet's challenger first
+  --format F           round-robin (default) or gauntlet
+  --boards N|RxC,...   board sizes (default 8x8)
+  --games N            games per pairing on each board, colors alternating (default 4)
+  --komi K             komi added to White's score (default 0)
+  --max-moves N        score a game as it stands after N moves
+  --seed N             seed for the bots' randomness (default 1)
+  --json FILE          save the result as JSON
+  --help               show this message
+
+Bots:
+${Object.entries(BOTS)
+  .map(([name, bot]) => `  ${name.padEnd(20)} ${bot.description}`)
+  .join("\n")}`;
+
+function fail(message: string): never {
+  console.error(`anchorhex tournament: ${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+function readOptions() {
+  try {
+    return parseArgs({
+      options: {
+        bots: { type: "string", default: Object.keys(BOTS).join(",") },
+        format: { type: "string", default: "round-robin" },
+        boards: { type: "string", default: "8x8" },
+        games: { type: "string", default: "4" },
+        komi: { type: "string", default: "0" },
+        "max-moves": { type: "string" },
+        seed: { type: "string", default: "1" },
+        json: { type: "string" },
+        help: { type: "boolean", default: false },
+      },
+    }).values;
+  } catch (e) {
+    return fail((e as Error).message);
+  }
+}
+
+const values = readOptions();
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+const count = (text: string | undefined, what: string) => {
+  const n = Number(text);
+  if (!Number.isInteger(n) || n < 1) fail(`bad ${what} "${text}"`);
+  return n;
+};
+
+const names = values.bots.split(",").map((n) => n.trim());
+const unknown = names.find((n) => !(n in BOTS));
+if (unknown !== undefined) fail(`unknown bot "${unknown}"`);
+if (new Set(names).size !== names.length) fail("a bot is entered twice");
+if (names.length < 2) fail("a tournament needs at least two bots");
+const format = values.format as TournamentFormat;
+if (!TOURNAMENT_FORMATS.includes(format)) fail(`unknown format "${values.format}"`);
+const boards = values.boards.split(",").map((text) => {
+  const m = /^(\d+)(?:x(\d+))?$/.exec(text.trim());
+  const [rows, cols] = [Number(m?.[1]), Number(m?.[2] ?? m?.[1])];
+  if (![rows, cols].every((n) => n >= MIN_BOARD_SIZE && n <= MAX_BOARD_SIZE))
+    fail(`bad board size "${text}"`);
+  return presetConfig(rows, cols);
+});
+const komi = Number(values.komi);
+if (boards.some((b) => validateRuleset({ ...DEFAULT_RULESET, komi }, b).length > 0))
+  fail(`bad komi "${values.komi}"`);
+
+const result = runTournament({
+  bots: Object.fromEntries(names.map((n) => [n, BOTS[n]])),
+  format,
+  boards,
+  gamesPerPairing: count(values.games, "number of games"),
+  komi,
+  maxMoves:
+    values["max-moves"] === undefined
+      ? undefined
+      : count(values["max-moves"], "move limit"),
+  seed: Number.isInteger(Number(values.seed)) ? Number(values.seed) : fail("bad seed"),
+  onGame: (g, played, total) => {
+    const result =
+      g.winner === null ? "draw" : `${g.winner === "BLACK" ? g.black : g.white} wins`;
+    console.error(
+      `[${played}/${total}] ${g.board} ${g.black} (B) vs ${g.white} (W): ${result}, ` +
+        `${g.score.black}-${g.score.white} (${g.reason}, ${g.moves} moves)`,
+    );
+  },
+});
+console.log(formatReport(result));
+if (values.json) writeFileSync(values.json, JSON.stringify(result, null, 2) + "\n");
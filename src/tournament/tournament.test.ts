@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { presetConfig } from "../game/engine";
+import { BOTS, type TournamentBot } from "./bots";
+import { formatReport, playGame, runTournament } from "./tournament";
+
+const options = {
+  boards: [presetConfig(4, 4), presetConfig(5, 5)],
+  gamesPerPairing: 2,
+  komi: 0.5,
+  seed: 7,
+};
+
+describe("AnchorHex tournaments", () => {
+  it("plays a round robin with alternating colors and sums it up", () => {
+    const bots = { random: BOTS.random, easy: BOTS.easy, medium: BOTS.medium };
+    const result = runTournament({ ...options, bots, format: "round-robin" });
+    // 3 pairings, 2 games each, on 2 boards
+    expect(result.games).toHaveLength(12);
+    expect(result.games.slice(0, 2).map((g) => [g.black, g.white])).toEqual([
+      ["random", "easy"],
+      ["random", "medium"],
+    ]);
+    expect(result.games.slice(3, 5).map((g) => [g.black, g.white])).toEqual([
+      ["easy", "random"],
+      ["medium", "random"],
+    ]);
+    for (const g of result.games) {
+      expect(g.reason).toBe("score");
+      expect(g.winner).toBe(g.score.black > g.score.white ? "BLACK" : "WHITE");
+    }
+    for (const s of result.standings) {
+      expect(s.games).toBe(8);
+      expect(s.wins + s.draws + s.losses).toBe(8);
+    }
+    expect(
+      result.crosstable.easy.random.points + result.crosstable.random.easy.points,
+    ).toBe(4);
+    // The same seed replays the same games
+    expect(runTournament({ ...options, bots, format: "round-robin" }).games).toEqual(
+      result.games,
+    );
+
+    const report = formatReport(result);
+    expect(report).toContain(
+      "AnchorHex round-robin tournament: 3 bots, 12 games on 4x4, 5x5",
+    );
+    expect(report).toMatch(/Average game length: \d+\.\d moves/);
+  });
+
+  it("pits a gauntlet's challenger against each of the others", () => {
+    const bots = { hard: BOTS.hard, random: BOTS.random, easy: BOTS.easy };
+    const result = runTournament({
+      ...options,
+      bots,
+      format: "gauntlet",
+      gamesPerPairing: 1,
+    });
+    expect(result.games.map((g) => [g.black, g.white])).toEqual([
+      ["hard", "random"],
+      ["hard", "easy"],
+      ["hard", "random"],
+      ["hard", "easy"],
+    ]);
+    expect(result.crosstable.random.easy.games).toBe(0);
+    expect(formatReport(result)).toContain("Crosstable");
+  });
+
+  it("forfeits a bot that makes an illegal move", () => {
+    const cheat: TournamentBot = {
+      description: "plays on its opponent's base",
+      move: (state) => ({ type: "place", ...state.config.whiteBase }),
+    };
+    const game = playGame(
+      { BLACK: { name: "cheat", bot: cheat }, WHITE: { name: "easy", bot: BOTS.easy } },
+      presetConfig(4, 4),
+      0,
+      () => 0.5,
+    );
+    expect(game).toMatchObject({ winner: "WHITE", reason: "illegal", moves: 0 });
+  });
+});
@@ -0,0 +1,313 @@
+// Self-play tournaments between registered bots (see bots.ts): a round robin (every bot
+// against every other) or a gauntlet (the first bot against each of the others), on
+// one or more boards, with colors alternating between the games of a pairing. Games
+// run through the reducer, so bots are held to the rules, and stop when the game is
+// over or `bothNoMoves`; the area score (`computeAreaScore`, plus komi) decides them.
+// A bot that makes an illegal move loses the game.
+
+import {
+  bothNoMoves,
+  computeAreaScore,
+  type GameConfig,
+  type Player,
+} from "../game/engine";
+import { seededRng, type Rng } from "../game/rng";
+import { DEFAULT_RULESET } from "../game/rules";
+import { applyAction, newGame, opponent, totalCaptures } from "../game/state";
+import type { TournamentBot } from "./bots";
+import { estimateElo, type PairResult } from "./elo";
+
+export type TournamentFormat = "round-robin" | "gauntlet";
+
+export const TOURNAMENT_FORMATS: readonly TournamentFormat[] = [
+  "round-robin",
+  "gauntlet",
+];
+
+export type TournamentOptions = {
+  bots: Record<string, TournamentBot>; // entrants in order; a gauntlet's challenger first
+  format: TournamentFormat;
+  boards: GameConfig[];
+  gamesPerPairing: number; // on each board; colors alternate
+  komi: number;
+  maxMoves?: number; // then a game is scored as it stands; default rows * cols * 4
+  seed: number;
+  onGame?: (game: TournamentGame, played: number, total: number) => void;
+};
+
+export type TournamentGame = {
+  board: string; // "8x8"
+  black: string;
+  white: string;
+  winner: Player | null; // null on a draw
+  reason: "score" | "limit" | "illegal";
+  score: { black: number; white: number }; // area score, komi included
+  moves: number; // passes included
+  captured: { black: number; white: number }; // stones captured by each side
+};
+
+export type Standing = {
+  bot: string;
+  elo: number;
+  eloError: number; // half-width of the 95% interval
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  points: number; // a win is 1, a draw 1/2
+  averageLength: number; // moves per game
+  captured: number; // stones of the opponent's captured, per game
+  lost: number; // own stones lost, per game
+};
+
+export type TournamentResult = {
+  format: TournamentFormat;
+  boards: string[];
+  komi: number;
+  gamesPerPairing: number;
+  seed: number;
+  standings: Standing[]; // best rating first
+  // crosstable[row][column]: the row bot's points against the column bot, of `games`
+  crosstable: Record<string, Record<string, { points: number; games: number }>>;
+  averageLength: number;
+  capturesPerGame: { black: number; white: number };
+  games: TournamentGame[];
+};
+
+export const boardName = (config: GameConfig) => `${config.rows}x${config.cols}`;
+
+export function playGame(
+  bots: Record<Player, { name: string; bot: TournamentBot }>,
+  config: GameConfig,
+  komi: number,
+  rng: Rng,
+  maxMoves = config.rows * config.cols * 4,
+): TournamentGame {
+  let state = newGame(config, { ...DEFAULT_RULESET, komi });
+  let forfeit: Player | null = null;
+  while (!state.gameOver && !bothNoMoves(state.board, config)) {
+    if (state.moves.length >= maxMoves) break;
+    const res = applyAction(state, bots[state.toMove].bot.move(state, rng));
+    if (!res.ok) {
+      forfeit = state.toMove;
+      break;
+    }
+    state = res.state;
+  }
+
+  const area = computeAreaScore(state.board, config);
+  const score = { black: area.black, white: area.white + komi };
+  const byScore =
+    score.black > score.white ? "BLACK" : score.white > score.black ? "WHITE" : null;
+  const over = state.gameOver || bothNoMoves(state.board, config);
+  const captures = totalCaptures(state.moves);
+  return {
+    board: boardName(config),
+    black: bots.BLACK.name,
+    white: bots.WHITE.name,
+    winner: forfeit ? opponent(forfeit) : byScore,
+    reason: forfeit ? "illegal" : over ? "score" : "limit",
+    score,
+    moves: state.moves.length,
+    captured: { black: captures.black, white: captures.white },
+  };
+}
+
+// The pairings to play: every pair of bots, or the first bot against each other one
+function pairings(names: string[], format: TournamentFormat): Array<[string, string]> {
+  if (format === "gauntlet") return names.slice(1).map((n) => [names[0], n]);
+  return names.flatMap((a, i) => names.slice(i + 1).map((b): [string, string] => [a, b]));
+}
+
+export function runTournament(options: TournamentOptions): TournamentResult {
+  const { bots, format, boards, gamesPerPairing, komi, seed } = options;
+  const names = Object.keys(bots);
+  const schedule = boards.flatMap((config) =>
+    Array.from({ length: gamesPerPairing }, (_, g) =>
+      pairings(names, format).map(([a, b]) => ({
+        config,
+        black: g % 2 === 0 ? a : b,
+        white: g % 2 === 0 ? b : a,
+      })),
+    ).flat(),
+  );
+
+  const games = schedule.map(({ config, black, white }, i) => {
+    const game = playGame(
+      {
+        BLACK: { name: black, bot: bots[black] },
+        WHITE: { name: white, bot: bots[white] },
+      },
+      config,
+      komi,
+      seededRng(seed * 100_003 + i), // each game on its own stream
+      options.maxMoves,
+    );
+    options.onGame?.(game, i + 1, schedule.length);
+    return game;
+  });
+
+  return {
+    format,
+    boards: boards.map(boardName),
+    komi,
+    gamesPerPairing,
+    seed,
+    ...summarize(names, games),
+    games,
+  };
+}
+
+const pointsFor = (game: TournamentGame, side: Player) =>
+  game.winner === null ? 0.5 : game.winner === side ? 1 : 0;
+
+// Standings, crosstable and averages of a set of games
+function summarize(names: string[], games: TournamentGame[]) {
+  const crosstable = Object.fromEntries(
+    names.map((a) => [
+      a,
+      Object.fromEntries(
+        names.filter((b) => b !== a).map((b) => [b, { points: 0, games: 0 }]),
+      ),
+    ]),
+  );
+  const results: PairResult[] = [];
+  const totals = Object.fromEntries(
+    names.map((n) => [
+      n,
+      {
+        games: 0,
+        wins: 0,
+        draws: 0,
+        losses: 0,
+        points: 0,
+        moves: 0,
+        captured: 0,
+        lost: 0,
+      },
+    ]),
+  );
+  for (const game of games) {
+    results.push({ a: game.black, b: game.white, score: pointsFor(game, "BLACK") });
+    for (const side of ["BLACK", "WHITE"] as const) {
+      const [me, other] =
+        side === "BLACK" ? (["black", "white"] as const) : (["white", "black"] as const);
+      const t = totals[game[me]];
+      const points = pointsFor(game, side);
+      t.games++;
+      t.points += points;
+      if (points === 1) t.wins++;
+      else if (points === 0) t.losses++;
+      else t.draws++;
+      t.moves += game.moves;
+      t.captured += game.captured[me];
+      t.lost += game.captured[other];
+      const cell = crosstable[game[me]][game[other]];
+      cell.points += points;
+      cell.games++;
+    }
+  }
+
+  const ratings = estimateElo(names, results);
+  const perGame = (n: number, of: number) => (of === 0 ? 0 : n / of);
+  const standings: Standing[] = names
+    .map((bot) => {
+      const t = totals[bot];
+      return {
+        bot,
+        elo: ratings[bot].rating,
+        eloError: ratings[bot].error,
+        games: t.games,
+        wins: t.wins,
+        draws: t.draws,
+        losses: t.losses,
+        points: t.points,
+        averageLength: perGame(t.moves, t.games),
+        captured: perGame(t.captured, t.games),
+        lost: perGame(t.lost, t.games),
+      };
+    })
+    .sort((a, b) => b.elo - a.elo);
+
+  const sum = (f: (g: TournamentGame) => number) => games.reduce((n, g) => n + f(g), 0);
+  return {
+    standings,
+    crosstable,
+    averageLength: perGame(
+      sum((g) => g.moves),
+      games.length,
+    ),
+    capturesPerGame: {
+      black: perGame(
+        sum((g) => g.captured.black),
+        games.length,
+      ),
+      white: perGame(
+        sum((g) => g.captured.white),
+        games.length,
+      ),
+    },
+  };
+}
+
+const fixed = (n: number, digits = 1) => n.toFixed(digits);
+const signed = (n: number) => `${n >= 0 ? "+" : ""}${Math.round(n)}`;
+
+// Left-aligned columns, two spaces apart
+function table(rows: string[][]): string[] {
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+  return rows.map((r) =>
+    r
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd(),
+  );
+}
+
+// The result as text: standings, crosstable and game statistics.
+export function formatReport(result: TournamentResult): string {
+  const { standings, crosstable } = result;
+  const names = standings.map((s) => s.bot);
+  const komi = result.komi !== 0 ? `, komi ${result.komi}` : "";
+  const header =
+    `AnchorHex ${result.format} tournament: ${names.length} bots, ` +
+    `${result.games.length} games on ${result.boards.join(", ")}${komi} (seed ${result.seed})`;
+
+  const standingRows = [
+    ["#", "Bot", "Elo", "Games", "W-D-L", "Score", "Length", "Captured", "Lost"],
+    ...standings.map((s, i) => [
+      String(i + 1),
+      s.bot,
+      `${signed(s.elo)} ± ${Math.round(s.eloError)}`,
+      String(s.games),
+      `${s.wins}-${s.draws}-${s.losses}`,
+      s.games === 0 ? "-" : `${fixed((100 * s.points) / s.games)}%`,
+      fixed(s.averageLength),
+      fixed(s.captured, 2),
+      fixed(s.lost, 2),
+    ]),
+  ];
+  const crossRows = [
+    ["", ...names],
+    ...names.map((a) => [
+      a,
+      ...names.map((b) => {
+        const cell = crosstable[a][b];
+        return !cell || cell.games === 0 ? "-" : `${cell.points}/${cell.games}`;
+      }),
+    ]),
+  ];
+  const { black, white } = result.capturesPerGame;
+  return [
+    header,
+    "",
+    ...table(standingRows),
+    "",
+    "Crosstable (points of the row bot against the column bot):",
+    ...table(crossRows),
+    "",
+    `Average game length: ${fixed(result.averageLength)} moves`,
+    `Stones captured per game: ${fixed(black + white, 2)} ` +
+      `(by Black ${fixed(black, 2)}, by White ${fixed(white, 2)})`,
+  ].join("\n");
+}
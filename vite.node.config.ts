@@ -0,0 +1,20 @@
+import { defineConfig } from "vite";
+
+// Builds the Node entry points (the online play server, the CLI, the protocol engine,
+// the match referee and the tournament runner) into dist-node/.
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: "dist-node",
+    target: "node20",
+    rollupOptions: {
+      input: {
+        server: "src/net/serve.ts",
+        cli: "src/cli/main.ts",
+        engine: "src/gtp/run-engine.ts",
+        match: "src/gtp/run-match.ts",
+        tournament: "src/tournament/run-tournament.ts",
+      },
+    },
+  },
+});